@@ -1,6 +1,6 @@
 
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { Node } from './components/Node';
 import { SidebarDock } from './components/SidebarDock';
 import { AssistantPanel } from './components/AssistantPanel';
@@ -9,20 +9,52 @@ import { SketchEditor } from './components/SketchEditor';
 import { SmartSequenceDock } from './components/SmartSequenceDock';
 import { SonicStudio } from './components/SonicStudio'; 
 import { SettingsModal } from './components/SettingsModal';
-import { AppNode, NodeType, NodeStatus, Connection, ContextMenuState, Group, Workflow, SmartSequenceItem } from './types';
-import { generateImageFromText, generateVideo, analyzeVideo, editImageWithText, planStoryboard, orchestrateVideoPrompt, compileMultiFramePrompt, urlToBase64, extractLastFrame, generateAudio } from './services/geminiService';
+import { ProjectBrowser } from './components/ProjectBrowser';
+import { HistoryPanel } from './components/HistoryPanel';
+import { JobsPanel } from './components/JobsPanel';
+import { RunHistoryDrawer } from './components/RunHistoryDrawer';
+import { UsageDashboard } from './components/UsageDashboard';
+import { StorageManager } from './components/StorageManager';
+import { CollabPanel } from './components/CollabPanel';
+import { TimelineEditor } from './components/TimelineEditor';
+import { AppNode, NodeType, NodeStatus, Connection, ContextMenuState, Group, Workflow, SmartSequenceItem, Project, Asset, AssetProvenance } from './types';
+import { planStoryboard, orchestrateVideoPrompt, urlToBase64, extractLastFrame } from './services/geminiService';
+import { generateImage, generateAudio, analyzeVideo, getModelInfo } from './services/providers';
+import { SequenceSegment, pickClipDuration, stitchSegments } from './services/smartSequence';
 import { getGenerationStrategy } from './services/videoStrategies';
-import { saveToStorage, loadFromStorage } from './services/storage';
+import { refreshTimeline, toRenderOptions } from './services/timeline';
+import { mergeAudio, renderVideo } from './services/mediaEngine';
+import { DEFAULT_AUDIO_MERGE, toMergeOptions } from './services/audioMerge';
+import { GenerationJob, enqueueVideoJob, waitForJob, subscribeJobs, setJobOutcomeHandler, adoptJobs, cancelJob, retryJob, clearFinishedJobs, listJobs, isActiveJob } from './services/jobQueue';
+import { executeGraph, collectDownstream } from './services/graphExecutor';
+import { cloneGraph, offsetToCenter } from './services/graphClone';
+import { isStoryboardPrompt, expandStoryboard } from './services/storyboard';
+import { CanvasState, CanvasPatch, HistoryCommandType, HistoryStack, EMPTY_HISTORY, PatchDirection, diffCanvas, isPatchEmpty, stripTransient, applyNodePatch, applyGroupPatch, applyConnectionPatch, patchDiscardsMedia, pushCommand } from './services/history';
+import { exportArchive, importArchive, ARCHIVE_EXTENSION } from './services/archive';
+import { computeNodeHashes, isNodeStale, isNodeUpToDate } from './services/nodeHash';
+import { formatProgress, describeVariantErrors } from './services/batch';
+import { keepPinnedVariants } from './services/variants';
+import { NodeRun, RunOutputs, recordRun, snapshotRunParams, restoreRunPatch, runParamsPatch } from './services/runHistory';
+import { LOCAL_PROVIDER, buildProvenance, exportAssetWithProvenance, exportAssetBundle } from './services/provenance';
+import { AssetPatch, applyAssetPatch } from './services/assetLibrary';
+import { EvictionPolicy, bytesOverTarget, estimateStorage, evictAssets, formatBytes, isQuotaError, loadEvictionPolicy } from './services/storageManager';
+import { setUsageProject, estimateRunCost, formatCost, loadBudgets, loadProjectUsage, summarizeUsage, checkBudget } from './services/usage';
+import { createAutosave, Autosave, SaveStatus } from './services/autosave';
+import { createTabSync, TabSync, ProjectChangeScope } from './services/tabSync';
+import { CanvasBinding, CollabConnection, CollabJoinMode, CollabStatus, PeerPresence, bindCanvas, connectCollab, listPeers, pickUserColor, readCanvas, wouldReplaceCanvas } from './services/collab';
+import { listProjects, loadProject, saveProject, deleteProject, duplicateProject, saveNodes, saveNodeChanges, loadAllNodes, loadAssets, saveAssets, saveAssetChanges, loadWorkflows, internNodeMedia, internMedia, internRemoteMedia, putMedia, isMediaRef, hasInlineMedia, garbageCollectMedia, loadRuns, loadJobs, loadQuarantine, MEDIA_REF_PREFIX } from './services/storage';
+import { useMediaUrl, revokeMediaObjectUrl } from './services/mediaResolver';
 import { 
     Plus, Copy, Trash2, Type, Image as ImageIcon, Video as VideoIcon, 
     ScanFace, Brush, MousePointerClick, LayoutTemplate, X, Film, Link, RefreshCw, Upload,
-    Minus, FolderHeart, Unplug, Sparkles, ChevronLeft, ChevronRight, Scan, Music, Mic2
+    Minus, FolderHeart, Unplug, Sparkles, ChevronLeft, ChevronRight, Scan, Music, Mic2, Clapperboard, Play, PlayCircle, AlertTriangle, Columns2, CheckCircle2, Loader2, CloudOff, Lock, MousePointer2, Combine
 } from 'lucide-react';
 
 // Apple Physics Curve
 const SPRING = "cubic-bezier(0.32, 0.72, 0, 1)";
 const SNAP_THRESHOLD = 8; // Pixels for magnetic snap
 const COLLISION_PADDING = 24; // Spacing when nodes bounce off each other
+const SEQUENCE_MODEL = 'veo-3.1-generate-preview'; // Renders Smart Sequence transitions
 
 // Helper to get image dimensions
 const getImageDimensions = (src: string): Promise<{width: number, height: number}> => {
@@ -34,15 +66,64 @@ const getImageDimensions = (src: string): Promise<{width: number, height: number
     });
 };
 
+// A/B comparison of two variants: a wipe slider for images, side-by-side synced playback for videos
+const CompareView = ({ a, b, isVideo }: { a: string, b: string, isVideo: boolean }) => {
+    const srcA = useMediaUrl(a);
+    const srcB = useMediaUrl(b);
+    const [wipe, setWipe] = useState(50);
+    const videoARef = useRef<HTMLVideoElement>(null);
+    const videoBRef = useRef<HTMLVideoElement>(null);
+
+    // B follows A: play state and position are mirrored, small drifts are left alone to avoid stutter
+    const syncB = useCallback(() => {
+        const va = videoARef.current, vb = videoBRef.current;
+        if (!va || !vb) return;
+        if (Math.abs(vb.currentTime - va.currentTime) > 0.15) vb.currentTime = va.currentTime;
+        if (va.paused !== vb.paused) { if (va.paused) vb.pause(); else vb.play().catch(() => {}); }
+    }, []);
+
+    if (isVideo) {
+        return (
+            <div className="flex gap-4 items-center max-w-full">
+                <div className="relative flex-1 min-w-0">
+                    <video ref={videoARef} key={a} src={srcA} className="w-full max-h-[75vh] object-contain rounded-lg bg-[#0a0a0c]" controls autoPlay muted loop playsInline onTimeUpdate={syncB} onPlay={syncB} onPause={syncB} onSeeked={syncB} />
+                    <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/60 text-[10px] font-bold text-white">A</span>
+                </div>
+                <div className="relative flex-1 min-w-0">
+                    <video ref={videoBRef} key={b} src={srcB} className="w-full max-h-[75vh] object-contain rounded-lg bg-[#0a0a0c]" muted loop playsInline />
+                    <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/60 text-[10px] font-bold text-white">B</span>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="relative max-w-full max-h-[85vh] select-none">
+            <img src={srcA} className="max-w-full max-h-[85vh] object-contain rounded-lg bg-[#0a0a0c]" draggable={false} />
+            <img src={srcB} className="absolute inset-0 w-full h-full object-contain rounded-lg" style={{ clipPath: `inset(0 0 0 ${wipe}%)` }} draggable={false} />
+            <div className="absolute top-0 bottom-0 w-0.5 bg-white/80 shadow-[0_0_8px_rgba(0,0,0,0.6)] pointer-events-none" style={{ left: `${wipe}%` }} />
+            <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/60 text-[10px] font-bold text-white">A</span>
+            <span className="absolute top-2 right-2 px-2 py-0.5 rounded bg-black/60 text-[10px] font-bold text-white">B</span>
+            <input type="range" min={0} max={100} step={0.5} value={wipe} onChange={e => setWipe(Number(e.target.value))} className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize" aria-label="对比滑块" />
+        </div>
+    );
+};
+
 // Expanded View Component (Modal)
 const ExpandedView = ({ media, onClose }: { media: any, onClose: () => void }) => {
     const [visible, setVisible] = useState(false);
     const [currentIndex, setCurrentIndex] = useState(0);
+    const [isComparing, setIsComparing] = useState(false);
+    const [compareIndex, setCompareIndex] = useState(1);
+    const [primarySrc, setPrimarySrc] = useState<string | undefined>(undefined);
     
     useEffect(() => {
         if (media) {
             requestAnimationFrame(() => setVisible(true));
             setCurrentIndex(media.initialIndex || 0);
+            setIsComparing(!!media.compare && media.images?.length > 1);
+            setCompareIndex(media.images?.length > 1 ? ((media.initialIndex || 0) + 1) % media.images.length : 0);
+            setPrimarySrc(media.src);
         } else {
             setVisible(false);
         }
@@ -80,11 +161,15 @@ const ExpandedView = ({ media, onClose }: { media: any, onClose: () => void }) =
         return () => window.removeEventListener('keydown', handleKeyDown);
     }, [visible, handleClose, handleNext, handlePrev]);
 
+    // Determine current source and type
+    const currentSrc = media ? (hasMultiple ? media.images[currentIndex] : media.src) : undefined;
+    const displaySrc = useMediaUrl(currentSrc);
+
     if (!media) return null;
     
-    // Determine current source and type
-    const currentSrc = hasMultiple ? media.images[currentIndex] : media.src;
     const isVideo = (media.type === 'video') && !(currentSrc && currentSrc.startsWith('data:image'));
+    const canSelect = media.onSelect && currentSrc && currentSrc !== primarySrc;
+    const selectCurrent = (e: React.MouseEvent) => { e.stopPropagation(); media.onSelect(currentSrc); setPrimarySrc(currentSrc); };
 
     return (
         <div className={`fixed inset-0 z-[100] flex items-center justify-center transition-all duration-500 ease-[${SPRING}] ${visible ? 'bg-black/90 backdrop-blur-xl' : 'bg-transparent pointer-events-none opacity-0'}`} onClick={handleClose}>
@@ -100,17 +185,19 @@ const ExpandedView = ({ media, onClose }: { media: any, onClose: () => void }) =
                 )}
 
                 <div className="relative max-w-full max-h-full flex flex-col items-center">
-                    {!isVideo ? (
+                    {isComparing ? (
+                        <CompareView a={media.images[currentIndex]} b={media.images[compareIndex]} isVideo={isVideo} />
+                    ) : !isVideo ? (
                         <img 
                             key={currentSrc} 
-                            src={currentSrc} 
+                            src={displaySrc} 
                             className="max-w-full max-h-[85vh] object-contain rounded-lg shadow-2xl animate-in fade-in duration-300 bg-[#0a0a0c]" 
                             draggable={false} 
                         />
                     ) : (
                         <video 
                             key={currentSrc} 
-                            src={currentSrc} 
+                            src={displaySrc} 
                             className="max-w-full max-h-[85vh] object-contain rounded-lg shadow-2xl animate-in fade-in duration-300 bg-[#0a0a0c]" 
                             controls 
                             autoPlay 
@@ -121,7 +208,7 @@ const ExpandedView = ({ media, onClose }: { media: any, onClose: () => void }) =
                         />
                     )}
                     
-                    {hasMultiple && (
+                    {hasMultiple && !isComparing && (
                         <div className="absolute -bottom-12 left-1/2 -translate-x-1/2 flex gap-2">
                             {media.images.map((_:any, i:number) => (
                                 <div 
@@ -132,6 +219,18 @@ const ExpandedView = ({ media, onClose }: { media: any, onClose: () => void }) =
                             ))}
                         </div>
                     )}
+                    {isComparing && (
+                        <div className="absolute -bottom-14 left-1/2 -translate-x-1/2 flex flex-col gap-1.5">
+                            {([['A', currentIndex, setCurrentIndex], ['B', compareIndex, setCompareIndex]] as const).map(([label, active, setActive]) => (
+                                <div key={label} className="flex items-center gap-2">
+                                    <span className="text-[10px] font-bold text-slate-400 w-3">{label}</span>
+                                    {media.images.map((_: any, i: number) => (
+                                        <div key={i} onClick={(e) => { e.stopPropagation(); setActive(i); }} className={`w-2.5 h-2.5 rounded-full cursor-pointer transition-all ${i === active ? 'bg-cyan-500 scale-125' : 'bg-white/30 hover:bg-white/50'}`} />
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+                    )}
                 </div>
 
                 {hasMultiple && (
@@ -144,6 +243,10 @@ const ExpandedView = ({ media, onClose }: { media: any, onClose: () => void }) =
                 )}
 
              </div>
+             <div className="absolute top-6 left-6 flex gap-2 z-[110]">
+                {hasMultiple && <button onClick={(e) => { e.stopPropagation(); setIsComparing(c => !c); }} className={`px-4 py-2.5 rounded-full text-xs font-bold backdrop-blur-md transition-colors flex items-center gap-2 ${isComparing ? 'bg-cyan-500 text-black' : 'bg-white/10 hover:bg-white/20 text-white'}`}><Columns2 size={16} />{isComparing ? '退出对比' : 'A/B 对比'}</button>}
+                {canSelect && <button onClick={selectCurrent} className="px-4 py-2.5 rounded-full text-xs font-bold bg-white/10 hover:bg-white/20 text-white backdrop-blur-md transition-colors flex items-center gap-2"><CheckCircle2 size={16} />{isComparing ? '将 A 设为主结果' : '设为主结果'}</button>}
+             </div>
              <button onClick={handleClose} className="absolute top-6 right-6 p-3 bg-white/10 hover:bg-white/20 rounded-full text-white backdrop-blur-md transition-colors z-[110]"><X size={24} /></button>
         </div>
     );
@@ -156,6 +259,7 @@ export const App = () => {
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [selectedWorkflowId, setSelectedWorkflowId] = useState<string | null>(null);
   const [isLoaded, setIsLoaded] = useState(false); 
+  const [isGraphRunning, setIsGraphRunning] = useState(false);
   
   // Sketch Editor State
   const [isSketchEditorOpen, setIsSketchEditorOpen] = useState(false);
@@ -168,16 +272,38 @@ export const App = () => {
   
   // Settings State
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isStorageOpen, setIsStorageOpen] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null); // Last failed save (or load), until dismissed
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('saved');
+  const [isReadOnly, setIsReadOnly] = useState(false); // Another tab is editing the open project
+  const [isCollabOpen, setIsCollabOpen] = useState(false);
+  const [collabRoom, setCollabRoom] = useState<string | undefined>(); // Shared room the canvas is joined to
+  const [collabStatus, setCollabStatus] = useState<CollabStatus | undefined>();
+  const [peers, setPeers] = useState<PeerPresence[]>([]);
 
   // --- Canvas State ---
   const [nodes, setNodes] = useState<AppNode[]>([]);
   const [connections, setConnections] = useState<Connection[]>([]);
   const [groups, setGroups] = useState<Group[]>([]);
+  const [quarantinedCount, setQuarantinedCount] = useState(0); // Records that failed migration/validation on load
+
+  // Projects (null = project browser is showing)
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [activeProject, setActiveProject] = useState<Project | null>(null);
+  const [importReport, setImportReport] = useState<{ title: string, issues: string[], failed?: boolean } | null>(null);
   const [clipboard, setClipboard] = useState<AppNode | null>(null); 
   
-  // History
-  const [history, setHistory] = useState<any[]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
+  // History (command stack, see services/history.ts)
+  const [historyStack, setHistoryStack] = useState<HistoryStack>(EMPTY_HISTORY);
+  const [isHistoryPanelOpen, setIsHistoryPanelOpen] = useState(false);
+
+  // Generation jobs (persisted queue, see services/jobQueue.ts)
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [isJobsPanelOpen, setIsJobsPanelOpen] = useState(false);
+  const [runHistoryNodeId, setRunHistoryNodeId] = useState<string | null>(null);
+  const [timelineNodeId, setTimelineNodeId] = useState<string | null>(null);
+  const [runHistoryVersion, setRunHistoryVersion] = useState(0); // Bumped when a run is logged so the open drawer reloads
 
   // Viewport
   const [scale, setScale] = useState<number>(1);
@@ -215,8 +341,16 @@ export const App = () => {
   const nodesRef = useRef(nodes);
   const connectionsRef = useRef(connections);
   const groupsRef = useRef(groups);
-  const historyRef = useRef(history);
-  const historyIndexRef = useRef(historyIndex);
+  const historyStackRef = useRef(historyStack);
+  const activeProjectRef = useRef(activeProject);
+  const isReadOnlyRef = useRef(isReadOnly);
+  // The ref moves with the state so edit guards see a takeover before the next render
+  const setReadOnly = (readOnly: boolean) => { isReadOnlyRef.current = readOnly; setIsReadOnly(readOnly); };
+  const collabRef = useRef<{ connection: CollabConnection, binding: CanvasBinding } | null>(null);
+  const assetHistoryRef = useRef(assetHistory);
+  const jobOutcomeRef = useRef<(job: GenerationJob) => Promise<void>>();
+  const settleWaitersRef = useRef(new Map<string, (() => void)[]>()); // See waitForNodeSettled
+  const gestureStartRef = useRef<CanvasState | null>(null); // Canvas before the current drag/resize
   const connectionStartRef = useRef(connectionStart);
   const rafRef = useRef<number | null>(null); // For RAF Throttling
   
@@ -259,21 +393,69 @@ export const App = () => {
 
   useEffect(() => {
       nodesRef.current = nodes; connectionsRef.current = connections; groupsRef.current = groups;
-      historyRef.current = history; historyIndexRef.current = historyIndex; connectionStartRef.current = connectionStart;
-  }, [nodes, connections, groups, history, historyIndex, connectionStart]);
+      historyStackRef.current = historyStack; connectionStartRef.current = connectionStart;
+      activeProjectRef.current = activeProject; assetHistoryRef.current = assetHistory; isReadOnlyRef.current = isReadOnly;
+  }, [nodes, connections, groups, historyStack, connectionStart, activeProject, assetHistory, isReadOnly]);
+
+  // Effects run in background tabs too, unlike animation frames, so graph runs keep going there
+  useEffect(() => {
+      settleWaitersRef.current.forEach((resolvers, id) => {
+          if (nodes.find(n => n.id === id)?.status === NodeStatus.WORKING) return;
+          settleWaitersRef.current.delete(id);
+          resolvers.forEach(resolve => resolve());
+      });
+  }, [nodes]);
+
+  // Jobs can finish at any time (including ones resumed after a reload), so the handler always reads the latest closure
+  useEffect(() => {
+      setJobOutcomeHandler(job => jobOutcomeRef.current?.(job));
+      const unsubscribe = subscribeJobs(setJobs);
+      return () => { setJobOutcomeHandler(undefined); unsubscribe(); };
+  }, []);
+
+  // Mirrors the progress of running video jobs onto their nodes
+  useEffect(() => {
+      const projectId = activeProjectRef.current?.id;
+      const progress = new Map<string, string>();
+      jobs.forEach(j => { if (j.projectId === projectId && isActiveJob(j) && j.progress) progress.set(j.nodeId, j.progress); });
+      if (progress.size === 0) return;
+      setNodes(p => p.some(n => progress.has(n.id) && n.data.progress !== progress.get(n.id))
+          ? p.map(n => progress.has(n.id) ? { ...n, data: { ...n.data, progress: progress.get(n.id) } } : n)
+          : p);
+  }, [jobs]);
 
   // --- Persistence ---
   useEffect(() => {
       if (window.aistudio) window.aistudio.hasSelectedApiKey().then(hasKey => { if (!hasKey) window.aistudio.openSelectKey(); });
       const loadData = async () => {
           try {
-            const sAssets = await loadFromStorage<any[]>('assets'); if (sAssets) setAssetHistory(sAssets);
-            const sWfs = await loadFromStorage<Workflow[]>('workflows'); if (sWfs) setWorkflows(sWfs);
-            const sNodes = await loadFromStorage<AppNode[]>('nodes'); if (sNodes) setNodes(sNodes);
-            const sConns = await loadFromStorage<Connection[]>('connections'); if (sConns) setConnections(sConns);
-            const sGroups = await loadFromStorage<Group[]>('groups'); if (sGroups) setGroups(sGroups);
+            const sWfs = await loadWorkflows();
+            autosave.markSaved({ workflows: sWfs.records });
+            const wfs = await Promise.all(sWfs.records.map(async w => ({ ...w, thumbnail: await internMedia(w.thumbnail), nodes: await internNodeList(w.nodes) })));
+            setWorkflows(wfs);
+            const sProjects = await listProjects();
+            setProjects(sProjects.records);
+
+            // Media roots span every project, not just the one that gets opened
+            const allAssets = await loadAssets();
+            const allNodes = await loadAllNodes();
+            setQuarantinedCount(sWfs.quarantined + sProjects.quarantined + allAssets.quarantined + allNodes.quarantined);
+
+            // Nothing else references stored blobs yet (undo history starts empty), so orphans can be dropped safely here.
+            // Another open tab may hold refs it has not saved yet, so media is only collected when this tab is alone.
+            if ((await tabSync.listTabs()).length === 0) {
+                const storedJobs = await loadJobs();
+                const storedRuns = await loadRuns();
+                const quarantine = await loadQuarantine(); // Records that failed to load may still be repaired
+                garbageCollectMedia([allAssets.records, wfs, allNodes.records, storedJobs.map(j => j.params), storedRuns.map(r => r.outputs), quarantine.map(q => q.record)])
+                    .then(removed => removed.forEach(hash => revokeMediaObjectUrl(`${MEDIA_REF_PREFIX}${hash}`)))
+                    .catch(e => console.warn("Media GC failed", e));
+            }
           } catch (e) {
             console.error("Failed to load storage", e);
+            setStorageError(`读取本地数据失败：${(e as Error)?.message || e}`);
+            // New workflows are still saved; unreadable stored ones are left alone rather than deleted
+            autosave.markSaved({ workflows: [] });
           } finally {
             setIsLoaded(true); 
           }
@@ -281,17 +463,292 @@ export const App = () => {
       loadData();
   }, []);
 
+  // Frees space by dropping old asset history entries across all projects; the open project's list comes from state.
+  // Projects open in other tabs are skipped.
+  const runEviction = async (bytesToFree: number, policy: EvictionPolicy) => {
+      const projectId = activeProjectRef.current?.id;
+      await autosave.flush();
+      const locked = (await tabSync.listTabs()).flatMap(t => t.held);
+      const result = await evictAssets({ projectId, assets: assetHistoryRef.current, roots: [nodesRef.current, historyStackRef.current] }, bytesToFree, policy, locked);
+      result.removedRefs.forEach(revokeMediaObjectUrl);
+      if (result.evicted.some(c => c.projectId === projectId)) setAssetHistory(result.liveAssets);
+      return { count: result.evicted.length, freedBytes: result.evicted.reduce((n, c) => n + c.freedBytes, 0) };
+  };
+
+  // Saves run from effects, so failures are reported here instead of being lost as unhandled rejections
+  const autoEvictingRef = useRef(false);
+  const reportSaveError = useCallback(async (e: unknown) => {
+      console.error("Save failed", e);
+      if (!isQuotaError(e)) { setStorageError(`保存失败：${(e as Error)?.message || e}`); return; }
+      const policy = await loadEvictionPolicy().catch(() => undefined);
+      if (!policy?.autoEvict || autoEvictingRef.current) { setStorageError('存储空间已满，最近的更改未能保存'); return; }
+      autoEvictingRef.current = true;
+      try {
+          const { count, freedBytes } = await runEviction(bytesOverTarget(await estimateStorage(), policy, true), policy);
+          setStorageError(count > 0 ? `存储空间已满：已自动清理 ${count} 个旧素材（${formatBytes(freedBytes)}），请确认最近的更改已保存` : '存储空间已满，且没有可自动清理的素材');
+      } catch (evictError) {
+          console.error("Eviction failed", evictError);
+          setStorageError('存储空间已满，最近的更改未能保存');
+      } finally {
+          autoEvictingRef.current = false;
+      }
+  }, []);
+
+  // Declared after reportSaveError, which it reports to; both stay stable for the lifetime of the app
+  const tabSync: TabSync = useMemo(() => createTabSync(), []);
+  const autosave: Autosave = useMemo(() => createAutosave({ onStatus: setSaveStatus, onError: reportSaveError, onProjectWritten: tabSync.notifyChanged, onWorkflowsWritten: tabSync.notifyWorkflowsChanged }), []);
+
+  const buildProjectRecord = (project: Project): Project => ({ ...project, connections, groups, viewport: { x: pan.x, y: pan.y, scale }, updatedAt: Date.now() });
+
   useEffect(() => {
-      if (!isLoaded) return; 
-      
-      saveToStorage('assets', assetHistory);
-      saveToStorage('workflows', workflows);
-      saveToStorage('nodes', nodes);
-      saveToStorage('connections', connections);
-      saveToStorage('groups', groups);
-  }, [assetHistory, workflows, nodes, connections, groups, isLoaded]);
+      if (!isLoaded) return;
+      autosave.schedule({ workflows, project: activeProject ? { record: buildProjectRecord(activeProject), nodes, assets: assetHistory } : undefined });
+  }, [workflows, nodes, assetHistory, connections, groups, pan, scale, activeProject, isLoaded]);
+
+  // Pending edits are written before the tab is hidden or closed instead of waiting for the debounce
+  useEffect(() => {
+      const flush = () => { autosave.flush(); };
+      const onVisibilityChange = () => { if (document.visibilityState === 'hidden') flush(); };
+      // Lets a read-only tab take over the project. A page kept in the back/forward cache only steps back and
+      // claims the project again when it is shown.
+      const onPageHide = (e: PageTransitionEvent) => { if (e.persisted) tabSync.suspend(); else tabSync.close(); };
+      const onPageShow = (e: PageTransitionEvent) => {
+          if (!e.persisted) return;
+          tabSync.resume();
+          if (activeProjectRef.current) openProject(activeProjectRef.current.id);
+      };
+      document.addEventListener('visibilitychange', onVisibilityChange);
+      window.addEventListener('beforeunload', flush);
+      window.addEventListener('pagehide', onPageHide);
+      window.addEventListener('pageshow', onPageShow);
+      return () => {
+          document.removeEventListener('visibilitychange', onVisibilityChange);
+          window.removeEventListener('beforeunload', flush);
+          window.removeEventListener('pagehide', onPageHide);
+          window.removeEventListener('pageshow', onPageShow);
+      };
+  }, []);
+
+  // --- Other tabs ---
+  // Only one tab edits a project; the others show it read-only and follow its saves
+  useEffect(() => tabSync.subscribe({
+      onTakenOver: async projectId => {
+          if (activeProjectRef.current?.id !== projectId) return;
+          leaveCollab();
+          await autosave.flush();
+          autosave.forget(projectId);
+          setReadOnly(true);
+          setContextMenu(null);
+      },
+      onReleased: projectId => {
+          if (activeProjectRef.current?.id === projectId && !tabSync.holds(projectId)) openProject(projectId);
+      },
+      onChanged: (projectId, scopes) => {
+          if (activeProjectRef.current?.id === projectId) reloadFromOtherTab(projectId, scopes);
+      },
+      onWorkflowsChanged: () => { reloadWorkflows(); },
+      // The upkeep tab picks up the video jobs of a tab that went away
+      onTabClosed: () => { if (tabSync.isLeader()) adoptOrphanedJobs(); },
+  }), []);
+
+  // One tab resumes persisted video jobs; jobs another open tab is still running stay with that tab
+  const adoptOrphanedJobs = async () => {
+      try {
+          const others = await tabSync.listTabs();
+          await adoptJobs(tabSync.tabId, others.map(t => t.tabId));
+      } catch (e) {
+          console.warn("Failed to resume video jobs", e);
+      }
+  };
+  useEffect(() => tabSync.whenLeader(adoptOrphanedJobs), []);
+
+  const reloadWorkflows = async () => {
+      try {
+          await autosave.flush();
+          const { records } = await loadWorkflows();
+          autosave.markSaved({ workflows: records });
+          setWorkflows(await Promise.all(records.map(async w => ({ ...w, thumbnail: await internMedia(w.thumbnail), nodes: await internNodeList(w.nodes) }))));
+      } catch (e) {
+          console.warn("Failed to reload workflows from another tab", e);
+      }
+  };
+
+  // A read-only tab mirrors whatever the editor wrote. The editor itself only picks up new assets, which a tab that
+  // finished a job for the project after closing it may have added. The lock, not React state, says which one this
+  // tab is, since a takeover can land between a state update and its render.
+  const reloadFromOtherTab = async (projectId: string, scopes: ProjectChangeScope[]) => {
+      try {
+          if (scopes.includes('assets')) {
+              const { records } = await loadAssets(projectId);
+              if (!tabSync.holds(projectId)) setAssetHistory(records);
+              else setAssetHistory(prev => {
+                  const known = new Set(prev.map(a => a.id));
+                  const added = records.filter(a => !known.has(a.id));
+                  return added.length > 0 ? [...added, ...prev].sort((a, b) => b.timestamp - a.timestamp) : prev;
+              });
+          }
+          if (tabSync.holds(projectId) || !(scopes.includes('nodes') || scopes.includes('project'))) return;
+          const { project, nodes: sNodes } = await loadProject(projectId);
+          if (activeProjectRef.current?.id !== projectId || tabSync.holds(projectId)) return;
+          if (scopes.includes('nodes')) setNodes(sNodes);
+          if (project && scopes.includes('project')) { setConnections(project.connections); setGroups(project.groups); }
+      } catch (e) {
+          console.warn("Failed to reload changes from another tab", e);
+      }
+  };
+
+  const takeOverProject = async () => {
+      const projectId = activeProjectRef.current?.id;
+      if (!projectId) return;
+      await tabSync.takeOver(projectId);
+      await openProject(projectId);
+  };
+
+  // --- Projects ---
+  // Older saves hold inline data URIs; move them into the media store as they load
+  const internNodeList = (list: AppNode[]) => Promise.all(list.map(async n => hasInlineMedia(n.data) ? { ...n, data: await internNodeMedia(n.data) } : n));
+
+  const openProject = async (id: string) => {
+      try {
+          const readOnly = await tabSync.acquire(id) === 'readonly';
+          const { project, nodes: sNodes, quarantined } = await loadProject(id);
+          if (!project) return;
+          const sAssets = await loadAssets(id);
+          // Records keep their identity unless interning changed them, so the autosave does not rewrite them all
+          const assets = await Promise.all(sAssets.records.map(async a => { const src = await internMedia(a.src); return src === a.src ? a : { ...a, src }; }));
+          // A node left WORKING by a closed tab only keeps spinning if a queued job will still report back to it,
+          // whichever tab runs that job
+          const pendingNodeIds = new Set([...listJobs(), ...await loadJobs()].filter(j => j.projectId === id && isActiveJob(j)).map(j => j.nodeId));
+          // Jobs of a read-only project run in the editing tab, so their nodes stay as stored
+          const loadedNodes = (await internNodeList(sNodes)).map(n => n.status === NodeStatus.WORKING && !readOnly && !pendingNodeIds.has(n.id) ? { ...n, status: NodeStatus.IDLE } : n);
+          const opened: Project = { ...project, lastOpenedAt: Date.now() };
+          if (readOnly) {
+              autosave.forget(id);
+          } else {
+              saveProject(opened);
+              autosave.markSaved({ project: { record: opened, nodes: sNodes, assets: sAssets.records } });
+          }
+          setReadOnly(readOnly);
+
+          setProjects(prev => prev.map(p => p.id === id ? opened : p));
+          setUsageProject(id);
+          setNodes(loadedNodes); setConnections(project.connections); setGroups(project.groups); setAssetHistory(assets);
+          setPan({ x: project.viewport.x, y: project.viewport.y }); setScale(project.viewport.scale);
+          setHistoryStack(EMPTY_HISTORY); setSelectedNodeIds([]); setSelectedGroupId(null); setContextMenu(null);
+          if (quarantined + sAssets.quarantined > 0) setQuarantinedCount(c => c + quarantined + sAssets.quarantined);
+          setActiveProject(opened);
+      } catch (e) {
+          console.error("Failed to open project", e);
+      }
+  };
+
+  const closeProject = () => {
+      if (!activeProject) return;
+      // Write the pending edits now rather than after the debounce
+      const record = buildProjectRecord(activeProject);
+      autosave.schedule({ project: { record, nodes, assets: assetHistory } });
+      // Another tab may pick the project up as soon as it is released, so it must see the final state
+      autosave.flush().then(() => tabSync.release(record.id));
+      leaveCollab();
+      setReadOnly(false);
+      setProjects(prev => prev.map(p => p.id === record.id ? record : p));
+      setActiveProject(null);
+      setRunHistoryNodeId(null);
+      setUsageProject(undefined);
+      setNodes([]); setConnections([]); setGroups([]); setAssetHistory([]);
+      setHistoryStack(EMPTY_HISTORY); setSelectedNodeIds([]); setSelectedGroupId(null); setContextMenu(null);
+  };
+
+  const createProject = async () => {
+      const now = Date.now();
+      const project: Project = { id: `p-${now}`, title: `新项目 ${projects.length + 1}`, createdAt: now, updatedAt: now, lastOpenedAt: now, viewport: { x: 0, y: 0, scale: 1 }, connections: [], groups: [] };
+      await saveProject(project);
+      setProjects(prev => [...prev, project]);
+      openProject(project.id);
+  };
+
+  const renameProject = (id: string, title: string) => {
+      const project = projects.find(p => p.id === id);
+      if (!project || project.title === title) return;
+      const renamed = { ...project, title, updatedAt: Date.now() };
+      saveProject(renamed);
+      setProjects(prev => prev.map(p => p.id === id ? renamed : p));
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+      const source = projects.find(p => p.id === id);
+      if (!source) return;
+      try {
+          await autosave.flush();
+          const copy = await duplicateProject(id, `${source.title} 副本`);
+          setProjects(prev => [...prev, copy]);
+      } catch (e) {
+          console.error("Failed to duplicate project", e);
+      }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+      await autosave.flush(); // A late write would bring deleted records back
+      await deleteProject(id);
+      setProjects(prev => prev.filter(p => p.id !== id));
+  };
+
+  // --- Archive Export / Import ---
+  const downloadBlob = (blob: Blob, filename: string) => {
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url; a.download = filename;
+      document.body.appendChild(a); a.click(); document.body.removeChild(a);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleExportProject = async (id: string) => {
+      try {
+          await autosave.flush();
+          const { project, nodes: sNodes } = await loadProject(id);
+          if (!project) return;
+          const sAssets = await loadAssets(id);
+          const { blob, issues } = await exportArchive('project', { title: project.title, nodes: sNodes, connections: project.connections, groups: project.groups, viewport: project.viewport, assets: sAssets.records });
+          downloadBlob(blob, `${project.title}${ARCHIVE_EXTENSION}`);
+          if (issues.length > 0) setImportReport({ title: `已导出项目 "${project.title}"，部分媒体未包含`, issues });
+      } catch (e: any) {
+          setImportReport({ title: '导出失败', issues: [e.message], failed: true });
+      }
+  };
+
+  const handleExportWorkflow = async (id: string) => {
+      const wf = workflows.find(w => w.id === id);
+      if (!wf) return;
+      try {
+          const { blob, issues } = await exportArchive('workflow', { title: wf.title, nodes: wf.nodes, connections: wf.connections, groups: wf.groups, thumbnail: wf.thumbnail });
+          downloadBlob(blob, `${wf.title}${ARCHIVE_EXTENSION}`);
+          if (issues.length > 0) setImportReport({ title: `已导出工作流 "${wf.title}"，部分媒体未包含`, issues });
+      } catch (e: any) {
+          setImportReport({ title: '导出失败', issues: [e.message], failed: true });
+      }
+  };
+
+  const handleImportArchive = async (file: File) => {
+      try {
+          const result = await importArchive(file);
+          const now = Date.now();
+          if (result.kind === 'project') {
+              const project: Project = { id: `p-${now}`, title: result.title, createdAt: now, updatedAt: now, lastOpenedAt: now, viewport: result.viewport || { x: 0, y: 0, scale: 1 }, connections: result.connections, groups: result.groups };
+              await saveProject(project);
+              await saveNodes(project.id, result.nodes);
+              await saveAssets(project.id, result.assets || []);
+              setProjects(prev => [...prev, project]);
+          } else {
+              setWorkflows(prev => [...prev, { id: `wf-${now}`, title: result.title, thumbnail: result.thumbnail || '', nodes: result.nodes, connections: result.connections, groups: result.groups }]);
+          }
+          setImportReport({ title: `已导入${result.kind === 'project' ? '项目' : '工作流'} "${result.title}"`, issues: result.issues });
+      } catch (e: any) {
+          setImportReport({ title: `无法导入 ${file.name}`, issues: [e.message], failed: true });
+      }
+  };
+
+  const nodeHashes = useMemo(() => computeNodeHashes(nodes, connections), [nodes, connections]);
 
-  
   const getApproxNodeHeight = (node: AppNode) => {
       if (node.height) return node.height;
       const width = node.width || 420;
@@ -316,6 +773,8 @@ export const App = () => {
           case NodeType.AUDIO_GENERATOR: return '灵感音乐';
           case NodeType.VIDEO_ANALYZER: return '视频分析';
           case NodeType.IMAGE_EDITOR: return '图像编辑';
+          case NodeType.TIMELINE: return '时间线剪辑';
+          case NodeType.AUDIO_MERGE: return '音画合成';
           default: return t;
       }
   };
@@ -327,6 +786,8 @@ export const App = () => {
           case NodeType.AUDIO_GENERATOR: return Mic2;
           case NodeType.VIDEO_ANALYZER: return ScanFace;
           case NodeType.IMAGE_EDITOR: return Brush;
+          case NodeType.TIMELINE: return Clapperboard;
+          case NodeType.AUDIO_MERGE: return Combine;
           default: return Plus;
       }
   };
@@ -368,41 +829,140 @@ export const App = () => {
       setScale(newScale);
   }, [nodes]);
 
-  const saveHistory = useCallback(() => {
+  // --- History ---
+  const captureCanvas = (): CanvasState => ({ nodes: nodesRef.current, connections: connectionsRef.current, groups: groupsRef.current });
+
+  // Applies a patch through functional updates so unrelated changes made in the same tick survive.
+  // The refs are advanced eagerly so a second command in the same tick diffs against the new state.
+  const applyCanvasPatch = useCallback((patch: CanvasPatch, direction: PatchDirection) => {
+      nodesRef.current = applyNodePatch(nodesRef.current, patch, direction);
+      connectionsRef.current = applyConnectionPatch(connectionsRef.current, patch, direction);
+      groupsRef.current = applyGroupPatch(groupsRef.current, patch, direction);
+      if (patch.nodes.length > 0) setNodes(prev => applyNodePatch(prev, patch, direction));
+      if (patch.connections.added.length > 0 || patch.connections.removed.length > 0) setConnections(prev => applyConnectionPatch(prev, patch, direction));
+      if (patch.groups.length > 0) setGroups(prev => applyGroupPatch(prev, patch, direction));
+  }, []);
+
+  const pushHistory = useCallback((type: HistoryCommandType, label: string, patch: CanvasPatch, coalesceKey?: string) => {
+      const recorded = stripTransient(patch);
+      if (isPatchEmpty(recorded)) return;
+      const next = pushCommand(historyStackRef.current, { id: `h-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`, type, label, timestamp: Date.now(), patch: recorded, coalesceKey });
+      historyStackRef.current = next;
+      setHistoryStack(next);
+  }, []);
+
+  // Runs a canvas edit as an undoable command. Every edit of the user goes through here, so a read-only tab drops them all.
+  const applyCanvasChange = useCallback((type: HistoryCommandType, label: string, updater: (state: CanvasState) => CanvasState, coalesceKey?: string) => {
+      if (isReadOnlyRef.current) return;
+      const before = captureCanvas();
+      const patch = diffCanvas(before, updater(before));
+      if (isPatchEmpty(patch)) return;
+      applyCanvasPatch(patch, 'redo');
+      pushHistory(type, label, patch, coalesceKey);
+  }, [applyCanvasPatch, pushHistory]);
+
+  // Records a change that is already on screen (drags, resizes) against the state captured when it began
+  const recordCanvasChange = useCallback((type: HistoryCommandType, label: string, before: CanvasState) => {
+      pushHistory(type, label, diffCanvas(before, captureCanvas()));
+  }, [pushHistory]);
+
+  // --- Collaboration ---
+  // Edits of other people arrive as patches and bypass the undo history. A room that already holds a different canvas
+  // is only joined once the user chose to replace the local canvas or to open the room as a new project.
+  const joinCollab = async (relayUrl: string, room: string, userName: string, mode: CollabJoinMode = 'ask'): Promise<boolean> => {
+      leaveCollab();
+      const connection = connectCollab({ relayUrl, room, user: { name: userName, color: pickUserColor(`${userName}-${tabSync.tabId}`) } });
+      connection.onStatus(setCollabStatus);
       try {
-          const currentStep = { nodes: JSON.parse(JSON.stringify(nodesRef.current)), connections: JSON.parse(JSON.stringify(connectionsRef.current)), groups: JSON.parse(JSON.stringify(groupsRef.current)) };
-          const newHistory = historyRef.current.slice(0, historyIndexRef.current + 1);
-          newHistory.push(currentStep); if (newHistory.length > 50) newHistory.shift(); 
-          setHistory(newHistory); setHistoryIndex(newHistory.length - 1);
+          await connection.synced;
+          if (mode === 'ask' && wouldReplaceCanvas(connection.doc, captureCanvas())) {
+              connection.disconnect();
+              setCollabStatus(undefined);
+              return false;
+          }
+          if (mode === 'fork') await openRoomAsProject(room, readCanvas(connection.doc));
       } catch (e) {
-          console.warn("History save failed:", e);
+          connection.disconnect();
+          throw e;
       }
-  }, []);
+      const binding = bindCanvas(connection.doc, mode === 'fork' ? readCanvas(connection.doc) : captureCanvas(), patch => applyCanvasPatch(patch, 'redo'));
+      connection.awareness.on('change', () => setPeers(listPeers(connection.awareness)));
+      connection.setSelection(selectedNodeIds);
+      collabRef.current = { connection, binding };
+      setCollabRoom(room);
+      setCollabStatus('connected');
+      return true;
+  };
 
-  const undo = useCallback(() => {
-      const idx = historyIndexRef.current; if (idx > 0) { const prev = historyRef.current[idx - 1]; setNodes(prev.nodes); setConnections(prev.connections); setGroups(prev.groups); setHistoryIndex(idx - 1); }
-  }, []);
+  // Saves the room's canvas as a new project and opens it, leaving the current project as it was
+  const openRoomAsProject = async (room: string, canvas: CanvasState) => {
+      closeProject();
+      const now = Date.now();
+      const project: Project = { id: `p-${now}`, title: `协作 ${room}`, createdAt: now, updatedAt: now, lastOpenedAt: now, viewport: { x: 0, y: 0, scale: 1 }, connections: canvas.connections, groups: canvas.groups };
+      await saveProject(project);
+      await saveNodes(project.id, canvas.nodes);
+      setProjects(prev => [...prev, project]);
+      await openProject(project.id);
+  };
+
+  const leaveCollab = () => {
+      const collab = collabRef.current;
+      if (!collab) return;
+      collabRef.current = null;
+      collab.binding.destroy();
+      collab.connection.disconnect();
+      setCollabRoom(undefined); setCollabStatus(undefined); setPeers([]);
+  };
+
+  useEffect(() => { collabRef.current?.binding.pushLocal({ nodes, connections, groups }); }, [nodes, connections, groups]);
+  useEffect(() => { collabRef.current?.connection.setSelection(selectedNodeIds); }, [selectedNodeIds]);
+  useEffect(() => { collabRef.current?.connection.setCursor({ x: (mousePos.x - pan.x) / scale, y: (mousePos.y - pan.y) / scale }); }, [mousePos]);
+
+  // Steps the history to `target` (number of applied commands), asking before any step throws away generated media
+  const jumpToHistory = useCallback((target: number) => {
+      if (isReadOnlyRef.current) return;
+      const stack = historyStackRef.current;
+      const clamped = Math.max(0, Math.min(stack.commands.length, target));
+      if (clamped === stack.index) return;
+      const direction: PatchDirection = clamped < stack.index ? 'undo' : 'redo';
+      const steps = direction === 'undo' ? stack.commands.slice(clamped, stack.index).reverse() : stack.commands.slice(stack.index, clamped);
+      if (steps.some(c => patchDiscardsMedia(c.patch, direction)) && !window.confirm('此操作将丢弃已生成的图片/视频/音频，确定继续吗？')) return;
+      steps.forEach(c => applyCanvasPatch(c.patch, direction));
+      const next = { ...stack, index: clamped };
+      historyStackRef.current = next;
+      setHistoryStack(next);
+  }, [applyCanvasPatch]);
+
+  const undo = useCallback(() => jumpToHistory(historyStackRef.current.index - 1), [jumpToHistory]);
+  const redo = useCallback(() => jumpToHistory(historyStackRef.current.index + 1), [jumpToHistory]);
 
   const deleteNodes = useCallback((ids: string[]) => { 
       if (ids.length === 0) return;
-      saveHistory(); 
-      setNodes(p => p.filter(n => !ids.includes(n.id)).map(n => ({...n, inputs: n.inputs.filter(i => !ids.includes(i))}))); 
-      setConnections(p => p.filter(c => !ids.includes(c.from) && !ids.includes(c.to))); 
+      applyCanvasChange('delete', ids.length > 1 ? `删除 ${ids.length} 个节点` : '删除节点', s => ({
+          ...s,
+          nodes: s.nodes.filter(n => !ids.includes(n.id)).map(n => ({...n, inputs: n.inputs.filter(i => !ids.includes(i))})),
+          connections: s.connections.filter(c => !ids.includes(c.from) && !ids.includes(c.to)),
+      }));
       setSelectedNodeIds([]); 
-  }, [saveHistory]);
+  }, [applyCanvasChange]);
 
   const addNode = useCallback((type: NodeType, x?: number, y?: number, initialData?: any) => {
+      if (isReadOnlyRef.current) return;
       if (type === NodeType.IMAGE_EDITOR) {
           setIsSketchEditorOpen(true);
           return;
       }
 
-      try { saveHistory(); } catch (e) { }
+      if (initialData && hasInlineMedia(initialData)) {
+          internNodeMedia(initialData).catch(() => initialData).then(stored => addNode(type, x, y, stored));
+          return;
+      }
 
       const defaults: any = { 
           model: type === NodeType.VIDEO_GENERATOR ? 'veo-3.1-fast-generate-preview' :
                  type === NodeType.VIDEO_ANALYZER ? 'gemini-3-pro-preview' :
                  type === NodeType.AUDIO_GENERATOR ? 'gemini-2.5-flash-preview-tts' :
+                 type === NodeType.TIMELINE || type === NodeType.AUDIO_MERGE ? undefined : // Renders locally
                  type.includes('IMAGE') ? 'gemini-2.5-flash-image' :
                  'gemini-3-pro-preview',
           generationMode: type === NodeType.VIDEO_GENERATOR ? 'DEFAULT' : undefined, // Initialize as DEFAULT (Off)
@@ -415,7 +975,9 @@ export const App = () => {
           [NodeType.VIDEO_GENERATOR]: '文生视频',
           [NodeType.AUDIO_GENERATOR]: '灵感音乐',
           [NodeType.VIDEO_ANALYZER]: '视频分析',
-          [NodeType.IMAGE_EDITOR]: '图像编辑'
+          [NodeType.IMAGE_EDITOR]: '图像编辑',
+          [NodeType.TIMELINE]: '时间线剪辑',
+          [NodeType.AUDIO_MERGE]: '音画合成'
       };
 
       const safeX = x !== undefined ? x : (-pan.x + window.innerWidth/2)/scale - 210;
@@ -433,18 +995,64 @@ export const App = () => {
         inputs: []
       };
       
-      setNodes(prev => [...prev, newNode]); 
-  }, [pan, scale, saveHistory]);
+      applyCanvasChange('add', `添加节点「${newNode.title}」`, s => ({ ...s, nodes: [...s.nodes, newNode] }));
+  }, [pan, scale, applyCanvasChange]);
 
-  const handleAssetGenerated = useCallback((type: 'image' | 'video' | 'audio', src: string, title: string) => {
+  const handleAssetGenerated = useCallback(async (type: 'image' | 'video' | 'audio', rawSrc: string, title: string, provenance?: AssetProvenance) => {
+      if (isReadOnlyRef.current) return;
+      const src = await internMedia(rawSrc).catch(() => rawSrc);
       setAssetHistory(h => {
           const exists = h.find(a => a.src === src);
-          if (exists) return h;
-          return [{ id: `a-${Date.now()}`, type, src, title, timestamp: Date.now() }, ...h];
+          // The same bytes seen again (e.g. an upload that was generated earlier) keep their first record
+          if (exists) return provenance && !exists.provenance ? h.map(a => a === exists ? { ...a, provenance } : a) : h;
+          return [{ id: `a-${Date.now()}`, type, src, title, timestamp: Date.now(), provenance }, ...h];
       });
   }, []);
+
+  const exportAsset = async (asset: Asset) => {
+      try {
+          const { file, filename, sidecar, sidecarFilename } = await exportAssetWithProvenance(asset);
+          downloadBlob(file, filename);
+          downloadBlob(sidecar, sidecarFilename);
+      } catch (e: any) {
+          alert(`导出失败：${e.message}`);
+      }
+  };
+
+  // A single asset downloads as file + sidecar; a selection comes as one zip
+  const handleExportAssets = async (ids: string[]) => {
+      const assets = assetHistory.filter(a => ids.includes(a.id));
+      if (assets.length === 1) return exportAsset(assets[0]);
+      if (assets.length === 0) return;
+      try {
+          const { blob, failed } = await exportAssetBundle(assets);
+          downloadBlob(blob, `${activeProject?.title || 'SUNSTUDIO'}-素材.zip`);
+          if (failed > 0) alert(`${failed} 个素材无法读取，未包含在导出中`);
+      } catch (e: any) {
+          alert(`导出失败：${e.message}`);
+      }
+  };
+
+  const handleUpdateAssets = (ids: string[], update: (asset: Asset) => AssetPatch) => {
+      if (!isReadOnlyRef.current) setAssetHistory(prev => prev.map(a => ids.includes(a.id) ? applyAssetPatch(a, update(a)) : a));
+  };
+
+  const handleDeleteAssets = (ids: string[]) => {
+      if (!isReadOnlyRef.current) setAssetHistory(prev => prev.filter(a => !ids.includes(a.id)));
+  };
+
+  // Node results are exported through their asset record when there is one, so the file carries its provenance.
+  // Nodes keep their first callbacks (see the Node memo comparator), hence the refs.
+  const handleDownloadNode = useCallback((id: string) => {
+      const node = nodesRef.current.find(n => n.id === id);
+      const src = node && (node.data.image || node.data.videoUri || node.data.audioUri);
+      if (!node || !src) return;
+      const type = node.data.image ? 'image' : node.data.videoUri ? 'video' : 'audio';
+      exportAsset(assetHistoryRef.current.find(a => a.src === src) || { id: node.id, type, src, title: node.title, timestamp: Date.now() });
+  }, []);
   
-  const handleSketchResult = (type: 'image' | 'video', result: string, prompt: string) => {
+  const handleSketchResult = async (type: 'image' | 'video', output: string, prompt: string) => {
+      const result = await internRemoteMedia(output, type === 'video' ? 'video/mp4' : undefined);
       const centerX = (-pan.x + window.innerWidth/2)/scale - 210;
       const centerY = (-pan.y + window.innerHeight/2)/scale - 180;
       
@@ -457,28 +1065,51 @@ export const App = () => {
       handleAssetGenerated(type, result, prompt || 'Sketch Output');
   };
 
-  const handleMultiFrameGenerate = async (frames: SmartSequenceItem[]): Promise<string> => {
-      const complexPrompt = compileMultiFramePrompt(frames as any[]);
-
-      try {
-          const res = await generateVideo(
-              complexPrompt, 
-              'veo-3.1-generate-preview', 
-              { aspectRatio: '16:9', count: 1 },
-              frames[0].src, 
-              null,
-              frames.length > 1 ? frames.map(f => f.src) : undefined 
-          );
-          
-          if (res.isFallbackImage) {
-              handleAssetGenerated('image', res.uri, 'Smart Sequence Preview (Fallback)');
-          } else {
-              handleAssetGenerated('video', res.uri, 'Smart Sequence');
+  // Transitions are priced like the video node that would render them
+  const confirmSequenceBudget = (segments: SequenceSegment[]) => confirmBudget(segments.map(segment => ({
+      id: segment.key, type: NodeType.VIDEO_GENERATOR, x: 0, y: 0, title: 'Smart Sequence', status: NodeStatus.IDLE, inputs: [],
+      data: { prompt: segment.prompt, model: SEQUENCE_MODEL, duration: pickClipDuration(segment.duration, getModelInfo(SEQUENCE_MODEL)?.durations) },
+  })));
+
+  // One Smart Sequence transition: a first/last-frame clip between two neighbouring frames. It runs as a queued job,
+  // so it shows in the jobs panel, counts against the provider's limit and its video lands in the media store.
+  const handleSequenceSegment = async (from: SmartSequenceItem, to: SmartSequenceItem, segment: SequenceSegment): Promise<string> => {
+      const projectId = activeProjectRef.current?.id;
+      if (!projectId) throw new Error('没有打开的项目，无法生成片段');
+      if (isReadOnlyRef.current) throw new Error('项目为只读，无法生成片段');
+      const job = await enqueueVideoJob({
+          projectId,
+          nodeId: `sequence-${segment.fromId}`,
+          label: `Smart Sequence 转场 ${segment.prompt.slice(0, 20)}`,
+          source: 'smart-sequence',
+          tabId: tabSync.tabId,
+          params: {
+              prompt: segment.prompt,
+              model: SEQUENCE_MODEL,
+              aspectRatio: '16:9',
+              count: 1,
+              generationMode: 'FIRST_LAST_FRAME',
+              duration: pickClipDuration(segment.duration, getModelInfo(SEQUENCE_MODEL)?.durations),
+              inputImage: from.src,
+              referenceImages: [from.src, to.src],
+              usage: { projectId }
           }
-          return res.uri;
-      } catch (e: any) {
-          throw new Error(e.message || "Smart Sequence Generation Failed");
-      }
+      });
+      const { result } = await waitForJob(job.id);
+      // A still cannot be joined into the video, so the segment counts as failed and can be retried
+      if (!result || result.isFallbackImage) throw new Error(result?.notice || "视频生成不可用");
+      if (!isMediaRef(result.uri)) throw new Error('片段视频下载失败');
+      return result.uri;
+  };
+
+  // Joins the finished segments, then files the result as an asset and drops it onto the canvas
+  const handleSequenceStitch = async (frames: SmartSequenceItem[], segments: SequenceSegment[]): Promise<string> => {
+      const src = await putMedia(await stitchSegments(segments));
+      const sentPrompt = segments.map(s => s.prompt).join(' → ');
+      const provenance = buildProvenance({ params: { model: SEQUENCE_MODEL, aspectRatio: '16:9' }, sentPrompt, generationMode: 'FIRST_LAST_FRAME', inputs: frames.map(f => f.src), projectId: activeProjectRef.current?.id });
+      handleAssetGenerated('video', src, 'Smart Sequence', provenance);
+      addNode(NodeType.VIDEO_GENERATOR, undefined, undefined, { videoUri: src, prompt: sentPrompt, status: NodeStatus.SUCCESS });
+      return src;
   };
 
 
@@ -588,14 +1219,15 @@ export const App = () => {
           if (w > 10) {
               const rect = { x: (x - pan.x) / scale, y: (y - pan.y) / scale, w: w / scale, h: h / scale };
               const enclosed = nodesRef.current.filter(n => { const cx = n.x + (n.width||420)/2; const cy = n.y + 160; return cx>rect.x && cx<rect.x+rect.w && cy>rect.y && cy<rect.y+rect.h; });
-              if (enclosed.length > 0) { saveHistory(); 
+              if (enclosed.length > 0) {
                   const freeNodes = enclosed.filter(n => {
                       const cx = n.x + (n.width || 420) / 2; const cy = n.y + 160;
                       return !groupsRef.current.some(g => cx > g.x && cx < g.x + g.width && cy > g.y && cy < g.y + g.height);
                   });
                   if (freeNodes.length > 0) {
                       const fMinX=Math.min(...freeNodes.map(n=>n.x)), fMinY=Math.min(...freeNodes.map(n=>n.y)), fMaxX=Math.max(...freeNodes.map(n=>n.x+(n.width||420))), fMaxY=Math.max(...freeNodes.map(n=>n.y+320));
-                      setGroups(prev => [...prev, { id: `g-${Date.now()}`, title: '新建分组', x: fMinX-32, y: fMinY-32, width: (fMaxX-fMinX)+64, height: (fMaxY-fMinY)+64 }]);
+                      const newGroup = { id: `g-${Date.now()}`, title: '新建分组', x: fMinX-32, y: fMinY-32, width: (fMaxX-fMinX)+64, height: (fMaxY-fMinY)+64 };
+                      applyCanvasChange('group', '创建分组', s => ({ ...s, groups: [...s.groups, newGroup] }));
                   }
               }
           }
@@ -604,8 +1236,9 @@ export const App = () => {
       
       // Collision logic for dropped node
       if (draggingNodeId) {
-          const draggedNode = nodesRef.current.find(n => n.id === draggingNodeId);
-          if (draggedNode) {
+          const found = nodesRef.current.find(n => n.id === draggingNodeId);
+          if (found) {
+              const draggedNode = { ...found };
               const myBounds = getNodeBounds(draggedNode);
               const otherNodes = nodesRef.current.filter(n => n.id !== draggingNodeId);
               
@@ -654,32 +1287,55 @@ export const App = () => {
               }
 
               // Update State
+              nodesRef.current = nodesRef.current.map(n => n.id === draggingNodeId ? draggedNode : n);
               setNodes(prev => prev.map(n => n.id === draggingNodeId ? { ...n, x: draggedNode.x, y: draggedNode.y } : n));
           }
       }
 
-      if (draggingNodeId || resizingNodeId || dragGroupRef.current) saveHistory();
+      // The whole drag/resize gesture becomes a single history entry
+      if (gestureStartRef.current && (draggingNodeId || resizingNodeId || dragGroupRef.current)) {
+          recordCanvasChange(resizingNodeId ? 'resize' : 'move', resizingNodeId ? '调整节点大小' : dragGroupRef.current ? '移动分组' : '移动节点', gestureStartRef.current);
+      }
+      gestureStartRef.current = null;
       setIsDraggingCanvas(false); setDraggingNodeId(null); setDraggingNodeParentGroupId(null); setDraggingGroup(null); setResizingGroupId(null); setActiveGroupNodeIds([]); setResizingNodeId(null); setInitialSize(null); setResizeStartPos(null); setConnectionStart(null);
       dragNodeRef.current = null; resizeContextRef.current = null; dragGroupRef.current = null;
-  }, [selectionRect, pan, scale, saveHistory, draggingNodeId, resizingNodeId]);
+  }, [selectionRect, pan, scale, applyCanvasChange, recordCanvasChange, draggingNodeId, resizingNodeId]);
 
   useEffect(() => { window.addEventListener('mousemove', handleGlobalMouseMove); window.addEventListener('mouseup', handleGlobalMouseUp); return () => { window.removeEventListener('mousemove', handleGlobalMouseMove); window.removeEventListener('mouseup', handleGlobalMouseUp); }; }, [handleGlobalMouseMove, handleGlobalMouseUp]);
 
-  const handleNodeUpdate = useCallback((id: string, data: any, size?: any, title?: string) => {
-      setNodes(prev => prev.map(n => {
-          if (n.id === id) {
-              const updated = { ...n, data: { ...n.data, ...data }, title: title || n.title };
+  // Inline media is interned into the media store first; plain updates still apply synchronously
+  // Generation results pass their provenance along so the asset history can record it
+  const handleNodeUpdate = useCallback(async (id: string, rawData: any, size?: any, title?: string, provenance?: AssetProvenance) => {
+      const data = hasInlineMedia(rawData) ? await internNodeMedia(rawData).catch(() => rawData) : rawData;
+      const node = nodesRef.current.find(n => n.id === id);
+      if (!node) return;
+      const nextTitle = title || node.title;
+
+      // Generation results get their own entry (and undo protection); small edits coalesce per node and field set
+      const isResult = ['image', 'images', 'videoUri', 'videoUris', 'audioUri', 'analysis'].some(k => data[k] !== undefined);
+      applyCanvasChange(
+          isResult ? 'generate' : 'update-data',
+          isResult ? `生成结果「${nextTitle}」` : `编辑「${nextTitle}」`,
+          s => ({ ...s, nodes: s.nodes.map(n => {
+              if (n.id !== id) return n;
+              const updated = { ...n, data: { ...n.data, ...data }, title: nextTitle };
               if (size) { if (size.width) updated.width = size.width; if (size.height) updated.height = size.height; }
-              
-              if (data.image) handleAssetGenerated('image', data.image, updated.title);
-              if (data.videoUri) handleAssetGenerated('video', data.videoUri, updated.title);
-              if (data.audioUri) handleAssetGenerated('audio', data.audioUri, updated.title);
-
               return updated;
-          }
-          return n;
-      }));
-  }, [handleAssetGenerated]);
+          }) }),
+          isResult ? undefined : `update:${id}:${Object.keys(data).sort().join(',')}${size ? ':size' : ''}${title ? ':title' : ''}`
+      );
+
+      if (data.image) handleAssetGenerated('image', data.image, nextTitle, provenance);
+      if (data.videoUri) handleAssetGenerated('video', data.videoUri, nextTitle, provenance);
+      if (data.audioUri) handleAssetGenerated('audio', data.audioUri, nextTitle, provenance);
+  }, [handleAssetGenerated, applyCanvasChange]);
+
+  // Picking, pinning or deleting a variant is an edit of existing results, not a new one
+  const handleVariantChange = useCallback((id: string, data: Partial<AppNode['data']>, label: string) => {
+      const node = nodesRef.current.find(n => n.id === id);
+      if (!node) return;
+      applyCanvasChange('update-data', `${label}「${node.title}」`, s => ({ ...s, nodes: s.nodes.map(n => n.id === id ? { ...n, data: { ...n.data, ...data } } : n) }));
+  }, [applyCanvasChange]);
 
   const handleReplaceFile = (e: React.ChangeEvent<HTMLInputElement>, type: 'image' | 'video') => {
       const file = e.target.files?.[0];
@@ -696,11 +1352,27 @@ export const App = () => {
       e.target.value = ''; setContextMenu(null); replacementTargetRef.current = null; 
   };
 
-  const handleNodeAction = useCallback(async (id: string, promptOverride?: string) => {
-      const node = nodesRef.current.find(n => n.id === id); if (!node) return;
-      handleNodeUpdate(id, { error: undefined });
+  const handleNodeAction = useCallback(async (id: string, promptOverride?: string): Promise<boolean> => {
+      const node = nodesRef.current.find(n => n.id === id); if (!node || isReadOnlyRef.current) return false;
+      let runHash = computeNodeHashes(nodesRef.current, connectionsRef.current).get(id);
+      const usage = { projectId: activeProjectRef.current?.id, nodeId: id };
+      handleNodeUpdate(id, { error: undefined, variantErrors: undefined, progress: undefined });
       setNodes(p => p.map(n => n.id === id ? { ...n, status: NodeStatus.WORKING } : n));
 
+      // Every finished run goes into the node's run history; video runs are logged by applyJobOutcome
+      const startedAt = Date.now();
+      const runParams = snapshotRunParams({ ...node.data, prompt: promptOverride ?? node.data.prompt });
+      let sentPrompt: string | undefined;
+      const logRun = (status: NodeRun['status'], outputs?: RunOutputs, error?: string) => {
+          const projectId = activeProjectRef.current?.id;
+          if (!projectId) return;
+          recordRun({ projectId, nodeId: id, params: runParams, sentPrompt, outputs, status, error, runHash, startedAt, durationMs: Date.now() - startedAt })
+              .then(() => setRunHistoryVersion(v => v + 1));
+      };
+      // Local renders (timeline, audio merge) record their edit settings instead of a generation service
+      const provenance = (inputs: (string | undefined)[] = [], edit?: AssetProvenance['edit']) =>
+          buildProvenance({ params: runParams, sentPrompt, inputs, nodeId: id, projectId: usage.projectId, ...(edit && { provider: LOCAL_PROVIDER, edit }) });
+
       try {
           const inputs = node.inputs.map(i => nodesRef.current.find(n => n.id === i)).filter(Boolean) as AppNode[];
           
@@ -715,126 +1387,252 @@ export const App = () => {
               const combinedUpstream = upstreamTexts.join('\n');
               prompt = prompt ? `${combinedUpstream}\n${prompt}` : combinedUpstream;
           }
+          sentPrompt = prompt;
 
           if (node.type === NodeType.IMAGE_GENERATOR) {
                const inputImages: string[] = [];
                inputs.forEach(n => { if (n?.data.image) inputImages.push(n.data.image); });
 
-               const isStoryboard = /分镜|storyboard|sequence|shots|frames|json/i.test(prompt);
-
-               if (isStoryboard) {
+               if (isStoryboardPrompt(prompt)) {
                   try {
-                      const storyboard = await planStoryboard(prompt, upstreamTexts.join('\n'));
+                      const storyboard = await planStoryboard(prompt, upstreamTexts.join('\n'), usage);
                       if (storyboard.length > 1) {
-                          // ... (storyboard expansion logic preserved) ...
-                          const newNodes: AppNode[] = [];
-                          const newConnections: Connection[] = [];
-                          const COLUMNS = 3;
-                          const gapX = 40; const gapY = 40;
-                          const childWidth = node.width || 420;
-                          const ratio = node.data.aspectRatio || '16:9';
-                          const [rw, rh] = ratio.split(':').map(Number);
-                          const childHeight = (childWidth * rh / rw); 
-                          const startX = node.x + (node.width || 420) + 150;
-                          const startY = node.y; 
-                          const totalRows = Math.ceil(storyboard.length / COLUMNS);
-                          
-                          storyboard.forEach((shotPrompt, index) => {
-                              const col = index % COLUMNS;
-                              const row = Math.floor(index / COLUMNS);
-                              const posX = startX + col * (childWidth + gapX);
-                              const posY = startY + row * (childHeight + gapY);
-                              const newNodeId = `n-${Date.now()}-${index}`;
-                              newNodes.push({
-                                  id: newNodeId, type: NodeType.IMAGE_GENERATOR, x: posX, y: posY, width: childWidth, height: childHeight,
-                                  title: `分镜 ${index + 1}`, status: NodeStatus.WORKING,
-                                  data: { ...node.data, aspectRatio: ratio, prompt: shotPrompt, image: undefined, images: undefined, imageCount: 1 },
-                                  inputs: [node.id] 
-                              });
-                              newConnections.push({ from: node.id, to: newNodeId });
-                          });
-                          
-                          const groupPadding = 30;
-                          const groupWidth = (Math.min(storyboard.length, COLUMNS) * childWidth) + ((Math.min(storyboard.length, COLUMNS) - 1) * gapX) + (groupPadding * 2);
-                          const groupHeight = (totalRows * childHeight) + ((totalRows - 1) * gapY) + (groupPadding * 2);
-
-                          setGroups(prev => [...prev, { id: `g-${Date.now()}`, title: '分镜生成组', x: startX - groupPadding, y: startY - groupPadding, width: groupWidth, height: groupHeight }]);
-                          setNodes(prev => [...prev, ...newNodes]);
-                          setConnections(prev => [...prev, ...newConnections]);
-                          handleNodeUpdate(id, { status: NodeStatus.SUCCESS });
+                          const { nodes: newNodes, connections: newConnections, group: storyboardGroup } = expandStoryboard(node, storyboard);
+                          applyCanvasChange('add', `生成分镜（${newNodes.length} 个镜头）`, s => ({ nodes: [...s.nodes, ...newNodes], connections: [...s.connections, ...newConnections], groups: [...s.groups, storyboardGroup] }));
+                          setNodes(p => p.map(n => n.id === id ? { ...n, status: NodeStatus.SUCCESS, data: { ...n.data, runHash } } : n));
 
                           newNodes.forEach(async (n) => {
                                try {
-                                   const res = await generateImageFromText(n.data.prompt!, n.data.model!, inputImages, { aspectRatio: n.data.aspectRatio, resolution: n.data.resolution, count: 1 });
-                                   handleNodeUpdate(n.id, { image: res[0], images: res, status: NodeStatus.SUCCESS });
+                                   const res = await generateImage({ prompt: n.data.prompt!, model: n.data.model!, inputImages, aspectRatio: n.data.aspectRatio, resolution: n.data.resolution, count: 1, usage: { ...usage, nodeId: n.id } });
+                                   const shotProvenance = buildProvenance({ params: snapshotRunParams(n.data), sentPrompt: n.data.prompt, inputs: inputImages, nodeId: n.id, projectId: usage.projectId });
+                                   handleNodeUpdate(n.id, { image: res.images[0], images: res.images, status: NodeStatus.SUCCESS }, undefined, undefined, shotProvenance);
                                } catch (e: any) {
                                    handleNodeUpdate(n.id, { error: e.message, status: NodeStatus.ERROR });
                                }
                           });
-                          return; 
+                          return true; 
                       }
                   } catch (e) {
                       console.warn("Storyboard planning failed", e);
                   }
                }
-              const res = await generateImageFromText(prompt, node.data.model, inputImages, { aspectRatio: node.data.aspectRatio || '16:9', resolution: node.data.resolution, count: node.data.imageCount });
-              handleNodeUpdate(id, { image: res[0], images: res });
+              const count = node.data.imageCount || 1;
+              const onProgress = (done: number, total: number) => setNodes(p => p.map(n => n.id === id ? { ...n, data: { ...n.data, progress: formatProgress(done, total) } } : n));
+              const res = await generateImage({ prompt, model: node.data.model, inputImages, aspectRatio: node.data.aspectRatio || '16:9', resolution: node.data.resolution, count, usage, onProgress });
+              // Failed variants are reported on the node while the successful ones are kept
+              const partial = res.errors.length > 0;
+              await handleNodeUpdate(id, { image: res.images[0], images: keepPinnedVariants(nodesRef.current.find(n => n.id === id)?.data || node.data, res.images), progress: undefined, variantErrors: partial ? res.errors : undefined, error: partial ? describeVariantErrors(res.errors, count) : undefined }, undefined, undefined, provenance(inputImages));
+              logRun('succeeded', { images: res.images }, partial ? describeVariantErrors(res.errors, count) : undefined);
 
           } else if (node.type === NodeType.VIDEO_GENERATOR) {
               
               const strategy = await getGenerationStrategy(node, inputs, prompt);
+              sentPrompt = strategy.finalPrompt;
               
-              const res = await generateVideo(
-                  strategy.finalPrompt,
-                  node.data.model, 
-                  { 
-                      aspectRatio: node.data.aspectRatio || '16:9', 
-                      count: node.data.videoCount || 1, 
+              if (!activeProjectRef.current) throw new Error('没有打开的项目，无法排队生成视频');
+              const job = await enqueueVideoJob({
+                  projectId: activeProjectRef.current.id,
+                  nodeId: id,
+                  label: node.title,
+                  runHash,
+                  runParams,
+                  tabId: tabSync.tabId,
+                  params: {
+                      prompt: strategy.finalPrompt,
+                      model: node.data.model,
+                      aspectRatio: node.data.aspectRatio || '16:9',
+                      count: node.data.videoCount || 1,
                       generationMode: strategy.generationMode,
-                      resolution: node.data.resolution 
-                  }, 
-                  strategy.inputImageForGeneration, 
-                  strategy.videoInput, 
-                  strategy.referenceImages
-              );
-              
-              if (res.isFallbackImage) {
-                   handleNodeUpdate(id, { 
-                       image: res.uri, 
-                       videoUri: undefined, 
-                       videoMetadata: undefined,
-                       error: "Region restricted: Generated preview image instead.", 
-                       status: NodeStatus.SUCCESS 
-                   });
-              } else {
-                   handleNodeUpdate(id, { videoUri: res.uri, videoMetadata: res.videoMetadata, videoUris: res.uris });
-              }
+                      resolution: node.data.resolution,
+                      duration: node.data.duration,
+                      inputImage: strategy.inputImageForGeneration,
+                      videoInput: strategy.videoInput,
+                      referenceImages: strategy.referenceImages,
+                      usage
+                  }
+              });
+              // The node's result and status are written by applyJobOutcome once the job finishes
+              return await waitForJob(job.id).then(() => true, () => false);
 
           } else if (node.type === NodeType.AUDIO_GENERATOR) {
-              const audioUri = await generateAudio(prompt);
-              handleNodeUpdate(id, { audioUri: audioUri });
+              const audioUri = await generateAudio({ prompt, model: node.data.model, usage });
+              await handleNodeUpdate(id, { audioUri: audioUri }, undefined, undefined, provenance());
+              logRun('succeeded', { audioUri });
 
           } else if (node.type === NodeType.VIDEO_ANALYZER) {
              const vid = node.data.videoUri || inputs.find(n => n?.data.videoUri)?.data.videoUri;
              if (!vid) throw new Error("未找到视频输入");
              let vidData = vid;
              if (vid.startsWith('http')) vidData = await urlToBase64(vid);
-             const txt = await analyzeVideo(vidData, prompt, node.data.model);
-             handleNodeUpdate(id, { analysis: txt });
+             const txt = await analyzeVideo({ video: vidData, prompt, model: node.data.model, usage });
+             await handleNodeUpdate(id, { analysis: txt });
+             logRun('succeeded', { analysis: txt });
           } else if (node.type === NodeType.IMAGE_EDITOR) {
              const inputImages: string[] = [];
              inputs.forEach(n => { if (n?.data.image) inputImages.push(n.data.image); });
              const img = node.data.image || inputImages[0];
-             const res = await editImageWithText(img, prompt, node.data.model);
-             handleNodeUpdate(id, { image: res });
+             const res = await generateImage({ prompt, model: node.data.model, inputImages: [img], count: 1, usage });
+             await handleNodeUpdate(id, { image: res.images[0] }, undefined, undefined, provenance([img]));
+             logRun('succeeded', { images: [res.images[0]] });
+          } else if (node.type === NodeType.TIMELINE) {
+             // Renders in the browser; inputs added since the editor was last open are measured and placed first
+             const timeline = await refreshTimeline(node.data.timeline, inputs);
+             if (timeline.clips.length === 0) throw new Error('时间线上没有视频或图片片段');
+             runHash = computeNodeHashes(nodesRef.current.map(n => n.id === id ? { ...n, data: { ...n.data, timeline } } : n), connectionsRef.current).get(id);
+             const onProgress = (fraction: number) => setNodes(p => p.map(n => n.id === id ? { ...n, data: { ...n.data, progress: `${Math.round(fraction * 100)}%` } } : n));
+             const videoUri = await putMedia(await renderVideo({ ...toRenderOptions(timeline), onProgress }));
+             const sources = [...timeline.clips.map(c => c.src), ...timeline.audio.map(a => a.src)];
+             await handleNodeUpdate(id, { timeline, videoUri, videoUris: [videoUri], progress: undefined }, undefined, undefined, provenance(sources, { timeline }));
+             logRun('succeeded', { videoUris: [videoUri] });
+          } else if (node.type === NodeType.AUDIO_MERGE) {
+             const options = toMergeOptions(inputs, node.data.audioMerge);
+             const videoUri = await putMedia(await mergeAudio(options));
+             const audioMerge = { ...DEFAULT_AUDIO_MERGE, ...node.data.audioMerge };
+             await handleNodeUpdate(id, { videoUri, videoUris: [videoUri] }, undefined, undefined, provenance([options.video, ...options.audio.map(a => a.src)], { audioMerge }));
+             logRun('succeeded', { videoUris: [videoUri] });
           }
-          setNodes(p => p.map(n => n.id === id ? { ...n, status: NodeStatus.SUCCESS } : n));
+          setNodes(p => p.map(n => n.id === id ? { ...n, status: NodeStatus.SUCCESS, data: { ...n.data, runHash } } : n));
+          return true;
       } catch (e: any) {
-          handleNodeUpdate(id, { error: e.message });
+          handleNodeUpdate(id, { error: e.message, progress: undefined });
           setNodes(p => p.map(n => n.id === id ? { ...n, status: NodeStatus.ERROR } : n));
+          logRun('failed', undefined, e.message);
+          return false;
       }
   }, [handleNodeUpdate]);
 
+  // Writes a finished job back to its node: directly when its project is open, otherwise into storage. Only the node
+  // and the new asset are written there, so edits another tab made to the rest of the project stay.
+  const applyJobOutcome = async (job: GenerationJob) => {
+      if (job.source) return; // Its caller waits for the job and handles the result
+      const patch: any = { progress: undefined };
+      let status = NodeStatus.IDLE;
+      // Pinned variants of the previous run stay next to the new videos
+      const withPinned = (data: AppNode['data']) => patch.videoUris ? { ...patch, videoUris: keepPinnedVariants(data, patch.videoUris) } : patch;
+      if (job.status === 'succeeded' && job.result) {
+          const res = job.result;
+          const partial = !!res.errors?.length;
+          Object.assign(patch, res.isFallbackImage
+              ? { image: res.uri, videoUri: undefined, videoMetadata: undefined, error: res.notice }
+              : { videoUri: res.uri, videoMetadata: res.videoMetadata, videoUris: res.uris || [res.uri], error: partial ? describeVariantErrors(res.errors!, job.params.count || 1) : undefined });
+          patch.variantErrors = partial ? res.errors : undefined;
+          patch.runHash = job.runHash;
+          status = NodeStatus.SUCCESS;
+      } else if (job.status === 'failed') {
+          patch.error = job.error;
+          status = NodeStatus.ERROR;
+      }
+
+      if (job.status === 'succeeded' || job.status === 'failed') {
+          const res = job.result;
+          const outputs = res && (res.isFallbackImage ? { images: [res.uri] } : { videoUris: res.uris || [res.uri] });
+          recordRun({
+              projectId: job.projectId, nodeId: job.nodeId, params: job.runParams || {}, sentPrompt: job.params.prompt, outputs,
+              status: job.status, error: patch.error, runHash: job.runHash, startedAt: job.createdAt, durationMs: job.updatedAt - job.createdAt,
+          }).then(() => setRunHistoryVersion(v => v + 1));
+      }
+
+      const provenance = buildProvenance({
+          params: job.runParams || { model: job.model }, sentPrompt: job.params.prompt, generationMode: job.params.generationMode,
+          inputs: [job.params.inputImage || undefined, ...(job.params.referenceImages || [])], nodeId: job.nodeId, projectId: job.projectId,
+      });
+
+      // A tab that lost the project to a takeover writes the result like for a closed project
+      if (activeProjectRef.current?.id === job.projectId && !isReadOnlyRef.current) {
+          const node = nodesRef.current.find(n => n.id === job.nodeId);
+          if (!node) return;
+          const { runHash, ...data } = withPinned(node.data);
+          await handleNodeUpdate(job.nodeId, data, undefined, undefined, provenance);
+          setNodes(p => p.map(n => n.id === job.nodeId ? { ...n, status, data: runHash ? { ...n.data, runHash } : n.data } : n));
+          return;
+      }
+
+      await autosave.flush(); // The project may have been closed moments ago
+      const { nodes: stored } = await loadProject(job.projectId);
+      const node = stored.find(n => n.id === job.nodeId);
+      if (!node) return;
+      await saveNodeChanges(job.projectId, [{ ...node, status, data: { ...node.data, ...withPinned(node.data) } }], []);
+      if (job.status === 'succeeded' && job.result) {
+          const src = await internMedia(job.result.uri).catch(() => job.result!.uri);
+          const asset: Asset = { id: `a-${Date.now()}`, type: job.result.isFallbackImage ? 'image' : 'video', src, title: job.label, timestamp: Date.now(), provenance };
+          await saveAssetChanges(job.projectId, [asset], []);
+      }
+      tabSync.notifyChanged(job.projectId, job.status === 'succeeded' && job.result ? ['nodes', 'assets'] : ['nodes']);
+  };
+  jobOutcomeRef.current = applyJobOutcome;
+
+  // Resolves once the node's final status has been committed, so dependents read fresh upstream data from nodesRef
+  const waitForNodeSettled = (id: string) => new Promise<void>(resolve => {
+      if (nodesRef.current.find(n => n.id === id)?.status !== NodeStatus.WORKING) { resolve(); return; }
+      const waiters = settleWaitersRef.current;
+      waiters.set(id, [...(waiters.get(id) || []), resolve]);
+  });
+
+  // Nodes a run would actually execute: up-to-date ones are skipped (see runGraph)
+  const pendingRunNodes = (targetIds: string[]) => {
+      const hashes = computeNodeHashes(nodesRef.current, connectionsRef.current);
+      return nodesRef.current.filter(n => targetIds.includes(n.id) && !isNodeUpToDate(n, hashes.get(n.id)));
+  };
+
+  // Checks a run's estimated cost against the budgets; warn mode asks, block mode refuses
+  const confirmBudget = async (runNodes: AppNode[]) => {
+      const budgets = await loadBudgets();
+      if (budgets.perRun === undefined && budgets.perProject === undefined) return true;
+      const project = activeProjectRef.current;
+      const spent = project ? summarizeUsage(await loadProjectUsage(project.id)).total : 0;
+      const problems = checkBudget(estimateRunCost(runNodes), spent, budgets);
+      if (problems.length === 0) return true;
+      if (budgets.mode === 'block') {
+          window.alert(`已阻止运行：\n${problems.join('\n')}`);
+          return false;
+      }
+      return window.confirm(`${problems.join('\n')}\n\n仍要继续运行吗？`);
+  };
+
+  const runNode = useCallback(async (id: string, promptOverride?: string) => {
+      const node = nodesRef.current.find(n => n.id === id);
+      if (!node || !(await confirmBudget([node]))) return false;
+      return handleNodeAction(id, promptOverride);
+  }, [handleNodeAction]);
+
+  const restoreRun = (run: NodeRun) => {
+      handleVariantChange(run.nodeId, restoreRunPatch(run), '恢复历史结果');
+      setNodes(p => p.map(n => n.id === run.nodeId ? { ...n, status: NodeStatus.SUCCESS } : n));
+  };
+
+  // The node takes the run's settings (one undoable step), then runs with them
+  const rerunWithParams = (run: NodeRun) => {
+      handleVariantChange(run.nodeId, runParamsPatch(run), '载入历史参数');
+      runNode(run.nodeId, run.params.prompt);
+  };
+
+  const runGraph = useCallback(async (targetIds: string[]) => {
+      if (isGraphRunning || isReadOnlyRef.current || targetIds.length === 0) return;
+      if (!(await confirmBudget(pendingRunNodes(targetIds)))) return;
+      setIsGraphRunning(true);
+      try {
+          const result = await executeGraph(nodesRef.current, connectionsRef.current, targetIds, async (nodeId) => {
+              // Incremental run: skip nodes whose inputs are unchanged since their last successful output
+              const current = nodesRef.current.find(n => n.id === nodeId);
+              if (current && isNodeUpToDate(current, computeNodeHashes(nodesRef.current, connectionsRef.current).get(nodeId))) return true;
+              const ok = await handleNodeAction(nodeId);
+              await waitForNodeSettled(nodeId);
+              return ok;
+          });
+          if (result.cyclic.length > 0) {
+              setNodes(p => p.map(n => result.cyclic.includes(n.id) ? { ...n, status: NodeStatus.ERROR, data: { ...n.data, error: '检测到循环依赖，已跳过执行' } } : n));
+          }
+          if (result.skipped.length > 0) {
+              setNodes(p => p.map(n => result.skipped.includes(n.id) ? { ...n, data: { ...n.data, error: '上游节点失败，已跳过执行' } } : n));
+          }
+      } finally {
+          setIsGraphRunning(false);
+      }
+  }, [isGraphRunning, handleNodeAction]);
+
+  const runDownstream = useCallback((id: string) => runGraph(collectDownstream(id, nodesRef.current, connectionsRef.current)), [runGraph]);
+  const runAll = useCallback(() => runGraph(nodesRef.current.map(n => n.id)), [runGraph]);
+
   
   const saveCurrentAsWorkflow = () => {
       const thumbnailNode = nodes.find(n => n.data.image);
@@ -857,7 +1655,7 @@ export const App = () => {
 
   const loadWorkflow = (id: string) => {
       const wf = workflows.find(w => w.id === id);
-      if (wf) { saveHistory(); setNodes(JSON.parse(JSON.stringify(wf.nodes))); setConnections(JSON.parse(JSON.stringify(wf.connections))); setGroups(JSON.parse(JSON.stringify(wf.groups))); setSelectedWorkflowId(id); }
+      if (wf) { applyCanvasChange('load-workflow', `载入工作流「${wf.title}」`, () => JSON.parse(JSON.stringify({ nodes: wf.nodes, connections: wf.connections, groups: wf.groups }))); setSelectedWorkflowId(id); }
   };
 
   const deleteWorkflow = (id: string) => { setWorkflows(prev => prev.filter(w => w.id !== id)); if (selectedWorkflowId === id) setSelectedWorkflowId(null); };
@@ -869,16 +1667,17 @@ export const App = () => {
         const target = e.target as HTMLElement;
         if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
         if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'a') { e.preventDefault(); setSelectedNodeIds(nodesRef.current.map(n => n.id)); return; }
-        if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'z') { e.preventDefault(); undo(); return; }
+        if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'z') { e.preventDefault(); if (e.shiftKey) redo(); else undo(); return; }
+        if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'y') { e.preventDefault(); redo(); return; }
         if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'c') { const lastSelected = selectedNodeIds[selectedNodeIds.length - 1]; if (lastSelected) { const nodeToCopy = nodesRef.current.find(n => n.id === lastSelected); if (nodeToCopy) { e.preventDefault(); setClipboard(JSON.parse(JSON.stringify(nodeToCopy))); } } return; }
-        if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'v') { if (clipboard) { e.preventDefault(); saveHistory(); const newNode: AppNode = { ...clipboard, id: `n-${Date.now()}-${Math.floor(Math.random()*1000)}`, x: clipboard.x + 50, y: clipboard.y + 50, status: NodeStatus.IDLE, inputs: [] }; setNodes(prev => [...prev, newNode]); setSelectedNodeIds([newNode.id]); } return; }
-        if (e.key === 'Delete' || e.key === 'Backspace') { if (selectedGroupId) { saveHistory(); setGroups(prev => prev.filter(g => g.id !== selectedGroupId)); setSelectedGroupId(null); return; } if (selectedNodeIds.length > 0) { deleteNodes(selectedNodeIds); } }
+        if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'v') { if (clipboard) { e.preventDefault(); const newNode: AppNode = { ...clipboard, id: `n-${Date.now()}-${Math.floor(Math.random()*1000)}`, x: clipboard.x + 50, y: clipboard.y + 50, status: NodeStatus.IDLE, inputs: [] }; applyCanvasChange('paste', '粘贴节点', s => ({ ...s, nodes: [...s.nodes, newNode] })); setSelectedNodeIds([newNode.id]); } return; }
+        if (e.key === 'Delete' || e.key === 'Backspace') { if (selectedGroupId) { applyCanvasChange('ungroup', '删除分组', s => ({ ...s, groups: s.groups.filter(g => g.id !== selectedGroupId) })); setSelectedGroupId(null); return; } if (selectedNodeIds.length > 0) { deleteNodes(selectedNodeIds); } }
     };
     const handleKeyDownSpace = (e: KeyboardEvent) => { if (e.code === 'Space' && (e.target as HTMLElement).tagName !== 'INPUT' && (e.target as HTMLElement).tagName !== 'TEXTAREA') { document.body.classList.add('cursor-grab-override'); } };
     const handleKeyUpSpace = (e: KeyboardEvent) => { if (e.code === 'Space') { document.body.classList.remove('cursor-grab-override'); } };
     window.addEventListener('keydown', handleKeyDown); window.addEventListener('keydown', handleKeyDownSpace); window.addEventListener('keyup', handleKeyUpSpace);
     return () => { window.removeEventListener('keydown', handleKeyDown); window.removeEventListener('keydown', handleKeyDownSpace); window.removeEventListener('keyup', handleKeyUpSpace); };
-  }, [selectedWorkflowId, selectedNodeIds, selectedGroupId, deleteNodes, undo, saveHistory, clipboard]);
+  }, [selectedWorkflowId, selectedNodeIds, selectedGroupId, deleteNodes, undo, redo, applyCanvasChange, clipboard]);
 
   const handleCanvasDragOver = (e: React.DragEvent) => { e.preventDefault(); e.dataTransfer.dropEffect = 'copy'; };
   const handleCanvasDrop = (e: React.DragEvent) => {
@@ -891,19 +1690,8 @@ export const App = () => {
       if (workflowId && workflows) {
           const wf = workflows.find(w => w.id === workflowId);
           if (wf) {
-              saveHistory();
-              const minX = Math.min(...wf.nodes.map(n => n.x));
-              const minY = Math.min(...wf.nodes.map(n => n.y));
-              const width = Math.max(...wf.nodes.map(n => n.x + (n.width||420))) - minX;
-              const height = Math.max(...wf.nodes.map(n => n.y + 320)) - minY;
-              const offsetX = dropX - (minX + width/2);
-              const offsetY = dropY - (minY + height/2);
-              const idMap = new Map<string, string>();
-              const newNodes = wf.nodes.map(n => { const newId = `n-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`; idMap.set(n.id, newId); return { ...n, id: newId, x: n.x + offsetX, y: n.y + offsetY, status: NodeStatus.IDLE, inputs: [] }; });
-              newNodes.forEach((n, i) => { const original = wf.nodes[i]; n.inputs = original.inputs.map(oldId => idMap.get(oldId)).filter(Boolean) as string[]; });
-              const newConnections = wf.connections.map(c => ({ from: idMap.get(c.from)!, to: idMap.get(c.to)! })).filter(c => c.from && c.to);
-              const newGroups = (wf.groups || []).map(g => ({ ...g, id: `g-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, x: g.x + offsetX, y: g.y + offsetY }));
-              setNodes(prev => [...prev, ...newNodes]); setConnections(prev => [...prev, ...newConnections]); setGroups(prev => [...prev, ...newGroups]);
+              const { nodes: newNodes, connections: newConnections, groups: newGroups } = cloneGraph({ nodes: wf.nodes, connections: wf.connections, groups: wf.groups || [] }, offsetToCenter(wf.nodes, dropX, dropY));
+              applyCanvasChange('add', `插入工作流「${wf.title}」`, s => ({ nodes: [...s.nodes, ...newNodes], connections: [...s.connections, ...newConnections], groups: [...s.groups, ...newGroups] }));
           }
           return;
       }
@@ -913,6 +1701,7 @@ export const App = () => {
               if (asset && asset.type) {
                   if (asset.type === 'image') addNode(NodeType.IMAGE_GENERATOR, dropX - 210, dropY - 180, { image: asset.src, prompt: asset.title });
                   else if (asset.type === 'video') addNode(NodeType.VIDEO_GENERATOR, dropX - 210, dropY - 180, { videoUri: asset.src });
+                  else if (asset.type === 'audio') addNode(NodeType.AUDIO_GENERATOR, dropX - 210, dropY - 180, { audioUri: asset.src, prompt: asset.title });
               }
               return;
           } catch (err) { console.error("Drop failed", err); }
@@ -966,7 +1755,7 @@ export const App = () => {
       <div 
           className={`w-full h-full overflow-hidden text-slate-200 selection:bg-cyan-500/30 ${isDraggingCanvas ? 'cursor-grabbing' : 'cursor-default'}`}
           onMouseDown={handleCanvasMouseDown} onWheel={handleWheel} 
-          onDoubleClick={(e) => { e.preventDefault(); if (e.detail > 1 && !selectionRect) { setContextMenu({ visible: true, x: e.clientX, y: e.clientY, id: '' }); setContextMenuTarget({ type: 'create' }); } }}
+          onDoubleClick={(e) => { e.preventDefault(); if (e.detail > 1 && !selectionRect && !isReadOnly) { setContextMenu({ visible: true, x: e.clientX, y: e.clientY, id: '' }); setContextMenuTarget({ type: 'create' }); } }}
           onContextMenu={(e) => { e.preventDefault(); if(e.target === e.currentTarget) setContextMenu(null); }}
           onDragOver={handleCanvasDragOver} onDrop={handleCanvasDrop}
       >
@@ -974,18 +1763,8 @@ export const App = () => {
           <div className="absolute inset-0 pointer-events-none opacity-[0.06]" style={{ backgroundImage: 'radial-gradient(circle, #aaa 1px, transparent 1px)', backgroundSize: `${32 * scale}px ${32 * scale}px`, backgroundPosition: `${pan.x}px ${pan.y}px` }} />
 
           <div className={`absolute inset-0 flex flex-col items-center justify-center transition-all duration-700 ease-[${SPRING}] z-50 pointer-events-none ${nodes.length > 0 ? 'opacity-0 scale-105' : 'opacity-100 scale-100'}`}>
-                {/* ... (Welcome Screen) ... */}
-                <div className="flex flex-col items-center justify-center mb-10 select-none animate-in fade-in slide-in-from-bottom-8 duration-1000">
-                    <div className="relative">
-                        <h1 className="text-6xl md:text-8xl font-black tracking-tighter text-transparent bg-clip-text bg-gradient-to-b from-white via-zinc-300 to-zinc-600 drop-shadow-sm px-4 pb-2">SUNSTUDIO</h1>
-                        <div className="absolute -inset-10 bg-gradient-to-r from-cyan-500/20 via-purple-500/20 to-blue-500/20 blur-[60px] opacity-20 pointer-events-none mix-blend-screen"></div>
-                    </div>
-                    <div className="flex items-center gap-4 mt-4">
-                        <div className="h-px w-12 bg-gradient-to-r from-transparent to-zinc-600"></div>
-                        <span className="text-[11px] font-bold tracking-[0.6em] text-zinc-500 uppercase">Welcome</span>
-                        <div className="h-px w-12 bg-gradient-to-l from-transparent to-zinc-600"></div>
-                    </div>
-                </div>
+                {/* Empty Canvas Hint */}
+                <h2 className="mb-4 text-3xl font-black tracking-tight text-transparent bg-clip-text bg-gradient-to-b from-white to-zinc-500 select-none">{activeProject?.title}</h2>
 
                 <div className="flex items-center gap-2 mb-6 text-zinc-500 text-xs font-medium tracking-wide opacity-60">
                     <div className="px-1.5 py-0.5 rounded-md bg-zinc-800/50 border border-zinc-700/50 text-[10px] flex items-center gap-1">
@@ -1013,10 +1792,35 @@ export const App = () => {
                 </div>
             </div>
 
+          {storageError && (
+              <div className="absolute top-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 px-4 py-2.5 rounded-2xl bg-red-500/10 border border-red-500/30 text-red-300 text-xs backdrop-blur-xl shadow-2xl">
+                  <AlertTriangle size={14} />
+                  <span>{storageError}</span>
+                  <button onClick={() => { setIsStorageOpen(true); setStorageError(null); }} className="px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-[10px] font-bold text-white transition-colors">管理存储</button>
+                  <button onClick={() => setStorageError(null)} className="p-1 rounded-full hover:bg-white/10 transition-colors"><X size={12} /></button>
+              </div>
+          )}
+
+          {isReadOnly && !storageError && (
+              <div className="absolute top-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 px-4 py-2.5 rounded-2xl bg-cyan-500/10 border border-cyan-500/30 text-cyan-200 text-xs backdrop-blur-xl shadow-2xl">
+                  <Lock size={14} />
+                  <span>此项目正在另一个标签页中编辑，当前为只读</span>
+                  <button onClick={takeOverProject} className="px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-[10px] font-bold text-white transition-colors">接管编辑</button>
+              </div>
+          )}
+
+          {quarantinedCount > 0 && !storageError && !isReadOnly && (
+              <div className="absolute top-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 px-4 py-2.5 rounded-2xl bg-amber-500/10 border border-amber-500/30 text-amber-300 text-xs backdrop-blur-xl shadow-2xl">
+                  <AlertTriangle size={14} />
+                  <span>{quarantinedCount} 条存档记录已损坏，已隔离保存，未加载到画布</span>
+                  <button onClick={() => setQuarantinedCount(0)} className="p-1 rounded-full hover:bg-white/10 transition-colors"><X size={12} /></button>
+              </div>
+          )}
+
           <input type="file" ref={replaceVideoInputRef} className="hidden" accept="video/*" onChange={(e) => handleReplaceFile(e, 'video')} />
           <input type="file" ref={replaceImageInputRef} className="hidden" accept="image/*" onChange={(e) => handleReplaceFile(e, 'image')} />
 
-          <div style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${scale})`, width: '100%', height: '100%', transformOrigin: '0 0' }} className="w-full h-full">
+          <div style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${scale})`, width: '100%', height: '100%', transformOrigin: '0 0' }} className={`w-full h-full ${isReadOnly ? 'pointer-events-none' : ''}`}>
               {/* Groups Layer */}
               {groups.map(g => (
                   <div 
@@ -1025,6 +1829,7 @@ export const App = () => {
                           e.stopPropagation(); setSelectedGroupId(g.id); 
                           const childNodes = nodes.filter(n => { const b = getNodeBounds(n); const cx = b.x + b.width/2; const cy = b.y + b.height/2; return cx>g.x && cx<g.x+g.width && cy>g.y && cy<g.y+g.height; }).map(n=>({id:n.id, startX:n.x, startY:n.y}));
                           dragGroupRef.current = { id: g.id, startX: g.x, startY: g.y, mouseStartX: e.clientX, mouseStartY: e.clientY, childNodes };
+                          gestureStartRef.current = captureCanvas();
                           setActiveGroupNodeIds(childNodes.map(c => c.id)); setDraggingGroup({ id: g.id }); 
                       }} 
                       onContextMenu={e => { e.stopPropagation(); setContextMenu({visible:true, x:e.clientX, y:e.clientY, id:g.id}); setContextMenuTarget({type:'group', id:g.id}); }}
@@ -1066,7 +1871,7 @@ export const App = () => {
 
               {nodes.map(node => (
               <Node
-                  key={node.id} node={node} onUpdate={handleNodeUpdate} onAction={handleNodeAction} onDelete={(id) => deleteNodes([id])} onExpand={setExpandedMedia} onCrop={(id, img) => { setCroppingNodeId(id); setImageToCrop(img); }}
+                  key={node.id} node={node} onUpdate={handleNodeUpdate} onVariantChange={handleVariantChange} onOpenRunHistory={setRunHistoryNodeId} onOpenTimeline={setTimelineNodeId} onDownload={handleDownloadNode} onAction={runNode} onDelete={(id) => deleteNodes([id])} onExpand={setExpandedMedia} onCrop={(id, img) => { setCroppingNodeId(id); setImageToCrop(img); }}
                   onNodeMouseDown={(e, id) => { 
                       e.stopPropagation(); 
                       if (e.shiftKey || e.metaKey || e.ctrlKey) { setSelectedNodeIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]); } else { setSelectedNodeIds([id]); }
@@ -1077,7 +1882,7 @@ export const App = () => {
                           let siblingNodeIds: string[] = [];
                           if (pGroup) { siblingNodeIds = nodes.filter(other => { if (other.id === id) return false; const b = getNodeBounds(other); const ocx = b.x + b.width/2; const ocy = b.y + b.height/2; return ocx > pGroup.x && ocx < pGroup.x + pGroup.width && ocy > pGroup.y && ocy < pGroup.y + pGroup.height; }).map(s => s.id); }
                           dragNodeRef.current = { id, startX: n.x, startY: n.y, mouseStartX: e.clientX, mouseStartY: e.clientY, parentGroupId: pGroup?.id, siblingNodeIds, nodeWidth: w, nodeHeight: h };
-                          setDraggingNodeParentGroupId(pGroup?.id || null); setDraggingNodeId(id); 
+                          setDraggingNodeParentGroupId(pGroup?.id || null); setDraggingNodeId(id); gestureStartRef.current = captureCanvas();
                       }
                   }}
                   onPortMouseDown={(e, id, type) => { e.stopPropagation(); setConnectionStart({ id, x: e.clientX, y: e.clientY }); }}
@@ -1085,7 +1890,7 @@ export const App = () => {
                       e.stopPropagation(); 
                       const start = connectionStartRef.current; 
                       if (start && start.id !== id) {
-                          if (start.id === 'smart-sequence-dock') { } else { setConnections(p => [...p, { from: start.id, to: id }]); setNodes(p => p.map(n => n.id === id ? { ...n, inputs: [...n.inputs, start.id] } : n)); }
+                          if (start.id === 'smart-sequence-dock') { } else { applyCanvasChange('connect', '连接节点', s => ({ ...s, connections: [...s.connections, { from: start.id, to: id }], nodes: s.nodes.map(n => n.id === id ? { ...n, inputs: [...n.inputs, start.id] } : n) })); }
                       } 
                       setConnectionStart(null); 
                   }}
@@ -1100,15 +1905,29 @@ export const App = () => {
                           if (pGroup) { siblingNodeIds = nodes.filter(other => { if (other.id === id) return false; const b = getNodeBounds(other); const ocx = b.x + b.width/2; const ocy = b.y + b.height/2; return ocx > pGroup.x && ocx < pGroup.x + pGroup.width && ocy > pGroup.y && ocy < pGroup.y + pGroup.height; }).map(s => s.id); }
                           resizeContextRef.current = { nodeId: id, initialWidth: w, initialHeight: h, startX: e.clientX, startY: e.clientY, parentGroupId: pGroup?.id || null, siblingNodeIds };
                       }
-                      setResizingNodeId(id); setInitialSize({ width: w, height: h }); setResizeStartPos({ x: e.clientX, y: e.clientY }); 
+                      setResizingNodeId(id); setInitialSize({ width: w, height: h }); setResizeStartPos({ x: e.clientX, y: e.clientY }); gestureStartRef.current = captureCanvas();
                   }}
-                  isSelected={selectedNodeIds.includes(node.id)} 
+                  isSelected={selectedNodeIds.includes(node.id)} isStale={isNodeStale(node, nodeHashes.get(node.id))}
                   inputAssets={node.inputs.map(i => nodes.find(n => n.id === i)).filter(n => n && (n.data.image || n.data.videoUri || n.data.croppedFrame)).slice(0, 6).map(n => ({ id: n!.id, type: (n!.data.croppedFrame || n!.data.image) ? 'image' : 'video', src: n!.data.croppedFrame || n!.data.image || n!.data.videoUri! }))}
-                  onInputReorder={(nodeId, newOrder) => { const node = nodes.find(n => n.id === nodeId); if (node) { setNodes(prev => prev.map(n => n.id === nodeId ? { ...n, inputs: newOrder } : n)); } }}
+                  onInputReorder={(nodeId, newOrder) => { applyCanvasChange('update-data', '调整输入顺序', s => ({ ...s, nodes: s.nodes.map(n => n.id === nodeId ? { ...n, inputs: newOrder } : n) })); }}
                   isDragging={draggingNodeId === node.id} isResizing={resizingNodeId === node.id} isConnecting={!!connectionStart} isGroupDragging={activeGroupNodeIds.includes(node.id)}
               />
               ))}
 
+              {/* Presence Layer: selections and cursors of collaborators; labels keep their size at any zoom */}
+              {peers.flatMap(peer => peer.selection.map(id => {
+                  const n = nodes.find(x => x.id === id);
+                  if (!n) return null;
+                  const b = getNodeBounds(n);
+                  return <div key={`${peer.clientId}-${id}`} className="absolute rounded-[28px] border-2 pointer-events-none" style={{ left: b.x - 6, top: b.y - 6, width: b.width + 12, height: b.height + 12, borderColor: peer.user.color }} />;
+              }))}
+              {peers.filter(peer => peer.cursor).map(peer => (
+                  <div key={peer.clientId} className="absolute pointer-events-none z-50 transition-[left,top] duration-75" style={{ left: peer.cursor!.x, top: peer.cursor!.y, transform: `scale(${1 / scale})`, transformOrigin: '0 0' }}>
+                      <MousePointer2 size={16} style={{ color: peer.user.color, fill: peer.user.color }} />
+                      <span className="absolute left-4 top-4 px-1.5 py-0.5 rounded-md text-[10px] font-bold text-black whitespace-nowrap" style={{ backgroundColor: peer.user.color }}>{peer.user.name}</span>
+                  </div>
+              ))}
+
               {selectionRect && <div className="absolute border border-cyan-500/40 bg-cyan-500/10 rounded-lg pointer-events-none" style={{ left: (Math.min(selectionRect.startX, selectionRect.currentX) - pan.x) / scale, top: (Math.min(selectionRect.startY, selectionRect.currentY) - pan.y) / scale, width: Math.abs(selectionRect.currentX - selectionRect.startX) / scale, height: Math.abs(selectionRect.currentY - selectionRect.startY) / scale }} />}
           </div>
 
@@ -1120,23 +1939,30 @@ export const App = () => {
                               <Copy size={12} /> 复制节点
                           </button>
                           {(() => { const targetNode = nodes.find(n => n.id === contextMenu.id); if (targetNode) { const isVideo = targetNode.type === NodeType.VIDEO_GENERATOR || targetNode.type === NodeType.VIDEO_ANALYZER; const isImage = targetNode.type === NodeType.IMAGE_GENERATOR || targetNode.type === NodeType.IMAGE_EDITOR; if (isVideo || isImage) { return ( <button className="w-full text-left px-3 py-2 text-xs font-medium text-slate-300 hover:bg-purple-500/20 hover:text-purple-400 rounded-lg flex items-center gap-2 transition-colors" onClick={() => { replacementTargetRef.current = contextMenu.id; if (isVideo) replaceVideoInputRef.current?.click(); else replaceImageInputRef.current?.click(); setContextMenu(null); }}> <RefreshCw size={12} /> 替换素材 </button> ); } } return null; })()}
+                          <button disabled={isGraphRunning} className="w-full text-left px-3 py-2 text-xs font-medium text-slate-300 hover:bg-emerald-500/20 hover:text-emerald-400 rounded-lg flex items-center gap-2 transition-colors disabled:opacity-40 disabled:pointer-events-none" onClick={() => { runDownstream(contextMenu.id!); setContextMenu(null); }}><Play size={12} /> 运行此节点及下游<span className="ml-auto text-[10px] text-slate-500 tabular-nums">≈{formatCost(estimateRunCost(pendingRunNodes(collectDownstream(contextMenu.id!, nodes, connections))))}</span></button>
                           <button className="w-full text-left px-3 py-2 text-xs font-medium text-red-400 hover:bg-red-500/20 rounded-lg flex items-center gap-2 transition-colors mt-1" onClick={() => { deleteNodes([contextMenuTarget.id]); setContextMenu(null); }}><Trash2 size={12} /> 删除节点</button>
                       </>
                   )}
                   {contextMenuTarget?.type === 'create' && (
                       <>
                           <div className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider text-slate-500">创建新节点</div>
-                          {[NodeType.PROMPT_INPUT, NodeType.IMAGE_GENERATOR, NodeType.VIDEO_GENERATOR, NodeType.AUDIO_GENERATOR, NodeType.VIDEO_ANALYZER, NodeType.IMAGE_EDITOR].map(t => { const ItemIcon = getNodeIcon(t); return ( <button key={t} className="w-full text-left px-3 py-2 text-xs font-medium text-slate-200 hover:bg-white/10 rounded-lg flex items-center gap-2.5 transition-colors" onClick={() => { addNode(t, (contextMenu.x-pan.x)/scale, (contextMenu.y-pan.y)/scale); setContextMenu(null); }}> <ItemIcon size={12} className="text-cyan-400" /> {getNodeNameCN(t)} </button> ); })}
+                          {[NodeType.PROMPT_INPUT, NodeType.IMAGE_GENERATOR, NodeType.VIDEO_GENERATOR, NodeType.AUDIO_GENERATOR, NodeType.VIDEO_ANALYZER, NodeType.IMAGE_EDITOR, NodeType.TIMELINE, NodeType.AUDIO_MERGE].map(t => { const ItemIcon = getNodeIcon(t); return ( <button key={t} className="w-full text-left px-3 py-2 text-xs font-medium text-slate-200 hover:bg-white/10 rounded-lg flex items-center gap-2.5 transition-colors" onClick={() => { addNode(t, (contextMenu.x-pan.x)/scale, (contextMenu.y-pan.y)/scale); setContextMenu(null); }}> <ItemIcon size={12} className="text-cyan-400" /> {getNodeNameCN(t)} </button> ); })}
+                          {nodes.length > 0 && (
+                              <>
+                                  <div className="h-px bg-white/10 my-1" />
+                                  <button disabled={isGraphRunning} className="w-full text-left px-3 py-2 text-xs font-medium text-slate-200 hover:bg-emerald-500/20 hover:text-emerald-400 rounded-lg flex items-center gap-2.5 transition-colors disabled:opacity-40 disabled:pointer-events-none" onClick={() => { runAll(); setContextMenu(null); }}> <PlayCircle size={12} className="text-emerald-400" /> 运行整个画布 <span className="ml-auto text-[10px] text-slate-500 tabular-nums">≈{formatCost(estimateRunCost(pendingRunNodes(nodes.map(n => n.id))))}</span></button>
+                              </>
+                          )}
                       </>
                   )}
                   {contextMenuTarget?.type === 'group' && (
                       <>
                            <button className="w-full text-left px-3 py-2 text-xs font-medium text-slate-200 hover:bg-white/10 rounded-lg flex items-center gap-2 transition-colors mb-1" onClick={() => { saveGroupAsWorkflow(contextMenu.id); setContextMenu(null); }}> <FolderHeart size={12} className="text-cyan-400" /> 保存为工作流 </button>
-                           <button className="w-full text-left px-3 py-2 text-xs font-medium text-red-400 hover:bg-red-500/20 rounded-lg flex items-center gap-2 transition-colors" onClick={() => { setGroups(p => p.filter(g => g.id !== contextMenu.id)); setContextMenu(null); }}> <Trash2 size={12} /> 删除分组 </button>
+                           <button className="w-full text-left px-3 py-2 text-xs font-medium text-red-400 hover:bg-red-500/20 rounded-lg flex items-center gap-2 transition-colors" onClick={() => { const groupId = contextMenu.id; applyCanvasChange('ungroup', '删除分组', s => ({ ...s, groups: s.groups.filter(g => g.id !== groupId) })); setContextMenu(null); }}> <Trash2 size={12} /> 删除分组 </button>
                       </>
                   )}
                   {contextMenuTarget?.type === 'connection' && (
-                      <button className="w-full text-left px-3 py-2 text-xs font-medium text-red-400 hover:bg-red-500/20 rounded-lg flex items-center gap-2 transition-colors" onClick={() => { setConnections(prev => prev.filter(c => c.from !== contextMenuTarget.from || c.to !== contextMenuTarget.to)); setNodes(prev => prev.map(n => n.id === contextMenuTarget.to ? { ...n, inputs: n.inputs.filter(i => i !== contextMenuTarget.from) } : n)); setContextMenu(null); }}> <Unplug size={12} /> 删除连接线 </button>
+                      <button className="w-full text-left px-3 py-2 text-xs font-medium text-red-400 hover:bg-red-500/20 rounded-lg flex items-center gap-2 transition-colors" onClick={() => { const { from, to } = contextMenuTarget; applyCanvasChange('disconnect', '删除连接线', s => ({ ...s, connections: s.connections.filter(c => c.from !== from || c.to !== to), nodes: s.nodes.map(n => n.id === to ? { ...n, inputs: n.inputs.filter(i => i !== from) } : n) })); setContextMenu(null); }}> <Unplug size={12} /> 删除连接线 </button>
                   )}
               </div>
           )}
@@ -1147,7 +1973,9 @@ export const App = () => {
           <SmartSequenceDock 
              isOpen={isMultiFrameOpen} 
              onClose={() => setIsMultiFrameOpen(false)} 
-             onGenerate={handleMultiFrameGenerate}
+             onGenerateSegment={handleSequenceSegment}
+             onConfirmRun={confirmSequenceBudget}
+             onStitch={handleSequenceStitch}
              onConnectStart={(e, type) => { e.preventDefault(); e.stopPropagation(); setConnectionStart({ id: 'smart-sequence-dock', x: e.clientX, y: e.clientY }); }}
           />
           <SonicStudio 
@@ -1157,10 +1985,19 @@ export const App = () => {
             onGenerate={(src, prompt) => handleAssetGenerated('audio', src, prompt)}
           />
           <SettingsModal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
+          <StorageManager isOpen={isStorageOpen} onClose={() => setIsStorageOpen(false)} onEvict={runEviction} />
+          {activeProject && <CollabPanel isOpen={isCollabOpen} onClose={() => setIsCollabOpen(false)} projectId={activeProject.id} room={collabRoom} status={collabStatus} peers={peers} isReadOnly={isReadOnly} onJoin={joinCollab} onLeave={leaveCollab} />}
+          {activeProject && <UsageDashboard isOpen={isUsageOpen} onClose={() => setIsUsageOpen(false)} projectId={activeProject.id} projectTitle={activeProject.title} nodes={nodes} />}
 
           <SidebarDock 
               onAddNode={addNode}
               onUndo={undo}
+              onRedo={redo}
+              isHistoryPanelOpen={isHistoryPanelOpen}
+              onToggleHistoryPanel={() => { setIsHistoryPanelOpen(!isHistoryPanelOpen); setIsJobsPanelOpen(false); }}
+              isJobsPanelOpen={isJobsPanelOpen}
+              onToggleJobsPanel={() => { setIsJobsPanelOpen(!isJobsPanelOpen); setIsHistoryPanelOpen(false); }}
+              activeJobCount={jobs.filter(isActiveJob).length}
               isChatOpen={isChatOpen}
               onToggleChat={() => setIsChatOpen(!isChatOpen)}
               isMultiFrameOpen={isMultiFrameOpen}
@@ -1168,8 +2005,10 @@ export const App = () => {
               isSonicStudioOpen={isSonicStudioOpen}
               onToggleSonicStudio={() => setIsSonicStudioOpen(!isSonicStudioOpen)}
               assetHistory={assetHistory}
-              onHistoryItemClick={(item) => { const type = item.type.includes('image') ? NodeType.IMAGE_GENERATOR : NodeType.VIDEO_GENERATOR; const data = item.type === 'image' ? { image: item.src } : { videoUri: item.src }; addNode(type, undefined, undefined, data); }}
-              onDeleteAsset={(id) => setAssetHistory(prev => prev.filter(a => a.id !== id))}
+              onHistoryItemClick={(item) => { const type = item.type === 'image' ? NodeType.IMAGE_GENERATOR : item.type === 'video' ? NodeType.VIDEO_GENERATOR : NodeType.AUDIO_GENERATOR; const data = item.type === 'image' ? { image: item.src } : item.type === 'video' ? { videoUri: item.src } : { audioUri: item.src }; addNode(type, undefined, undefined, data); }}
+              onDeleteAssets={handleDeleteAssets}
+              onUpdateAssets={handleUpdateAssets}
+              onExportAssets={handleExportAssets}
               workflows={workflows}
               selectedWorkflowId={selectedWorkflowId}
               onSelectWorkflow={loadWorkflow}
@@ -1177,11 +2016,35 @@ export const App = () => {
               onDeleteWorkflow={deleteWorkflow}
               onRenameWorkflow={renameWorkflow}
               onOpenSettings={() => setIsSettingsOpen(true)}
+              onOpenUsage={() => setIsUsageOpen(true)}
+              onOpenStorage={() => setIsStorageOpen(true)}
+              onOpenCollab={() => setIsCollabOpen(true)}
+              collabPeerCount={collabRoom ? peers.length : undefined}
+              onOpenProjects={closeProject}
+              onExportWorkflow={handleExportWorkflow}
           />
 
+          <HistoryPanel isOpen={isHistoryPanelOpen} onClose={() => setIsHistoryPanelOpen(false)} stack={historyStack} onJump={jumpToHistory} onUndo={undo} onRedo={redo} />
+          {timelineNodeId && (() => {
+              const timelineNode = nodes.find(n => n.id === timelineNodeId);
+              if (!timelineNode) return null;
+              const timelineInputs = timelineNode.inputs.map(i => nodes.find(n => n.id === i)).filter(Boolean) as AppNode[];
+              return <TimelineEditor node={timelineNode} inputs={timelineInputs} onChange={(id, timeline) => handleNodeUpdate(id, { timeline })} onRender={runNode} onClose={() => setTimelineNodeId(null)} />;
+          })()}
+          <RunHistoryDrawer node={runHistoryNodeId ? nodes.find(n => n.id === runHistoryNodeId) : undefined} version={runHistoryVersion} onClose={() => setRunHistoryNodeId(null)} onRestore={restoreRun} onRerun={rerunWithParams} />
+          <JobsPanel isOpen={isJobsPanelOpen} onClose={() => setIsJobsPanelOpen(false)} jobs={jobs} onCancel={cancelJob} onRetry={retryJob} onClearFinished={clearFinishedJobs} />
+
           <AssistantPanel isOpen={isChatOpen} onClose={() => setIsChatOpen(false)} />
 
           <div className="absolute bottom-8 right-8 flex items-center gap-3 px-4 py-2 bg-[#1c1c1e]/80 backdrop-blur-2xl border border-white/10 rounded-full shadow-2xl z-50 animate-in fade-in slide-in-from-bottom-4 duration-700">
+              {isReadOnly ? (
+                  <span className="flex items-center gap-1.5 pr-3 border-r border-white/10 text-[10px] font-bold text-cyan-300"><Lock size={12} />只读</span>
+              ) : (
+                  <button onClick={() => saveStatus === 'failed' ? setIsStorageOpen(true) : autosave.flush()} className={`flex items-center gap-1.5 pr-3 border-r border-white/10 text-[10px] font-bold transition-colors ${saveStatus === 'failed' ? 'text-red-400 hover:text-red-300' : 'text-slate-500 hover:text-white'}`} title={saveStatus === 'failed' ? '管理存储' : '立即保存'}>
+                      {saveStatus === 'saving' ? <Loader2 size={12} className="animate-spin" /> : saveStatus === 'failed' ? <CloudOff size={12} /> : <CheckCircle2 size={12} />}
+                      {saveStatus === 'saving' ? '保存中…' : saveStatus === 'failed' ? '保存失败' : '已保存'}
+                  </button>
+              )}
               <button onClick={() => setScale(s => Math.max(0.2, s - 0.1))} className="p-1.5 text-slate-400 hover:text-white transition-colors rounded-full hover:bg-white/10"><Minus size={14} strokeWidth={3} /></button>
               <div className="flex items-center gap-2 min-w-[100px]">
                    <input type="range" min="0.2" max="3" step="0.1" value={scale} onChange={(e) => setScale(parseFloat(e.target.value))} className="w-24 h-1 bg-white/20 rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:shadow-lg hover:[&::-webkit-slider-thumb]:scale-125 transition-all" />
@@ -1193,6 +2056,34 @@ export const App = () => {
               </button>
           </div>
       </div>
+
+      {isLoaded && !activeProject && (
+          <ProjectBrowser
+              projects={projects}
+              onOpen={openProject}
+              onCreate={createProject}
+              onRename={renameProject}
+              onDuplicate={handleDuplicateProject}
+              onDelete={handleDeleteProject}
+              onExport={handleExportProject}
+              onImport={handleImportArchive}
+          />
+      )}
+
+      {importReport && (
+          <div className={`fixed bottom-8 left-1/2 -translate-x-1/2 z-[90] w-[420px] max-h-[40vh] flex flex-col gap-2 px-4 py-3 rounded-2xl border backdrop-blur-xl shadow-2xl text-xs ${importReport.failed ? 'bg-red-500/10 border-red-500/30 text-red-300' : importReport.issues.length > 0 ? 'bg-amber-500/10 border-amber-500/30 text-amber-300' : 'bg-emerald-500/10 border-emerald-500/30 text-emerald-300'}`}>
+              <div className="flex items-center gap-2">
+                  {importReport.failed || importReport.issues.length > 0 ? <AlertTriangle size={14} /> : <Sparkles size={14} />}
+                  <span className="flex-1 font-medium truncate">{importReport.title}</span>
+                  <button onClick={() => setImportReport(null)} className="p-1 rounded-full hover:bg-white/10 transition-colors"><X size={12} /></button>
+              </div>
+              {importReport.issues.length > 0 && (
+                  <ul className="overflow-y-auto custom-scrollbar space-y-1 pl-6 list-disc opacity-80">
+                      {importReport.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+                  </ul>
+              )}
+          </div>
+      )}
     </div>
   );
 };
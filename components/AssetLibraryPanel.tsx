@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { X, Search, Star, Info, Download, Trash2, CheckSquare, Square, Music, FolderOpen, Tag, Image as ImageIcon } from 'lucide-react';
+import { Asset } from '../types';
+import { AssetPatch, AssetSort, AssetTypeFilter, UNFILED_FOLDER, listFolders, listTags, parseTags, queryAssets } from '../services/assetLibrary';
+import { ProviderId, getModelInfo, getProvider } from '../services/providers';
+import { LOCAL_PROVIDER } from '../services/provenance';
+import { MediaImage, MediaVideo } from './MediaElements';
+
+interface AssetLibraryPanelProps {
+    assets: Asset[];
+    detailAssetId: string | null;
+    onShowDetails: (id: string | null) => void;
+    onClose: () => void;
+    onOpen: (asset: Asset) => void; // Adds the asset to the canvas
+    onContextMenu: (e: React.MouseEvent, asset: Asset) => void;
+    onUpdateAssets?: (ids: string[], update: (asset: Asset) => AssetPatch) => void;
+    onDeleteAssets: (ids: string[]) => void;
+    onExportAssets?: (ids: string[]) => void;
+}
+
+const TYPE_TABS: { id: AssetTypeFilter, label: string }[] = [
+    { id: 'all', label: '全部' }, { id: 'image', label: '图片' }, { id: 'video', label: '视频' }, { id: 'audio', label: '音频' },
+];
+
+const SORT_LABELS: Record<AssetSort, string> = { date: '按时间', type: '按类型', model: '按模型' };
+
+const GENERATION_MODE_LABELS: Record<string, string> = {
+    DEFAULT: '标准生成', CONTINUE: '剧情延展', FIRST_LAST_FRAME: '收尾插帧', CUT: '局部分镜', CHARACTER_REF: '角色迁移',
+};
+
+const FOLDER_LIST_ID = 'asset-library-folders';
+
+const CHIP = 'px-2 py-1 rounded-md text-[10px] font-bold transition-all';
+const CHIP_ACTIVE = 'bg-white/10 text-white shadow-sm';
+const CHIP_IDLE = 'text-slate-500 hover:text-slate-300';
+const SMALL_INPUT = 'bg-black/30 border border-white/10 rounded-md px-2 py-1 text-[10px] text-slate-200 outline-none focus:border-cyan-500/50 placeholder:text-slate-600';
+
+// Commits on Enter or blur; `key` on the caller resets the draft when the stored value changes
+const CommitInput: React.FC<{ initial: string, placeholder: string, list?: string, onCommit: (value: string) => void }> = ({ initial, placeholder, list, onCommit }) => {
+    const [value, setValue] = useState(initial);
+    const commit = () => { if (value !== initial) onCommit(value); };
+    return (
+        <input
+            className={`${SMALL_INPUT} w-full`}
+            value={value}
+            placeholder={placeholder}
+            list={list}
+            onChange={e => setValue(e.target.value)}
+            onBlur={commit}
+            onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        />
+    );
+};
+
+const AssetDetails = ({ asset, onExport, onUpdate, onClose }: { asset: Asset, onExport?: () => void, onUpdate?: (patch: AssetPatch) => void, onClose: () => void }) => {
+    const p = asset.provenance;
+    const params = p && [p.params.aspectRatio, p.params.resolution, p.params.duration ? `${p.params.duration}s` : undefined, p.params.count && p.params.count > 1 ? `×${p.params.count}` : undefined].filter(Boolean).join(' · ');
+    const isLocal = p?.provider === LOCAL_PROVIDER;
+    const rows: [string, string | undefined][] = p ? [
+        ['模型', isLocal ? undefined : getModelInfo(p.model)?.label || p.model || '默认模型'],
+        ['服务', isLocal ? '本地剪辑' : getProvider(p.provider as ProviderId)?.label || p.provider],
+        ['剪辑', p.edit?.timeline && `${p.edit.timeline.clips.length} 个画面片段 · ${p.edit.timeline.audio.length} 段音频`],
+        ['配音', p.edit?.audioMerge && `偏移 ${p.edit.audioMerge.offset ?? 0}s · 音量 ${Math.round((p.edit.audioMerge.volume ?? 1) * 100)}%${p.edit.audioMerge.fit === 'loop' ? ' · 循环' : ''}`],
+        ['模式', p.generationMode && GENERATION_MODE_LABELS[p.generationMode]],
+        ['参数', params],
+        ['输入素材', p.inputs.length > 0 ? `${p.inputs.length} 个` : undefined],
+        ['生成时间', new Date(p.createdAt).toLocaleString()],
+    ] : [];
+    const prompt = p?.sentPrompt || p?.prompt;
+
+    return (
+        <div className="m-2 p-3 rounded-xl bg-black/30 border border-white/10 text-[10px] space-y-1.5" onClick={e => e.stopPropagation()}>
+            <div className="flex items-center justify-between">
+                <span className="font-bold text-slate-200 truncate">{asset.title || 'Untitled'}</span>
+                <button onClick={onClose}><X size={12} className="text-slate-500 hover:text-white" /></button>
+            </div>
+            {!p && <div className="text-slate-500">无来源信息（上传或手动编辑的素材）</div>}
+            {rows.filter(([, value]) => value).map(([label, value]) => (
+                <div key={label} className="flex gap-2"><span className="w-14 shrink-0 text-slate-500">{label}</span><span className="text-slate-300 break-all">{value}</span></div>
+            ))}
+            {prompt && <div className="text-slate-400 line-clamp-4 break-words" title={prompt}>{prompt}</div>}
+            {onUpdate && (
+                <div className="space-y-1 pt-1">
+                    <CommitInput key={`tags-${asset.id}-${asset.tags?.join(' ')}`} initial={(asset.tags || []).join(' ')} placeholder="标签，空格分隔" onCommit={v => onUpdate({ tags: parseTags(v) })} />
+                    <CommitInput key={`folder-${asset.id}-${asset.folder}`} initial={asset.folder || ''} placeholder="文件夹" list={FOLDER_LIST_ID} onCommit={v => onUpdate({ folder: v.trim() })} />
+                </div>
+            )}
+            {onExport && (
+                <button onClick={onExport} className="w-full mt-1 py-1.5 rounded-md bg-white/5 hover:bg-white/10 text-slate-300 hover:text-white flex items-center justify-center gap-1.5"><Download size={11} />导出（含来源信息）</button>
+            )}
+        </div>
+    );
+};
+
+const AssetThumbnail = ({ asset }: { asset: Asset }) => {
+    const className = "w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity";
+    if (asset.type === 'image') return <MediaImage src={asset.src} className={className} draggable={false} />;
+    if (asset.type === 'video') return <MediaVideo src={asset.src} className={className} draggable={false} />;
+    return (
+        <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-purple-500/20 to-cyan-500/10 text-purple-300/80">
+            <Music size={28} strokeWidth={1.5} />
+        </div>
+    );
+};
+
+export const AssetLibraryPanel: React.FC<AssetLibraryPanelProps> = ({
+    assets, detailAssetId, onShowDetails, onClose, onOpen, onContextMenu, onUpdateAssets, onDeleteAssets, onExportAssets
+}) => {
+    const [text, setText] = useState('');
+    const [type, setType] = useState<AssetTypeFilter>('all');
+    const [folder, setFolder] = useState<string | undefined>(undefined);
+    const [tag, setTag] = useState<string | undefined>(undefined);
+    const [favoritesOnly, setFavoritesOnly] = useState(false);
+    const [sort, setSort] = useState<AssetSort>('date');
+    const [selecting, setSelecting] = useState(false);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+
+    const folders = listFolders(assets);
+    const tags = listTags(assets);
+    const visible = queryAssets(assets, { text, type, folder, tag, favoritesOnly, sort });
+    const detailAsset = assets.find(a => a.id === detailAssetId);
+    // Selection survives filtering, but only assets that still exist count
+    const selectedIds = assets.filter(a => selected.has(a.id)).map(a => a.id);
+
+    const toggleSelected = (id: string) => setSelected(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+    });
+    const stopSelecting = () => { setSelecting(false); setSelected(new Set()); };
+    const allVisibleSelected = visible.length > 0 && visible.every(a => selected.has(a.id));
+
+    const handleBulkDelete = () => {
+        if (!window.confirm(`删除选中的 ${selectedIds.length} 个素材？`)) return;
+        onDeleteAssets(selectedIds);
+        stopSelecting();
+    };
+
+    return (
+        <>
+            <datalist id={FOLDER_LIST_ID}>{folders.map(f => <option key={f} value={f} />)}</datalist>
+            <div className="p-4 border-b border-white/5 flex flex-col gap-2.5 bg-white/5">
+                <div className="flex justify-between items-center">
+                    <button onClick={onClose}><X size={14} className="text-slate-500 hover:text-white" /></button>
+                    <span className="text-xs font-bold uppercase tracking-widest text-white/50">素材库 <span className="text-white/30 tabular-nums">{assets.length}</span></span>
+                </div>
+                <div className="relative">
+                    <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-500" />
+                    <input className={`${SMALL_INPUT} w-full pl-7 py-1.5`} placeholder="搜索标题、提示词、标签" value={text} onChange={e => setText(e.target.value)} />
+                </div>
+                <div className="flex bg-black/20 p-1 rounded-lg">
+                    {TYPE_TABS.map(t => (
+                        <button key={t.id} onClick={() => setType(t.id)} className={`flex-1 ${CHIP} ${type === t.id ? CHIP_ACTIVE : CHIP_IDLE}`}>{t.label}</button>
+                    ))}
+                </div>
+                <div className="flex items-center gap-1.5">
+                    <select className={`${SMALL_INPUT} flex-1 min-w-0`} value={folder ?? '*'} onChange={e => setFolder(e.target.value === '*' ? undefined : e.target.value)}>
+                        <option value="*">全部文件夹</option>
+                        <option value={UNFILED_FOLDER}>未归档</option>
+                        {folders.map(f => <option key={f} value={f}>{f}</option>)}
+                    </select>
+                    <select className={SMALL_INPUT} value={sort} onChange={e => setSort(e.target.value as AssetSort)}>
+                        {(Object.keys(SORT_LABELS) as AssetSort[]).map(s => <option key={s} value={s}>{SORT_LABELS[s]}</option>)}
+                    </select>
+                    <button onClick={() => setFavoritesOnly(!favoritesOnly)} title="只看收藏" className={`p-1 rounded-md ${favoritesOnly ? 'text-amber-400 bg-amber-500/10' : 'text-slate-500 hover:text-slate-300'}`}><Star size={13} fill={favoritesOnly ? 'currentColor' : 'none'} /></button>
+                    <button onClick={() => selecting ? stopSelecting() : setSelecting(true)} title="多选" className={`p-1 rounded-md ${selecting ? 'text-cyan-400 bg-cyan-500/10' : 'text-slate-500 hover:text-slate-300'}`}><CheckSquare size={13} /></button>
+                </div>
+                {tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 max-h-14 overflow-y-auto custom-scrollbar">
+                        {tags.map(t => (
+                            <button key={t} onClick={() => setTag(tag === t ? undefined : t)} className={`px-1.5 py-0.5 rounded-full text-[9px] border ${tag === t ? 'border-cyan-500/60 text-cyan-300 bg-cyan-500/10' : 'border-white/10 text-slate-400 hover:text-slate-200'}`}>#{t}</button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {selecting && (
+                <div className="px-3 py-2 border-b border-white/5 flex items-center gap-1.5 text-[10px] text-slate-300">
+                    <button onClick={() => setSelected(allVisibleSelected ? new Set() : new Set(visible.map(a => a.id)))} className="flex items-center gap-1 hover:text-white">
+                        {allVisibleSelected ? <CheckSquare size={12} /> : <Square size={12} />}已选 {selectedIds.length}
+                    </button>
+                    <div className="flex-1" />
+                    {onUpdateAssets && <button disabled={!selectedIds.length} onClick={() => onUpdateAssets(selectedIds, () => ({ favorite: true }))} title="收藏" className="p-1 rounded-md hover:bg-white/10 disabled:opacity-30"><Star size={12} /></button>}
+                    {onUpdateAssets && <button disabled={!selectedIds.length} onClick={() => { const added = parseTags(window.prompt('为选中的素材添加标签') || ''); if (added.length) onUpdateAssets(selectedIds, a => ({ tags: [...new Set([...(a.tags || []), ...added])] })); }} title="添加标签" className="p-1 rounded-md hover:bg-white/10 disabled:opacity-30"><Tag size={12} /></button>}
+                    {onUpdateAssets && <button disabled={!selectedIds.length} onClick={() => { const name = window.prompt('移动到文件夹（留空则移出文件夹）', folder || ''); if (name !== null) onUpdateAssets(selectedIds, () => ({ folder: name.trim() })); }} title="移动到文件夹" className="p-1 rounded-md hover:bg-white/10 disabled:opacity-30"><FolderOpen size={12} /></button>}
+                    {onExportAssets && <button disabled={!selectedIds.length} onClick={() => onExportAssets(selectedIds)} title="导出" className="p-1 rounded-md hover:bg-white/10 disabled:opacity-30"><Download size={12} /></button>}
+                    <button disabled={!selectedIds.length} onClick={handleBulkDelete} title="删除" className="p-1 rounded-md text-red-400 hover:bg-red-500/20 disabled:opacity-30"><Trash2 size={12} /></button>
+                </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto p-2 custom-scrollbar space-y-2 relative">
+                {visible.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center py-10 text-slate-500 opacity-60 select-none">
+                        <ImageIcon size={48} strokeWidth={1} className="mb-3 opacity-50" />
+                        <span className="text-[10px] font-medium tracking-widest uppercase">{assets.length === 0 ? '暂无素材' : '没有匹配的素材'}</span>
+                    </div>
+                ) : (
+                    <div className="grid grid-cols-2 gap-2 p-1">
+                        {visible.map(a => {
+                            const isSelected = selected.has(a.id);
+                            return (
+                                <div
+                                    key={a.id}
+                                    className={`aspect-square rounded-xl overflow-hidden cursor-grab active:cursor-grabbing border transition-colors group relative shadow-md bg-black/20 ${isSelected ? 'border-cyan-400 ring-1 ring-cyan-400/40' : 'border-white/5 hover:border-cyan-500/50'}`}
+                                    draggable={true}
+                                    onDragStart={(e) => {
+                                        e.dataTransfer.setData('application/json', JSON.stringify(a));
+                                        e.dataTransfer.effectAllowed = 'copy';
+                                    }}
+                                    onClick={() => selecting ? toggleSelected(a.id) : onOpen(a)}
+                                    onContextMenu={(e) => { e.preventDefault(); e.stopPropagation(); onContextMenu(e, a); }}
+                                >
+                                    <AssetThumbnail asset={a} />
+                                    <div className="absolute top-1 right-1 px-1.5 py-0.5 rounded-full bg-black/60 backdrop-blur-md text-[8px] font-bold text-white/70">
+                                        {a.type === 'image' ? 'IMG' : a.type === 'video' ? 'MOV' : 'AUD'}
+                                    </div>
+                                    {selecting ? (
+                                        <div className="absolute top-1 left-1 p-0.5 rounded bg-black/60 text-white/80">{isSelected ? <CheckSquare size={11} className="text-cyan-300" /> : <Square size={11} />}</div>
+                                    ) : (
+                                        <div className="absolute top-1 left-1 flex gap-1">
+                                            {a.favorite && <div className="p-1 rounded-full bg-black/60 text-amber-400"><Star size={10} fill="currentColor" /></div>}
+                                            <button
+                                                className="p-1 rounded-full bg-black/60 backdrop-blur-md text-white/70 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                                                title="来源信息"
+                                                onClick={(e) => { e.stopPropagation(); onShowDetails(detailAssetId === a.id ? null : a.id); }}
+                                            >
+                                                <Info size={10} />
+                                            </button>
+                                        </div>
+                                    )}
+                                    <div className="absolute bottom-0 left-0 w-full p-1.5 bg-gradient-to-t from-black/80 to-transparent text-[9px] text-white/90 truncate font-medium">
+                                        {a.title || 'Untitled'}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+            {detailAsset && (
+                <AssetDetails
+                    asset={detailAsset}
+                    onExport={onExportAssets && (() => onExportAssets([detailAsset.id]))}
+                    onUpdate={onUpdateAssets && (patch => onUpdateAssets([detailAsset.id], () => patch))}
+                    onClose={() => onShowDetails(null)}
+                />
+            )}
+        </>
+    );
+};
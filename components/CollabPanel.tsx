@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { X, Users, LogIn, LogOut, AlertCircle } from 'lucide-react';
+import { CollabJoinMode, CollabStatus, PeerPresence } from '../services/collab';
+import { loadSetting, saveSetting } from '../services/storage';
+
+interface CollabPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  room?: string; // Set while joined
+  status?: CollabStatus;
+  peers: PeerPresence[];
+  isReadOnly: boolean;
+  onJoin: (relayUrl: string, room: string, userName: string, mode?: CollabJoinMode) => Promise<boolean>; // False when the room's canvas would replace the local one
+  onLeave: () => void;
+}
+
+interface CollabSettings {
+  relayUrl: string;
+  userName: string;
+}
+
+const COLLAB_SETTING = 'collab';
+const STATUS_LABELS: Record<CollabStatus, string> = { connecting: '连接中…', connected: '已连接', disconnected: '已断开，正在重连…' };
+
+export const CollabPanel: React.FC<CollabPanelProps> = ({ isOpen, onClose, projectId, room, status, peers, isReadOnly, onJoin, onLeave }) => {
+  const [relayUrl, setRelayUrl] = useState(`ws://${window.location.hostname || 'localhost'}:1234`);
+  const [userName, setUserName] = useState('');
+  const [roomInput, setRoomInput] = useState(projectId);
+  const [isJoining, setIsJoining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isRoomOccupied, setIsRoomOccupied] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    setIsRoomOccupied(false);
+    setRoomInput(room || projectId);
+    loadSetting<CollabSettings>(COLLAB_SETTING).then(s => {
+        if (s?.relayUrl) setRelayUrl(s.relayUrl);
+        if (s?.userName) setUserName(s.userName);
+    });
+  }, [isOpen]);
+
+  const handleJoin = async (mode?: CollabJoinMode) => {
+    const name = userName.trim() || '匿名';
+    setIsJoining(true);
+    setError(null);
+    try {
+      await saveSetting(COLLAB_SETTING, { relayUrl: relayUrl.trim(), userName: name });
+      setIsRoomOccupied(!await onJoin(relayUrl.trim(), roomInput.trim() || projectId, name, mode));
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inputClass = "w-full bg-black/30 border border-white/10 rounded-xl py-2 px-3 text-xs text-white focus:outline-none focus:border-cyan-500/50 transition-colors disabled:opacity-50";
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="w-[420px] bg-[#1c1c1e] border border-white/10 rounded-3xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200"
+        onClick={e => e.stopPropagation()}
+        onWheel={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-5 border-b border-white/5 flex justify-between items-center bg-white/5">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-slate-800 rounded-xl">
+                <Users size={20} className="text-cyan-400" />
+            </div>
+            <div>
+                <h2 className="text-base font-bold text-white leading-none">实时协作</h2>
+                <span className="text-[10px] text-slate-500 font-bold uppercase tracking-widest mt-1 inline-block">{status ? STATUS_LABELS[status] : '未加入'}</span>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-slate-500 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <label className="block space-y-1">
+              <span className="text-[10px] text-slate-400">中继服务器</span>
+              <input value={relayUrl} onChange={e => setRelayUrl(e.target.value)} disabled={!!room} placeholder="ws://localhost:1234" className={`${inputClass} font-mono`} />
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+              <label className="block space-y-1">
+                  <span className="text-[10px] text-slate-400">房间</span>
+                  <input value={roomInput} onChange={e => { setRoomInput(e.target.value); setIsRoomOccupied(false); }} disabled={!!room} className={`${inputClass} font-mono`} />
+              </label>
+              <label className="block space-y-1">
+                  <span className="text-[10px] text-slate-400">昵称</span>
+                  <input value={userName} onChange={e => setUserName(e.target.value)} disabled={!!room} placeholder="匿名" className={inputClass} />
+              </label>
+          </div>
+
+          {room && (
+              <div className="p-3 bg-black/30 border border-white/5 rounded-2xl space-y-2">
+                  <div className="text-[10px] text-slate-500 font-bold uppercase tracking-wider">在线成员</div>
+                  {peers.length === 0 && <div className="text-[11px] text-slate-600">暂无其他成员</div>}
+                  {peers.map(p => (
+                      <div key={p.clientId} className="flex items-center gap-2 text-[11px] text-slate-300">
+                          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: p.user.color }} />
+                          <span className="truncate">{p.user.name}</span>
+                          {p.selection.length > 0 && <span className="ml-auto text-slate-500">选中 {p.selection.length} 个节点</span>}
+                      </div>
+                  ))}
+              </div>
+          )}
+
+          <p className="text-[10px] text-slate-500 flex items-start gap-1"><AlertCircle size={10} className="mt-0.5 shrink-0" /> 生成的媒体只保存在各自的浏览器中，其他成员生成的媒体会在节点上标为不可用。API 密钥不会发送到房间。</p>
+          {isRoomOccupied && !room && <p className="text-[10px] text-amber-300">房间中已有不同的画布。可以用它替换当前项目的画布，或将其另存为新项目后加入。</p>}
+          {isReadOnly && !room && <p className="text-[10px] text-amber-300">当前为只读模式，接管编辑后才能加入协作。</p>}
+          {error && <p className="text-[10px] text-red-400">{error}</p>}
+
+          <div className="flex justify-end">
+              {room ? (
+                  <button onClick={onLeave} className="px-4 py-2 rounded-xl text-[10px] font-bold transition-all flex items-center gap-1.5 bg-white/10 text-slate-200 hover:bg-white/20"><LogOut size={12} />离开房间</button>
+              ) : (
+                  isRoomOccupied ? (
+                      <div className="flex gap-2">
+                          <button onClick={() => handleJoin('replace')} disabled={isJoining} className="px-4 py-2 rounded-xl text-[10px] font-bold transition-all flex items-center gap-1.5 bg-white/10 text-slate-200 hover:bg-white/20 disabled:opacity-40">替换当前画布</button>
+                          <button onClick={() => handleJoin('fork')} disabled={isJoining} className="px-4 py-2 rounded-xl text-[10px] font-bold transition-all flex items-center gap-1.5 bg-cyan-500 text-black hover:bg-cyan-400 disabled:opacity-40 disabled:hover:bg-cyan-500"><LogIn size={12} />{isJoining ? '连接中…' : '另存为新项目'}</button>
+                      </div>
+                  ) : (
+                      <button onClick={() => handleJoin()} disabled={isJoining || isReadOnly || !relayUrl.trim()} className="px-4 py-2 rounded-xl text-[10px] font-bold transition-all flex items-center gap-1.5 bg-cyan-500 text-black hover:bg-cyan-400 disabled:opacity-40 disabled:hover:bg-cyan-500"><LogIn size={12} />{isJoining ? '连接中…' : '加入房间'}</button>
+                  )
+              )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import { X, Plus, Trash2, Move, Maximize2, Link, Unplug, Edit, Sparkles, Box, ClipboardPaste, FolderHeart, Circle, RotateCcw, RotateCw } from 'lucide-react';
+import { HistoryStack, HistoryCommandType } from '../services/history';
+
+interface HistoryPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    stack: HistoryStack;
+    onJump: (index: number) => void;
+    onUndo: () => void;
+    onRedo: () => void;
+}
+
+const COMMAND_ICONS: Record<HistoryCommandType, any> = {
+    'add': Plus,
+    'delete': Trash2,
+    'move': Move,
+    'resize': Maximize2,
+    'connect': Link,
+    'disconnect': Unplug,
+    'update-data': Edit,
+    'generate': Sparkles,
+    'group': Box,
+    'ungroup': Box,
+    'paste': ClipboardPaste,
+    'load-workflow': FolderHeart,
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, stack, onJump, onUndo, onRedo }) => {
+    if (!isOpen) return null;
+
+    return (
+        <div
+            className="fixed left-24 bottom-8 w-64 max-h-[50vh] flex flex-col bg-[#1c1c1e]/85 backdrop-blur-3xl border border-white/10 rounded-2xl shadow-2xl z-40 overflow-hidden animate-in fade-in slide-in-from-left-4 duration-300"
+            onMouseDown={e => e.stopPropagation()}
+            onWheel={e => e.stopPropagation()}
+        >
+            <div className="p-3 border-b border-white/5 flex justify-between items-center bg-white/5">
+                <button onClick={onClose}><X size={14} className="text-slate-500 hover:text-white" /></button>
+                <span className="text-xs font-bold uppercase tracking-widest text-white/50">操作历史</span>
+                <div className="flex items-center gap-1">
+                    <button onClick={onUndo} disabled={stack.index === 0} className="p-1 rounded-md text-slate-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:pointer-events-none" title="撤销 (Ctrl+Z)"><RotateCcw size={12} /></button>
+                    <button onClick={onRedo} disabled={stack.index === stack.commands.length} className="p-1 rounded-md text-slate-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:pointer-events-none" title="重做 (Ctrl+Shift+Z)"><RotateCw size={12} /></button>
+                </div>
+            </div>
+            <div className="flex-1 overflow-y-auto p-1.5 custom-scrollbar">
+                {/* Entry 0 is the state before any recorded step */}
+                <button onClick={() => onJump(0)} className={`w-full text-left px-2.5 py-1.5 rounded-lg flex items-center gap-2 text-[11px] transition-colors ${stack.index === 0 ? 'bg-white/10 text-white' : 'text-slate-400 hover:bg-white/5'}`}>
+                    <Circle size={11} className="shrink-0" />
+                    <span className="truncate">初始状态</span>
+                </button>
+                {stack.commands.map((cmd, i) => {
+                    const Icon = COMMAND_ICONS[cmd.type] || Edit;
+                    const isCurrent = stack.index === i + 1;
+                    const isUndone = i + 1 > stack.index;
+                    return (
+                        <button
+                            key={cmd.id}
+                            onClick={() => onJump(i + 1)}
+                            className={`w-full text-left px-2.5 py-1.5 rounded-lg flex items-center gap-2 text-[11px] transition-colors ${isCurrent ? 'bg-white/10 text-white' : isUndone ? 'text-slate-600 hover:bg-white/5' : 'text-slate-300 hover:bg-white/5'}`}
+                        >
+                            <Icon size={11} className={`shrink-0 ${cmd.type === 'generate' ? 'text-cyan-400' : ''}`} />
+                            <span className={`truncate flex-1 ${isUndone ? 'line-through' : ''}`}>{cmd.label}</span>
+                            <span className="text-[9px] text-slate-600 tabular-nums">{new Date(cmd.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { X, Clock, Loader2, CheckCircle2, AlertCircle, Ban, RotateCw, Trash2 } from 'lucide-react';
+import { GenerationJob, JobStatus, isActiveJob } from '../services/jobQueue';
+import { getModelInfo } from '../services/providers';
+
+interface JobsPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    jobs: GenerationJob[];
+    onCancel: (id: string) => void;
+    onRetry: (id: string) => void;
+    onClearFinished: () => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, { icon: any, label: string, className: string }> = {
+    queued: { icon: Clock, label: '排队中', className: 'text-slate-400' },
+    running: { icon: Loader2, label: '生成中', className: 'text-cyan-400 animate-spin' },
+    succeeded: { icon: CheckCircle2, label: '已完成', className: 'text-emerald-400' },
+    failed: { icon: AlertCircle, label: '失败', className: 'text-red-400' },
+    cancelled: { icon: Ban, label: '已取消', className: 'text-slate-500' },
+};
+
+const formatElapsed = (job: GenerationJob) => {
+    const seconds = Math.round(((isActiveJob(job) ? Date.now() : job.updatedAt) - job.createdAt) / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+export const JobsPanel: React.FC<JobsPanelProps> = ({ isOpen, onClose, jobs, onCancel, onRetry, onClearFinished }) => {
+    if (!isOpen) return null;
+
+    // Newest first
+    const ordered = [...jobs].reverse();
+    const hasFinished = jobs.some(job => !isActiveJob(job));
+
+    return (
+        <div
+            className="fixed left-24 bottom-8 w-72 max-h-[50vh] flex flex-col bg-[#1c1c1e]/85 backdrop-blur-3xl border border-white/10 rounded-2xl shadow-2xl z-40 overflow-hidden animate-in fade-in slide-in-from-left-4 duration-300"
+            onMouseDown={e => e.stopPropagation()}
+            onWheel={e => e.stopPropagation()}
+        >
+            <div className="p-3 border-b border-white/5 flex justify-between items-center bg-white/5">
+                <button onClick={onClose}><X size={14} className="text-slate-500 hover:text-white" /></button>
+                <span className="text-xs font-bold uppercase tracking-widest text-white/50">任务队列</span>
+                <button onClick={onClearFinished} disabled={!hasFinished} className="p-1 rounded-md text-slate-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:pointer-events-none" title="清除已结束的任务"><Trash2 size={12} /></button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-1.5 custom-scrollbar">
+                {ordered.length === 0 && (
+                    <div className="py-8 text-center text-[10px] font-medium tracking-widest uppercase text-slate-600">暂无任务</div>
+                )}
+                {ordered.map(job => {
+                    const style = STATUS_STYLES[job.status];
+                    const Icon = style.icon;
+                    return (
+                        <div key={job.id} className="group px-2.5 py-2 rounded-lg hover:bg-white/5 flex items-start gap-2 text-[11px]">
+                            <Icon size={12} className={`shrink-0 mt-0.5 ${style.className}`} />
+                            <div className="flex-1 min-w-0">
+                                <div className="flex items-center gap-2">
+                                    <span className="truncate flex-1 text-slate-200">{job.label}</span>
+                                    <span className="text-[9px] text-slate-600 tabular-nums">{formatElapsed(job)}</span>
+                                </div>
+                                <div className="text-[9px] text-slate-500 truncate">
+                                    {style.label} · {getModelInfo(job.model)?.label || job.model}{job.attempts > 1 ? ` · 第 ${job.attempts} 次尝试` : ''}
+                                </div>
+                                {job.status === 'failed' && job.error && <div className="text-[9px] text-red-400/80 line-clamp-2 mt-0.5">{job.error}</div>}
+                            </div>
+                            {isActiveJob(job) ? (
+                                <button onClick={() => onCancel(job.id)} className="p-1 rounded-md text-slate-500 hover:text-red-400 hover:bg-white/10 opacity-0 group-hover:opacity-100 transition-opacity" title="取消"><X size={11} /></button>
+                            ) : job.status !== 'succeeded' && (
+                                <button onClick={() => onRetry(job.id)} className="p-1 rounded-md text-slate-500 hover:text-white hover:bg-white/10 opacity-0 group-hover:opacity-100 transition-opacity" title="重试"><RotateCw size={11} /></button>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
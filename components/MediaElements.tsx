@@ -0,0 +1,14 @@
+import React from 'react';
+import { useMediaUrl } from '../services/mediaResolver';
+
+// Drop-in <img>/<video> replacements that accept `media://` refs from the media store
+
+export const MediaImage = ({ src, ...rest }: React.ImgHTMLAttributes<HTMLImageElement> & { src?: string, ref?: any }) => {
+    const url = useMediaUrl(src);
+    return <img src={url} {...rest} />;
+};
+
+export const MediaVideo = ({ src, ...rest }: React.VideoHTMLAttributes<HTMLVideoElement> & { src?: string, ref?: any }) => {
+    const url = useMediaUrl(src);
+    return <video src={url} {...rest} />;
+};
@@ -1,8 +1,16 @@
 
 // ... existing imports
-import { AppNode, NodeStatus, NodeType } from '../types';
-import { RefreshCw, Play, Image as ImageIcon, Video as VideoIcon, Type, AlertCircle, CheckCircle, Plus, Maximize2, Download, MoreHorizontal, Wand2, Scaling, FileSearch, Edit, Loader2, Layers, Trash2, X, Upload, Scissors, Film, MousePointerClick, Crop as CropIcon, ChevronDown, ChevronUp, GripHorizontal, Link, Copy, Monitor, Music, Pause, Volume2, Mic2 } from 'lucide-react';
+import { AppNode, NodeStatus, NodeType, VariantError } from '../types';
+import { RefreshCw, Play, Image as ImageIcon, Video as VideoIcon, Type, AlertCircle, CheckCircle, Plus, Maximize2, Download, MoreHorizontal, Wand2, Scaling, FileSearch, Edit, Loader2, Layers, Trash2, X, Upload, Scissors, Film, MousePointerClick, Crop as CropIcon, ChevronDown, ChevronUp, GripHorizontal, Link, Copy, Monitor, Music, Pause, Volume2, Mic2, Clock, Star, Columns2, Clapperboard, Combine, Repeat, CloudOff } from 'lucide-react';
 import { VideoModeSelector, SceneDirectorOverlay } from './VideoNodeModules';
+import { MediaImage } from './MediaElements';
+import { useMediaMissing, useMediaUrl } from '../services/mediaResolver';
+import { getMediaRecord, isMediaRef } from '../services/storage';
+import { getModelInfo, getModelsFor, getProvider, ProviderCapability } from '../services/providers';
+import { estimateNodeCost, formatCost } from '../services/usage';
+import { timelineDuration } from '../services/timeline';
+import { DEFAULT_AUDIO_MERGE } from '../services/audioMerge';
+import { deleteVariant, isPinned, listVariants, primaryVariant, selectVariant, togglePinVariant, variantKind } from '../services/variants';
 import React, { memo, useRef, useState, useEffect, useCallback } from 'react';
 
 // ... (keep constants and helper functions: arePropsEqual, safePlay, safePause, InputThumbnails, AudioVisualizer) ...
@@ -19,7 +27,11 @@ interface NodeProps {
   onUpdate: (id: string, data: Partial<AppNode['data']>, size?: { width?: number, height?: number }, title?: string) => void;
   onAction: (id: string, prompt?: string) => void;
   onDelete: (id: string) => void;
-  onExpand?: (data: { type: 'image' | 'video', src: string, rect: DOMRect, images?: string[], initialIndex?: number }) => void;
+  onExpand?: (data: { type: 'image' | 'video', src: string, rect: DOMRect, images?: string[], initialIndex?: number, compare?: boolean, onSelect?: (src: string) => void }) => void;
+  onVariantChange?: (id: string, data: Partial<AppNode['data']>, label: string) => void;
+  onOpenRunHistory?: (id: string) => void;
+  onOpenTimeline?: (id: string) => void;
+  onDownload?: (id: string) => void; // Exports the result with its provenance; plain download when absent
   onCrop?: (id: string, imageBase64: string) => void; 
   onNodeMouseDown: (e: React.MouseEvent, id: string) => void;
   onPortMouseDown: (e: React.MouseEvent, id: string, type: 'input' | 'output') => void;
@@ -35,6 +47,7 @@ interface NodeProps {
   isSelected?: boolean;
   isResizing?: boolean;
   isConnecting?: boolean; 
+  isStale?: boolean; // Inputs changed since the last successful run
 }
 
 const IMAGE_ASPECT_RATIOS = ['1:1', '3:4', '4:3', '9:16', '16:9'];
@@ -50,9 +63,10 @@ const AUDIO_NODE_HEIGHT = 200;
 
 // --- SECURE VIDEO COMPONENT ---
 // Fetches video as blob to bypass auth/cors issues with <video src>
-const SecureVideo = ({ src, className, autoPlay, muted, loop, onMouseEnter, onMouseLeave, onClick, controls, videoRef, style }: any) => {
+const SecureVideo = ({ src: rawSrc, className, autoPlay, muted, loop, onMouseEnter, onMouseLeave, onClick, controls, videoRef, style }: any) => {
     const [blobUrl, setBlobUrl] = useState<string | null>(null);
     const [error, setError] = useState(false);
+    const src = useMediaUrl(rawSrc); // media:// refs resolve to blob: URLs
 
     useEffect(() => {
         if (!src) return;
@@ -62,6 +76,7 @@ const SecureVideo = ({ src, className, autoPlay, muted, loop, onMouseEnter, onMo
         }
 
         let active = true;
+        let createdUrl: string | null = null; // Only revoke URLs this effect created (cached media URLs are shared)
         // Fetch the video content
         fetch(src)
             .then(response => {
@@ -73,6 +88,7 @@ const SecureVideo = ({ src, className, autoPlay, muted, loop, onMouseEnter, onMo
                     // FORCE MIME TYPE TO VIDEO/MP4 to fix black screen issues with generic binary blobs
                     const mp4Blob = new Blob([blob], { type: 'video/mp4' });
                     const url = URL.createObjectURL(mp4Blob);
+                    createdUrl = url;
                     setBlobUrl(url);
                 }
             })
@@ -83,9 +99,7 @@ const SecureVideo = ({ src, className, autoPlay, muted, loop, onMouseEnter, onMo
 
         return () => {
             active = false;
-            if (blobUrl && !blobUrl.startsWith('data:')) {
-                URL.revokeObjectURL(blobUrl);
-            }
+            if (createdUrl) URL.revokeObjectURL(createdUrl);
         };
     }, [src]);
 
@@ -145,7 +159,8 @@ const arePropsEqual = (prev: NodeProps, next: NodeProps) => {
         prev.isResizing !== next.isResizing || 
         prev.isSelected !== next.isSelected ||
         prev.isGroupDragging !== next.isGroupDragging ||
-        prev.isConnecting !== next.isConnecting) {
+        prev.isConnecting !== next.isConnecting ||
+        prev.isStale !== next.isStale) {
         return false;
     }
     if (prev.node !== next.node) return false;
@@ -252,7 +267,7 @@ const InputThumbnails = ({ assets, onReorder }: { assets: InputAsset[], onReorde
                             {isVideo ? (
                                 <SecureVideo src={asset.src} className="w-full h-full object-cover pointer-events-none select-none opacity-80 group-hover:opacity-100 transition-opacity bg-zinc-900" muted loop autoPlay />
                             ) : (
-                                <img src={asset.src} className="w-full h-full object-cover pointer-events-none select-none opacity-80 group-hover:opacity-100 transition-opacity bg-zinc-900" alt="" />
+                                <MediaImage src={asset.src} className="w-full h-full object-cover pointer-events-none select-none opacity-80 group-hover:opacity-100 transition-opacity bg-zinc-900" alt="" />
                             )}
                             <div className="absolute inset-0 ring-1 ring-inset ring-white/10 rounded-md"></div>
                             <div className="absolute top-0.5 right-0.5 w-3.5 h-3.5 bg-black/60 backdrop-blur-md rounded-full flex items-center justify-center border border-white/20 z-20 shadow-sm pointer-events-none">
@@ -274,8 +289,35 @@ const AudioVisualizer = ({ isPlaying }: { isPlaying: boolean }) => (
     </div>
 );
 
+// Thumbnails of every output variant; the highlighted one is the primary output that flows downstream
+const VariantStrip = ({ variants, kind, primary, pinned, errors, onSelect, onTogglePin, onDelete, onCompare }: {
+    variants: string[], kind: 'image' | 'video', primary?: string, pinned: (variant: string) => boolean, errors?: VariantError[],
+    onSelect: (variant: string) => void, onTogglePin: (variant: string) => void, onDelete: (variant: string) => void, onCompare: () => void,
+}) => (
+    <div className="absolute bottom-0 left-0 w-full p-2 z-10 flex items-end gap-1.5 bg-gradient-to-t from-black/70 to-transparent opacity-0 group-hover/media:opacity-100 transition-opacity duration-300" onMouseDown={e => e.stopPropagation()}>
+        {variants.map((variant, idx) => (
+            <div key={variant} className={`relative w-14 h-14 rounded-lg overflow-hidden cursor-pointer border-2 bg-zinc-900 group/variant ${variant === primary ? 'border-cyan-500' : 'border-white/10 hover:border-white/50'}`} onClick={(e) => { e.stopPropagation(); onSelect(variant); }} title={variant === primary ? '主结果' : '设为主结果'}>
+                {kind === 'video' ? <SecureVideo src={variant} className="w-full h-full object-cover bg-zinc-900" muted /> : <MediaImage src={variant} className="w-full h-full object-cover" />}
+                <span className="absolute bottom-0.5 left-1 text-[8px] font-bold text-white/80 tabular-nums">{idx + 1}</span>
+                {pinned(variant) && <Star size={10} className="absolute top-1 left-1 text-amber-400 fill-amber-400" />}
+                <div className="absolute top-0.5 right-0.5 flex flex-col gap-0.5 opacity-0 group-hover/variant:opacity-100 transition-opacity">
+                    <button className="p-0.5 bg-black/60 rounded text-slate-300 hover:text-amber-400" onClick={(e) => { e.stopPropagation(); onTogglePin(variant); }} title={pinned(variant) ? '取消固定' : '固定（重新生成时保留）'}><Star size={9} /></button>
+                    {variants.length > 1 && <button className="p-0.5 bg-black/60 rounded text-slate-300 hover:text-red-400" onClick={(e) => { e.stopPropagation(); onDelete(variant); }} title="删除此结果"><Trash2 size={9} /></button>}
+                </div>
+            </div>
+        ))}
+        {errors?.map(err => (
+            <div key={`failed-${err.index}`} className="w-14 h-14 rounded-lg border-2 border-dashed border-red-500/30 bg-red-500/5 flex flex-col items-center justify-center gap-0.5" title={err.message}>
+                <AlertCircle size={12} className="text-red-400" />
+                <span className="text-[8px] font-bold text-red-300">#{err.index + 1} 失败</span>
+            </div>
+        ))}
+        {variants.length > 1 && <button className="ml-auto p-1.5 bg-black/50 border border-white/10 rounded-md text-slate-300 hover:text-white backdrop-blur-md" onClick={(e) => { e.stopPropagation(); onCompare(); }} title="对比"><Columns2 size={14} /></button>}
+    </div>
+);
+
 const NodeComponent: React.FC<NodeProps> = ({ 
-  node, onUpdate, onAction, onDelete, onExpand, onCrop, onNodeMouseDown, onPortMouseDown, onPortMouseUp, onNodeContextMenu, onMediaContextMenu, onResizeMouseDown, inputAssets, onInputReorder, isDragging, isGroupDragging, isSelected, isResizing, isConnecting 
+  node, onUpdate, onAction, onDelete, onExpand, onVariantChange, onOpenRunHistory, onOpenTimeline, onDownload, onCrop, onNodeMouseDown, onPortMouseDown, onPortMouseUp, onNodeContextMenu, onMediaContextMenu, onResizeMouseDown, inputAssets, onInputReorder, isDragging, isGroupDragging, isSelected, isResizing, isConnecting, isStale 
 }) => {
   const isWorking = node.status === NodeStatus.WORKING;
   const mediaRef = useRef<HTMLImageElement | HTMLVideoElement | HTMLAudioElement | null>(null);
@@ -283,13 +325,12 @@ const NodeComponent: React.FC<NodeProps> = ({
   const isHoveringRef = useRef(false);
   const [videoBlobUrl, setVideoBlobUrl] = useState<string | null>(null);
   const [isLoadingVideo, setIsLoadingVideo] = useState(false); 
-  const [showImageGrid, setShowImageGrid] = useState(false);
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [tempTitle, setTempTitle] = useState(node.title);
   const [isHovered, setIsHovered] = useState(false); 
   const [isInputFocused, setIsInputFocused] = useState(false);
   const [isPlayingAudio, setIsPlayingAudio] = useState(false);
-  const generationMode = node.data.generationMode || 'CONTINUE';
+  const generationMode = node.data.generationMode || 'DEFAULT';
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [localPrompt, setLocalPrompt] = useState(node.data.prompt || '');
   const [inputHeight, setInputHeight] = useState(48); 
@@ -297,6 +338,11 @@ const NodeComponent: React.FC<NodeProps> = ({
   const inputStartDragY = useRef(0);
   const inputStartHeight = useRef(0);
   
+  const imageUrl = useMediaUrl(node.data.image);
+  const audioUrl = useMediaUrl(node.data.audioUri);
+  const croppedFrameUrl = useMediaUrl(node.data.croppedFrame);
+  const isMediaMissing = useMediaMissing(node.data.image || node.data.videoUri || node.data.audioUri); // Shared by a collaborator
+  
   useEffect(() => { setLocalPrompt(node.data.prompt || ''); }, [node.data.prompt]);
   const commitPrompt = () => { if (localPrompt !== (node.data.prompt || '')) onUpdate(node.id, { prompt: localPrompt }); };
   const handleActionClick = () => { commitPrompt(); onAction(node.id, localPrompt); };
@@ -318,6 +364,13 @@ const NodeComponent: React.FC<NodeProps> = ({
       if ((node.type === NodeType.VIDEO_GENERATOR || node.type === NodeType.VIDEO_ANALYZER) && node.data.videoUri) {
           if (node.data.videoUri.startsWith('data:')) { setVideoBlobUrl(node.data.videoUri); return; }
           let isActive = true; setIsLoadingVideo(true);
+          if (isMediaRef(node.data.videoUri)) {
+              getMediaRecord(node.data.videoUri).then(record => {
+                  if (isActive && record) setVideoBlobUrl(URL.createObjectURL(new Blob([record.blob], { type: 'video/mp4' })));
+                  if (isActive) setIsLoadingVideo(false);
+              }).catch(() => { if (isActive) setIsLoadingVideo(false); });
+              return () => { isActive = false; };
+          }
           // Standard fetch for local usage in analysis/display
           fetch(node.data.videoUri).then(res => res.blob()).then(blob => { 
               if (isActive) { 
@@ -348,8 +401,6 @@ const NodeComponent: React.FC<NodeProps> = ({
 
   const handleMouseEnter = () => {
     isHoveringRef.current = true;
-    if(node.data.images?.length > 1 || (node.data.videoUris && node.data.videoUris.length > 1)) setShowImageGrid(true);
-    
     // Play Video on Hover
     if (mediaRef.current instanceof HTMLVideoElement) {
         safePlay(mediaRef.current);
@@ -358,7 +409,6 @@ const NodeComponent: React.FC<NodeProps> = ({
 
   const handleMouseLeave = () => {
     isHoveringRef.current = false;
-    setShowImageGrid(false);
 
     // Pause Video on Leave
     if (mediaRef.current instanceof HTMLVideoElement) {
@@ -366,23 +416,20 @@ const NodeComponent: React.FC<NodeProps> = ({
     }
   };
   
-  const handleExpand = (e: React.MouseEvent) => { 
-      e.stopPropagation(); 
-      if (onExpand && mediaRef.current) { 
-          const rect = mediaRef.current.getBoundingClientRect(); 
-          if (node.type.includes('IMAGE') && node.data.image) {
-              onExpand({ type: 'image', src: node.data.image, rect, images: node.data.images || [node.data.image], initialIndex: (node.data.images || [node.data.image]).indexOf(node.data.image) }); 
-          } else if (node.type.includes('VIDEO') && node.data.videoUri) {
-              const src = node.data.videoUri;
-              const videos = node.data.videoUris && node.data.videoUris.length > 0 ? node.data.videoUris : [src];
-              const currentIndex = node.data.videoUris ? node.data.videoUris.indexOf(node.data.videoUri) : 0;
-              const safeIndex = currentIndex >= 0 ? currentIndex : 0;
-              // Pass the URIs directly; ExpandedView will use SecureVideo logic
-              onExpand({ type: 'video', src: src, rect, images: videos, initialIndex: safeIndex }); 
-          }
-      }
+  const variants = listVariants(node.data);
+  const changeVariants = (data: Partial<AppNode['data']>, label: string) => {
+      if (onVariantChange) onVariantChange(node.id, data, label); else onUpdate(node.id, data);
+  };
+  const openExpanded = (compare: boolean) => {
+      if (!onExpand || !mediaRef.current) return;
+      const rect = mediaRef.current.getBoundingClientRect();
+      const primary = primaryVariant(node.data);
+      if (!primary || !(node.type.includes('IMAGE') || node.type.includes('VIDEO'))) return;
+      // ExpandedView browses every variant and can make any of them the primary output
+      onExpand({ type: variantKind(node.data), src: primary, rect, images: variants, initialIndex: Math.max(0, variants.indexOf(primary)), compare, onSelect: (v) => changeVariants(selectVariant(node.data, v), '切换主结果') });
   };
-  const handleDownload = (e: React.MouseEvent) => { e.stopPropagation(); const a = document.createElement('a'); a.href = node.data.image || videoBlobUrl || node.data.audioUri || ''; a.download = `sunstudio-${Date.now()}`; document.body.appendChild(a); a.click(); document.body.removeChild(a); };
+  const handleExpand = (e: React.MouseEvent) => { e.stopPropagation(); openExpanded(false); };
+  const handleDownload = (e: React.MouseEvent) => { e.stopPropagation(); if (onDownload) { onDownload(node.id); return; } const a = document.createElement('a'); a.href = imageUrl || videoBlobUrl || audioUrl || ''; a.download = `sunstudio-${Date.now()}`; document.body.appendChild(a); a.click(); document.body.removeChild(a); };
   const handleUploadVideo = (e: React.ChangeEvent<HTMLInputElement>) => { const file = e.target.files?.[0]; if (file) { const reader = new FileReader(); reader.onload = (e) => onUpdate(node.id, { videoUri: e.target?.result as string }); reader.readAsDataURL(file); }};
   const handleUploadImage = (e: React.ChangeEvent<HTMLInputElement>) => { const file = e.target.files?.[0]; if (file) { const reader = new FileReader(); reader.onload = (e) => onUpdate(node.id, { image: e.target?.result as string }); reader.readAsDataURL(file); }};
   const handleAspectRatioSelect = (newRatio: string) => {
@@ -405,6 +452,8 @@ const NodeComponent: React.FC<NodeProps> = ({
         case NodeType.AUDIO_GENERATOR: return { icon: Mic2, color: 'text-pink-400', border: 'border-pink-500/30' };
         case NodeType.VIDEO_ANALYZER: return { icon: FileSearch, color: 'text-emerald-400', border: 'border-emerald-500/30' };
         case NodeType.IMAGE_EDITOR: return { icon: Edit, color: 'text-rose-400', border: 'border-rose-500/30' };
+        case NodeType.TIMELINE: return { icon: Clapperboard, color: 'text-orange-400', border: 'border-orange-500/30' };
+        case NodeType.AUDIO_MERGE: return { icon: Combine, color: 'text-teal-400', border: 'border-teal-500/30' };
         default: return { icon: Type, color: 'text-slate-400', border: 'border-white/10' };
       }
   };
@@ -429,6 +478,7 @@ const NodeComponent: React.FC<NodeProps> = ({
     <div className={`absolute -top-10 left-0 w-full flex items-center justify-between px-1 transition-all duration-300 ${showTopBar ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-2 pointer-events-none'}`}>
         <div className="flex items-center gap-1.5 pointer-events-auto">
             {node.type === NodeType.VIDEO_GENERATOR && (<VideoModeSelector currentMode={generationMode} onSelect={(mode) => onUpdate(node.id, { generationMode: mode })} />)}
+             {node.type !== NodeType.PROMPT_INPUT && onOpenRunHistory && <button onClick={(e) => { e.stopPropagation(); onOpenRunHistory(node.id); }} className="p-1.5 bg-black/40 border border-white/10 backdrop-blur-md rounded-md text-slate-400 hover:text-white hover:border-white/30 transition-colors" title="生成记录"><Clock size={14} /></button>}
              {(node.data.image || node.data.videoUri || node.data.audioUri) && (
                 <div className="flex items-center gap-1">
                     <button onClick={handleDownload} className="p-1.5 bg-black/40 border border-white/10 backdrop-blur-md rounded-md text-slate-400 hover:text-white hover:border-white/30 transition-colors" title="下载"><Download size={14} /></button>
@@ -437,7 +487,9 @@ const NodeComponent: React.FC<NodeProps> = ({
              )}
         </div>
         <div className="flex items-center gap-2 pointer-events-auto">
-             {isWorking && <div className="bg-[#2c2c2e]/90 backdrop-blur-md p-1.5 rounded-full border border-white/10"><Loader2 className="animate-spin w-3 h-3 text-cyan-400" /></div>}
+             {isWorking && <div className="bg-[#2c2c2e]/90 backdrop-blur-md p-1.5 rounded-full border border-white/10 flex items-center gap-1"><Loader2 className="animate-spin w-3 h-3 text-cyan-400" />{node.data.progress && <span className="text-[9px] font-bold text-cyan-300 tabular-nums pr-0.5">{node.data.progress}</span>}</div>}
+             {!isWorking && node.data.variantErrors && node.data.variantErrors.length > 0 && <div className="flex items-center gap-1 px-2 py-1 rounded-full bg-amber-500/15 border border-amber-500/40 text-amber-400 backdrop-blur-md" title={node.data.variantErrors.map(e => `#${e.index + 1} ${e.message}`).join('\n')}><AlertCircle size={10} /><span className="text-[9px] font-bold uppercase tracking-wider">{node.data.variantErrors.length} 个失败</span></div>}
+             {isStale && !isWorking && <div className="flex items-center gap-1 px-2 py-1 rounded-full bg-amber-500/15 border border-amber-500/40 text-amber-400 backdrop-blur-md" title="输入已变更，结果需要重新生成"><RefreshCw size={10} /><span className="text-[9px] font-bold uppercase tracking-wider">待更新</span></div>}
             <div className={`px-2 py-1 flex items-center gap-2`}>
                 {isEditingTitle ? (
                     <input className="bg-transparent border-none outline-none text-slate-400 text-[10px] font-bold uppercase tracking-wider w-24 text-right" value={tempTitle} onChange={(e) => setTempTitle(e.target.value)} onBlur={handleTitleSave} onKeyDown={(e) => e.key === 'Enter' && handleTitleSave()} onMouseDown={e => e.stopPropagation()} autoFocus />
@@ -482,13 +534,14 @@ const NodeComponent: React.FC<NodeProps> = ({
                   <div className="absolute inset-0 bg-gradient-to-br from-pink-500/10 to-purple-900/10 z-0"></div>
                   {node.data.audioUri ? (
                       <div className="flex flex-col items-center gap-4 w-full z-10">
-                          <audio ref={mediaRef as any} src={node.data.audioUri} onEnded={() => setIsPlayingAudio(false)} onPlay={() => setIsPlayingAudio(true)} onPause={() => setIsPlayingAudio(false)} className="hidden" />
+                          <audio ref={mediaRef as any} src={audioUrl} onEnded={() => setIsPlayingAudio(false)} onPlay={() => setIsPlayingAudio(true)} onPause={() => setIsPlayingAudio(false)} className="hidden" />
                           <div className="w-full px-4"><AudioVisualizer isPlaying={isPlayingAudio} /></div>
                           <div className="flex items-center gap-4"><button onClick={toggleAudio} className="w-12 h-12 rounded-full bg-cyan-500/20 hover:bg-cyan-500/40 border border-cyan-500/50 flex items-center justify-center transition-all hover:scale-105">{isPlayingAudio ? <Pause size={20} className="text-white" /> : <Play size={20} className="text-white ml-1" />}</button></div>
                       </div>
                   ) : (
                       <div className="flex flex-col items-center gap-3 text-slate-600 z-10 select-none">{isWorking ? <Loader2 size={32} className="animate-spin text-pink-500" /> : <Mic2 size={32} className="text-slate-500" />}<span className="text-[10px] font-bold uppercase tracking-widest">{isWorking ? '生成中...' : '准备生成'}</span></div>
                   )}
+                  {isMediaMissing && <div className="absolute inset-0 bg-zinc-900/90 flex flex-col items-center justify-center gap-2 p-6 text-center z-10 text-slate-400"><CloudOff size={24} /><span className="text-[10px]">媒体只保存在生成它的设备上</span></div>}
                   {node.status === NodeStatus.ERROR && <div className="absolute inset-0 bg-black/60 backdrop-blur-md flex flex-col items-center justify-center p-6 text-center z-20"><AlertCircle className="text-red-500 mb-2" /><span className="text-xs text-red-200">{node.data.error}</span></div>}
               </div>
           )
@@ -497,12 +550,16 @@ const NodeComponent: React.FC<NodeProps> = ({
       const hasContent = node.data.image || node.data.videoUri;
       return (
         <div className="w-full h-full relative group/media overflow-hidden bg-zinc-900" onMouseEnter={handleMouseEnter} onMouseLeave={handleMouseLeave}>
-            {!hasContent ? (
+            {!hasContent && node.type === NodeType.TIMELINE ? (
+                <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 text-slate-600"><div className="w-20 h-20 rounded-[28px] bg-white/5 border border-white/5 flex items-center justify-center cursor-pointer hover:bg-white/10 hover:scale-105 transition-all duration-300 shadow-inner" onClick={() => onOpenTimeline?.(node.id)}>{isWorking ? <Loader2 className="animate-spin text-orange-400" size={32} /> : <Clapperboard size={32} className="opacity-50" />}</div><span className="text-[11px] font-bold uppercase tracking-[0.2em] opacity-40">{isWorking ? "渲染中..." : "连接素材后打开剪辑台"}</span>{node.status === NodeStatus.ERROR && <span className="text-[10px] text-red-400 px-6 text-center">{node.data.error}</span>}</div>
+            ) : !hasContent && node.type === NodeType.AUDIO_MERGE ? (
+                <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 text-slate-600"><div className="w-20 h-20 rounded-[28px] bg-white/5 border border-white/5 flex items-center justify-center shadow-inner">{isWorking ? <Loader2 className="animate-spin text-teal-400" size={32} /> : <Combine size={32} className="opacity-50" />}</div><span className="text-[11px] font-bold uppercase tracking-[0.2em] opacity-40">{isWorking ? "合成中..." : "连接视频与音频节点"}</span>{node.status === NodeStatus.ERROR && <span className="text-[10px] text-red-400 px-6 text-center">{node.data.error}</span>}</div>
+            ) : !hasContent ? (
                 <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 text-slate-600"><div className="w-20 h-20 rounded-[28px] bg-white/5 border border-white/5 flex items-center justify-center cursor-pointer hover:bg-white/10 hover:scale-105 transition-all duration-300 shadow-inner" onClick={() => fileInputRef.current?.click()}>{isWorking ? <Loader2 className="animate-spin text-cyan-500" size={32} /> : <NodeIcon size={32} className="opacity-50" />}</div><span className="text-[11px] font-bold uppercase tracking-[0.2em] opacity-40">{isWorking ? "处理中..." : "拖拽或上传"}</span><input type="file" ref={fileInputRef} className="hidden" accept={node.type.includes('VIDEO') ? "video/*" : "image/*"} onChange={node.type.includes('VIDEO') ? handleUploadVideo : handleUploadImage} /></div>
             ) : (
                 <>
                     {node.data.image ? 
-                        <img ref={mediaRef as any} src={node.data.image} className="w-full h-full object-cover transition-transform duration-700 group-hover/media:scale-105 bg-zinc-900" draggable={false} style={{ filter: showImageGrid ? 'blur(10px)' : 'none' }} onContextMenu={(e) => onMediaContextMenu?.(e, node.id, 'image', node.data.image!)} /> 
+                        <img ref={mediaRef as any} src={imageUrl} className="w-full h-full object-cover transition-transform duration-700 group-hover/media:scale-105 bg-zinc-900" draggable={false} onContextMenu={(e) => onMediaContextMenu?.(e, node.id, 'image', node.data.image!)} /> 
                     : 
                         <SecureVideo 
                             videoRef={mediaRef} // Pass Ref to Video
@@ -512,29 +569,25 @@ const NodeComponent: React.FC<NodeProps> = ({
                             muted 
                             // autoPlay removed to rely on hover logic
                             onContextMenu={(e: React.MouseEvent) => onMediaContextMenu?.(e, node.id, 'video', node.data.videoUri!)} 
-                            style={{ filter: showImageGrid ? 'blur(10px)' : 'none' }} // Pass Style
                         />
                     }
+                    {isMediaMissing && <div className="absolute inset-0 bg-zinc-900/90 flex flex-col items-center justify-center gap-2 p-6 text-center z-10 text-slate-400"><CloudOff size={24} /><span className="text-[10px]">媒体只保存在生成它的设备上</span></div>}
                     {node.status === NodeStatus.ERROR && <div className="absolute inset-0 bg-black/60 backdrop-blur-md flex flex-col items-center justify-center p-6 text-center z-20"><AlertCircle className="text-red-500 mb-2" /><span className="text-xs text-red-200">{node.data.error}</span></div>}
-                    {showImageGrid && (node.data.images || node.data.videoUris) && (
-                        <div className="absolute inset-0 bg-black/40 z-10 grid grid-cols-2 gap-2 p-2 animate-in fade-in duration-200">
-                            {node.data.images ? node.data.images.map((img, idx) => (
-                                <div key={idx} className={`relative rounded-lg overflow-hidden cursor-pointer border-2 bg-zinc-900 ${img === node.data.image ? 'border-cyan-500' : 'border-transparent hover:border-white/50'}`} onClick={(e) => { e.stopPropagation(); onUpdate(node.id, { image: img }); }}>
-                                    <img src={img} className="w-full h-full object-cover" />
-                                </div>
-                            )) : node.data.videoUris?.map((uri, idx) => (
-                                <div key={idx} className={`relative rounded-lg overflow-hidden cursor-pointer border-2 bg-zinc-900 ${uri === node.data.videoUri ? 'border-cyan-500' : 'border-transparent hover:border-white/50'}`} onClick={(e) => { e.stopPropagation(); onUpdate(node.id, { videoUri: uri }); }}>
-                                    {uri ? (
-                                        <SecureVideo src={uri} className="w-full h-full object-cover bg-zinc-900" muted loop autoPlay />
-                                    ) : (
-                                        <div className="w-full h-full flex items-center justify-center bg-white/5 text-xs text-slate-500">Failed</div>
-                                    )}
-                                </div>
-                            ))}
-                        </div>
+                    {(variants.length > 1 || node.data.variantErrors?.length) && !isWorking && (
+                        <VariantStrip
+                            variants={variants}
+                            kind={variantKind(node.data)}
+                            primary={primaryVariant(node.data)}
+                            pinned={(v) => isPinned(node.data, v)}
+                            errors={node.data.variantErrors}
+                            onSelect={(v) => changeVariants(selectVariant(node.data, v), '切换主结果')}
+                            onTogglePin={(v) => changeVariants(togglePinVariant(node.data, v), isPinned(node.data, v) ? '取消固定结果' : '固定结果')}
+                            onDelete={(v) => changeVariants(deleteVariant(node.data, v), '删除结果')}
+                            onCompare={() => openExpanded(true)}
+                        />
                     )}
-                    {generationMode === 'CUT' && node.data.croppedFrame && <div className="absolute top-4 right-4 w-24 aspect-video bg-black/80 rounded-lg border border-purple-500/50 shadow-xl overflow-hidden z-20 hover:scale-150 transition-transform origin-top-right opacity-0 group-hover:opacity-100 transition-opacity duration-300"><img src={node.data.croppedFrame} className="w-full h-full object-cover" /></div>}
-                    {generationMode === 'CUT' && !node.data.croppedFrame && hasInputs && inputAssets?.some(a => a.src) && (<div className="absolute top-4 right-4 w-24 aspect-video bg-black/80 rounded-lg border border-purple-500/30 border-dashed shadow-xl overflow-hidden z-20 hover:scale-150 transition-transform origin-top-right flex flex-col items-center justify-center group/preview opacity-0 group-hover:opacity-100 transition-opacity duration-300"><div className="absolute inset-0 bg-purple-500/10 z-10"></div>{(() => { const asset = inputAssets!.find(a => a.src); if (asset?.type === 'video') { return <SecureVideo src={asset.src} className="w-full h-full object-cover opacity-60 bg-zinc-900" muted autoPlay />; } else { return <img src={asset?.src} className="w-full h-full object-cover opacity-60 bg-zinc-900" />; } })()}<span className="absolute z-20 text-[8px] font-bold text-purple-200 bg-black/50 px-1 rounded">分镜参考</span></div>)}
+                    {generationMode === 'CUT' && node.data.croppedFrame && <div className="absolute top-4 right-4 w-24 aspect-video bg-black/80 rounded-lg border border-purple-500/50 shadow-xl overflow-hidden z-20 hover:scale-150 transition-transform origin-top-right opacity-0 group-hover:opacity-100 transition-opacity duration-300"><img src={croppedFrameUrl} className="w-full h-full object-cover" /></div>}
+                    {generationMode === 'CUT' && !node.data.croppedFrame && hasInputs && inputAssets?.some(a => a.src) && (<div className="absolute top-4 right-4 w-24 aspect-video bg-black/80 rounded-lg border border-purple-500/30 border-dashed shadow-xl overflow-hidden z-20 hover:scale-150 transition-transform origin-top-right flex flex-col items-center justify-center group/preview opacity-0 group-hover:opacity-100 transition-opacity duration-300"><div className="absolute inset-0 bg-purple-500/10 z-10"></div>{(() => { const asset = inputAssets!.find(a => a.src); if (asset?.type === 'video') { return <SecureVideo src={asset.src} className="w-full h-full object-cover opacity-60 bg-zinc-900" muted autoPlay />; } else { return <MediaImage src={asset?.src} className="w-full h-full object-cover opacity-60 bg-zinc-900" />; } })()}<span className="absolute z-20 text-[8px] font-bold text-purple-200 bg-black/50 px-1 rounded">分镜参考</span></div>)}
                 </>
             )}
             {node.type === NodeType.VIDEO_GENERATOR && generationMode === 'CUT' && (videoBlobUrl || node.data.videoUri) && 
@@ -561,22 +614,77 @@ const NodeComponent: React.FC<NodeProps> = ({
       );
   };
 
+  const renderTimelinePanel = (isOpen: boolean) => {
+     const timeline = node.data.timeline;
+     return (
+        <div className={`absolute top-full left-1/2 -translate-x-1/2 w-[98%] pt-2 z-50 flex flex-col items-center justify-start transition-all duration-500 ease-[cubic-bezier(0.32,0.72,0,1)] ${isOpen ? `opacity-100 translate-y-0 scale-100` : 'opacity-0 translate-y-[-10px] scale-95 pointer-events-none'}`}>
+            <div className={`w-full rounded-[20px] p-1 ${GLASS_PANEL} relative z-[100]`} onMouseDown={e => e.stopPropagation()} onWheel={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between px-2 py-1">
+                    <div className="flex items-center gap-3 text-[10px] font-bold text-slate-400 tabular-nums">
+                        <span className="flex items-center gap-1"><Film size={12} />{timeline?.clips.length || 0} 个片段</span>
+                        <span className="flex items-center gap-1"><Music size={12} />{timeline?.audio.length || 0} 段音频</span>
+                        <span className="flex items-center gap-1"><Clock size={12} />{timeline ? timelineDuration(timeline).toFixed(1) : '0.0'}s</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button onClick={() => onOpenTimeline?.(node.id)} className="flex items-center gap-1.5 px-3 py-1.5 rounded-[12px] font-bold text-[10px] text-slate-300 bg-white/5 hover:bg-white/10 transition-colors"><Scissors size={12} /><span>剪辑台</span></button>
+                        <button onClick={handleActionClick} disabled={isWorking} className={`relative flex items-center gap-2 px-4 py-1.5 rounded-[12px] font-bold text-[10px] tracking-wide transition-all duration-300 ${isWorking ? 'bg-white/5 text-slate-500 cursor-not-allowed' : 'bg-gradient-to-r from-cyan-500 to-blue-500 text-black hover:shadow-lg hover:shadow-cyan-500/20 hover:scale-105 active:scale-95'}`}>{isWorking ? <Loader2 className="animate-spin" size={12} /> : <Wand2 size={12} />}<span>{isWorking ? (node.data.progress ? `渲染中 ${node.data.progress}` : '渲染中...') : '渲染'}</span></button>
+                    </div>
+                </div>
+            </div>
+        </div>
+     );
+  };
+
+  const renderAudioMergePanel = (isOpen: boolean) => {
+     const settings = { ...DEFAULT_AUDIO_MERGE, ...node.data.audioMerge };
+     const update = (patch: Partial<typeof settings>) => onUpdate(node.id, { audioMerge: { ...settings, ...patch } });
+     const field = (label: string, key: 'offset' | 'fadeIn' | 'fadeOut', min: number) => (
+        <label className="flex items-center gap-1 text-[10px] font-bold text-slate-400">
+            <span>{label}</span>
+            <input type="number" step={0.1} min={min} value={settings[key]} onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) update({ [key]: Math.max(min, v) }); }} onFocus={() => setIsInputFocused(true)} onBlur={() => setIsInputFocused(false)} className="w-12 bg-black/20 border border-white/10 rounded-md px-1.5 py-0.5 text-right text-slate-200 tabular-nums focus:outline-none focus:border-teal-500/50" />
+            <span className="text-slate-600">s</span>
+        </label>
+     );
+     return (
+        <div className={`absolute top-full left-1/2 -translate-x-1/2 w-[98%] pt-2 z-50 flex flex-col items-center justify-start transition-all duration-500 ease-[cubic-bezier(0.32,0.72,0,1)] ${isOpen ? `opacity-100 translate-y-0 scale-100` : 'opacity-0 translate-y-[-10px] scale-95 pointer-events-none'}`}>
+            <div className={`w-full rounded-[20px] p-1 flex flex-col gap-1 ${GLASS_PANEL} relative z-[100]`} onMouseDown={e => e.stopPropagation()} onWheel={(e) => e.stopPropagation()}>
+                <div className="flex flex-wrap items-center gap-x-3 gap-y-2 px-2 pt-2">
+                    {field('偏移', 'offset', -3600)}
+                    {field('淡入', 'fadeIn', 0)}
+                    {field('淡出', 'fadeOut', 0)}
+                    <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400" title="音频增益">
+                        <Volume2 size={12} />
+                        <input type="range" min={0} max={2} step={0.05} value={settings.volume} onChange={(e) => update({ volume: parseFloat(e.target.value) })} className="w-16 accent-teal-500" />
+                        <span className="w-8 tabular-nums">{Math.round(settings.volume * 100)}%</span>
+                    </label>
+                </div>
+                <div className="flex items-center justify-between px-2 pb-1 pt-1">
+                    <div className="flex gap-1 p-0.5 bg-black/20 rounded-lg" title="音频比视频短时">
+                        {([['trim', '播放一次'], ['loop', '循环']] as const).map(([fit, label]) => (
+                            <button key={fit} onClick={() => update({ fit })} className={`flex items-center gap-1 px-2 py-1 rounded-md text-[10px] font-bold transition-colors ${settings.fit === fit ? 'bg-white/10 text-teal-300' : 'text-slate-500 hover:text-slate-300'}`}>{fit === 'loop' ? <Repeat size={10} /> : <Scissors size={10} />}{label}</button>
+                        ))}
+                    </div>
+                    <button onClick={handleActionClick} disabled={isWorking} className={`relative flex items-center gap-2 px-4 py-1.5 rounded-[12px] font-bold text-[10px] tracking-wide transition-all duration-300 ${isWorking ? 'bg-white/5 text-slate-500 cursor-not-allowed' : 'bg-gradient-to-r from-cyan-500 to-blue-500 text-black hover:shadow-lg hover:shadow-cyan-500/20 hover:scale-105 active:scale-95'}`}>{isWorking ? <Loader2 className="animate-spin" size={12} /> : <Wand2 size={12} />}<span>{isWorking ? '合成中...' : '合成'}</span></button>
+                </div>
+            </div>
+        </div>
+     );
+  };
+
   const renderBottomPanel = () => {
      const isOpen = (isHovered || isInputFocused);
-     let models: {l: string, v: string}[] = [];
-     if (node.type === NodeType.VIDEO_GENERATOR) {
-        models = [
-            {l: 'Veo 极速版 (Fast)', v: 'veo-3.1-fast-generate-preview'},
-            {l: 'Veo 专业版 (Pro)', v: 'veo-3.1-generate-preview'},
-            {l: 'Wan 2.1 (Animate)', v: 'wan-2.1-t2v-14b'}
-        ];
-     } else if (node.type === NodeType.VIDEO_ANALYZER) {
-         models = [{l: 'Gemini 2.5 Flash', v: 'gemini-2.5-flash'}, {l: 'Gemini 3 Pro', v: 'gemini-3-pro-preview'}];
-     } else if (node.type === NodeType.AUDIO_GENERATOR) {
-         models = [{l: 'Voice Factory (Gemini 2.0)', v: 'gemini-2.5-flash-preview-tts'}];
-     } else {
-        models = [{l: 'Gemini 2.5', v: 'gemini-2.5-flash-image'}, {l: 'Gemini 3 Pro', v: 'gemini-3-pro-image-preview'}];
-     }
+     // Timeline and merge nodes render locally from their own settings, so there is no prompt or model to pick
+     if (node.type === NodeType.TIMELINE) return renderTimelinePanel(isOpen);
+     if (node.type === NodeType.AUDIO_MERGE) return renderAudioMergePanel(isOpen);
+     const capability: ProviderCapability = node.type === NodeType.VIDEO_GENERATOR ? 'video' : node.type === NodeType.VIDEO_ANALYZER ? 'analysis' : node.type === NodeType.AUDIO_GENERATOR ? 'audio' : 'image';
+     const models = getModelsFor(capability);
+     const modelInfo = getModelInfo(node.data.model);
+     // Option lists follow what the selected model supports; unknown models fall back to the generic lists
+     const aspectRatios = modelInfo?.aspectRatios || (node.type.includes('VIDEO') ? VIDEO_ASPECT_RATIOS : IMAGE_ASPECT_RATIOS);
+     const resolutions = modelInfo?.resolutions || (node.type.includes('IMAGE') ? IMAGE_RESOLUTIONS : VIDEO_RESOLUTIONS);
+     const counts = (node.type.includes('IMAGE') ? IMAGE_COUNTS : VIDEO_COUNTS).filter(c => !modelInfo?.maxCount || c <= modelInfo.maxCount);
+     const durations = modelInfo?.durations;
+     const estimatedCost = estimateNodeCost(node);
 
      return (
         <div className={`absolute top-full left-1/2 -translate-x-1/2 w-[98%] pt-2 z-50 flex flex-col items-center justify-start transition-all duration-500 ease-[cubic-bezier(0.32,0.72,0,1)] ${isOpen ? `opacity-100 translate-y-0 scale-100` : 'opacity-0 translate-y-[-10px] scale-95 pointer-events-none'}`}>
@@ -591,14 +699,15 @@ const NodeComponent: React.FC<NodeProps> = ({
                 <div className="flex items-center justify-between px-2 pb-1 pt-1 relative z-20">
                     <div className="flex items-center gap-2">
                          <div className="relative group/model">
-                             <div className="flex items-center gap-1.5 px-2 py-1 rounded-lg hover:bg-white/5 cursor-pointer transition-colors text-[10px] font-bold text-slate-400 hover:text-cyan-400"><span>{models.find(m => m.v === node.data.model)?.l || 'AI Model'}</span><ChevronDown size={10} /></div>
-                             <div className="absolute bottom-full left-0 pb-2 w-40 opacity-0 translate-y-2 pointer-events-none group-hover/model:opacity-100 group-hover/model:translate-y-0 group-hover/model:pointer-events-auto transition-all duration-200 z-[200]"><div className="bg-[#1c1c1e] border border-white/10 rounded-xl shadow-xl overflow-hidden">{models.map(m => (<div key={m.v} onClick={() => onUpdate(node.id, { model: m.v })} className={`px-3 py-2 text-[10px] font-bold cursor-pointer hover:bg-white/10 ${node.data.model === m.v ? 'text-cyan-400 bg-white/5' : 'text-slate-400'}`}>{m.l}</div>))}</div></div>
+                             <div className="flex items-center gap-1.5 px-2 py-1 rounded-lg hover:bg-white/5 cursor-pointer transition-colors text-[10px] font-bold text-slate-400 hover:text-cyan-400"><span>{modelInfo?.label || 'AI Model'}</span><ChevronDown size={10} /></div>
+                             <div className="absolute bottom-full left-0 pb-2 w-44 opacity-0 translate-y-2 pointer-events-none group-hover/model:opacity-100 group-hover/model:translate-y-0 group-hover/model:pointer-events-auto transition-all duration-200 z-[200]"><div className="bg-[#1c1c1e] border border-white/10 rounded-xl shadow-xl overflow-hidden">{models.map((m, i) => { const provider = getProvider(m.provider); const configured = provider?.isConfigured() ?? true; return (<React.Fragment key={m.id}>{models[i - 1]?.provider !== m.provider && (<div className="px-3 pt-2 pb-1 text-[9px] font-bold uppercase tracking-wider text-slate-600">{provider?.label}</div>)}<div onClick={() => configured && onUpdate(node.id, { model: m.id })} title={configured ? undefined : '未配置 API Key'} className={`px-3 py-2 text-[10px] font-bold flex items-center justify-between gap-2 ${!configured ? 'text-slate-600 cursor-not-allowed' : node.data.model === m.id ? 'text-cyan-400 bg-white/5 cursor-pointer hover:bg-white/10' : 'text-slate-400 cursor-pointer hover:bg-white/10'}`}><span>{m.label}</span>{!configured && <span className="text-[8px] font-medium">未配置</span>}</div></React.Fragment>); })}</div></div>
                          </div>
-                         {node.type !== NodeType.VIDEO_ANALYZER && node.type !== NodeType.AUDIO_GENERATOR && (<div className="relative group/ratio"><div className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-white/5 cursor-pointer transition-colors text-[10px] font-bold text-slate-400 hover:text-cyan-400"><Scaling size={12} /><span>{node.data.aspectRatio || '16:9'}</span></div><div className="absolute bottom-full left-0 pb-2 w-20 opacity-0 translate-y-2 pointer-events-none group-hover/ratio:opacity-100 group-hover/ratio:translate-y-0 group-hover/ratio:pointer-events-auto transition-all duration-200 z-[200]"><div className="bg-[#1c1c1e] border border-white/10 rounded-xl shadow-xl overflow-hidden">{(node.type.includes('VIDEO') ? VIDEO_ASPECT_RATIOS : IMAGE_ASPECT_RATIOS).map(r => (<div key={r} onClick={() => handleAspectRatioSelect(r)} className={`px-3 py-2 text-[10px] font-bold cursor-pointer hover:bg-white/10 ${node.data.aspectRatio === r ? 'text-cyan-400 bg-white/5' : 'text-slate-400'}`}>{r}</div>))}</div></div></div>)}
-                         {(node.type.includes('IMAGE') || node.type === NodeType.VIDEO_GENERATOR) && (<div className="relative group/resolution"><div className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-white/5 cursor-pointer transition-colors text-[10px] font-bold text-slate-400 hover:text-cyan-400"><Monitor size={12} /><span>{node.data.resolution || (node.type.includes('IMAGE') ? '1k' : '720p')}</span></div><div className="absolute bottom-full left-0 pb-2 w-20 opacity-0 translate-y-2 pointer-events-none group-hover/resolution:opacity-100 group-hover/resolution:translate-y-0 group-hover/resolution:pointer-events-auto transition-all duration-200 z-[200]"><div className="bg-[#1c1c1e] border border-white/10 rounded-xl shadow-xl overflow-hidden">{(node.type.includes('IMAGE') ? IMAGE_RESOLUTIONS : VIDEO_RESOLUTIONS).map(r => (<div key={r} onClick={() => onUpdate(node.id, { resolution: r })} className={`px-3 py-2 text-[10px] font-bold cursor-pointer hover:bg-white/10 ${node.data.resolution === r ? 'text-cyan-400 bg-white/5' : 'text-slate-400'}`}>{r}</div>))}</div></div></div>)}
-                         {(node.type.includes('IMAGE') || node.type === NodeType.VIDEO_GENERATOR) && (<div className="relative group/count"><div className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-white/5 cursor-pointer transition-colors text-[10px] font-bold text-slate-400 hover:text-cyan-400"><Layers size={12} /><span>{node.type.includes('IMAGE') ? (node.data.imageCount || 1) : (node.data.videoCount || 1)}</span></div><div className="absolute bottom-full left-0 pb-2 w-16 opacity-0 translate-y-2 pointer-events-none group-hover/count:opacity-100 group-hover/count:translate-y-0 group-hover/count:pointer-events-auto transition-all duration-200 z-[200]"><div className="bg-[#1c1c1e] border border-white/10 rounded-xl shadow-xl overflow-hidden">{(node.type.includes('IMAGE') ? IMAGE_COUNTS : VIDEO_COUNTS).map(c => (<div key={c} onClick={() => onUpdate(node.id, node.type.includes('IMAGE') ? { imageCount: c } : { videoCount: c })} className={`px-3 py-2 text-[10px] font-bold cursor-pointer hover:bg-white/10 ${((node.type.includes('IMAGE') ? node.data.imageCount : node.data.videoCount) || 1) === c ? 'text-cyan-400 bg-white/5' : 'text-slate-400'}`}>{c}</div>))}</div></div></div>)}
+                         {node.type !== NodeType.VIDEO_ANALYZER && node.type !== NodeType.AUDIO_GENERATOR && (<div className="relative group/ratio"><div className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-white/5 cursor-pointer transition-colors text-[10px] font-bold text-slate-400 hover:text-cyan-400"><Scaling size={12} /><span>{node.data.aspectRatio || '16:9'}</span></div><div className="absolute bottom-full left-0 pb-2 w-20 opacity-0 translate-y-2 pointer-events-none group-hover/ratio:opacity-100 group-hover/ratio:translate-y-0 group-hover/ratio:pointer-events-auto transition-all duration-200 z-[200]"><div className="bg-[#1c1c1e] border border-white/10 rounded-xl shadow-xl overflow-hidden">{aspectRatios.map(r => (<div key={r} onClick={() => handleAspectRatioSelect(r)} className={`px-3 py-2 text-[10px] font-bold cursor-pointer hover:bg-white/10 ${node.data.aspectRatio === r ? 'text-cyan-400 bg-white/5' : 'text-slate-400'}`}>{r}</div>))}</div></div></div>)}
+                         {(node.type.includes('IMAGE') || node.type === NodeType.VIDEO_GENERATOR) && (<div className="relative group/resolution"><div className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-white/5 cursor-pointer transition-colors text-[10px] font-bold text-slate-400 hover:text-cyan-400"><Monitor size={12} /><span>{node.data.resolution || (node.type.includes('IMAGE') ? '1k' : '720p')}</span></div><div className="absolute bottom-full left-0 pb-2 w-20 opacity-0 translate-y-2 pointer-events-none group-hover/resolution:opacity-100 group-hover/resolution:translate-y-0 group-hover/resolution:pointer-events-auto transition-all duration-200 z-[200]"><div className="bg-[#1c1c1e] border border-white/10 rounded-xl shadow-xl overflow-hidden">{resolutions.map(r => (<div key={r} onClick={() => onUpdate(node.id, { resolution: r })} className={`px-3 py-2 text-[10px] font-bold cursor-pointer hover:bg-white/10 ${node.data.resolution === r ? 'text-cyan-400 bg-white/5' : 'text-slate-400'}`}>{r}</div>))}</div></div></div>)}
+                         {(node.type.includes('IMAGE') || node.type === NodeType.VIDEO_GENERATOR) && (<div className="relative group/count"><div className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-white/5 cursor-pointer transition-colors text-[10px] font-bold text-slate-400 hover:text-cyan-400"><Layers size={12} /><span>{node.type.includes('IMAGE') ? (node.data.imageCount || 1) : (node.data.videoCount || 1)}</span></div><div className="absolute bottom-full left-0 pb-2 w-16 opacity-0 translate-y-2 pointer-events-none group-hover/count:opacity-100 group-hover/count:translate-y-0 group-hover/count:pointer-events-auto transition-all duration-200 z-[200]"><div className="bg-[#1c1c1e] border border-white/10 rounded-xl shadow-xl overflow-hidden">{counts.map(c => (<div key={c} onClick={() => onUpdate(node.id, node.type.includes('IMAGE') ? { imageCount: c } : { videoCount: c })} className={`px-3 py-2 text-[10px] font-bold cursor-pointer hover:bg-white/10 ${((node.type.includes('IMAGE') ? node.data.imageCount : node.data.videoCount) || 1) === c ? 'text-cyan-400 bg-white/5' : 'text-slate-400'}`}>{c}</div>))}</div></div></div>)}
+                         {node.type === NodeType.VIDEO_GENERATOR && durations && (<div className="relative group/duration"><div className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-white/5 cursor-pointer transition-colors text-[10px] font-bold text-slate-400 hover:text-cyan-400"><Clock size={12} /><span>{node.data.duration ? `${node.data.duration}s` : '默认'}</span></div><div className="absolute bottom-full left-0 pb-2 w-16 opacity-0 translate-y-2 pointer-events-none group-hover/duration:opacity-100 group-hover/duration:translate-y-0 group-hover/duration:pointer-events-auto transition-all duration-200 z-[200]"><div className="bg-[#1c1c1e] border border-white/10 rounded-xl shadow-xl overflow-hidden">{durations.map(d => (<div key={d} onClick={() => onUpdate(node.id, { duration: d })} className={`px-3 py-2 text-[10px] font-bold cursor-pointer hover:bg-white/10 ${node.data.duration === d ? 'text-cyan-400 bg-white/5' : 'text-slate-400'}`}>{d}s</div>))}</div></div></div>)}
                     </div>
-                    <button onClick={handleActionClick} disabled={isWorking} className={`relative flex items-center gap-2 px-4 py-1.5 rounded-[12px] font-bold text-[10px] tracking-wide transition-all duration-300 ${isWorking ? 'bg-white/5 text-slate-500 cursor-not-allowed' : 'bg-gradient-to-r from-cyan-500 to-blue-500 text-black hover:shadow-lg hover:shadow-cyan-500/20 hover:scale-105 active:scale-95'}`}>{isWorking ? <Loader2 className="animate-spin" size={12} /> : <Wand2 size={12} />}<span>{isWorking ? '生成中...' : '生成'}</span></button>
+                    <button onClick={handleActionClick} disabled={isWorking} className={`relative flex items-center gap-2 px-4 py-1.5 rounded-[12px] font-bold text-[10px] tracking-wide transition-all duration-300 ${isWorking ? 'bg-white/5 text-slate-500 cursor-not-allowed' : 'bg-gradient-to-r from-cyan-500 to-blue-500 text-black hover:shadow-lg hover:shadow-cyan-500/20 hover:scale-105 active:scale-95'}`}>{isWorking ? <Loader2 className="animate-spin" size={12} /> : <Wand2 size={12} />}<span>{isWorking ? (node.data.progress ? `生成中 ${node.data.progress}` : '生成中...') : '生成'}</span>{!isWorking && estimatedCost > 0 && <span className="font-medium opacity-60 tabular-nums" title="预估费用（按公开价目）">≈{formatCost(estimatedCost)}</span>}</button>
                 </div>
             </div>
         </div>
@@ -608,7 +717,7 @@ const NodeComponent: React.FC<NodeProps> = ({
   const isInteracting = isDragging || isResizing || isGroupDragging;
   return (
     <div 
-        className={`absolute rounded-[24px] group ${isSelected ? 'ring-1 ring-cyan-500/50 shadow-[0_0_40px_-10px_rgba(34,211,238,0.3)] z-30' : 'ring-1 ring-white/10 hover:ring-white/20 z-10'}`}
+        className={`absolute rounded-[24px] group ${isSelected ? 'ring-1 ring-cyan-500/50 shadow-[0_0_40px_-10px_rgba(34,211,238,0.3)] z-30' : isStale ? 'ring-1 ring-amber-500/40 hover:ring-amber-500/60 z-10' : 'ring-1 ring-white/10 hover:ring-white/20 z-10'}`}
         style={{ 
             left: node.x, top: node.y, width: nodeWidth, height: nodeHeight,
             background: isSelected ? 'rgba(28, 28, 30, 0.85)' : 'rgba(28, 28, 30, 0.6)',
@@ -0,0 +1,99 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Plus, Copy, Trash2, Edit, FolderOpen, Clock, Download, Upload } from 'lucide-react';
+import { Project } from '../types';
+
+interface ProjectBrowserProps {
+    projects: Project[];
+    onOpen: (id: string) => void;
+    onCreate: () => void;
+    onRename: (id: string, title: string) => void;
+    onDuplicate: (id: string) => void;
+    onDelete: (id: string) => void;
+    onExport: (id: string) => void;
+    onImport: (file: File) => void;
+}
+
+const formatTime = (ts: number) => {
+    const diff = Date.now() - ts;
+    if (diff < 60_000) return '刚刚';
+    if (diff < 3_600_000) return `${Math.floor(diff / 60_000)} 分钟前`;
+    if (diff < 86_400_000) return `${Math.floor(diff / 3_600_000)} 小时前`;
+    return new Date(ts).toLocaleDateString();
+};
+
+export const ProjectBrowser: React.FC<ProjectBrowserProps> = ({ projects, onOpen, onCreate, onRename, onDuplicate, onDelete, onExport, onImport }) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!confirmDeleteId) return;
+        const t = setTimeout(() => setConfirmDeleteId(null), 3000);
+        return () => clearTimeout(t);
+    }, [confirmDeleteId]);
+
+    const sorted = [...projects].sort((a, b) => b.lastOpenedAt - a.lastOpenedAt);
+
+    return (
+        <div className="absolute inset-0 z-[80] flex flex-col items-center overflow-y-auto custom-scrollbar bg-[#0a0a0c]/95 backdrop-blur-xl animate-in fade-in duration-500" onMouseDown={e => e.stopPropagation()} onWheel={e => e.stopPropagation()} onDoubleClick={e => e.stopPropagation()}>
+            <div className="flex flex-col items-center justify-center mt-24 mb-12 select-none animate-in fade-in slide-in-from-bottom-8 duration-1000">
+                <div className="relative">
+                    <h1 className="text-6xl md:text-8xl font-black tracking-tighter text-transparent bg-clip-text bg-gradient-to-b from-white via-zinc-300 to-zinc-600 drop-shadow-sm px-4 pb-2">SUNSTUDIO</h1>
+                    <div className="absolute -inset-10 bg-gradient-to-r from-cyan-500/20 via-purple-500/20 to-blue-500/20 blur-[60px] opacity-20 pointer-events-none mix-blend-screen"></div>
+                </div>
+                <div className="flex items-center gap-4 mt-4">
+                    <div className="h-px w-12 bg-gradient-to-r from-transparent to-zinc-600"></div>
+                    <span className="text-[11px] font-bold tracking-[0.6em] text-zinc-500 uppercase">Projects</span>
+                    <div className="h-px w-12 bg-gradient-to-l from-transparent to-zinc-600"></div>
+                </div>
+            </div>
+
+            <div className="w-full max-w-5xl px-8 pb-24 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                <div className="aspect-[4/3] flex flex-col gap-2">
+                    <button onClick={onCreate} className="flex-1 rounded-2xl border border-dashed border-white/10 hover:border-cyan-500/50 bg-white/[0.02] hover:bg-white/5 flex flex-col items-center justify-center gap-3 text-zinc-500 hover:text-cyan-400 transition-all group">
+                        <Plus size={28} className="transition-transform group-hover:scale-110" />
+                        <span className="text-xs font-medium tracking-wide">新建项目</span>
+                    </button>
+                    <button onClick={() => importInputRef.current?.click()} className="py-2.5 rounded-2xl border border-dashed border-white/10 hover:border-cyan-500/50 bg-white/[0.02] hover:bg-white/5 flex items-center justify-center gap-2 text-zinc-500 hover:text-cyan-400 transition-all">
+                        <Upload size={14} />
+                        <span className="text-xs font-medium tracking-wide">导入 .sunstudio</span>
+                    </button>
+                    <input type="file" ref={importInputRef} className="hidden" accept=".sunstudio,.zip" onChange={e => { const file = e.target.files?.[0]; if (file) onImport(file); e.target.value = ''; }} />
+                </div>
+
+                {sorted.map(p => (
+                    <div key={p.id} onClick={() => editingId !== p.id && onOpen(p.id)} className="aspect-[4/3] rounded-2xl border border-white/5 hover:border-white/20 bg-[#18181b] hover:bg-[#1f1f23] p-4 flex flex-col justify-between cursor-pointer transition-all group shadow-sm hover:shadow-xl hover:-translate-y-0.5 duration-300">
+                        <div className="flex items-start justify-between gap-2">
+                            <FolderOpen size={20} className="text-zinc-600 group-hover:text-cyan-400 transition-colors shrink-0" />
+                            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                <button onClick={e => { e.stopPropagation(); setEditingId(p.id); }} className="p-1.5 rounded-md hover:bg-white/10 text-zinc-400 hover:text-white" title="重命名"><Edit size={12} /></button>
+                                <button onClick={e => { e.stopPropagation(); onExport(p.id); }} className="p-1.5 rounded-md hover:bg-white/10 text-zinc-400 hover:text-white" title="导出"><Download size={12} /></button>
+                                <button onClick={e => { e.stopPropagation(); onDuplicate(p.id); }} className="p-1.5 rounded-md hover:bg-white/10 text-zinc-400 hover:text-white" title="创建副本"><Copy size={12} /></button>
+                                <button
+                                    onClick={e => { e.stopPropagation(); if (confirmDeleteId === p.id) { onDelete(p.id); setConfirmDeleteId(null); } else setConfirmDeleteId(p.id); }}
+                                    className={`p-1.5 rounded-md transition-colors ${confirmDeleteId === p.id ? 'bg-red-500/20 text-red-400' : 'hover:bg-red-500/20 text-zinc-400 hover:text-red-400'}`}
+                                    title={confirmDeleteId === p.id ? '再次点击确认删除' : '删除'}
+                                ><Trash2 size={12} /></button>
+                            </div>
+                        </div>
+                        <div className="flex flex-col gap-1.5">
+                            {editingId === p.id ? (
+                                <input
+                                    className="bg-black/40 border border-cyan-500/50 rounded-md px-2 py-1 text-sm text-white outline-none"
+                                    defaultValue={p.title}
+                                    autoFocus
+                                    onClick={e => e.stopPropagation()}
+                                    onBlur={e => { onRename(p.id, e.target.value.trim() || p.title); setEditingId(null); }}
+                                    onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); if (e.key === 'Escape') setEditingId(null); }}
+                                />
+                            ) : (
+                                <span className="text-sm font-medium text-zinc-200 truncate">{p.title}</span>
+                            )}
+                            <span className="flex items-center gap-1 text-[10px] text-zinc-500"><Clock size={10} /> {formatTime(p.lastOpenedAt)}</span>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
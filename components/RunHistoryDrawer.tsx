@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { X, CheckCircle2, AlertCircle, RotateCcw, Play, Film, Music, FileText } from 'lucide-react';
+import { AppNode } from '../types';
+import { NodeRun, hasRunOutputs, loadNodeRuns } from '../services/runHistory';
+import { getModelInfo } from '../services/providers';
+import { MediaImage } from './MediaElements';
+
+interface RunHistoryDrawerProps {
+    node?: AppNode; // Drawer is closed when undefined
+    version: number;
+    onClose: () => void;
+    onRestore: (run: NodeRun) => void;
+    onRerun: (run: NodeRun) => void;
+}
+
+const formatDuration = (ms: number) => {
+    const seconds = Math.round(ms / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+const describeParams = (run: NodeRun) => {
+    const p = run.params;
+    const count = p.imageCount || p.videoCount;
+    return [p.aspectRatio, p.resolution, p.duration ? `${p.duration}s` : undefined, count && count > 1 ? `×${count}` : undefined].filter(Boolean).join(' · ');
+};
+
+const RunOutputsPreview = ({ run }: { run: NodeRun }) => {
+    const o = run.outputs;
+    if (!o) return null;
+    if (o.images?.length) {
+        return (
+            <div className="flex gap-1 mt-1.5">
+                {o.images.slice(0, 4).map((img, i) => <MediaImage key={i} src={img} className="w-12 h-12 rounded-md object-cover bg-zinc-900 border border-white/10" />)}
+            </div>
+        );
+    }
+    const [Icon, label] = o.videoUris?.length ? [Film, `${o.videoUris.length} 个视频`] : o.audioUri ? [Music, '音频'] : [FileText, o.analysis?.slice(0, 40) || ''];
+    return <div className="flex items-center gap-1.5 mt-1.5 text-[10px] text-slate-400 truncate"><Icon size={11} className="shrink-0" /><span className="truncate">{label}</span></div>;
+};
+
+export const RunHistoryDrawer: React.FC<RunHistoryDrawerProps> = ({ node, version, onClose, onRestore, onRerun }) => {
+    const [runs, setRuns] = useState<NodeRun[]>([]);
+    const nodeId = node?.id;
+
+    useEffect(() => {
+        if (!nodeId) return;
+        let active = true;
+        loadNodeRuns(nodeId).then(r => { if (active) setRuns(r); }).catch(e => console.warn("Failed to load run history", e));
+        return () => { active = false; };
+    }, [nodeId, version]);
+
+    if (!node) return null;
+
+    return (
+        <div
+            className="fixed right-6 top-24 w-80 max-h-[70vh] flex flex-col bg-[#1c1c1e]/85 backdrop-blur-3xl border border-white/10 rounded-2xl shadow-2xl z-40 overflow-hidden animate-in fade-in slide-in-from-right-4 duration-300"
+            onMouseDown={e => e.stopPropagation()}
+            onWheel={e => e.stopPropagation()}
+        >
+            <div className="p-3 border-b border-white/5 flex justify-between items-center bg-white/5">
+                <span className="text-xs font-bold uppercase tracking-widest text-white/50 truncate">生成记录 · {node.title}</span>
+                <button onClick={onClose}><X size={14} className="text-slate-500 hover:text-white" /></button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-1.5 custom-scrollbar">
+                {runs.length === 0 && (
+                    <div className="py-8 text-center text-[10px] font-medium tracking-widest uppercase text-slate-600">暂无记录</div>
+                )}
+                {runs.map(run => {
+                    const succeeded = run.status === 'succeeded';
+                    return (
+                        <div key={run.id} className="group px-2.5 py-2 rounded-lg hover:bg-white/5 text-[11px]">
+                            <div className="flex items-center gap-2">
+                                {succeeded ? <CheckCircle2 size={12} className="shrink-0 text-emerald-400" /> : <AlertCircle size={12} className="shrink-0 text-red-400" />}
+                                <span className="text-slate-200 truncate flex-1">{getModelInfo(run.params.model)?.label || run.params.model || '默认模型'}</span>
+                                <span className="text-[9px] text-slate-600 tabular-nums">{new Date(run.startedAt).toLocaleString([], { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' })} · {formatDuration(run.durationMs)}</span>
+                            </div>
+                            {describeParams(run) && <div className="text-[9px] text-slate-500 mt-0.5 pl-5">{describeParams(run)}</div>}
+                            {run.sentPrompt && <div className="text-[10px] text-slate-400 mt-1 pl-5 line-clamp-3 break-words" title={run.sentPrompt}>{run.sentPrompt}</div>}
+                            {run.error && <div className={`text-[10px] mt-1 pl-5 break-words ${succeeded ? 'text-amber-400/80' : 'text-red-400/80'}`}>{run.error}</div>}
+                            <div className="pl-5"><RunOutputsPreview run={run} /></div>
+                            <div className="flex gap-1 mt-1.5 pl-5 opacity-0 group-hover:opacity-100 transition-opacity">
+                                {hasRunOutputs(run) && <button onClick={() => onRestore(run)} className="px-2 py-1 rounded-md bg-white/5 hover:bg-white/10 text-[10px] text-slate-300 hover:text-white flex items-center gap-1"><RotateCcw size={10} />恢复此结果</button>}
+                                <button onClick={() => onRerun(run)} className="px-2 py-1 rounded-md bg-white/5 hover:bg-white/10 text-[10px] text-slate-300 hover:text-white flex items-center gap-1"><Play size={10} />按此参数重新运行</button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
@@ -2,15 +2,24 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { 
     Plus, RotateCcw, History, MessageSquare, FolderHeart, X, 
-    ImageIcon, Video as VideoIcon, Film, Save, FolderPlus, 
+    ImageIcon, Film, Save, FolderPlus, 
     Edit, Trash2, Box, ScanFace, Brush, Type, Workflow as WorkflowIcon,
-    Clapperboard, Mic2, Settings
+    Clapperboard, Mic2, Settings, LayoutGrid, Download, RotateCw, ListOrdered, Layers, Wallet, Info, Star, HardDrive, Users, Combine
 } from 'lucide-react';
-import { NodeType, Workflow } from '../types';
+import { Asset, NodeType, Workflow } from '../types';
+import { AssetPatch } from '../services/assetLibrary';
+import { MediaImage } from './MediaElements';
+import { AssetLibraryPanel } from './AssetLibraryPanel';
 
 interface SidebarDockProps {
     onAddNode: (type: NodeType) => void;
     onUndo: () => void;
+    onRedo?: () => void;
+    isHistoryPanelOpen?: boolean;
+    onToggleHistoryPanel?: () => void;
+    isJobsPanelOpen?: boolean;
+    onToggleJobsPanel?: () => void;
+    activeJobCount?: number; // Queued + running generation jobs, shown as a badge
     isChatOpen: boolean;
     onToggleChat: () => void;
     
@@ -23,9 +32,11 @@ interface SidebarDockProps {
     onToggleSonicStudio?: () => void;
     
     // History Props
-    assetHistory: any[];
-    onHistoryItemClick: (item: any) => void;
-    onDeleteAsset: (id: string) => void;
+    assetHistory: Asset[];
+    onHistoryItemClick: (item: Asset) => void;
+    onDeleteAssets: (ids: string[]) => void;
+    onUpdateAssets?: (ids: string[], update: (asset: Asset) => AssetPatch) => void;
+    onExportAssets?: (ids: string[]) => void; // Files with embedded provenance plus sidecar JSON
     
     // Workflow Props
     workflows: Workflow[];
@@ -34,9 +45,17 @@ interface SidebarDockProps {
     onSaveWorkflow: () => void;
     onDeleteWorkflow: (id: string) => void;
     onRenameWorkflow: (id: string, title: string) => void;
+    onExportWorkflow?: (id: string) => void;
 
     // Settings
     onOpenSettings: () => void;
+    onOpenUsage?: () => void;
+    onOpenStorage?: () => void;
+    onOpenCollab?: () => void;
+    collabPeerCount?: number; // Undefined while not in a shared room
+
+    // Projects
+    onOpenProjects?: () => void;
 }
 
 // Helper Helpers
@@ -48,6 +67,8 @@ const getNodeNameCN = (t: string) => {
         case NodeType.AUDIO_GENERATOR: return '灵感音乐';
         case NodeType.VIDEO_ANALYZER: return '视频分析';
         case NodeType.IMAGE_EDITOR: return '图像编辑';
+        case NodeType.TIMELINE: return '时间线剪辑';
+        case NodeType.AUDIO_MERGE: return '音画合成';
         default: return t;
     }
 };
@@ -60,6 +81,8 @@ const getNodeIcon = (t: string) => {
         case NodeType.AUDIO_GENERATOR: return Mic2;
         case NodeType.VIDEO_ANALYZER: return ScanFace;
         case NodeType.IMAGE_EDITOR: return Brush;
+        case NodeType.TIMELINE: return Clapperboard;
+        case NodeType.AUDIO_MERGE: return Combine;
         default: return Plus;
     }
 };
@@ -69,6 +92,12 @@ const SPRING = "cubic-bezier(0.32, 0.72, 0, 1)";
 export const SidebarDock: React.FC<SidebarDockProps> = ({
     onAddNode,
     onUndo,
+    onRedo,
+    isHistoryPanelOpen,
+    onToggleHistoryPanel,
+    isJobsPanelOpen,
+    onToggleJobsPanel,
+    activeJobCount = 0,
     isChatOpen,
     onToggleChat,
     isMultiFrameOpen,
@@ -77,17 +106,25 @@ export const SidebarDock: React.FC<SidebarDockProps> = ({
     onToggleSonicStudio,
     assetHistory,
     onHistoryItemClick,
-    onDeleteAsset,
+    onDeleteAssets,
+    onUpdateAssets,
+    onExportAssets,
     workflows,
     selectedWorkflowId,
     onSelectWorkflow,
     onSaveWorkflow,
     onDeleteWorkflow,
     onRenameWorkflow,
-    onOpenSettings
+    onExportWorkflow,
+    onOpenSettings,
+    onOpenUsage,
+    onOpenStorage,
+    onOpenCollab,
+    collabPeerCount,
+    onOpenProjects
 }) => {
     const [activePanel, setActivePanel] = useState<'history' | 'workflow' | 'add' | null>(null);
-    const [activeHistoryTab, setActiveHistoryTab] = useState<'image' | 'video'>('image');
+    const [detailAssetId, setDetailAssetId] = useState<string | null>(null);
     const [editingWorkflowId, setEditingWorkflowId] = useState<string | null>(null);
     const [contextMenu, setContextMenu] = useState<{ visible: boolean, x: number, y: number, id: string, type: 'workflow' | 'history' } | null>(null);
     const closeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -124,76 +161,18 @@ export const SidebarDock: React.FC<SidebarDockProps> = ({
 
     const renderPanelContent = () => {
         if (activePanel === 'history') {
-            const filteredAssets = assetHistory.filter(a => {
-                if (activeHistoryTab === 'image') return a.type === 'image' || a.type.includes('image') || a.type.includes('image_generator');
-                if (activeHistoryTab === 'video') return a.type === 'video' || a.type.includes('video');
-                return false;
-            });
-
             return (
-                <>
-                    <div className="p-4 border-b border-white/5 flex flex-col gap-3 bg-white/5">
-                        <div className="flex justify-between items-center">
-                            <button onClick={() => setActivePanel(null)}><X size={14} className="text-slate-500 hover:text-white" /></button>
-                            <span className="text-xs font-bold uppercase tracking-widest text-white/50">历史记录</span>
-                        </div>
-                        {/* Tabs */}
-                        <div className="flex bg-black/20 p-1 rounded-lg">
-                            <button 
-                                onClick={() => setActiveHistoryTab('image')}
-                                className={`flex-1 flex items-center justify-center gap-2 py-1.5 text-[10px] font-bold rounded-md transition-all ${activeHistoryTab === 'image' ? 'bg-white/10 text-white shadow-sm' : 'text-slate-500 hover:text-slate-300'}`}
-                            >
-                                <ImageIcon size={12} /> 图片
-                            </button>
-                            <button 
-                                onClick={() => setActiveHistoryTab('video')}
-                                className={`flex-1 flex items-center justify-center gap-2 py-1.5 text-[10px] font-bold rounded-md transition-all ${activeHistoryTab === 'video' ? 'bg-white/10 text-white shadow-sm' : 'text-slate-500 hover:text-slate-300'}`}
-                            >
-                                <VideoIcon size={12} /> 视频
-                            </button>
-                        </div>
-                    </div>
-                    <div className="flex-1 overflow-y-auto p-2 custom-scrollbar space-y-2 relative">
-                        {filteredAssets.length === 0 ? (
-                            <div className="flex flex-col items-center justify-center py-10 text-slate-500 opacity-60 select-none">
-                                {activeHistoryTab === 'image' ? <ImageIcon size={48} strokeWidth={1} className="mb-3 opacity-50" /> : <Film size={48} strokeWidth={1} className="mb-3 opacity-50" />}
-                                <span className="text-[10px] font-medium tracking-widest uppercase">暂无{activeHistoryTab === 'image' ? '图片' : '视频'}</span>
-                            </div>
-                        ) : (
-                            <div className="grid grid-cols-2 gap-2 p-1">
-                                {filteredAssets.map(a => (
-                                    <div 
-                                        key={a.id} 
-                                        className="aspect-square rounded-xl overflow-hidden cursor-grab active:cursor-grabbing border border-white/5 hover:border-cyan-500/50 transition-colors group relative shadow-md bg-black/20"
-                                        draggable={true}
-                                        onDragStart={(e) => {
-                                            e.dataTransfer.setData('application/json', JSON.stringify(a));
-                                            e.dataTransfer.effectAllowed = 'copy';
-                                        }}
-                                        onClick={() => onHistoryItemClick(a)}
-                                        onContextMenu={(e) => {
-                                            e.preventDefault();
-                                            e.stopPropagation();
-                                            setContextMenu({ visible: true, x: e.clientX, y: e.clientY, id: a.id, type: 'history' });
-                                        }}
-                                    >
-                                        {a.type.includes('image') ? (
-                                            <img src={a.src} className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" draggable={false} />
-                                        ) : (
-                                            <video src={a.src} className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" draggable={false} />
-                                        )}
-                                        <div className="absolute top-1 right-1 px-1.5 py-0.5 rounded-full bg-black/60 backdrop-blur-md text-[8px] font-bold text-white/70">
-                                            {a.type.includes('image') ? 'IMG' : 'MOV'}
-                                        </div>
-                                        <div className="absolute bottom-0 left-0 w-full p-1.5 bg-gradient-to-t from-black/80 to-transparent text-[9px] text-white/90 truncate font-medium">
-                                            {a.title || 'Untitled'}
-                                        </div>
-                                    </div>
-                                ))}
-                            </div>
-                        )}
-                    </div>
-                </>
+                <AssetLibraryPanel
+                    assets={assetHistory}
+                    detailAssetId={detailAssetId}
+                    onShowDetails={setDetailAssetId}
+                    onClose={() => setActivePanel(null)}
+                    onOpen={onHistoryItemClick}
+                    onContextMenu={(e, a) => setContextMenu({ visible: true, x: e.clientX, y: e.clientY, id: a.id, type: 'history' })}
+                    onUpdateAssets={onUpdateAssets}
+                    onDeleteAssets={onDeleteAssets}
+                    onExportAssets={onExportAssets}
+                />
             );
         }
 
@@ -237,7 +216,7 @@ export const SidebarDock: React.FC<SidebarDockProps> = ({
                                 >
                                     <div className="aspect-[2/1] bg-black/40 rounded-lg mb-2 overflow-hidden relative">
                                         {wf.thumbnail ? (
-                                            <img src={wf.thumbnail} className="w-full h-full object-cover opacity-70 group-hover:opacity-100 transition-opacity" draggable={false} />
+                                            <MediaImage src={wf.thumbnail} className="w-full h-full object-cover opacity-70 group-hover:opacity-100 transition-opacity" draggable={false} />
                                         ) : (
                                             <div className="w-full h-full flex items-center justify-center text-slate-600">
                                                 <WorkflowIcon size={24} />
@@ -276,7 +255,7 @@ export const SidebarDock: React.FC<SidebarDockProps> = ({
                     </span>
                 </div>
                 <div className="flex-1 overflow-y-auto p-2 custom-scrollbar space-y-2">
-                    {[NodeType.PROMPT_INPUT, NodeType.IMAGE_GENERATOR, NodeType.VIDEO_GENERATOR, NodeType.AUDIO_GENERATOR, NodeType.VIDEO_ANALYZER, NodeType.IMAGE_EDITOR].map(t => {
+                    {[NodeType.PROMPT_INPUT, NodeType.IMAGE_GENERATOR, NodeType.VIDEO_GENERATOR, NodeType.AUDIO_GENERATOR, NodeType.VIDEO_ANALYZER, NodeType.IMAGE_EDITOR, NodeType.TIMELINE, NodeType.AUDIO_MERGE].map(t => {
                         const ItemIcon = getNodeIcon(t);
                         return (
                             <button 
@@ -306,13 +285,17 @@ export const SidebarDock: React.FC<SidebarDockProps> = ({
                 onMouseLeave={handleSidebarLeave}
             >
                 {[
+                    { id: 'projects', icon: LayoutGrid, action: onOpenProjects, tooltip: '项目列表' },
                     { id: 'add', icon: Plus },
                     { id: 'workflow', icon: FolderHeart }, 
-                    { id: 'smart_sequence', icon: Clapperboard, action: onToggleMultiFrame, active: isMultiFrameOpen },
+                    { id: 'smart_sequence', icon: Clapperboard, action: onToggleMultiFrame, active: isMultiFrameOpen, tooltip: '智能多帧' },
                     { id: 'sonic_studio', icon: Mic2, action: onToggleSonicStudio, active: isSonicStudioOpen, tooltip: '音频中心 (Audio Hub)' },
                     { id: 'history', icon: History },
                     { id: 'chat', icon: MessageSquare, action: onToggleChat, active: isChatOpen },
-                    { id: 'undo', icon: RotateCcw, action: onUndo },
+                    { id: 'undo', icon: RotateCcw, action: onUndo, tooltip: '撤销 (Ctrl+Z)' },
+                    { id: 'redo', icon: RotateCw, action: onRedo, tooltip: '重做 (Ctrl+Shift+Z)' },
+                    { id: 'steps', icon: ListOrdered, action: onToggleHistoryPanel, active: isHistoryPanelOpen, tooltip: '操作历史' },
+                    { id: 'jobs', icon: Layers, action: onToggleJobsPanel, active: isJobsPanelOpen, tooltip: '任务队列', badge: activeJobCount },
                 ].map(item => (
                     <div key={item.id} className="relative group">
                         <button 
@@ -321,11 +304,14 @@ export const SidebarDock: React.FC<SidebarDockProps> = ({
                             className={`relative group w-10 h-10 rounded-xl flex items-center justify-center transition-all duration-300 hover:scale-110 active:scale-95 ${activePanel === item.id || item.active ? 'bg-white text-black shadow-lg' : 'hover:bg-white/10 text-slate-300 hover:text-white'}`}
                         >
                             <item.icon size={20} strokeWidth={2} />
+                            {!!item.badge && (
+                                <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-cyan-500 text-[9px] font-bold text-black flex items-center justify-center">{item.badge}</span>
+                            )}
                         </button>
                         {/* Tooltip for Sidebar Icons */}
-                        {(item.id === 'smart_sequence' || item.id === 'sonic_studio') && (
+                        {item.tooltip && (
                             <div className="absolute left-full ml-3 top-1/2 -translate-y-1/2 px-2 py-1 bg-black/80 backdrop-blur-md rounded border border-white/10 text-[10px] text-white whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-50">
-                                {item.tooltip || (item.id === 'smart_sequence' ? '智能多帧' : '音频中心')}
+                                {item.tooltip}
                             </div>
                         )}
                     </div>
@@ -334,6 +320,39 @@ export const SidebarDock: React.FC<SidebarDockProps> = ({
                 {/* Spacer & Settings */}
                 <div className="w-8 h-px bg-white/10 my-1"></div>
                 
+                {onOpenUsage && (
+                    <button 
+                        onClick={onOpenUsage}
+                        className="relative group w-10 h-10 rounded-xl flex items-center justify-center transition-all duration-300 hover:scale-110 active:scale-95 hover:bg-white/10 text-slate-300 hover:text-white"
+                    >
+                        <Wallet size={20} strokeWidth={2} />
+                        <div className="absolute left-full ml-3 top-1/2 -translate-y-1/2 px-2 py-1 bg-black/80 backdrop-blur-md rounded border border-white/10 text-[10px] text-white whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-50">用量与费用</div>
+                    </button>
+                )}
+
+                {onOpenStorage && (
+                    <button 
+                        onClick={onOpenStorage}
+                        className="relative group w-10 h-10 rounded-xl flex items-center justify-center transition-all duration-300 hover:scale-110 active:scale-95 hover:bg-white/10 text-slate-300 hover:text-white"
+                    >
+                        <HardDrive size={20} strokeWidth={2} />
+                        <div className="absolute left-full ml-3 top-1/2 -translate-y-1/2 px-2 py-1 bg-black/80 backdrop-blur-md rounded border border-white/10 text-[10px] text-white whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-50">存储空间</div>
+                    </button>
+                )}
+
+                {onOpenCollab && (
+                    <button 
+                        onClick={onOpenCollab}
+                        className={`relative group w-10 h-10 rounded-xl flex items-center justify-center transition-all duration-300 hover:scale-110 active:scale-95 hover:bg-white/10 ${collabPeerCount !== undefined ? 'text-cyan-400' : 'text-slate-300 hover:text-white'}`}
+                    >
+                        <Users size={20} strokeWidth={2} />
+                        {collabPeerCount !== undefined && collabPeerCount > 0 && (
+                            <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-cyan-500 text-[9px] font-bold text-black flex items-center justify-center">{collabPeerCount}</span>
+                        )}
+                        <div className="absolute left-full ml-3 top-1/2 -translate-y-1/2 px-2 py-1 bg-black/80 backdrop-blur-md rounded border border-white/10 text-[10px] text-white whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-50">协作</div>
+                    </button>
+                )}
+
                 <button 
                     onClick={onOpenSettings}
                     className="relative group w-10 h-10 rounded-xl flex items-center justify-center transition-all duration-300 hover:scale-110 active:scale-95 hover:bg-white/10 text-slate-300 hover:text-white"
@@ -363,15 +382,35 @@ export const SidebarDock: React.FC<SidebarDockProps> = ({
                     onMouseLeave={() => setContextMenu(null)}
                 >
                     {contextMenu.type === 'history' && (
-                         <button className="w-full text-left px-3 py-2 text-xs text-red-400 hover:bg-red-500/20 rounded-md flex items-center gap-2" onClick={() => { onDeleteAsset(contextMenu.id); setContextMenu(null); }}>
-                             <Trash2 size={12} /> 删除
-                         </button>
+                        <>
+                            {onUpdateAssets && (
+                                <button className="w-full text-left px-3 py-2 text-xs text-slate-200 hover:bg-white/10 rounded-md flex items-center gap-2" onClick={() => { onUpdateAssets([contextMenu.id], a => ({ favorite: !a.favorite })); setContextMenu(null); }}>
+                                    <Star size={12} /> {assetHistory.find(a => a.id === contextMenu.id)?.favorite ? '取消收藏' : '收藏'}
+                                </button>
+                            )}
+                            <button className="w-full text-left px-3 py-2 text-xs text-slate-200 hover:bg-white/10 rounded-md flex items-center gap-2" onClick={() => { setDetailAssetId(contextMenu.id); setContextMenu(null); }}>
+                                <Info size={12} /> 来源信息
+                            </button>
+                            {onExportAssets && (
+                                <button className="w-full text-left px-3 py-2 text-xs text-slate-200 hover:bg-white/10 rounded-md flex items-center gap-2" onClick={() => { onExportAssets([contextMenu.id]); setContextMenu(null); }}>
+                                    <Download size={12} /> 导出
+                                </button>
+                            )}
+                            <button className="w-full text-left px-3 py-2 text-xs text-red-400 hover:bg-red-500/20 rounded-md flex items-center gap-2" onClick={() => { onDeleteAssets([contextMenu.id]); setContextMenu(null); }}>
+                                <Trash2 size={12} /> 删除
+                            </button>
+                        </>
                     )}
                     {contextMenu.type === 'workflow' && (
                         <>
                             <button className="w-full text-left px-3 py-2 text-xs text-slate-200 hover:bg-white/10 rounded-md flex items-center gap-2" onClick={() => { setEditingWorkflowId(contextMenu.id); setContextMenu(null); }}>
                                 <Edit size={12} /> 重命名
                             </button>
+                            {onExportWorkflow && (
+                                <button className="w-full text-left px-3 py-2 text-xs text-slate-200 hover:bg-white/10 rounded-md flex items-center gap-2" onClick={() => { onExportWorkflow(contextMenu.id); setContextMenu(null); }}>
+                                    <Download size={12} /> 导出
+                                </button>
+                            )}
                             <button className="w-full text-left px-3 py-2 text-xs text-red-400 hover:bg-red-500/20 rounded-md flex items-center gap-2" onClick={() => { onDeleteWorkflow(contextMenu.id); setContextMenu(null); }}>
                                 <Trash2 size={12} /> 删除
                             </button>
@@ -3,21 +3,27 @@ import React, { useState, useRef, useEffect } from 'react';
 import { 
     Plus, Play, Pause, X, Clock, Trash2, Link, ArrowRight, 
     GripVertical, RefreshCw, Download, Maximize2, Minimize2,
-    MonitorPlay, Loader2
+    MonitorPlay, Loader2, AlertCircle
 } from 'lucide-react';
 import { SmartSequenceItem } from '../types';
+import { SequenceSegment, planSegments } from '../services/smartSequence';
+import { runBatch } from '../services/batch';
+import { useMediaUrl } from '../services/mediaResolver';
 
 interface SmartSequenceDockProps {
     isOpen: boolean;
     onClose: () => void;
-    onGenerate: (frames: SmartSequenceItem[]) => Promise<string>;
+    onGenerateSegment: (from: SmartSequenceItem, to: SmartSequenceItem, segment: SequenceSegment) => Promise<string>;
+    onConfirmRun?: (segments: SequenceSegment[]) => Promise<boolean>; // Budget check before any segment is rendered
+    onStitch: (frames: SmartSequenceItem[], segments: SequenceSegment[]) => Promise<string>;
     onConnectStart?: (e: React.MouseEvent, type: 'input' | 'output') => void;
 }
 
 // Apple Physics Curve
 const SPRING = "cubic-bezier(0.32, 0.72, 0, 1)";
+const SEGMENT_CONCURRENCY = 2;
 
-export const SmartSequenceDock: React.FC<SmartSequenceDockProps> = ({ isOpen, onClose, onGenerate, onConnectStart }) => {
+export const SmartSequenceDock: React.FC<SmartSequenceDockProps> = ({ isOpen, onClose, onGenerateSegment, onConfirmRun, onStitch, onConnectStart }) => {
     const [frames, setFrames] = useState<SmartSequenceItem[]>([]);
     const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
     const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
@@ -30,7 +36,11 @@ export const SmartSequenceDock: React.FC<SmartSequenceDockProps> = ({ isOpen, on
 
     // Generation State
     const [isGenerating, setIsGenerating] = useState(false);
+    const [isStitching, setIsStitching] = useState(false);
+    const [segments, setSegments] = useState<SequenceSegment[]>([]);
+    const [stitchError, setStitchError] = useState<string | null>(null);
     const [resultVideoUrl, setResultVideoUrl] = useState<string | null>(null);
+    const resultSrc = useMediaUrl(resultVideoUrl);
     
     // Transition Editor State
     const [editingTransitionId, setEditingTransitionId] = useState<string | null>(null);
@@ -43,6 +53,11 @@ export const SmartSequenceDock: React.FC<SmartSequenceDockProps> = ({ isOpen, on
 
     // --- Helpers ---
     const totalDuration = frames.reduce((acc, f, i) => i < frames.length - 1 ? acc + f.transition.duration : acc, 0);
+    // Current frames against the last results: edited transitions show up as pending again
+    const plan = planSegments(frames, segments);
+    const segmentOf = (frameId: string) => plan.find(s => s.fromId === frameId);
+    const doneCount = plan.filter(s => s.status === 'done').length;
+    const failedCount = plan.filter(s => s.status === 'failed').length;
 
     // Global Click Listener for Closing Popups
     useEffect(() => {
@@ -60,14 +75,39 @@ export const SmartSequenceDock: React.FC<SmartSequenceDockProps> = ({ isOpen, on
         return () => window.removeEventListener('mousedown', handleClickOutside);
     }, [editingTransitionId, tempPrompt, tempDuration]);
 
-    const handleGenerateClick = async () => {
+    // Renders one transition, or every one without a result, then joins all segments once none is missing.
+    // An open transition editor is saved first so its edit is what gets rendered.
+    const handleGenerateClick = async (onlyFrameId?: string) => {
         if (frames.length < 2 || isGenerating) return;
+        const snapshot = applyEdit(frames);
+        saveTransition();
+        const current = planSegments(snapshot, segments);
+        const todo = current.filter(s => onlyFrameId ? s.fromId === onlyFrameId : s.status !== 'done').map(s => s.key);
+        if (todo.length > 0 && onConfirmRun && !(await onConfirmRun(current.filter(s => todo.includes(s.key))))) return;
+        const finished = current.map(s => todo.includes(s.key) ? { ...s, status: 'generating' as const, error: undefined } : s);
+        setSegments(finished);
         setIsGenerating(true);
+        setStitchError(null);
         setResultVideoUrl(null); 
         setIsPlaying(false);
         
         try {
-            const url = await onGenerate(frames);
+            await runBatch(todo.length, SEGMENT_CONCURRENCY, async k => {
+                const index = finished.findIndex(s => s.key === todo[k]);
+                const segment = finished[index];
+                const from = snapshot.find(f => f.id === segment.fromId)!;
+                const to = snapshot.find(f => f.id === segment.toId)!;
+                try {
+                    finished[index] = { ...segment, status: 'done', uri: await onGenerateSegment(from, to, segment) };
+                } catch (e: any) {
+                    finished[index] = { ...segment, status: 'failed', error: e.message || '片段生成失败' };
+                }
+                setSegments(prev => prev.map(s => s.key === segment.key ? finished[index] : s));
+            });
+            if (finished.some(s => s.status !== 'done')) return;
+
+            setIsStitching(true);
+            const url = await onStitch(snapshot, finished);
             setResultVideoUrl(url);
             // Auto play after generation
             setTimeout(() => {
@@ -75,15 +115,17 @@ export const SmartSequenceDock: React.FC<SmartSequenceDockProps> = ({ isOpen, on
                     videoRef.current.play().then(() => setIsPlaying(true)).catch(() => {});
                 }
             }, 100);
-        } catch (error) {
+        } catch (error: any) {
             console.error("Generation failed", error);
+            setStitchError(error.message || '视频拼接失败');
         } finally {
             setIsGenerating(false);
+            setIsStitching(false);
         }
     };
 
     const togglePlay = () => {
-        if (!videoRef.current || !resultVideoUrl) return;
+        if (!videoRef.current || !resultSrc) return;
         if (isPlaying) {
             videoRef.current.pause();
             setIsPlaying(false);
@@ -174,9 +216,13 @@ export const SmartSequenceDock: React.FC<SmartSequenceDockProps> = ({ isOpen, on
         }
     };
 
+    const applyEdit = (list: SmartSequenceItem[]) => editingTransitionId
+        ? list.map(f => f.id === editingTransitionId ? { ...f, transition: { prompt: tempPrompt, duration: tempDuration } } : f)
+        : list;
+
     const saveTransition = () => {
         if (editingTransitionId) {
-            setFrames(prev => prev.map(f => f.id === editingTransitionId ? { ...f, transition: { prompt: tempPrompt, duration: tempDuration } } : f));
+            setFrames(applyEdit);
             setEditingTransitionId(null);
         }
     };
@@ -199,9 +245,9 @@ export const SmartSequenceDock: React.FC<SmartSequenceDockProps> = ({ isOpen, on
                 >
                     {isExpanded ? <Minimize2 size={16} /> : <Maximize2 size={16} />}
                 </button>
-                {resultVideoUrl && (
+                {resultSrc && (
                     <a 
-                        href={resultVideoUrl}
+                        href={resultSrc}
                         download={`sunstudio_seq_${Date.now()}.mp4`}
                         onClick={(e) => e.stopPropagation()}
                         className="p-2 bg-black/60 backdrop-blur-md rounded-lg text-white/70 hover:text-white border border-white/10 hover:scale-105 transition-all"
@@ -216,13 +262,13 @@ export const SmartSequenceDock: React.FC<SmartSequenceDockProps> = ({ isOpen, on
             {isGenerating ? (
                 <div className="flex flex-col items-center gap-3">
                     <Loader2 size={32} className="animate-spin text-cyan-500" />
-                    <span className="text-[10px] font-bold text-slate-400 tracking-widest uppercase animate-pulse">正在生成智能补帧...</span>
+                    <span className="text-[10px] font-bold text-slate-400 tracking-widest uppercase animate-pulse">{isStitching ? '正在拼接视频...' : `正在生成片段 ${doneCount}/${plan.length}...`}</span>
                 </div>
-            ) : resultVideoUrl ? (
+            ) : resultSrc ? (
                 <div className="relative w-full h-full group/video" onClick={togglePlay}>
                     <video 
                         ref={videoRef}
-                        src={resultVideoUrl} 
+                        src={resultSrc} 
                         className="w-full h-full object-contain" 
                         loop 
                         playsInline
@@ -245,20 +291,26 @@ export const SmartSequenceDock: React.FC<SmartSequenceDockProps> = ({ isOpen, on
                          {/* Central Play Button (Only toggles playback if generated, or shows placeholder) */}
                          <button 
                              onClick={togglePlay}
-                             disabled={!resultVideoUrl}
+                             disabled={!resultSrc}
                              className={`w-14 h-14 rounded-full flex items-center justify-center transition-all backdrop-blur-md group/play
-                                ${resultVideoUrl 
+                                ${resultSrc 
                                     ? 'bg-cyan-500/20 hover:bg-cyan-500/40 border border-cyan-500/50 shadow-[0_0_20px_rgba(6,182,212,0.3)]' 
                                     : 'bg-white/5 border border-white/10 cursor-default opacity-50'}
                              `}
                          >
-                             {isPlaying ? <Pause size={24} className="text-white" /> : <Play size={24} className="text-white ml-1" fill={resultVideoUrl ? "currentColor" : "none"} />}
+                             {isPlaying ? <Pause size={24} className="text-white" /> : <Play size={24} className="text-white ml-1" fill={resultSrc ? "currentColor" : "none"} />}
                          </button>
                     </div>
                     {/* Info Overlay */}
                     <div className="absolute top-2 right-2 px-2 py-1 bg-black/50 backdrop-blur rounded text-[9px] text-slate-300 font-mono border border-white/5 pointer-events-none">
                         {totalDuration}s • {frames.length} Frames
                     </div>
+                    {(failedCount > 0 || stitchError) && (
+                        <div className="absolute bottom-2 left-2 right-2 px-2 py-1.5 bg-red-500/20 backdrop-blur rounded-lg text-[10px] text-red-300 border border-red-500/30 flex items-center gap-1.5 pointer-events-none">
+                            <AlertCircle size={12} className="shrink-0" />
+                            <span className="truncate">{stitchError || `${failedCount} 个片段生成失败，点击红色连接按钮查看并单独重试`}</span>
+                        </div>
+                    )}
                 </div>
             ) : (
                 <div className="flex flex-col items-center text-slate-600 gap-2 select-none">
@@ -397,14 +449,17 @@ export const SmartSequenceDock: React.FC<SmartSequenceDockProps> = ({ isOpen, on
                                             onClick={() => openTransitionEditor(frame.id, frame.transition)}
                                             className={`
                                                 w-5 h-5 rounded-full flex items-center justify-center transition-all hover:scale-110 border
-                                                ${frame.transition.prompt 
+                                                ${segmentOf(frame.id)?.status === 'failed'
+                                                    ? 'bg-red-500 border-red-400 text-white shadow-[0_0_10px_rgba(239,68,68,0.5)]'
+                                                    : frame.transition.prompt 
                                                     ? 'bg-cyan-500 border-cyan-400 text-black shadow-[0_0_10px_rgba(6,182,212,0.5)]' 
                                                     : 'bg-[#2c2c2e] border-white/20 text-slate-500 hover:text-white hover:border-white'}
                                             `}
+                                            title={segmentOf(frame.id)?.error}
                                         >
-                                            <Link size={10} strokeWidth={2.5} />
+                                            {segmentOf(frame.id)?.status === 'generating' ? <Loader2 size={10} className="animate-spin" /> : segmentOf(frame.id)?.status === 'failed' ? <AlertCircle size={10} strokeWidth={2.5} /> : <Link size={10} strokeWidth={2.5} />}
                                         </button>
-                                        <span className="text-[8px] text-slate-500 mt-1 font-mono tracking-tighter">{frame.transition.duration}s</span>
+                                        <span className={`text-[8px] mt-1 font-mono tracking-tighter ${segmentOf(frame.id)?.status === 'done' ? 'text-emerald-400' : 'text-slate-500'}`}>{frame.transition.duration}s</span>
                                     </div>
                                 )}
                             </React.Fragment>
@@ -435,13 +490,13 @@ export const SmartSequenceDock: React.FC<SmartSequenceDockProps> = ({ isOpen, on
                             <Trash2 size={14} />
                         </button>
                         <button 
-                            onClick={handleGenerateClick}
+                            onClick={() => handleGenerateClick()}
                             disabled={frames.length < 2 || isGenerating}
                             className={`
                                 w-10 h-10 rounded-full flex items-center justify-center transition-all shadow-lg
                                 ${frames.length >= 2 && !isGenerating ? 'bg-gradient-to-br from-cyan-500 to-blue-600 text-white hover:scale-110 hover:shadow-cyan-500/30' : 'bg-white/10 text-slate-600 cursor-not-allowed'}
                             `}
-                            title="生成视频"
+                            title={failedCount > 0 ? "重试失败片段" : "生成视频"}
                         >
                            {isGenerating ? <Loader2 size={18} className="animate-spin" /> : <ArrowRight size={18} strokeWidth={3} />}
                         </button>
@@ -474,6 +529,18 @@ export const SmartSequenceDock: React.FC<SmartSequenceDockProps> = ({ isOpen, on
 
                         {/* Footer Actions */}
                         <div className="p-4 pt-0 flex flex-col gap-3">
+                            {segmentOf(editingTransitionId)?.status === 'failed' && (
+                                <div className="flex flex-col gap-2 bg-red-500/10 border border-red-500/30 rounded-xl px-3 py-2">
+                                    <span className="text-[10px] text-red-300 leading-snug line-clamp-3">{segmentOf(editingTransitionId)?.error}</span>
+                                    <button 
+                                        onClick={() => handleGenerateClick(editingTransitionId)}
+                                        disabled={isGenerating}
+                                        className="flex items-center justify-center gap-1.5 py-1.5 bg-red-500/20 hover:bg-red-500/40 text-red-200 rounded-lg text-[10px] font-bold transition-colors disabled:opacity-40"
+                                    >
+                                        <RefreshCw size={10} /> 重试此片段
+                                    </button>
+                                </div>
+                            )}
                             <div className="flex items-center gap-2 bg-[#09090b] border border-white/10 rounded-xl px-3 py-2">
                                 <Clock size={12} className="text-slate-500 shrink-0" />
                                 <input 
@@ -484,6 +551,7 @@ export const SmartSequenceDock: React.FC<SmartSequenceDockProps> = ({ isOpen, on
                                 />
                                 <span className="text-[10px] font-mono text-slate-300 min-w-[24px] text-right">{tempDuration}s</span>
                             </div>
+                            <span className="text-[9px] text-slate-500 leading-snug">片段会变速到所选时长；有片段变速时，成片不含声音</span>
                             <button 
                                 onClick={saveTransition}
                                 className="w-full py-2.5 bg-white text-black hover:bg-cyan-400 rounded-xl text-xs font-bold transition-colors shadow-lg"
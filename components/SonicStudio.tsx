@@ -6,6 +6,7 @@ import {
     FileText, MessageCircle, Activity, AudioLines
 } from 'lucide-react';
 import { generateAudio, transcribeAudio, connectLiveSession } from '../services/geminiService';
+import { useMediaUrl } from '../services/mediaResolver';
 
 interface SonicStudioProps {
     isOpen: boolean;
@@ -116,12 +117,13 @@ export const SonicStudio: React.FC<SonicStudioProps> = ({ isOpen, onClose, histo
     const transcribeInputRef = useRef<HTMLInputElement>(null);
 
     // --- Audio Logic (Player) ---
+    const currentTrackUrl = useMediaUrl(currentTrack?.src);
     useEffect(() => {
-        if (currentTrack && audioRef.current) {
-            audioRef.current.src = currentTrack.src;
+        if (currentTrackUrl && audioRef.current) {
+            audioRef.current.src = currentTrackUrl;
             audioRef.current.play().then(() => setIsPlaying(true)).catch(() => {});
         }
-    }, [currentTrack]);
+    }, [currentTrack, currentTrackUrl]);
 
     const togglePlay = () => {
         if (!audioRef.current || !currentTrack) return;
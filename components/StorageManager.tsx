@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from 'react';
+import { X, HardDrive, Save, ShieldCheck, Trash2, AlertCircle } from 'lucide-react';
+import {
+    DEFAULT_EVICTION_POLICY, EvictionPolicy, MediaKind, StorageBreakdown, StorageEstimate, bytesOverTarget,
+    computeStorageBreakdown, estimateStorage, formatBytes, loadEvictionPolicy, requestPersistentStorage, saveEvictionPolicy,
+} from '../services/storageManager';
+
+interface StorageManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onEvict: (bytesToFree: number, policy: EvictionPolicy) => Promise<{ count: number, freedBytes: number }>;
+}
+
+const KIND_LABELS: Record<MediaKind, string> = { image: '图片', video: '视频', audio: '音频', other: '其他' };
+const KIND_COLORS: Record<MediaKind, string> = { image: 'bg-cyan-400', video: 'bg-purple-400', audio: 'bg-emerald-400', other: 'bg-slate-500' };
+
+export const StorageManager: React.FC<StorageManagerProps> = ({ isOpen, onClose, onEvict }) => {
+  const [estimate, setEstimate] = useState<StorageEstimate | undefined>();
+  const [breakdown, setBreakdown] = useState<StorageBreakdown | undefined>();
+  const [policy, setPolicy] = useState<EvictionPolicy>(DEFAULT_EVICTION_POLICY);
+  const [isSaved, setIsSaved] = useState(false);
+  const [isEvicting, setIsEvicting] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const refresh = () => {
+    estimateStorage().then(setEstimate).catch(e => console.warn("Storage estimate failed", e));
+    computeStorageBreakdown().then(setBreakdown).catch(e => console.warn("Storage breakdown failed", e));
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setNotice(null);
+    refresh();
+    loadEvictionPolicy().then(setPolicy);
+  }, [isOpen]);
+
+  const handleSavePolicy = async () => {
+    await saveEvictionPolicy(policy);
+    setIsSaved(true);
+    setTimeout(() => setIsSaved(false), 2000);
+  };
+
+  const handlePersist = async () => {
+    const granted = await requestPersistentStorage();
+    setNotice(granted ? '已启用持久化存储，浏览器不会自动清除本站数据' : '浏览器拒绝了持久化存储请求');
+    refresh();
+  };
+
+  const overTarget = bytesOverTarget(estimate, policy);
+  const handleEvict = async () => {
+    setIsEvicting(true);
+    try {
+      const { count, freedBytes } = await onEvict(overTarget, policy);
+      setNotice(count > 0 ? `已移除 ${count} 个素材记录，释放 ${formatBytes(freedBytes)}` : '没有符合清理规则的素材（收藏和近期素材会被保留）');
+      refresh();
+    } catch (e: any) {
+      setNotice(`清理失败：${e.message}`);
+    } finally {
+      setIsEvicting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const share = estimate && estimate.quota > 0 ? Math.min(1, estimate.usage / estimate.quota) : 0;
+  const kinds = Object.keys(KIND_LABELS) as MediaKind[];
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="w-[560px] bg-[#1c1c1e] border border-white/10 rounded-3xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200"
+        onClick={e => e.stopPropagation()}
+        onWheel={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-5 border-b border-white/5 flex justify-between items-center bg-white/5">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-slate-800 rounded-xl">
+                <HardDrive size={20} className="text-cyan-400" />
+            </div>
+            <div>
+                <h2 className="text-base font-bold text-white leading-none">存储空间</h2>
+                <span className="text-[10px] text-slate-500 font-bold uppercase tracking-widest mt-1 inline-block">{estimate?.persisted ? '持久化存储' : '临时存储'}</span>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-slate-500 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto custom-scrollbar">
+          {/* Quota */}
+          <div className="p-4 bg-black/30 border border-white/5 rounded-2xl space-y-3">
+            <div className="flex items-end justify-between">
+                <div>
+                    <div className="text-[10px] text-slate-500 font-bold uppercase tracking-wider">已使用</div>
+                    <div className="text-xl font-bold text-white mt-1 tabular-nums">{estimate ? formatBytes(estimate.usage) : '—'} <span className="text-xs text-slate-500 font-medium">/ {estimate ? formatBytes(estimate.quota) : '未知'}</span></div>
+                </div>
+                {estimate && !estimate.persisted && (
+                    <button onClick={handlePersist} className="px-3 py-1.5 rounded-xl text-[10px] font-bold bg-white/10 text-slate-200 hover:bg-white/20 transition-all flex items-center gap-1.5"><ShieldCheck size={12} />申请持久化存储</button>
+                )}
+            </div>
+            <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+                <div className={`h-full ${share >= 0.95 ? 'bg-red-500' : share > policy.targetRatio ? 'bg-amber-400' : 'bg-cyan-400'}`} style={{ width: `${share * 100}%` }} />
+            </div>
+            {!estimate && <p className="text-[10px] text-slate-500">此浏览器不支持存储用量查询</p>}
+          </div>
+
+          {/* Breakdown */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="p-4 bg-black/30 border border-white/5 rounded-2xl space-y-2">
+                <div className="text-[10px] text-slate-500 font-bold uppercase tracking-wider">按类型</div>
+                {kinds.map(kind => (
+                    <div key={kind} className="flex items-center justify-between text-[11px]">
+                        <span className="flex items-center gap-2 text-slate-300"><span className={`w-2 h-2 rounded-full ${KIND_COLORS[kind]}`} />{KIND_LABELS[kind]}</span>
+                        <span className="text-slate-400 tabular-nums">{breakdown ? formatBytes(breakdown.byKind[kind]) : '—'}</span>
+                    </div>
+                ))}
+                {breakdown && breakdown.unreferenced > 0 && (
+                    <div className="flex justify-between text-[11px] pt-1 border-t border-white/5" title="未被任何项目引用，下次启动时自动清理"><span className="text-slate-500">待回收</span><span className="text-slate-500 tabular-nums">{formatBytes(breakdown.unreferenced)}</span></div>
+                )}
+            </div>
+            <div className="p-4 bg-black/30 border border-white/5 rounded-2xl space-y-2">
+                <div className="text-[10px] text-slate-500 font-bold uppercase tracking-wider">按项目</div>
+                {breakdown?.byProject.length === 0 && <div className="text-[11px] text-slate-600">暂无项目</div>}
+                {breakdown?.byProject.map(p => (
+                    <div key={p.projectId} className="flex justify-between text-[11px]"><span className="text-slate-300 truncate">{p.title}</span><span className="text-slate-400 tabular-nums">{formatBytes(p.bytes)}</span></div>
+                ))}
+            </div>
+          </div>
+
+          {/* Eviction policy */}
+          <div className="p-4 bg-black/30 border border-white/5 rounded-2xl space-y-3">
+            <div className="text-[10px] text-slate-500 font-bold uppercase tracking-wider">清理规则</div>
+            <div className="grid grid-cols-2 gap-3">
+                <label className="space-y-1">
+                    <span className="text-[10px] text-slate-400">目标用量（占配额 %）</span>
+                    <input type="number" min="10" max="95" step="5" value={Math.round(policy.targetRatio * 100)} onChange={e => setPolicy(p => ({ ...p, targetRatio: Math.min(95, Math.max(10, Number(e.target.value) || 0)) / 100 }))} className="w-full bg-black/30 border border-white/10 rounded-xl py-2 px-3 text-xs text-white focus:outline-none focus:border-cyan-500/50 transition-colors font-mono" />
+                </label>
+                <label className="space-y-1">
+                    <span className="text-[10px] text-slate-400">保留最近（天）</span>
+                    <input type="number" min="0" step="1" value={policy.keepRecentDays} onChange={e => setPolicy(p => ({ ...p, keepRecentDays: Math.max(0, Number(e.target.value) || 0) }))} className="w-full bg-black/30 border border-white/10 rounded-xl py-2 px-3 text-xs text-white focus:outline-none focus:border-cyan-500/50 transition-colors font-mono" />
+                </label>
+            </div>
+            <label className="flex items-center gap-2 text-[11px] text-slate-300 cursor-pointer">
+                <input type="checkbox" checked={policy.autoEvict} onChange={e => setPolicy(p => ({ ...p, autoEvict: e.target.checked }))} className="accent-cyan-500" />
+                空间不足导致保存失败时自动清理
+            </label>
+            <p className="text-[10px] text-slate-500 flex items-center gap-1"><AlertCircle size={10} /> 从最旧的素材开始移除，收藏的素材和画布上仍在使用的媒体不会被删除。</p>
+            <div className="flex items-center justify-end gap-2">
+                <button onClick={handleEvict} disabled={isEvicting || overTarget <= 0} title={overTarget <= 0 ? '当前用量低于目标' : undefined} className="px-4 py-2 rounded-xl text-[10px] font-bold transition-all flex items-center gap-1.5 bg-white/10 text-slate-200 hover:bg-white/20 disabled:opacity-40 disabled:hover:bg-white/10"><Trash2 size={12} />{isEvicting ? '清理中…' : overTarget > 0 ? `清理约 ${formatBytes(overTarget)}` : '无需清理'}</button>
+                <button onClick={handleSavePolicy} className={`px-4 py-2 rounded-xl text-[10px] font-bold transition-all flex items-center gap-1.5 ${isSaved ? 'bg-emerald-500 text-white' : 'bg-white/10 text-slate-200 hover:bg-white/20'}`}><Save size={12} />{isSaved ? '已保存' : '保存规则'}</button>
+            </div>
+            {notice && <p className="text-[10px] text-cyan-300">{notice}</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,403 @@
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { X, Play, Pause, SkipBack, Clapperboard, Film, Image as ImageIcon, Mic2, Music, ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Loader2, Wand2, AlertCircle } from 'lucide-react';
+import { AppNode, NodeStatus, TimelineAudioClip, TimelineClip, TimelineData } from '../types';
+import { ClipPlacement, activeLayers } from '../services/mediaPipeline';
+import { EMPTY_TIMELINE, audioLength, clipLength, layoutTimeline, refreshTimeline } from '../services/timeline';
+import { getMediaObjectUrl } from '../services/mediaResolver';
+import { isMediaRef } from '../services/storage';
+import { isMediaEngineSupported } from '../services/mediaEngine';
+import { MediaImage } from './MediaElements';
+
+interface TimelineEditorProps {
+    node: AppNode;
+    inputs: AppNode[]; // Upstream nodes in input order
+    onChange: (id: string, timeline: TimelineData) => void;
+    onRender: (id: string) => void;
+    onClose: () => void;
+}
+
+type Selection = { track: 'video' | 'audio', index: number } | null;
+
+const PREVIEW_WIDTH = 640;
+const PREVIEW_HEIGHT = 360;
+const DEFAULT_PX_PER_SECOND = 48;
+const DRIFT_TOLERANCE = 0.3; // Seconds a playing element may drift before it is re-seeked
+const AUDIO_TRACKS: { track: TimelineAudioClip['track'], label: string, icon: any }[] = [
+    { track: 'narration', label: '旁白', icon: Mic2 },
+    { track: 'music', label: '音乐', icon: Music },
+];
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+const round = (n: number) => Math.round(n * 10) / 10;
+
+// Object URLs for every source the preview plays. Remote videos are fetched once so they play without CORS trouble.
+const usePlayableUrls = (srcs: string[]) => {
+    const [urls, setUrls] = useState<Map<string, string>>(new Map());
+    const key = [...new Set(srcs)].sort().join('|');
+
+    useEffect(() => {
+        let active = true;
+        const created: string[] = [];
+        Promise.all([...new Set(srcs)].map(async (src): Promise<[string, string] | undefined> => {
+            try {
+                if (isMediaRef(src)) return [src, await getMediaObjectUrl(src)];
+                if (/^(data|blob):/.test(src)) return [src, src];
+                const blob = await (await fetch(src)).blob();
+                const url = URL.createObjectURL(blob);
+                created.push(url);
+                return [src, url];
+            } catch (e) {
+                console.warn('Timeline preview source failed', e);
+                return undefined;
+            }
+        })).then(entries => { if (active) setUrls(new Map(entries.filter(Boolean) as [string, string][])); });
+        return () => { active = false; created.forEach(u => URL.revokeObjectURL(u)); };
+    }, [key]);
+
+    return urls;
+};
+
+// Plays the cut as it would render: video clips are drawn onto a canvas (blended during crossfades) from
+// hidden media elements that follow the playhead, and the audio tracks play alongside.
+const TimelinePreview = ({ timeline, placements, duration, time, playing, onTime, onEnded }: {
+    timeline: TimelineData, placements: ClipPlacement[], duration: number, time: number, playing: boolean,
+    onTime: (time: number) => void, onEnded: () => void,
+}) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const urls = usePlayableUrls([...timeline.clips.map(c => c.src), ...timeline.audio.map(a => a.src)]);
+    const elements = useRef(new Map<string, HTMLVideoElement | HTMLImageElement | HTMLAudioElement>());
+    const state = useRef({ timeline, placements, duration, time, playing, startedAt: 0, startTime: 0 });
+    state.current = { ...state.current, timeline, placements, duration, playing };
+
+    // One element per source; videos stay muted because the render only keeps the audio tracks
+    useEffect(() => {
+        const map = elements.current;
+        const kinds = new Map<string, 'video' | 'image' | 'audio'>([...timeline.clips.map(c => [c.src, c.kind] as const), ...timeline.audio.map(a => [a.src, 'audio'] as const)]);
+        kinds.forEach((kind, src) => {
+            const url = urls.get(src);
+            if (!url || map.has(src)) return;
+            const el = kind === 'image' ? new Image() : kind === 'video' ? document.createElement('video') : new Audio();
+            if (el instanceof HTMLVideoElement) { el.muted = true; el.playsInline = true; el.preload = 'auto'; }
+            if (el instanceof HTMLAudioElement) el.preload = 'auto';
+            el.src = url;
+            map.set(src, el);
+        });
+        map.forEach((el, src) => {
+            if (kinds.has(src)) return;
+            if (el instanceof HTMLMediaElement) el.pause();
+            map.delete(src);
+        });
+    }, [urls, timeline]);
+
+    useEffect(() => () => { elements.current.forEach(el => { if (el instanceof HTMLMediaElement) el.pause(); }); elements.current.clear(); }, []);
+
+    // Restart the clock whenever playback starts or the playhead is moved by hand
+    useEffect(() => {
+        state.current.time = time;
+        state.current.startTime = time;
+        state.current.startedAt = performance.now();
+    }, [time, playing]);
+
+    useEffect(() => {
+        let frame = 0;
+        const follow = (el: HTMLMediaElement, target: number, play: boolean) => {
+            if (play) {
+                if (el.paused) { el.currentTime = target; el.play().catch(() => {}); }
+                else if (Math.abs(el.currentTime - target) > DRIFT_TOLERANCE) el.currentTime = target;
+            } else {
+                if (!el.paused) el.pause();
+                if (Math.abs(el.currentTime - target) > 0.04) el.currentTime = target;
+            }
+        };
+
+        const tick = (now: number) => {
+            frame = requestAnimationFrame(tick);
+            const s = state.current;
+            let t = s.time;
+            if (s.playing) {
+                t = s.startTime + (now - s.startedAt) / 1000;
+                if (t >= s.duration) { t = s.duration; onEnded(); }
+                s.time = t;
+                onTime(t);
+            }
+
+            const ctx = canvasRef.current?.getContext('2d');
+            if (!ctx) return;
+            ctx.globalAlpha = 1;
+            ctx.fillStyle = '#000';
+            ctx.fillRect(0, 0, PREVIEW_WIDTH, PREVIEW_HEIGHT);
+            const layers = activeLayers(s.placements, t);
+            s.timeline.clips.forEach((clip, i) => {
+                const el = elements.current.get(clip.src);
+                const layer = layers.find(l => l.index === i);
+                if (!el) return;
+                if (el instanceof HTMLVideoElement) {
+                    if (!layer) { if (!el.paused) el.pause(); return; }
+                    follow(el, (clip.in || 0) + layer.offset, s.playing);
+                    if (el.readyState < 2) return;
+                } else if (!layer || !(el as HTMLImageElement).complete || !(el as HTMLImageElement).naturalWidth) return;
+                const w = el instanceof HTMLVideoElement ? el.videoWidth : (el as HTMLImageElement).naturalWidth;
+                const h = el instanceof HTMLVideoElement ? el.videoHeight : (el as HTMLImageElement).naturalHeight;
+                const scale = Math.min(PREVIEW_WIDTH / w, PREVIEW_HEIGHT / h);
+                ctx.globalAlpha = layer.opacity;
+                ctx.drawImage(el as CanvasImageSource, (PREVIEW_WIDTH - w * scale) / 2, (PREVIEW_HEIGHT - h * scale) / 2, w * scale, h * scale);
+            });
+
+            s.timeline.audio.forEach(item => {
+                const el = elements.current.get(item.src);
+                if (!(el instanceof HTMLAudioElement)) return;
+                const offset = t - item.start;
+                const audible = s.playing && offset >= 0 && offset < audioLength(item) && t < s.duration;
+                el.volume = Math.min(1, Math.max(0, item.volume ?? 1));
+                if (audible) follow(el, (item.in || 0) + offset, true);
+                else if (!el.paused) el.pause();
+            });
+        };
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, [onTime, onEnded]);
+
+    return <canvas ref={canvasRef} width={PREVIEW_WIDTH} height={PREVIEW_HEIGHT} className="w-full h-full object-contain bg-black" />;
+};
+
+const NumberField = ({ label, value, onChange, min = 0, max, step = 0.1, suffix = 's', disabled }: {
+    label: string, value: number, onChange: (value: number) => void, min?: number, max?: number, step?: number, suffix?: string, disabled?: boolean,
+}) => (
+    <label className={`flex items-center justify-between gap-3 text-[11px] ${disabled ? 'opacity-40' : ''}`}>
+        <span className="text-slate-400 font-bold">{label}</span>
+        <span className="flex items-center gap-1">
+            <input
+                type="number" min={min} max={max} step={step} value={round(value)} disabled={disabled}
+                onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) onChange(Math.min(max ?? Infinity, Math.max(min, v))); }}
+                className="w-20 bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-right text-slate-200 tabular-nums focus:outline-none focus:border-cyan-500/50"
+            />
+            <span className="w-3 text-slate-500">{suffix}</span>
+        </span>
+    </label>
+);
+
+export const TimelineEditor: React.FC<TimelineEditorProps> = ({ node, inputs, onChange, onRender, onClose }) => {
+    const [timeline, setTimeline] = useState<TimelineData>(node.data.timeline || EMPTY_TIMELINE);
+    const [selection, setSelection] = useState<Selection>(null);
+    const [time, setTime] = useState(0);
+    const [playing, setPlaying] = useState(false);
+    const [pxPerSecond, setPxPerSecond] = useState(DEFAULT_PX_PER_SECOND);
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [isSyncing, setIsSyncing] = useState(true);
+    const isWorking = node.status === NodeStatus.WORKING;
+
+    // Undo, other tabs and collaborators change the node underneath the editor
+    useEffect(() => { if (node.data.timeline) setTimeline(node.data.timeline); }, [node.data.timeline]);
+
+    // Connected inputs are pulled onto the timeline whenever they change
+    const inputKey = inputs.map(n => `${n.id}:${n.data.videoUri || n.data.image || n.data.audioUri || ''}`).join('|');
+    useEffect(() => {
+        let active = true;
+        setIsSyncing(true);
+        refreshTimeline(node.data.timeline, inputs).then(next => {
+            if (!active) return;
+            setIsSyncing(false);
+            if (JSON.stringify(next) !== JSON.stringify(node.data.timeline || EMPTY_TIMELINE)) { setTimeline(next); onChange(node.id, next); }
+        });
+        return () => { active = false; };
+    }, [node.id, inputKey]);
+
+    const commit = (next: TimelineData) => { setTimeline(next); onChange(node.id, next); };
+    const updateClip = (index: number, patch: Partial<TimelineClip>) => commit({ ...timeline, clips: timeline.clips.map((c, i) => i === index ? { ...c, ...patch } : c) });
+    const updateAudio = (index: number, patch: Partial<TimelineAudioClip>, save = true) => {
+        const next = { ...timeline, audio: timeline.audio.map((a, i) => i === index ? { ...a, ...patch } : a) };
+        if (save) commit(next); else setTimeline(next);
+    };
+    const moveClip = (from: number, to: number) => {
+        if (to < 0 || to >= timeline.clips.length || from === to) return;
+        const clips = [...timeline.clips];
+        const [clip] = clips.splice(from, 1);
+        clips.splice(to, 0, clip);
+        commit({ ...timeline, clips });
+        setSelection({ track: 'video', index: to });
+    };
+
+    const placements: ClipPlacement[] = useMemo(() => layoutTimeline(timeline), [timeline]);
+    const duration = placements.reduce((n, p) => Math.max(n, p.end), 0);
+    const audioEnd = timeline.audio.reduce((n, a) => Math.max(n, a.start + audioLength(a)), 0);
+    const trackWidth = Math.max(duration, audioEnd, 10) * pxPerSecond + 80;
+    const titleOf = (sourceId: string) => inputs.find(n => n.id === sourceId)?.title || '已断开';
+
+    const handleTime = useCallback((t: number) => setTime(t), []);
+    const handleEnded = useCallback(() => setPlaying(false), []);
+    const togglePlay = () => {
+        if (!playing && time >= duration) setTime(0);
+        setPlaying(!playing);
+    };
+    const seek = (e: React.MouseEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        setTime(Math.max(0, Math.min(duration, (e.clientX - rect.left) / pxPerSecond)));
+    };
+
+    // Audio items slide along their track; the position is saved once the mouse is released
+    const startAudioDrag = (e: React.MouseEvent, index: number) => {
+        e.stopPropagation();
+        setSelection({ track: 'audio', index });
+        const startX = e.clientX;
+        const origin = timeline.audio[index].start;
+        let latest = timeline;
+        const onMove = (ev: MouseEvent) => {
+            const start = Math.max(0, round(origin + (ev.clientX - startX) / pxPerSecond));
+            setTimeline(t => (latest = { ...t, audio: t.audio.map((a, i) => i === index ? { ...a, start } : a) }));
+        };
+        const onUp = () => {
+            window.removeEventListener('mousemove', onMove);
+            window.removeEventListener('mouseup', onUp);
+            if (latest !== timeline) onChange(node.id, latest);
+        };
+        window.addEventListener('mousemove', onMove);
+        window.addEventListener('mouseup', onUp);
+    };
+
+    const renderInspector = () => {
+        if (!selection) return <div className="text-[11px] text-slate-500 leading-relaxed">选择时间线上的片段以调整入点、出点、空白与交叉淡化。拖动视频片段可调整顺序，拖动音频可改变开始位置。</div>;
+        if (selection.track === 'video') {
+            const clip = timeline.clips[selection.index];
+            if (!clip) return null;
+            const length = clip.length ?? 0;
+            return (
+                <div className="flex flex-col gap-3">
+                    <div className="flex items-center gap-2 text-xs font-bold text-white">{clip.kind === 'video' ? <Film size={14} className="text-purple-400" /> : <ImageIcon size={14} className="text-cyan-400" />}<span className="truncate">{titleOf(clip.sourceId)}</span></div>
+                    {clip.kind === 'video' ? (<>
+                        <NumberField label="入点" value={clip.in || 0} max={(clip.out ?? length) - 0.1} onChange={v => updateClip(selection.index, { in: v })} />
+                        <NumberField label="出点" value={clip.out ?? length} min={(clip.in || 0) + 0.1} max={length || undefined} onChange={v => updateClip(selection.index, { out: v })} />
+                        <div className="text-[10px] text-slate-500 text-right">源时长 {clip.length === undefined ? '未知' : `${round(length)}s`}</div>
+                    </>) : (
+                        <NumberField label="静帧时长" value={clipLength(clip)} min={0.1} onChange={v => updateClip(selection.index, { still: v })} />
+                    )}
+                    <NumberField label="前置空白" value={clip.gap || 0} onChange={v => updateClip(selection.index, { gap: v })} />
+                    <NumberField label="交叉淡化" value={clip.crossfade || 0} disabled={selection.index === 0 || !!clip.gap} onChange={v => updateClip(selection.index, { crossfade: v })} />
+                    <div className="flex gap-2">
+                        <button className="flex-1 flex items-center justify-center gap-1 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-[11px] font-bold text-slate-300 disabled:opacity-30" disabled={selection.index === 0} onClick={() => moveClip(selection.index, selection.index - 1)}><ChevronLeft size={12} />前移</button>
+                        <button className="flex-1 flex items-center justify-center gap-1 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-[11px] font-bold text-slate-300 disabled:opacity-30" disabled={selection.index === timeline.clips.length - 1} onClick={() => moveClip(selection.index, selection.index + 1)}>后移<ChevronRight size={12} /></button>
+                    </div>
+                </div>
+            );
+        }
+        const item = timeline.audio[selection.index];
+        if (!item) return null;
+        const length = item.length ?? 0;
+        return (
+            <div className="flex flex-col gap-3">
+                <div className="flex items-center gap-2 text-xs font-bold text-white"><Mic2 size={14} className="text-pink-400" /><span className="truncate">{titleOf(item.sourceId)}</span></div>
+                <div className="flex gap-1 p-1 bg-black/30 rounded-lg">
+                    {AUDIO_TRACKS.map(({ track, label }) => (
+                        <button key={track} className={`flex-1 py-1 rounded-md text-[11px] font-bold ${item.track === track ? 'bg-white/10 text-white' : 'text-slate-500 hover:text-slate-300'}`} onClick={() => updateAudio(selection.index, { track })}>{label}</button>
+                    ))}
+                </div>
+                <NumberField label="开始" value={item.start} onChange={v => updateAudio(selection.index, { start: v })} />
+                <NumberField label="入点" value={item.in || 0} max={(item.out ?? length) - 0.1} onChange={v => updateAudio(selection.index, { in: v })} />
+                <NumberField label="出点" value={item.out ?? length} min={(item.in || 0) + 0.1} max={length || undefined} onChange={v => updateAudio(selection.index, { out: v })} />
+                <label className="flex flex-col gap-1.5 text-[11px]">
+                    <span className="flex justify-between text-slate-400 font-bold"><span>音量</span><span className="tabular-nums">{Math.round((item.volume ?? 1) * 100)}%</span></span>
+                    <input type="range" min={0} max={2} step={0.05} value={item.volume ?? 1} onChange={(e) => updateAudio(selection.index, { volume: parseFloat(e.target.value) })} className="accent-cyan-500" />
+                </label>
+            </div>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-[#0a0a0c] flex flex-col" onMouseDown={e => e.stopPropagation()} onWheel={e => e.stopPropagation()}>
+            <div className="h-14 flex items-center justify-between px-6 border-b border-white/5 bg-[#121214]">
+                <div className="flex items-center gap-3">
+                    <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-orange-500 to-rose-600 flex items-center justify-center"><Clapperboard size={16} className="text-white" /></div>
+                    <span className="text-sm font-bold text-white">时间线剪辑</span>
+                    <span className="text-xs text-slate-500">{node.title}</span>
+                    {isSyncing && <Loader2 size={12} className="animate-spin text-slate-500" />}
+                </div>
+                <div className="flex items-center gap-3">
+                    {node.status === NodeStatus.ERROR && node.data.error && <span className="flex items-center gap-1 text-[11px] text-red-400 max-w-xs truncate" title={node.data.error}><AlertCircle size={12} />{node.data.error}</span>}
+                    {!isMediaEngineSupported() && <span className="text-[11px] text-amber-400">当前浏览器不支持本地渲染</span>}
+                    <button onClick={() => onRender(node.id)} disabled={isWorking || timeline.clips.length === 0} className={`flex items-center gap-2 px-4 py-1.5 rounded-[12px] font-bold text-[11px] transition-all ${isWorking || timeline.clips.length === 0 ? 'bg-white/5 text-slate-500 cursor-not-allowed' : 'bg-gradient-to-r from-cyan-500 to-blue-500 text-black hover:scale-105'}`}>
+                        {isWorking ? <Loader2 className="animate-spin" size={12} /> : <Wand2 size={12} />}<span>{isWorking ? `渲染中 ${node.data.progress || ''}` : '渲染视频'}</span>
+                    </button>
+                    <button onClick={onClose} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/10"><X size={16} /></button>
+                </div>
+            </div>
+
+            <div className="flex-1 min-h-0 flex">
+                <div className="flex-1 min-w-0 flex flex-col items-center justify-center p-6 gap-3">
+                    <div className="w-full max-w-3xl aspect-video rounded-xl overflow-hidden border border-white/10 shadow-2xl">
+                        <TimelinePreview timeline={timeline} placements={placements} duration={duration} time={time} playing={playing} onTime={handleTime} onEnded={handleEnded} />
+                    </div>
+                    <div className="flex items-center gap-3 text-slate-300">
+                        <button onClick={() => { setPlaying(false); setTime(0); }} className="p-2 rounded-full hover:bg-white/10"><SkipBack size={16} /></button>
+                        <button onClick={togglePlay} disabled={duration === 0} className="w-10 h-10 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center disabled:opacity-30">{playing ? <Pause size={18} /> : <Play size={18} className="ml-0.5" />}</button>
+                        <span className="text-xs tabular-nums text-slate-400">{formatTime(time)} / {formatTime(duration)}</span>
+                    </div>
+                </div>
+                <div className="w-72 border-l border-white/5 bg-[#121214] p-4 overflow-y-auto custom-scrollbar">{renderInspector()}</div>
+            </div>
+
+            <div className="h-64 border-t border-white/5 bg-[#121214] flex flex-col">
+                <div className="h-8 flex items-center justify-end gap-1 px-4 border-b border-white/5">
+                    <button onClick={() => setPxPerSecond(p => Math.max(12, p / 1.5))} className="p-1 text-slate-500 hover:text-white"><ZoomOut size={14} /></button>
+                    <button onClick={() => setPxPerSecond(p => Math.min(240, p * 1.5))} className="p-1 text-slate-500 hover:text-white"><ZoomIn size={14} /></button>
+                </div>
+                <div className="flex-1 flex min-h-0">
+                    <div className="w-24 shrink-0 flex flex-col pt-6 text-[10px] font-bold uppercase tracking-wider text-slate-500">
+                        <div className="h-16 flex items-center gap-1.5 px-3"><Film size={12} />视频</div>
+                        {AUDIO_TRACKS.map(({ track, label, icon: Icon }) => <div key={track} className="h-12 flex items-center gap-1.5 px-3"><Icon size={12} />{label}</div>)}
+                    </div>
+                    <div className="flex-1 overflow-x-auto overflow-y-hidden custom-scrollbar">
+                        <div className="relative h-full" style={{ width: trackWidth }}>
+                            <div className="h-6 relative border-b border-white/5 cursor-pointer" onClick={seek}>
+                                {Array.from({ length: Math.ceil(trackWidth / pxPerSecond) }, (_, s) => s % (pxPerSecond < 24 ? 5 : 1) === 0 && (
+                                    <span key={s} className="absolute top-1 text-[9px] text-slate-600 tabular-nums" style={{ left: s * pxPerSecond + 2 }}>{s}s</span>
+                                ))}
+                            </div>
+                            <div className="h-16 relative" onDragOver={e => e.preventDefault()}>
+                                {timeline.clips.map((clip, i) => {
+                                    const p = placements[i];
+                                    const selected = selection?.track === 'video' && selection.index === i;
+                                    return (
+                                        <div
+                                            key={clip.sourceId}
+                                            draggable
+                                            onDragStart={() => setDragIndex(i)}
+                                            onDragEnd={() => setDragIndex(null)}
+                                            onDrop={() => { if (dragIndex !== null) moveClip(dragIndex, i); setDragIndex(null); }}
+                                            onClick={() => setSelection({ track: 'video', index: i })}
+                                            className={`absolute top-2 h-12 rounded-lg overflow-hidden border cursor-grab active:cursor-grabbing flex items-center gap-2 px-2 ${selected ? 'border-cyan-400 bg-cyan-500/20' : 'border-white/10 bg-white/5 hover:border-white/30'} ${dragIndex === i ? 'opacity-40' : ''}`}
+                                            style={{ left: p.start * pxPerSecond, width: Math.max(24, (p.end - p.start) * pxPerSecond), zIndex: i + 1 }}
+                                            title={titleOf(clip.sourceId)}
+                                        >
+                                            {p.fade > 0 && <div className="absolute inset-y-0 left-0 bg-gradient-to-r from-black/60 to-transparent pointer-events-none" style={{ width: p.fade * pxPerSecond }} />}
+                                            {clip.kind === 'image' ? <MediaImage src={clip.src} className="w-8 h-8 rounded object-cover shrink-0" draggable={false} /> : <Film size={14} className="text-purple-300 shrink-0" />}
+                                            <div className="min-w-0 flex flex-col">
+                                                <span className="text-[10px] font-bold text-slate-200 truncate">{titleOf(clip.sourceId)}</span>
+                                                <span className="text-[9px] text-slate-500 tabular-nums">{round(p.end - p.start)}s{p.fade > 0 ? ` · 淡化 ${round(p.fade)}s` : ''}</span>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                            {AUDIO_TRACKS.map(({ track }) => (
+                                <div key={track} className="h-12 relative border-t border-white/5">
+                                    {timeline.audio.map((item, i) => item.track !== track ? null : (
+                                        <div
+                                            key={item.sourceId}
+                                            onMouseDown={(e) => startAudioDrag(e, i)}
+                                            className={`absolute top-2 h-8 rounded-md border px-2 flex items-center cursor-ew-resize ${selection?.track === 'audio' && selection.index === i ? 'border-pink-400 bg-pink-500/25' : 'border-pink-500/30 bg-pink-500/10 hover:border-pink-400/60'}`}
+                                            style={{ left: item.start * pxPerSecond, width: Math.max(24, audioLength(item) * pxPerSecond) }}
+                                            title={titleOf(item.sourceId)}
+                                        >
+                                            <span className="text-[10px] font-bold text-pink-100 truncate">{titleOf(item.sourceId)}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            ))}
+                            <div className="absolute top-0 bottom-0 w-px bg-cyan-400 pointer-events-none" style={{ left: time * pxPerSecond }} />
+                            {duration > 0 && <div className="absolute top-6 bottom-0 border-l border-dashed border-white/20 pointer-events-none" style={{ left: duration * pxPerSecond }} title="成片结尾" />}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
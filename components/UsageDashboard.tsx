@@ -0,0 +1,166 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Wallet, Save, AlertCircle } from 'lucide-react';
+import { AppNode } from '../types';
+import { Budgets, DEFAULT_BUDGETS, UsageRecord, UsageSummary, formatCost, loadBudgets, loadProjectUsage, saveBudgets, subscribeUsage, summarizeUsage } from '../services/usage';
+import { getModelInfo, getProvider, ProviderId } from '../services/providers';
+
+interface UsageDashboardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  projectTitle: string;
+  nodes: AppNode[];
+}
+
+const MODALITY_LABELS: Record<string, string> = { image: '图像', video: '视频', audio: '音频', text: '文本', analysis: '分析' };
+const RECENT_LIMIT = 30;
+
+const describeRecord = (r: UsageRecord) => {
+    if (r.images) return `${r.images} 张 · ${r.resolution || ''}`;
+    if (r.videoSeconds) return `${r.videoSeconds}s · ${r.resolution || ''}`;
+    if (r.inputTokens || r.outputTokens) return `${r.inputTokens || 0} / ${r.outputTokens || 0} tokens`;
+    return '';
+};
+
+// Empty input clears the budget
+const parseBudget = (value: string) => value.trim() === '' || isNaN(Number(value)) ? undefined : Math.max(0, Number(value));
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ isOpen, onClose, projectId, projectTitle, nodes }) => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [budgets, setBudgets] = useState<Budgets>(DEFAULT_BUDGETS);
+  const [perRunInput, setPerRunInput] = useState('');
+  const [perProjectInput, setPerProjectInput] = useState('');
+  const [isSaved, setIsSaved] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    loadProjectUsage(projectId).then(setRecords).catch(e => console.warn("Failed to load usage", e));
+    loadBudgets().then(b => {
+        setBudgets(b);
+        setPerRunInput(b.perRun?.toString() ?? '');
+        setPerProjectInput(b.perProject?.toString() ?? '');
+    });
+    // Calls made while the dashboard is open show up immediately
+    return subscribeUsage(record => { if (record.projectId === projectId) setRecords(prev => [...prev, record]); });
+  }, [isOpen, projectId]);
+
+  const summary: UsageSummary = useMemo(() => summarizeUsage(records), [records]);
+  const recent: UsageRecord[] = useMemo(() => [...records].sort((a, b) => b.timestamp - a.timestamp).slice(0, RECENT_LIMIT), [records]);
+  const topNodes: [string, number][] = useMemo(() => Object.entries(summary.byNode).sort((a, b) => b[1] - a[1]).slice(0, 5), [summary]);
+
+  const handleSave = async () => {
+    const next: Budgets = { mode: budgets.mode, perRun: parseBudget(perRunInput), perProject: parseBudget(perProjectInput) };
+    await saveBudgets(next);
+    setBudgets(next);
+    setIsSaved(true);
+    setTimeout(() => setIsSaved(false), 2000);
+  };
+
+  if (!isOpen) return null;
+
+  const projectShare = budgets.perProject ? Math.min(1, summary.total / budgets.perProject) : 0;
+  const nodeTitle = (id: string) => nodes.find(n => n.id === id)?.title || '已删除的节点';
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="w-[640px] bg-[#1c1c1e] border border-white/10 rounded-3xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200"
+        onClick={e => e.stopPropagation()}
+        onWheel={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-5 border-b border-white/5 flex justify-between items-center bg-white/5">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-slate-800 rounded-xl">
+                <Wallet size={20} className="text-emerald-400" />
+            </div>
+            <div>
+                <h2 className="text-base font-bold text-white leading-none">用量与费用</h2>
+                <span className="text-[10px] text-slate-500 font-bold uppercase tracking-widest mt-1 inline-block">{projectTitle}</span>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-slate-500 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto custom-scrollbar">
+          {/* Totals */}
+          <div className="grid grid-cols-3 gap-3">
+            <div className="p-4 bg-black/30 border border-white/5 rounded-2xl">
+                <div className="text-[10px] text-slate-500 font-bold uppercase tracking-wider">项目累计</div>
+                <div className="text-xl font-bold text-white mt-1 tabular-nums">{formatCost(summary.total)}</div>
+            </div>
+            <div className="p-4 bg-black/30 border border-white/5 rounded-2xl">
+                <div className="text-[10px] text-slate-500 font-bold uppercase tracking-wider">调用次数</div>
+                <div className="text-xl font-bold text-white mt-1 tabular-nums">{summary.calls}</div>
+            </div>
+            <div className="p-4 bg-black/30 border border-white/5 rounded-2xl">
+                <div className="text-[10px] text-slate-500 font-bold uppercase tracking-wider">项目预算</div>
+                <div className="text-xl font-bold text-white mt-1 tabular-nums">{budgets.perProject !== undefined ? formatCost(budgets.perProject) : '未设置'}</div>
+                {budgets.perProject !== undefined && (
+                    <div className="h-1 mt-2 rounded-full bg-white/10 overflow-hidden"><div className={`h-full ${projectShare >= 1 ? 'bg-red-500' : projectShare > 0.8 ? 'bg-amber-400' : 'bg-emerald-400'}`} style={{ width: `${projectShare * 100}%` }} /></div>
+                )}
+            </div>
+          </div>
+
+          {/* Breakdown */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="p-4 bg-black/30 border border-white/5 rounded-2xl space-y-2">
+                <div className="text-[10px] text-slate-500 font-bold uppercase tracking-wider">按服务商</div>
+                {Object.keys(summary.byProvider).length === 0 && <div className="text-[11px] text-slate-600">暂无记录</div>}
+                {Object.entries(summary.byProvider).map(([provider, cost]) => (
+                    <div key={provider} className="flex justify-between text-[11px]"><span className="text-slate-300">{getProvider(provider as ProviderId)?.label || provider}</span><span className="text-slate-400 tabular-nums">{formatCost(cost)}</span></div>
+                ))}
+                <div className="text-[10px] text-slate-500 font-bold uppercase tracking-wider pt-2">按模型</div>
+                {Object.entries(summary.byModel).sort((a, b) => b[1].cost - a[1].cost).map(([model, m]) => (
+                    <div key={model} className="flex justify-between text-[11px]"><span className="text-slate-300 truncate">{getModelInfo(model)?.label || model} <span className="text-slate-600">×{m.calls}</span></span><span className="text-slate-400 tabular-nums">{formatCost(m.cost)}</span></div>
+                ))}
+            </div>
+            <div className="p-4 bg-black/30 border border-white/5 rounded-2xl space-y-2">
+                <div className="text-[10px] text-slate-500 font-bold uppercase tracking-wider">花费最多的节点</div>
+                {topNodes.length === 0 && <div className="text-[11px] text-slate-600">暂无记录</div>}
+                {topNodes.map(([id, cost]) => (
+                    <div key={id} className="flex justify-between text-[11px]"><span className="text-slate-300 truncate">{nodeTitle(id)}</span><span className="text-slate-400 tabular-nums">{formatCost(cost)}</span></div>
+                ))}
+            </div>
+          </div>
+
+          {/* Budgets */}
+          <div className="p-4 bg-black/30 border border-white/5 rounded-2xl space-y-3">
+            <div className="flex items-center justify-between">
+                <div className="text-[10px] text-slate-500 font-bold uppercase tracking-wider">预算 (USD)</div>
+                <div className="flex bg-black/40 rounded-lg p-0.5">
+                    {(['warn', 'block'] as const).map(mode => (
+                        <button key={mode} onClick={() => setBudgets(b => ({ ...b, mode }))} className={`px-3 py-1 text-[10px] font-bold rounded-md transition-all ${budgets.mode === mode ? 'bg-white/10 text-white' : 'text-slate-500 hover:text-slate-300'}`}>{mode === 'warn' ? '超出时提醒' : '超出时阻止'}</button>
+                    ))}
+                </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+                <input type="number" min="0" step="0.1" value={perRunInput} onChange={e => setPerRunInput(e.target.value)} placeholder="单次运行上限" className="w-full bg-black/30 border border-white/10 rounded-xl py-2.5 px-4 text-xs text-white placeholder-slate-600 focus:outline-none focus:border-emerald-500/50 transition-colors font-mono" />
+                <input type="number" min="0" step="1" value={perProjectInput} onChange={e => setPerProjectInput(e.target.value)} placeholder="项目总上限" className="w-full bg-black/30 border border-white/10 rounded-xl py-2.5 px-4 text-xs text-white placeholder-slate-600 focus:outline-none focus:border-emerald-500/50 transition-colors font-mono" />
+            </div>
+            <div className="flex items-center justify-between">
+                <p className="text-[10px] text-slate-500 flex items-center gap-1"><AlertCircle size={10} /> 费用按公开价目估算，仅供参考，以服务商账单为准。</p>
+                <button onClick={handleSave} className={`px-4 py-2 rounded-xl text-[10px] font-bold transition-all flex items-center gap-1.5 ${isSaved ? 'bg-emerald-500 text-white' : 'bg-white/10 text-slate-200 hover:bg-white/20'}`}><Save size={12} />{isSaved ? '已保存' : '保存预算'}</button>
+            </div>
+          </div>
+
+          {/* Recent calls */}
+          <div className="space-y-1">
+            <div className="text-[10px] text-slate-500 font-bold uppercase tracking-wider mb-2">最近调用</div>
+            {recent.map(r => (
+                <div key={r.id} className="flex items-center gap-3 px-3 py-1.5 rounded-lg hover:bg-white/5 text-[11px]">
+                    <span className="text-[9px] text-slate-600 tabular-nums w-12">{new Date(r.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                    <span className="text-slate-500 w-8">{MODALITY_LABELS[r.modality] || r.modality}</span>
+                    <span className="text-slate-300 truncate flex-1">{getModelInfo(r.model)?.label || r.model}{r.nodeId ? ` · ${nodeTitle(r.nodeId)}` : ''}</span>
+                    <span className="text-slate-500 tabular-nums">{describeRecord(r)}</span>
+                    <span className="text-slate-300 tabular-nums w-14 text-right">{formatCost(r.cost)}</span>
+                </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
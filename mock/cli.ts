@@ -0,0 +1,9 @@
+import { startMockServer } from './server';
+
+// npm run mock-server, then start the app with GEMINI_BASE_URL=<printed url> and any GEMINI_API_KEY
+const port = Number(process.env.PORT) || 8787;
+
+startMockServer(port).then(({ url }) => {
+    console.log(`Mock Gemini API listening on ${url}`);
+    console.log(`Run the app with: GEMINI_BASE_URL=${url} GEMINI_API_KEY=mock npm run dev`);
+});
@@ -0,0 +1,155 @@
+import { createMp4, createPcm, createPng, toBase64 } from './syntheticMedia';
+
+// --- Fake Gemini API ---
+// Mimics the subset of the Generative Language REST API the app uses: generateContent (text, JSON,
+// image and TTS responses) and long-running Veo operations that finish after a few polls.
+// Transport-agnostic: the HTTP server and tests both go through `handle`.
+
+export interface MockRequest {
+    method: string;
+    path: string; // Path plus query string, relative to the server root
+    headers: Record<string, string | undefined>;
+    body?: any;
+}
+
+export interface MockResponse {
+    status: number;
+    contentType: string;
+    body: string | Uint8Array;
+}
+
+export interface RecordedCall {
+    method: string;
+    path: string;
+    model?: string;
+    body?: any;
+}
+
+export interface GenAIMockOptions {
+    baseUrl: string; // Used to build download URIs for generated videos
+    pollsUntilDone?: number; // getVideosOperation calls before a video operation reports done
+    rejectVideo?: boolean; // Answer every Veo request with an error, like a region-restricted key
+    storyboardShots?: number;
+}
+
+interface MockOperation {
+    name: string;
+    polls: number;
+    fileId: string;
+    durationSeconds: number;
+}
+
+const EXTENSION_SECONDS = 7; // Length Veo adds to an extended clip
+
+// --- Helpers ---
+
+const json = (status: number, body: unknown): MockResponse => ({ status, contentType: 'application/json', body: JSON.stringify(body) });
+
+const apiError = (status: number, code: string, message: string) => json(status, { error: { code: status, message, status: code } });
+
+// Same input -> same seed, so responses are stable across runs
+const seedOf = (s: string) => {
+    let h = 2166136261;
+    for (let i = 0; i < s.length; i++) h = Math.imul(h ^ s.charCodeAt(i), 16777619);
+    return h >>> 0;
+};
+
+const promptText = (body: any): string =>
+    (body?.contents || []).flatMap((c: any) => c.parts || []).map((p: any) => p.text).filter(Boolean).join('\n');
+
+const hasInline = (body: any, mimePrefix: string) =>
+    (body?.contents || []).flatMap((c: any) => c.parts || []).some((p: any) => p.inlineData?.mimeType?.startsWith(mimePrefix));
+
+const IMAGE_SIZES: Record<string, [number, number]> = {
+    '1:1': [64, 64], '3:4': [48, 64], '4:3': [64, 48], '9:16': [36, 64], '16:9': [64, 36],
+};
+
+const candidate = (parts: any[]) => ({
+    candidates: [{ content: { role: 'model', parts }, finishReason: 'STOP', index: 0 }],
+    usageMetadata: { promptTokenCount: 1, candidatesTokenCount: 1, totalTokenCount: 2 },
+});
+
+// --- Mock ---
+
+export const createGenAIMock = (options: GenAIMockOptions) => {
+    const pollsUntilDone = options.pollsUntilDone ?? 2;
+    const calls: RecordedCall[] = [];
+    const operations = new Map<string, MockOperation>();
+
+    const generateContent = (model: string, body: any): MockResponse => {
+        const prompt = promptText(body);
+        const config = body?.generationConfig || {};
+        const seed = seedOf(`${model}|${prompt}`);
+
+        if (config.responseModalities?.includes('AUDIO')) {
+            const pcm = createPcm(0.5, 220 + seed % 660);
+            return json(200, candidate([{ inlineData: { mimeType: 'audio/L16;codec=pcm;rate=24000', data: toBase64(pcm) } }]));
+        }
+        if (model.includes('image')) {
+            const [w, h] = IMAGE_SIZES[config.imageConfig?.aspectRatio] || IMAGE_SIZES['1:1'];
+            const png = createPng(w, h, [seed & 0xff, (seed >> 8) & 0xff, (seed >> 16) & 0xff]);
+            return json(200, candidate([{ inlineData: { mimeType: 'image/png', data: toBase64(png) } }]));
+        }
+        if (config.responseMimeType === 'application/json') {
+            const shots = Array.from({ length: options.storyboardShots ?? 3 }, (_, i) => `Shot ${i + 1}: ${prompt.split('\n').pop()}`);
+            return json(200, candidate([{ text: JSON.stringify(shots) }]));
+        }
+        if (hasInline(body, 'video/')) return json(200, candidate([{ text: `Mock analysis: ${prompt}` }]));
+        return json(200, candidate([{ text: `Mock response: ${prompt}` }]));
+    };
+
+    const startVideo = (model: string, body: any): MockResponse => {
+        if (options.rejectVideo) return apiError(400, 'FAILED_PRECONDITION', 'Video generation is not available in your region.');
+        const id = `op-${operations.size + 1}`;
+        const name = `models/${model}/operations/${id}`;
+        // An extension comes back joined to the clip it continues, like Veo's
+        const source = body?.instances?.[0]?.video?.uri;
+        const durationSeconds = source
+            ? (Number(new URL(source, 'http://mock').searchParams.get('duration')) || 8) + EXTENSION_SECONDS
+            : body?.parameters?.durationSeconds || 8;
+        operations.set(name, { name, polls: 0, fileId: `video-${operations.size + 1}`, durationSeconds });
+        return json(200, { name });
+    };
+
+    const pollVideo = (name: string): MockResponse => {
+        const op = operations.get(name);
+        if (!op) return apiError(404, 'NOT_FOUND', `Operation ${name} not found`);
+        op.polls++;
+        if (op.polls < pollsUntilDone) return json(200, { name, done: false });
+        const uri = `${options.baseUrl}/v1beta/files/${op.fileId}:download?alt=media&duration=${op.durationSeconds}`;
+        return json(200, { name, done: true, response: { generateVideoResponse: { generatedSamples: [{ video: { uri } }] } } });
+    };
+
+    const handle = (req: MockRequest): MockResponse => {
+        const url = new URL(req.path, 'http://mock');
+        const path = url.pathname.replace(/^\/v1(beta|alpha)?\//, '/');
+        const model = path.match(/^\/models\/([^/:]+)/)?.[1];
+        calls.push({ method: req.method, path, model, body: req.body });
+
+        // Download links carry the key as a query parameter, like the real API
+        if (!req.headers['x-goog-api-key'] && !url.searchParams.get('key')) return apiError(403, 'PERMISSION_DENIED', 'API key missing');
+
+        if (req.method === 'POST' && model && path.endsWith(':generateContent')) return generateContent(model, req.body);
+        if (req.method === 'POST' && model && path.endsWith(':predictLongRunning')) return startVideo(model, req.body);
+        if (req.method === 'GET' && path.includes('/operations/')) return pollVideo(path.slice(1));
+        const file = path.match(/^\/files\/([^/:]+):download$/);
+        if (req.method === 'GET' && file) {
+            return { status: 200, contentType: 'video/mp4', body: createMp4(Number(url.searchParams.get('duration')) || 8) };
+        }
+        return apiError(404, 'NOT_FOUND', `No mock route for ${req.method} ${path}`);
+    };
+
+    return { handle, calls, operations };
+};
+
+export type GenAIMock = ReturnType<typeof createGenAIMock>;
+
+// In-process transport: a drop-in `fetch` that answers from the mock without opening a socket
+export const createMockFetch = (mock: GenAIMock) => async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, key) => { headers[key] = value; });
+    const body = typeof init.body === 'string' && init.body ? JSON.parse(init.body) : undefined;
+    const response = mock.handle({ method: init.method || 'GET', path: url.pathname + url.search, headers, body });
+    return new Response(response.body, { status: response.status, headers: { 'Content-Type': response.contentType } });
+};
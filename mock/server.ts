@@ -0,0 +1,55 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createGenAIMock, GenAIMock, GenAIMockOptions } from './genaiMock';
+
+// --- HTTP wrapper for the fake Gemini API ---
+// Point the app (or the SDK in tests) at it through GEMINI_BASE_URL.
+
+export interface MockServer {
+    url: string;
+    mock: GenAIMock;
+    close: () => Promise<void>;
+}
+
+const readBody = (req: http.IncomingMessage) => new Promise<any>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf8');
+        try { resolve(text ? JSON.parse(text) : undefined); } catch (e) { reject(e); }
+    });
+    req.on('error', reject);
+});
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+export const startMockServer = async (port: number = 0, options: Omit<GenAIMockOptions, 'baseUrl'> = {}): Promise<MockServer> => {
+    let mock: GenAIMock;
+    const server = http.createServer(async (req, res) => {
+        if (req.method === 'OPTIONS') { res.writeHead(204, CORS_HEADERS); res.end(); return; }
+        try {
+            const body = req.method === 'POST' ? await readBody(req) : undefined;
+            const headers = Object.fromEntries(Object.entries(req.headers).map(([k, v]) => [k, Array.isArray(v) ? v[0] : v]));
+            const response = mock.handle({ method: req.method || 'GET', path: req.url || '/', headers, body });
+            res.writeHead(response.status, { ...CORS_HEADERS, 'Content-Type': response.contentType });
+            res.end(response.body);
+        } catch (e: any) {
+            res.writeHead(400, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: { code: 400, message: e?.message || 'Bad request', status: 'INVALID_ARGUMENT' } }));
+        }
+    });
+
+    await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    mock = createGenAIMock({ ...options, baseUrl: url });
+
+    return {
+        url,
+        mock,
+        close: () => new Promise<void>((resolve, reject) => server.close(err => err ? reject(err) : resolve())),
+    };
+};
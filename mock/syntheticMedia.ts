@@ -0,0 +1,122 @@
+import { zlibSync } from 'fflate';
+
+// --- Synthetic media ---
+// Small but structurally valid files for the fake backend. Content is a pure function of the arguments,
+// so tests can assert on exact bytes.
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+    let c = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+    return (c ^ 0xffffffff) >>> 0;
+};
+
+const concat = (parts: Uint8Array[]) => {
+    const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let offset = 0;
+    parts.forEach(p => { out.set(p, offset); offset += p.length; });
+    return out;
+};
+
+const ascii = (s: string) => Uint8Array.from(s, c => c.charCodeAt(0));
+
+const u32 = (n: number) => { const b = new Uint8Array(4); new DataView(b.buffer).setUint32(0, n); return b; };
+
+export const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64');
+
+// --- PNG ---
+
+const pngChunk = (type: string, data: Uint8Array) => {
+    const typeAndData = concat([ascii(type), data]);
+    return concat([u32(data.length), typeAndData, u32(crc32(typeAndData))]);
+};
+
+// Solid-colour RGB image with a diagonal gradient so different seeds are visually distinct
+export const createPng = (width: number, height: number, rgb: [number, number, number]) => {
+    const header = new Uint8Array(13);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, width); view.setUint32(4, height);
+    header[8] = 8; header[9] = 2; // 8-bit truecolour
+
+    const raw = new Uint8Array(height * (width * 3 + 1));
+    for (let y = 0; y < height; y++) {
+        const row = y * (width * 3 + 1);
+        for (let x = 0; x < width; x++) {
+            const shade = (x + y) / (width + height);
+            raw[row + 1 + x * 3] = Math.round(rgb[0] * (1 - shade));
+            raw[row + 2 + x * 3] = Math.round(rgb[1] * (1 - shade));
+            raw[row + 3 + x * 3] = Math.round(rgb[2] * (1 - shade));
+        }
+    }
+
+    return concat([
+        Uint8Array.of(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a),
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', zlibSync(raw)),
+        pngChunk('IEND', new Uint8Array(0)),
+    ]);
+};
+
+// --- Audio ---
+
+// Raw 16-bit little-endian mono PCM, the format the TTS endpoint returns (the client wraps it in a WAV header)
+export const createPcm = (seconds: number, frequency: number, sampleRate: number = 24000) => {
+    const samples = Math.floor(seconds * sampleRate);
+    const bytes = new Uint8Array(samples * 2);
+    const view = new DataView(bytes.buffer);
+    for (let i = 0; i < samples; i++) {
+        view.setInt16(i * 2, Math.round(Math.sin(2 * Math.PI * frequency * i / sampleRate) * 0.3 * 0x7fff), true);
+    }
+    return bytes;
+};
+
+// 16-bit mono WAV around `createPcm`, as the TTS node stores it
+export const createWav = (seconds: number, frequency: number, sampleRate: number = 24000) => {
+    const pcm = createPcm(seconds, frequency, sampleRate);
+    const header = new Uint8Array(44);
+    const view = new DataView(header.buffer);
+    header.set(ascii('RIFF'), 0);
+    view.setUint32(4, 36 + pcm.length, true);
+    header.set(ascii('WAVEfmt '), 8);
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true);
+    view.setUint16(32, 2, true);
+    view.setUint16(34, 16, true);
+    header.set(ascii('data'), 36);
+    view.setUint32(40, pcm.length, true);
+    return concat([header, pcm]);
+};
+
+// --- MP4 ---
+
+const box = (type: string, ...payload: Uint8Array[]) => {
+    const body = concat(payload);
+    return concat([u32(body.length + 8), ascii(type), body]);
+};
+
+// ftyp + moov(mvhd) + empty mdat: enough for container parsers and duration checks, no decodable frames
+export const createMp4 = (durationSeconds: number) => {
+    const timescale = 1000;
+    const mvhd = new Uint8Array(100);
+    const view = new DataView(mvhd.buffer);
+    view.setUint32(12, timescale);
+    view.setUint32(16, Math.round(durationSeconds * timescale));
+    view.setUint32(20, 0x00010000); // rate 1.0
+    view.setUint16(24, 0x0100); // volume 1.0
+    [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].forEach((v, i) => view.setUint32(36 + i * 4, v)); // identity matrix
+    view.setUint32(96, 2); // next track id
+
+    return concat([
+        box('ftyp', ascii('isom'), u32(0x200), ascii('isomiso2mp41')),
+        box('moov', box('mvhd', mvhd)),
+        box('mdat'),
+    ]);
+};
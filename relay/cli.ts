@@ -0,0 +1,9 @@
+import { startRelayServer } from './server';
+
+// npm run relay, then join a room from the canvas with the printed url. HOST=0.0.0.0 serves the local network.
+const port = Number(process.env.PORT) || 1234;
+const host = process.env.HOST || '127.0.0.1';
+
+startRelayServer(port, host).then(({ url }) => {
+    console.log(`Collaboration relay listening on ${url}`);
+});
@@ -0,0 +1,144 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+
+// --- Collaboration relay ---
+// Speaks the y-websocket protocol. Each room (the URL path) keeps a Yjs document and the presence of its peers
+// in memory, so a peer joining late receives the current canvas. A room is dropped once its last peer leaves;
+// the canvas itself is persisted by every participant's own browser.
+
+export interface RelayServer {
+    url: string;
+    roomCount: () => number;
+    close: () => Promise<void>;
+}
+
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+const MESSAGE_QUERY_AWARENESS = 3;
+const PING_INTERVAL_MS = 30000;
+
+interface Room {
+    doc: Y.Doc;
+    awareness: awarenessProtocol.Awareness;
+    peers: Map<WebSocket, Set<number>>; // Awareness client ids announced over each connection
+}
+
+const send = (ws: WebSocket, message: Uint8Array) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(message, err => { if (err) ws.close(); });
+};
+
+const syncMessage = (write: (encoder: encoding.Encoder) => void) => {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    write(encoder);
+    return encoding.toUint8Array(encoder);
+};
+
+const awarenessMessage = (awareness: awarenessProtocol.Awareness, clients: number[]) => {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, clients));
+    return encoding.toUint8Array(encoder);
+};
+
+const createRoom = (): Room => {
+    const doc = new Y.Doc();
+    const awareness = new awarenessProtocol.Awareness(doc);
+    awareness.setLocalState(null); // The relay itself has no presence
+    const room: Room = { doc, awareness, peers: new Map() };
+
+    doc.on('update', (update: Uint8Array, origin: unknown) => {
+        const message = syncMessage(encoder => syncProtocol.writeUpdate(encoder, update));
+        room.peers.forEach((_, ws) => { if (ws !== origin) send(ws, message); });
+    });
+    // Presence goes to every peer, the sender included; the echo also keeps idle clients from timing out
+    awareness.on('update', ({ added, updated, removed }: { added: number[], updated: number[], removed: number[] }, origin: unknown) => {
+        const ids = room.peers.get(origin as WebSocket);
+        if (ids) { added.forEach(id => ids.add(id)); removed.forEach(id => ids.delete(id)); }
+        const message = awarenessMessage(awareness, [...added, ...updated, ...removed]);
+        room.peers.forEach((_, ws) => send(ws, message));
+    });
+    return room;
+};
+
+export const startRelayServer = async (port: number = 0, host = '127.0.0.1'): Promise<RelayServer> => {
+    const rooms = new Map<string, Room>();
+    const alive = new WeakSet<WebSocket>();
+
+    const server = http.createServer((_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end('SUNSTUDIO collaboration relay');
+    });
+    const wss = new WebSocketServer({ server });
+
+    wss.on('connection', (ws, req) => {
+        const name = decodeURIComponent(new URL(req.url || '/', 'http://relay').pathname.slice(1)) || 'default';
+        const room = rooms.get(name) || createRoom();
+        rooms.set(name, room);
+        room.peers.set(ws, new Set());
+        ws.binaryType = 'arraybuffer';
+        alive.add(ws);
+        ws.on('pong', () => alive.add(ws));
+
+        ws.on('message', (data: ArrayBuffer) => {
+            try {
+                const decoder = decoding.createDecoder(new Uint8Array(data));
+                switch (decoding.readVarUint(decoder)) {
+                    case MESSAGE_SYNC: {
+                        const reply = syncMessage(encoder => syncProtocol.readSyncMessage(decoder, encoder, room.doc, ws));
+                        if (reply.length > 1) send(ws, reply);
+                        break;
+                    }
+                    case MESSAGE_AWARENESS:
+                        awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), ws);
+                        break;
+                    case MESSAGE_QUERY_AWARENESS:
+                        send(ws, awarenessMessage(room.awareness, [...room.awareness.getStates().keys()]));
+                        break;
+                }
+            } catch (e) {
+                console.warn(`Relay: dropping malformed message in room ${name}`, e);
+            }
+        });
+
+        ws.on('close', () => {
+            const ids = room.peers.get(ws);
+            room.peers.delete(ws);
+            if (ids && ids.size > 0) awarenessProtocol.removeAwarenessStates(room.awareness, [...ids], null);
+            if (room.peers.size === 0) {
+                room.doc.destroy();
+                rooms.delete(name);
+            }
+        });
+
+        send(ws, syncMessage(encoder => syncProtocol.writeSyncStep1(encoder, room.doc)));
+        if (room.awareness.getStates().size > 0) send(ws, awarenessMessage(room.awareness, [...room.awareness.getStates().keys()]));
+    });
+
+    // Connections that stop answering pings (sleeping laptops, dropped networks) are closed so their presence goes away
+    const pings = setInterval(() => wss.clients.forEach(ws => {
+        if (!alive.has(ws)) { ws.terminate(); return; }
+        alive.delete(ws);
+        ws.ping();
+    }), PING_INTERVAL_MS);
+
+    await new Promise<void>(resolve => server.listen(port, host, resolve));
+    const url = `ws://${host}:${(server.address() as AddressInfo).port}`;
+
+    return {
+        url,
+        roomCount: () => rooms.size,
+        close: () => new Promise<void>((resolve, reject) => {
+            clearInterval(pings);
+            wss.clients.forEach(ws => ws.terminate());
+            wss.close();
+            server.close(err => err ? reject(err) : resolve());
+        }),
+    };
+};
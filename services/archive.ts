@@ -0,0 +1,206 @@
+import { zip, unzip, strToU8, strFromU8, Zippable } from 'fflate';
+import { AppNode, Asset, Connection, Group, Project } from '../types';
+import { CURRENT_SCHEMA_VERSION, migrateRecord, validateRecord } from './migrations';
+import { cloneGraph } from './graphClone';
+import { isMediaRef, isDataUri, isRemoteUrl, dataUriToBlob, fetchMediaBlob, getMediaRecord, putMedia, stripUrlCredentials } from './storage';
+
+// --- .sunstudio archive format ---
+// A zip holding `manifest.json` plus one file per media blob under `media/`.
+// Inside the manifest every media reference is rewritten to `archive://<path>`. Remote results are downloaded
+// into the archive as well; links that cannot be fetched stay, without the API key they may carry.
+
+export const ARCHIVE_VERSION = 1;
+export const ARCHIVE_EXTENSION = '.sunstudio';
+const MANIFEST_PATH = 'manifest.json';
+const ARCHIVE_REF_PREFIX = 'archive://';
+
+export type ArchiveKind = 'project' | 'workflow';
+
+export interface ArchiveContent {
+    title: string;
+    nodes: AppNode[];
+    connections: Connection[];
+    groups: Group[];
+    viewport?: Project['viewport'];
+    assets?: Asset[];
+    thumbnail?: string;
+}
+
+interface ArchiveManifest extends ArchiveContent {
+    format: 'sunstudio';
+    version: number;
+    schemaVersion: number; // Record schema the nodes/assets were written with
+    kind: ArchiveKind;
+    exportedAt: number;
+    media: Record<string, string>; // path -> mime type
+}
+
+export interface ArchiveExportResult {
+    blob: Blob;
+    issues: string[]; // Media that could not be included
+}
+
+export interface ArchiveImportResult extends ArchiveContent {
+    kind: ArchiveKind;
+    issues: string[]; // Human-readable list of everything that could not be restored
+}
+
+// --- Helpers ---
+
+const MIME_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/gif': 'gif', 'image/svg+xml': 'svg',
+    'video/mp4': 'mp4', 'video/webm': 'webm', 'audio/mpeg': 'mp3', 'audio/wav': 'wav', 'audio/webm': 'webm',
+};
+
+// Rebuilds a JSON-like value, passing every string through `fn`. Returning undefined drops the value
+// (array entries are removed, object keys are omitted).
+const mapStrings = (value: any, fn: (s: string) => string | undefined): any => {
+    if (typeof value === 'string') return fn(value);
+    if (Array.isArray(value)) return value.map(v => mapStrings(v, fn)).filter(v => v !== undefined);
+    if (value && typeof value === 'object') {
+        const out: Record<string, any> = {};
+        Object.entries(value).forEach(([k, v]) => { const mapped = mapStrings(v, fn); if (mapped !== undefined) out[k] = mapped; });
+        return out;
+    }
+    return value;
+};
+
+const collectStrings = (value: any, into: Set<string>) => {
+    if (typeof value === 'string') into.add(value);
+    else if (Array.isArray(value)) value.forEach(v => collectStrings(v, into));
+    else if (value && typeof value === 'object') Object.values(value).forEach(v => collectStrings(v, into));
+};
+
+const zipAsync = (files: Zippable) => new Promise<Uint8Array>((resolve, reject) => {
+    zip(files, (err, data) => err ? reject(err) : resolve(data));
+});
+
+const unzipAsync = (data: Uint8Array) => new Promise<Record<string, Uint8Array>>((resolve, reject) => {
+    unzip(data, (err, files) => err ? reject(err) : resolve(files));
+});
+
+// --- Export ---
+
+const loadSource = async (src: string, issues: string[]): Promise<Blob | undefined> => {
+    if (isDataUri(src)) return dataUriToBlob(src);
+    if (isMediaRef(src)) {
+        const blob = (await getMediaRecord(src))?.blob;
+        if (!blob) issues.push(`媒体 ${src} 不在本机存储中，未包含在存档内`);
+        return blob;
+    }
+    if (!isRemoteUrl(src)) return undefined;
+    try {
+        const blob = await fetchMediaBlob(src);
+        // Plain links in text fields are not media and stay as they are
+        return /^(image|video|audio)\//.test(blob.type) ? blob : undefined;
+    } catch (e: any) {
+        issues.push(`无法下载 ${stripUrlCredentials(src)}（${e?.message || e}），存档中只保留了链接`);
+        return undefined;
+    }
+};
+
+export const exportArchive = async (kind: ArchiveKind, content: ArchiveContent): Promise<ArchiveExportResult> => {
+    const sources = new Set<string>();
+    collectStrings(content, sources);
+
+    const files: Zippable = {};
+    const media: Record<string, string> = {};
+    const pathBySource = new Map<string, string>();
+    const issues: string[] = [];
+    for (const src of sources) {
+        const blob = await loadSource(src, issues);
+        if (!blob) continue;
+
+        const mimeType = blob.type || 'application/octet-stream';
+        const path = `media/${String(pathBySource.size + 1).padStart(4, '0')}.${MIME_EXTENSIONS[mimeType] || 'bin'}`;
+        // Media is already compressed; storing it avoids burning CPU on deflate for no gain
+        files[path] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+        media[path] = mimeType;
+        pathBySource.set(src, path);
+    }
+
+    const manifest: ArchiveManifest = {
+        ...mapStrings(content, s => pathBySource.has(s) ? `${ARCHIVE_REF_PREFIX}${pathBySource.get(s)}` : stripUrlCredentials(s)),
+        format: 'sunstudio',
+        version: ARCHIVE_VERSION,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        kind,
+        exportedAt: Date.now(),
+        media,
+    };
+    files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest));
+
+    const data = await zipAsync(files);
+    return { blob: new Blob([data], { type: 'application/zip' }), issues };
+};
+
+// --- Import ---
+
+export const importArchive = async (file: Blob): Promise<ArchiveImportResult> => {
+    let files: Record<string, Uint8Array>;
+    try {
+        files = await unzipAsync(new Uint8Array(await file.arrayBuffer()));
+    } catch (e) {
+        throw new Error('文件不是有效的 .sunstudio 存档');
+    }
+    if (!files[MANIFEST_PATH]) throw new Error('存档缺少 manifest.json');
+
+    let manifest: ArchiveManifest;
+    try {
+        manifest = JSON.parse(strFromU8(files[MANIFEST_PATH]));
+    } catch (e) {
+        throw new Error('manifest.json 无法解析');
+    }
+    if (manifest?.format !== 'sunstudio') throw new Error('manifest.json 不是 SunStudio 存档');
+    if (typeof manifest.version !== 'number' || manifest.version < 1) throw new Error('存档版本无效');
+    if (manifest.version > ARCHIVE_VERSION) throw new Error(`存档版本 v${manifest.version} 高于当前支持的 v${ARCHIVE_VERSION}，请升级应用后再导入`);
+    if (manifest.kind !== 'project' && manifest.kind !== 'workflow') throw new Error(`未知的存档类型 "${manifest.kind}"`);
+
+    const issues: string[] = [];
+
+    // Media files -> media store
+    const refByPath = new Map<string, string>();
+    for (const [path, mimeType] of Object.entries(manifest.media || {})) {
+        if (!files[path]) { issues.push(`缺少媒体文件 ${path}`); continue; }
+        refByPath.set(path, await putMedia(new Blob([files[path]], { type: mimeType })));
+    }
+    const resolved = mapStrings({ nodes: manifest.nodes, assets: manifest.assets, thumbnail: manifest.thumbnail }, s => {
+        if (!s.startsWith(ARCHIVE_REF_PREFIX)) return s;
+        return refByPath.get(s.slice(ARCHIVE_REF_PREFIX.length));
+    });
+
+    // Records go through the same migrations/validators as the local database
+    const restore = <T>(store: 'nodes' | 'assets', records: any[], describe: (r: any) => string): T[] => {
+        const ok: T[] = [];
+        (Array.isArray(records) ? records : []).forEach(raw => {
+            try {
+                const { record } = migrateRecord(store, { ...raw, schemaVersion: manifest.schemaVersion || 1 });
+                const reason = validateRecord(store, record);
+                if (reason) { issues.push(`${describe(raw)} 无法恢复：${reason}`); return; }
+                const { schemaVersion: _v, projectId: _p, ...clean } = record;
+                ok.push(clean as T);
+            } catch (e: any) {
+                issues.push(`${describe(raw)} 无法恢复：${e?.message || e}`);
+            }
+        });
+        return ok;
+    };
+    const nodes = restore<AppNode>('nodes', resolved.nodes, n => `节点 "${n?.title || n?.id || '?'}"`);
+    const assets = restore<Asset>('assets', resolved.assets || [], a => `素材 "${a?.title || a?.id || '?'}"`);
+
+    const connections = Array.isArray(manifest.connections) ? manifest.connections : [];
+    const groups = Array.isArray(manifest.groups) ? manifest.groups : [];
+    const graph = cloneGraph({ nodes, connections, groups }, { resetStatus: false });
+    const droppedConnections = connections.length - graph.connections.length;
+    if (droppedConnections > 0) issues.push(`${droppedConnections} 条连线指向未恢复的节点，已移除`);
+
+    return {
+        kind: manifest.kind,
+        title: manifest.title || '导入的项目',
+        ...graph,
+        viewport: manifest.viewport,
+        assets: assets.map(a => ({ ...a, id: `a-${Date.now()}-${Math.random().toString(36).substr(2, 9)}` })),
+        thumbnail: resolved.thumbnail,
+        issues,
+    };
+};
@@ -0,0 +1,82 @@
+import { Asset } from '../types';
+import { getModelInfo } from './providers';
+
+// --- Asset library ---
+// Search, filtering and sorting over a project's asset history. Tags, folder and favorite are stored on
+// the asset records themselves, so they travel with project archives.
+
+export type AssetTypeFilter = 'all' | Asset['type'];
+export type AssetSort = 'date' | 'type' | 'model';
+
+export const UNFILED_FOLDER = ''; // Folder filter value for assets outside every folder
+
+export interface AssetQuery {
+    text?: string;
+    type?: AssetTypeFilter;
+    folder?: string; // Undefined shows every folder
+    tag?: string;
+    favoritesOnly?: boolean;
+    sort?: AssetSort;
+}
+
+const TYPE_ORDER: Asset['type'][] = ['image', 'video', 'audio'];
+
+export const assetModelLabel = (asset: Asset) => {
+    const model = asset.provenance?.model;
+    return getModelInfo(model)?.label || model || '';
+};
+
+const searchableText = (asset: Asset) =>
+    [asset.title, asset.provenance?.prompt, asset.provenance?.sentPrompt, assetModelLabel(asset), asset.folder, ...(asset.tags || [])]
+        .filter(Boolean).join('\n').toLowerCase();
+
+// Every whitespace-separated term has to appear somewhere in the title, prompts, model, folder or tags
+const matchesText = (asset: Asset, text: string) => {
+    const terms = text.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return true;
+    const haystack = searchableText(asset);
+    return terms.every(t => haystack.includes(t));
+};
+
+const COMPARATORS: Record<AssetSort, (a: Asset, b: Asset) => number> = {
+    date: (a, b) => b.timestamp - a.timestamp,
+    type: (a, b) => TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type) || b.timestamp - a.timestamp,
+    model: (a, b) => {
+        const [ma, mb] = [assetModelLabel(a), assetModelLabel(b)];
+        if (!ma !== !mb) return ma ? -1 : 1; // Assets without a known model (uploads) go last
+        return ma.localeCompare(mb) || b.timestamp - a.timestamp;
+    },
+};
+
+export const queryAssets = (assets: Asset[], query: AssetQuery): Asset[] => assets
+    .filter(a => !query.type || query.type === 'all' || a.type === query.type)
+    .filter(a => query.folder === undefined || (a.folder || UNFILED_FOLDER) === query.folder)
+    .filter(a => !query.tag || !!a.tags?.includes(query.tag))
+    .filter(a => !query.favoritesOnly || !!a.favorite)
+    .filter(a => matchesText(a, query.text || ''))
+    .sort(COMPARATORS[query.sort || 'date']);
+
+export const listFolders = (assets: Asset[]): string[] =>
+    [...new Set(assets.map(a => a.folder).filter((f): f is string => !!f))].sort((a, b) => a.localeCompare(b));
+
+// Most used first
+export const listTags = (assets: Asset[]): string[] => {
+    const counts = new Map<string, number>();
+    assets.forEach(a => a.tags?.forEach(t => counts.set(t, (counts.get(t) || 0) + 1)));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([t]) => t);
+};
+
+// "人物, #夜景  city" -> ['人物', '夜景', 'city']
+export const parseTags = (input: string): string[] =>
+    [...new Set(input.split(/[,，\s]+/).map(t => t.replace(/^#+/, '').trim()).filter(Boolean))];
+
+export type AssetPatch = Partial<Pick<Asset, 'title' | 'tags' | 'folder' | 'favorite'>>;
+
+// Empty values are dropped so untouched and cleared assets look the same
+export const applyAssetPatch = (asset: Asset, patch: AssetPatch): Asset => {
+    const next: Asset = { ...asset, ...patch };
+    if (!next.tags?.length) delete next.tags;
+    if (!next.folder) delete next.folder;
+    if (!next.favorite) delete next.favorite;
+    return next;
+};
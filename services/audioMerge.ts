@@ -0,0 +1,22 @@
+import { AppNode, AudioMergeSettings } from '../types';
+import { MergeOptions } from './mediaEngine';
+
+// --- Audio merge ---
+// An AUDIO_MERGE node puts the audio of one upstream node (narration, music) under the video of another and
+// produces a new MP4. The picture is copied as is; only the audio is mixed and encoded.
+
+export const DEFAULT_AUDIO_MERGE: Required<AudioMergeSettings> = { offset: 0, volume: 1, fadeIn: 0, fadeOut: 0, fit: 'trim' };
+
+// The first connected video and the first connected audio, in input order
+export const mergeSources = (inputs: AppNode[]) => ({
+    video: inputs.find(n => n.data.videoUri)?.data.videoUri,
+    audio: inputs.find(n => n.data.audioUri)?.data.audioUri,
+});
+
+export const toMergeOptions = (inputs: AppNode[], settings: AudioMergeSettings = {}): MergeOptions => {
+    const { video, audio } = mergeSources(inputs);
+    if (!video) throw new Error('请连接一个已生成视频的节点');
+    if (!audio) throw new Error('请连接一个已生成音频的节点');
+    const { offset, volume, fadeIn, fadeOut, fit } = { ...DEFAULT_AUDIO_MERGE, ...settings };
+    return { video, audio: [{ src: audio, start: offset, volume, fadeIn, fadeOut, loop: fit === 'loop' }] };
+};
@@ -0,0 +1,182 @@
+import { AppNode, Asset, Project, Workflow } from '../types';
+import { saveAssetChanges, saveNodeChanges, saveProject, saveWorkflowChanges } from './storage';
+import type { ProjectChangeScope } from './tabSync';
+
+// --- Autosave ---
+// Canvas state changes on every animation frame while a node is dragged. Rather than rewriting whole stores
+// per change, the autosave waits for a quiet moment and writes only the records that differ from what it last
+// wrote. State updates are immutable, so an untouched record keeps its identity and the diff is a reference check.
+
+export type SaveStatus = 'saved' | 'saving' | 'failed';
+
+export interface ProjectSnapshot {
+    record: Project;
+    nodes: AppNode[];
+    assets: Asset[];
+}
+
+export interface SaveSnapshot {
+    workflows?: Workflow[];
+    project?: ProjectSnapshot;
+}
+
+export interface RecordDiff<T> {
+    changed: T[];
+    removed: string[];
+}
+
+export const diffRecords = <T extends { id: string }>(saved: Map<string, T>, current: T[]): RecordDiff<T> => {
+    const ids = new Set(current.map(r => r.id));
+    return { changed: current.filter(r => saved.get(r.id) !== r), removed: [...saved.keys()].filter(id => !ids.has(id)) };
+};
+
+const isEmptyDiff = (diff: RecordDiff<unknown>) => diff.changed.length === 0 && diff.removed.length === 0;
+
+const applyDiff = <T extends { id: string }>(saved: Map<string, T>, diff: RecordDiff<T>) => {
+    diff.removed.forEach(id => saved.delete(id));
+    diff.changed.forEach(r => saved.set(r.id, r));
+};
+
+// The project record is rebuilt on every save with a fresh updatedAt and viewport object, so compare by value
+export const projectChanged = (saved: Project | undefined, current: Project) => {
+    if (!saved) return true;
+    const { updatedAt: _a, viewport: before, ...a } = saved;
+    const { updatedAt: _b, viewport: after, ...b } = current;
+    if (before.x !== after.x || before.y !== after.y || before.scale !== after.scale) return true;
+    return (Object.keys({ ...a, ...b }) as (keyof typeof a)[]).some(key => a[key] !== b[key]);
+};
+
+interface SavedProject {
+    record?: Project;
+    nodes: Map<string, AppNode>;
+    assets: Map<string, Asset>;
+}
+
+const toMap = <T extends { id: string }>(records: T[]) => new Map(records.map(r => [r.id, r]));
+
+export interface AutosaveOptions {
+    delayMs?: number; // Quiet time before a write
+    maxWaitMs?: number; // Longest a change waits while new ones keep arriving, e.g. during a long drag
+    onStatus?: (status: SaveStatus) => void;
+    onError?: (error: unknown) => void;
+    onProjectWritten?: (projectId: string, scopes: ProjectChangeScope[]) => void;
+    onWorkflowsWritten?: () => void;
+}
+
+export interface Autosave {
+    // Records what storage already holds, e.g. right after loading. Nothing is written for workflows or
+    // a project until its saved state is known, so a failed load never wipes stored records.
+    markSaved: (snapshot: SaveSnapshot) => void;
+    schedule: (snapshot: SaveSnapshot) => void;
+    flush: () => Promise<void>;
+    forget: (projectId: string) => void; // Stops writing the project until it is marked saved again
+}
+
+export const createAutosave = ({ delayMs = 800, maxWaitMs = 5000, onStatus, onError, onProjectWritten, onWorkflowsWritten }: AutosaveOptions = {}): Autosave => {
+    let savedWorkflows: Map<string, Workflow> | undefined;
+    const savedProjects = new Map<string, SavedProject>();
+    // Pending changes are kept per project, so closing a project cannot drop its last edits
+    let pendingWorkflows: Workflow[] | undefined;
+    const pendingProjects = new Map<string, ProjectSnapshot>();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let firstPendingAt: number | undefined;
+    let writing: Promise<void> | undefined;
+    let status: SaveStatus = 'saved';
+
+    const setStatus = (next: SaveStatus) => {
+        if (next === status) return;
+        status = next;
+        onStatus?.(next);
+    };
+
+    const clearTimer = () => {
+        clearTimeout(timer);
+        timer = undefined;
+        firstPendingAt = undefined;
+    };
+
+    const writeProject = async (snapshot: ProjectSnapshot, saved: SavedProject) => {
+        const projectId = snapshot.record.id;
+        const tasks: Promise<void>[] = [];
+        const written: ProjectChangeScope[] = [];
+        const nodes = diffRecords(saved.nodes, snapshot.nodes);
+        if (!isEmptyDiff(nodes)) tasks.push(saveNodeChanges(projectId, nodes.changed, nodes.removed).then(() => { applyDiff(saved.nodes, nodes); written.push('nodes'); }));
+        const assets = diffRecords(saved.assets, snapshot.assets);
+        if (!isEmptyDiff(assets)) tasks.push(saveAssetChanges(projectId, assets.changed, assets.removed).then(() => { applyDiff(saved.assets, assets); written.push('assets'); }));
+        if (projectChanged(saved.record, snapshot.record)) tasks.push(saveProject(snapshot.record).then(() => { saved.record = snapshot.record; written.push('project'); }));
+        const results = await Promise.allSettled(tasks);
+        if (written.length > 0) onProjectWritten?.(projectId, written);
+        const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+        if (failure) throw failure.reason;
+    };
+
+    // Failed writes leave the saved state as it was, so the same records are written again with the next change
+    const writePending = async () => {
+        const workflows = pendingWorkflows;
+        const projects = [...pendingProjects.values()];
+        pendingWorkflows = undefined;
+        pendingProjects.clear();
+
+        const tasks: Promise<void>[] = [];
+        const saved = savedWorkflows;
+        if (workflows && saved) {
+            const diff = diffRecords(saved, workflows);
+            if (!isEmptyDiff(diff)) tasks.push(saveWorkflowChanges(diff.changed, diff.removed).then(() => { applyDiff(saved, diff); onWorkflowsWritten?.(); }));
+        }
+        projects.forEach(snapshot => {
+            const savedProject = savedProjects.get(snapshot.record.id);
+            if (savedProject) tasks.push(writeProject(snapshot, savedProject));
+        });
+        const failure = (await Promise.allSettled(tasks)).find((r): r is PromiseRejectedResult => r.status === 'rejected');
+        if (failure) throw failure.reason;
+    };
+
+    const hasPending = () => pendingWorkflows !== undefined || pendingProjects.size > 0;
+
+    const flush = async () => {
+        clearTimer();
+        while (writing) await writing;
+        if (!hasPending()) return;
+        writing = (async () => {
+            setStatus('saving');
+            try {
+                while (hasPending()) await writePending();
+                setStatus('saved');
+            } catch (e) {
+                setStatus('failed');
+                onError?.(e);
+            }
+        })();
+        try {
+            await writing;
+        } finally {
+            writing = undefined;
+        }
+    };
+
+    const schedule = (snapshot: SaveSnapshot) => {
+        if (snapshot.workflows) pendingWorkflows = snapshot.workflows;
+        if (snapshot.project) pendingProjects.set(snapshot.project.record.id, snapshot.project);
+        if (!hasPending()) return;
+        setStatus('saving');
+        const now = Date.now();
+        if (firstPendingAt === undefined) firstPendingAt = now;
+        clearTimeout(timer);
+        timer = setTimeout(flush, Math.max(0, Math.min(delayMs, firstPendingAt + maxWaitMs - now)));
+    };
+
+    const markSaved = (snapshot: SaveSnapshot) => {
+        if (snapshot.workflows) savedWorkflows = toMap(snapshot.workflows);
+        if (snapshot.project) {
+            const { record, nodes, assets } = snapshot.project;
+            savedProjects.set(record.id, { record, nodes: toMap(nodes), assets: toMap(assets) });
+        }
+    };
+
+    const forget = (projectId: string) => {
+        savedProjects.delete(projectId);
+        pendingProjects.delete(projectId);
+    };
+
+    return { markSaved, schedule, flush, forget };
+};
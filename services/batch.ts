@@ -0,0 +1,54 @@
+import { VariantError } from '../types';
+
+// --- Batch generation ---
+// N variants of one request run as N independent calls, a few at a time. A failed variant is
+// reported next to the ones that succeeded instead of failing the whole batch.
+
+export interface BatchOutcome<T> {
+    results: T[]; // Successful variants, in slot order
+    errors: VariantError[];
+}
+
+export type BatchProgress = (done: number, total: number) => void;
+
+const errorMessage = (e: any): string => e?.message || e?.error?.message || String(e);
+
+export const runBatch = async <T>(count: number, concurrency: number, task: (index: number) => Promise<T>, onProgress?: BatchProgress): Promise<BatchOutcome<T>> => {
+    const slots: ({ value: T } | { error: string })[] = new Array(count);
+    let next = 0;
+    let done = 0;
+
+    const worker = async () => {
+        while (next < count) {
+            const index = next++;
+            try {
+                slots[index] = { value: await task(index) };
+            } catch (e) {
+                slots[index] = { error: errorMessage(e) };
+            }
+            onProgress?.(++done, count);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, count)) }, worker));
+
+    const results: T[] = [];
+    const errors: VariantError[] = [];
+    slots.forEach((slot, index) => 'value' in slot ? results.push(slot.value) : errors.push({ index, message: slot.error }));
+    return { results, errors };
+};
+
+// Throws the first variant's error when no variant succeeded
+export const requireResults = <T>(outcome: BatchOutcome<T>, fallbackMessage: string): T[] => {
+    if (outcome.results.length > 0) return outcome.results;
+    throw new Error(outcome.errors[0]?.message || fallbackMessage);
+};
+
+// Slots that produced an operation, in submission order: operations[k] belongs to slot successSlots[k]
+export const successSlots = (count: number, errors: VariantError[]) =>
+    Array.from({ length: count }, (_, i) => i).filter(i => !errors.some(e => e.index === i));
+
+export const formatProgress = (done: number, total: number) => `${done}/${total}`;
+
+// Short node-level summary of a partially failed batch
+export const describeVariantErrors = (errors: VariantError[], total: number) =>
+    `${errors.length}/${total} 个结果生成失败：${errors.map(e => `#${e.index + 1} ${e.message}`).join('；')}`;
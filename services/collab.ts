@@ -0,0 +1,224 @@
+import * as Y from 'yjs';
+import { Awareness } from 'y-protocols/awareness';
+import { WebsocketProvider } from 'y-websocket';
+import { AppNode, Connection, Group } from '../types';
+import { CanvasPatch, CanvasState, applyConnectionPatch, applyGroupPatch, applyNodePatch, diffCanvas, isPatchEmpty } from './history';
+import { stripUrlCredentials } from './storage';
+
+// --- Collaborative canvas ---
+// A shared canvas lives in a Yjs document next to the React state. Nodes and groups are maps keyed by id with one
+// entry per field, and node data is a nested map, so two people editing different fields of the same node both
+// keep their edit. Local edits go into the document as the same field-level patches the undo history uses;
+// remote edits come back as patches and are applied on top of the local state rather than replacing it.
+// Media stays in each browser's own store: peers only see generated media they have themselves, and the canvas
+// marks the rest. API keys carried on provider URLs never enter the document.
+
+const LOCAL_ORIGIN = 'sunstudio-local';
+
+const nodesMap = (doc: Y.Doc) => doc.getMap<Y.Map<unknown>>('nodes');
+const groupsMap = (doc: Y.Doc) => doc.getMap<Y.Map<unknown>>('groups');
+const connectionsMap = (doc: Y.Doc) => doc.getMap<Connection>('connections');
+
+const connectionKey = (c: Connection) => `${c.from}->${c.to}`;
+
+const setFields = (target: Y.Map<unknown>, fields: Record<string, unknown>) =>
+    Object.entries(fields).forEach(([key, value]) => { if (value === undefined) target.delete(key); else target.set(key, value); });
+
+const nodeToYMap = (node: AppNode) => {
+    const { data, ...rest } = node;
+    const map = new Y.Map<unknown>();
+    setFields(map, rest);
+    const dataMap = new Y.Map<unknown>();
+    setFields(dataMap, data || {});
+    map.set('data', dataMap);
+    return map;
+};
+
+const groupToYMap = (group: Group) => {
+    const map = new Y.Map<unknown>();
+    setFields(map, { ...group });
+    return map;
+};
+
+// Writes a canvas patch into the document in one transaction
+export const applyCanvasPatch = (doc: Y.Doc, patch: CanvasPatch, origin: unknown = LOCAL_ORIGIN) => doc.transact(() => {
+    const nodes = nodesMap(doc);
+    patch.nodes.forEach(change => {
+        if (change.after === null) { nodes.delete(change.id); return; }
+        const existing = nodes.get(change.id);
+        if (change.before === null || !existing) { nodes.set(change.id, nodeToYMap(change.after as AppNode)); return; }
+        const { data, ...rest } = change.after;
+        setFields(existing, rest);
+        if (data) {
+            let dataMap = existing.get('data') as Y.Map<unknown> | undefined;
+            if (!dataMap) { dataMap = new Y.Map(); existing.set('data', dataMap); }
+            setFields(dataMap, data);
+        }
+    });
+    const groups = groupsMap(doc);
+    patch.groups.forEach(change => {
+        if (change.after === null) { groups.delete(change.id); return; }
+        const existing = groups.get(change.id);
+        if (change.before === null || !existing) groups.set(change.id, groupToYMap(change.after as Group));
+        else setFields(existing, change.after);
+    });
+    const connections = connectionsMap(doc);
+    patch.connections.removed.forEach(c => connections.delete(connectionKey(c)));
+    patch.connections.added.forEach(c => connections.set(connectionKey(c), { from: c.from, to: c.to }));
+}, origin);
+
+// Veo download links carry the API key as `&key=`; the shared copy drops it. Unchanged values keep their identity,
+// so diffing the canvas stays cheap.
+export const stripCredentials = <T>(value: T): T => {
+    if (typeof value === 'string') return stripUrlCredentials(value) as T;
+    if (Array.isArray(value)) {
+        const stripped = value.map(stripCredentials);
+        return (stripped.some((v, i) => v !== value[i]) ? stripped : value) as T;
+    }
+    if (value && Object.getPrototypeOf(value) === Object.prototype) {
+        const entries = Object.entries(value).map(([key, v]) => [key, stripCredentials(v)] as const);
+        return (entries.some(([key, v]) => v !== (value as Record<string, unknown>)[key]) ? Object.fromEntries(entries) : value) as T;
+    }
+    return value;
+};
+
+const shareable = (state: CanvasState): CanvasState => ({ nodes: stripCredentials(state.nodes), connections: state.connections, groups: stripCredentials(state.groups) });
+
+export const isDocEmpty = (doc: Y.Doc) => nodesMap(doc).size === 0 && groupsMap(doc).size === 0 && connectionsMap(doc).size === 0;
+
+// Keeps the order of entities already known and appends new ones
+const ordered = <T extends { id: string }>(known: T[], current: Map<string, T>) => [
+    ...known.filter(e => current.has(e.id)).map(e => current.get(e.id)!),
+    ...[...current.values()].filter(e => !known.some(k => k.id === e.id)),
+];
+
+export const readCanvas = (doc: Y.Doc, known: CanvasState = { nodes: [], connections: [], groups: [] }): CanvasState => {
+    const nodes = new Map([...nodesMap(doc).entries()].map(([id, map]) => [id, map.toJSON() as AppNode]));
+    const groups = new Map([...groupsMap(doc).entries()].map(([id, map]) => [id, map.toJSON() as Group]));
+    return { nodes: ordered(known.nodes, nodes), groups: ordered(known.groups, groups), connections: [...connectionsMap(doc).values()] };
+};
+
+export const applyRemotePatch = (state: CanvasState, patch: CanvasPatch): CanvasState => ({
+    nodes: applyNodePatch(state.nodes, patch, 'redo'),
+    groups: applyGroupPatch(state.groups, patch, 'redo'),
+    connections: applyConnectionPatch(state.connections, patch, 'redo'),
+});
+
+// 'ask' stops short of joining a room whose canvas would replace the local one
+export type CollabJoinMode = 'ask' | 'replace' | 'fork';
+
+export interface CanvasBinding {
+    // Writes whatever the local canvas changed since the document and the canvas last agreed
+    pushLocal: (state: CanvasState) => void;
+    destroy: () => void;
+}
+
+// Whether binding would replace local content: the room has a canvas of its own that differs from the local one
+export const wouldReplaceCanvas = (doc: Y.Doc, local: CanvasState) =>
+    !isDocEmpty(doc) && local.nodes.length + local.groups.length > 0 && !isPatchEmpty(diffCanvas(shareable(local), readCanvas(doc, local)));
+
+// Joining an empty room shares the local canvas; joining a room with content replaces the local canvas with it.
+// Either way `onRemotePatch` receives what the local state has to change, starting right away for the second case.
+// The binding only ever sees the shared form of the canvas, so a stripped key never comes back as a remote change.
+export const bindCanvas = (doc: Y.Doc, initial: CanvasState, onRemotePatch: (patch: CanvasPatch) => void): CanvasBinding => {
+    const local = shareable(initial);
+    let synced: CanvasState; // What the document and the local canvas last agreed on
+    if (isDocEmpty(doc)) {
+        applyCanvasPatch(doc, diffCanvas({ nodes: [], connections: [], groups: [] }, local));
+        synced = local;
+    } else {
+        synced = readCanvas(doc, local);
+        const patch = diffCanvas(local, synced);
+        if (!isPatchEmpty(patch)) onRemotePatch(patch);
+    }
+
+    const onUpdate = (_update: Uint8Array, origin: unknown) => {
+        if (origin === LOCAL_ORIGIN) return;
+        const next = readCanvas(doc, synced);
+        const patch = diffCanvas(synced, next);
+        synced = next;
+        if (!isPatchEmpty(patch)) onRemotePatch(patch);
+    };
+    doc.on('update', onUpdate);
+
+    return {
+        pushLocal: state => {
+            const shared = shareable(state);
+            const patch = diffCanvas(synced, shared);
+            synced = shared;
+            if (!isPatchEmpty(patch)) applyCanvasPatch(doc, patch);
+        },
+        destroy: () => doc.off('update', onUpdate),
+    };
+};
+
+// --- Presence ---
+
+export interface CollabUser {
+    name: string;
+    color: string;
+}
+
+export interface PeerPresence {
+    clientId: number;
+    user: CollabUser;
+    cursor?: { x: number, y: number }; // Canvas coordinates, independent of each peer's pan and zoom
+    selection: string[]; // Selected node ids
+}
+
+export const USER_COLORS = ['#22d3ee', '#a78bfa', '#f472b6', '#fb923c', '#4ade80', '#facc15', '#60a5fa', '#f87171'];
+
+export const pickUserColor = (seed: string) => USER_COLORS[[...seed].reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 7) % USER_COLORS.length];
+
+export const listPeers = (awareness: Awareness): PeerPresence[] => [...awareness.getStates().entries()]
+    .filter(([clientId, state]) => clientId !== awareness.clientID && state?.user)
+    .map(([clientId, state]) => ({ clientId, user: state.user, cursor: state.cursor, selection: state.selection || [] }));
+
+// --- Connection ---
+
+export type CollabStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface CollabOptions {
+    relayUrl: string;
+    room: string;
+    user: CollabUser;
+    WebSocketImpl?: typeof WebSocket; // For Node, where the relay tests run
+    syncTimeoutMs?: number;
+}
+
+export interface CollabConnection {
+    doc: Y.Doc;
+    awareness: Awareness;
+    synced: Promise<void>; // Rejects if the relay cannot be reached in time
+    setCursor: (cursor: { x: number, y: number } | undefined) => void;
+    setSelection: (ids: string[]) => void;
+    onStatus: (listener: (status: CollabStatus) => void) => void;
+    disconnect: () => void;
+}
+
+export const connectCollab = ({ relayUrl, room, user, WebSocketImpl, syncTimeoutMs = 8000 }: CollabOptions): CollabConnection => {
+    const doc = new Y.Doc();
+    // Tabs of the same browser are already coordinated by the tab lock, so everything goes through the relay
+    const provider = new WebsocketProvider(relayUrl, room, doc, { disableBc: true, ...(WebSocketImpl ? { WebSocketPolyfill: WebSocketImpl } : {}) });
+    const awareness = provider.awareness;
+    awareness.setLocalState({ user, selection: [] });
+
+    const synced = new Promise<void>((resolve, reject) => {
+        if (provider.synced) { resolve(); return; }
+        const timer = setTimeout(() => reject(new Error(`无法连接到协作服务器 ${relayUrl}`)), syncTimeoutMs);
+        provider.once('sync', () => { clearTimeout(timer); resolve(); });
+    });
+
+    return {
+        doc,
+        awareness,
+        synced,
+        setCursor: cursor => awareness.setLocalStateField('cursor', cursor),
+        setSelection: ids => awareness.setLocalStateField('selection', ids),
+        onStatus: listener => provider.on('status', ({ status }: { status: CollabStatus }) => listener(status)),
+        disconnect: () => {
+            provider.destroy();
+            doc.destroy();
+        },
+    };
+};
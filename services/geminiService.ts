@@ -1,17 +1,24 @@
-import { GoogleGenAI, GenerateContentResponse, Type, Modality, Part, FunctionDeclaration } from "@google/genai";
-import { SmartSequenceItem, VideoGenerationMode } from "../types";
+import { GoogleGenAI, GenerateContentResponse, GenerateVideosOperation, Type, Modality, Part, FunctionDeclaration } from "@google/genai";
+import { VariantError, VideoGenerationMode } from "../types";
+import { resolveMediaSrc } from "./mediaResolver";
+import { isMediaRef } from "./storage";
+import { recordUsage, UsageTag } from "./usage";
+import { BatchOutcome, BatchProgress, requireResults, runBatch, successSlots } from "./batch";
+import type { GenerationProvider, ModelInfo } from "./providers";
 
 // --- Initialization ---
 
+// GEMINI_BASE_URL points the SDK at another endpoint, e.g. the local mock server (npm run mock-server)
+const createClient = () => new GoogleGenAI({
+  apiKey: process.env.API_KEY,
+  ...(process.env.GEMINI_BASE_URL ? { httpOptions: { baseUrl: process.env.GEMINI_BASE_URL } } : {})
+});
+
 const getClient = () => {
   if (!process.env.API_KEY) {
     throw new Error("API Key is missing. Please select a paid API key via the Google AI Studio button.");
   }
-  return new GoogleGenAI({ apiKey: process.env.API_KEY });
-};
-
-const getPolloKey = () => {
-    return localStorage.getItem('pollo_api_key');
+  return createClient();
 };
 
 const getErrorMessage = (error: any): string => {
@@ -24,6 +31,12 @@ const getErrorMessage = (error: any): string => {
 
 const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+// Token counts as reported on a generateContent response, for the usage ledger
+const tokenUsage = (response: GenerateContentResponse) => ({
+    inputTokens: response.usageMetadata?.promptTokenCount,
+    outputTokens: response.usageMetadata?.candidatesTokenCount,
+});
+
 async function retryWithBackoff<T>(
   operation: () => Promise<T>, 
   maxRetries: number = 3, 
@@ -124,6 +137,7 @@ const pcmToWav = (base64PCM: string, sampleRate: number = 24000): string => {
 // --- Image/Video Utilities ---
 
 export const urlToBase64 = async (url: string): Promise<string> => {
+    if (isMediaRef(url)) return resolveMediaSrc(url);
     try {
         const response = await fetch(url);
         const blob = await response.blob();
@@ -165,7 +179,8 @@ const convertImageToCompatibleFormat = async (base64Str: string): Promise<{ data
     });
 };
 
-export const extractLastFrame = (videoSrc: string): Promise<string> => {
+export const extractLastFrame = async (src: string): Promise<string> => {
+    const videoSrc = await resolveMediaSrc(src);
     return new Promise((resolve, reject) => {
         const video = document.createElement('video');
         video.crossOrigin = "anonymous"; 
@@ -248,19 +263,28 @@ export const sendChatMessage = async (
     });
 
     const result = await chat.sendMessage({ message: newMessage });
+    recordUsage({ provider: 'gemini', model: modelName, modality: 'text', ...tokenUsage(result) });
     return result.text || "No response";
 };
 
-export const generateImageFromText = async (
+const IMAGE_BATCH_CONCURRENCY = 2;
+
+type ImageOptions = { aspectRatio?: string, resolution?: string, count?: number, usage?: UsageTag, onProgress?: BatchProgress };
+
+// One request per image: the model returns a single image per call, so N variants mean N calls.
+// Failed variants are returned next to the successful ones.
+export const generateImageBatch = async (
     prompt: string, 
     model: string, 
     inputImages: string[] = [], 
-    options: { aspectRatio?: string, resolution?: string, count?: number } = {}
-): Promise<string[]> => {
+    options: ImageOptions = {}
+): Promise<BatchOutcome<string>> => {
     const ai = getClient();
     const count = options.count || 1;
+    inputImages = await Promise.all(inputImages.map(resolveMediaSrc));
     
     const effectiveModel = model.includes('imagen') ? 'imagen-4.0-generate-001' : 'gemini-2.5-flash-image';
+    const imageSize = options.resolution?.toUpperCase() === '2K' ? '2K' : options.resolution?.toUpperCase() === '4K' ? '4K' : '1K';
     
     // Prepare Contents
     const parts: Part[] = [];
@@ -273,57 +297,67 @@ export const generateImageFromText = async (
     
     parts.push({ text: prompt });
 
-    try {
-        const response = await ai.models.generateContent({
-            model: effectiveModel,
-            contents: { parts },
-            config: {
-                imageConfig: {
-                    aspectRatio: options.aspectRatio as any || "1:1",
-                    imageSize: options.resolution?.toUpperCase() === '1K' ? '1K' : options.resolution?.toUpperCase() === '2K' ? '2K' : options.resolution?.toUpperCase() === '4K' ? '4K' : '1K'
+    const generateOne = async (): Promise<string> => {
+        try {
+            const response = await ai.models.generateContent({
+                model: effectiveModel,
+                contents: { parts },
+                config: {
+                    imageConfig: {
+                        aspectRatio: options.aspectRatio as any || "1:1",
+                        imageSize
+                    }
                 }
-            }
-        });
+            });
 
-        const images: string[] = [];
-        if (response.candidates?.[0]?.content?.parts) {
-            for (const part of response.candidates[0].content.parts) {
-                if (part.inlineData && part.inlineData.data) {
-                    const mime = part.inlineData.mimeType || 'image/png';
-                    images.push(`data:${mime};base64,${part.inlineData.data}`);
-                }
+            const image = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData;
+            recordUsage({ provider: 'gemini', model: effectiveModel, modality: 'image', resolution: options.resolution || '1k', images: image ? 1 : 0, ...tokenUsage(response), usage: options.usage });
+            if (!image) {
+                throw new Error("No images generated. Safety filter might have been triggered.");
             }
+            return `data:${image.mimeType || 'image/png'};base64,${image.data}`;
+        } catch (e: any) {
+            console.error("Image Gen Error:", e);
+            throw new Error(getErrorMessage(e));
         }
+    };
 
-        if (images.length === 0) {
-            throw new Error("No images generated. Safety filter might have been triggered.");
-        }
-
-        return images;
-    } catch (e: any) {
-        console.error("Image Gen Error:", e);
-        throw new Error(getErrorMessage(e));
-    }
+    return runBatch(count, IMAGE_BATCH_CONCURRENCY, generateOne, options.onProgress);
 };
 
-export const generateVideo = async (
+// Successful images only; throws when every variant failed
+export const generateImageFromText = async (
+    prompt: string, 
+    model: string, 
+    inputImages: string[] = [], 
+    options: ImageOptions = {}
+): Promise<string[]> => requireResults(await generateImageBatch(prompt, model, inputImages, options), "No images generated.");
+
+type VideoOptions = { aspectRatio?: string, count?: number, generationMode?: VideoGenerationMode, resolution?: string, duration?: number, usage?: UsageTag };
+
+const DEFAULT_VIDEO_SECONDS = 8; // Veo clip length when durationSeconds is not sent
+const EXTENSION_SECONDS = 7; // Length an extension adds; Veo only extends at 720p and picks the length itself
+
+const VIDEO_QUALITY_SUFFIX = ", cinematic lighting, highly detailed, photorealistic, 4k, smooth motion, professional color grading";
+const VIDEO_POLL_INTERVAL_MS = 10000;
+
+// Submits one Veo operation per requested video and returns their operation names, plus the
+// slots whose submission failed. Names are enough to resume polling later (see pollVideoOperation).
+export const startVideoOperations = async (
     prompt: string, 
     model: string, 
-    options: { aspectRatio?: string, count?: number, generationMode?: VideoGenerationMode, resolution?: string } = {}, 
+    options: VideoOptions = {}, 
     inputImageBase64?: string | null,
     videoInput?: any,
     referenceImages?: string[]
-): Promise<{ uri: string, isFallbackImage?: boolean, videoMetadata?: any, uris?: string[] }> => {
-    // FRESH CLIENT FOR VEO KEY REQUIREMENTS
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    const qualitySuffix = ", cinematic lighting, highly detailed, photorealistic, 4k, smooth motion, professional color grading";
-    const enhancedPrompt = prompt + qualitySuffix;
+): Promise<{ operations: string[], errors: VariantError[] }> => {
+    if (inputImageBase64) inputImageBase64 = await resolveMediaSrc(inputImageBase64);
+    if (referenceImages) referenceImages = await Promise.all(referenceImages.map(resolveMediaSrc));
     
     let resolution = options.resolution || '720p';
 
     // Prepare Inputs
-    let inputs: any = { prompt: enhancedPrompt };
+    let inputs: any = { prompt: prompt + VIDEO_QUALITY_SUFFIX };
     
     // Config
     const config: any = {
@@ -331,15 +365,23 @@ export const generateVideo = async (
         aspectRatio: options.aspectRatio || '16:9',
         resolution: resolution as any
     };
+    if (options.duration) config.durationSeconds = options.duration;
 
-    // 1. Handle First and Last Frame Logic (FrameWeaver)
-    if (options.generationMode === 'FIRST_LAST_FRAME' && referenceImages && referenceImages.length >= 2) {
+    // 1. Extend a previous Veo clip. The result is the source clip joined with the new seconds.
+    if (videoInput) {
+        inputs.video = { uri: videoInput.uri, mimeType: videoInput.mimeType };
+        resolution = '720p';
+        config.resolution = resolution;
+        delete config.durationSeconds;
+    }
+    // 2. Handle First and Last Frame Logic (FrameWeaver)
+    else if (options.generationMode === 'FIRST_LAST_FRAME' && referenceImages && referenceImages.length >= 2) {
         const startImg = await convertImageToCompatibleFormat(referenceImages[0]);
         const endImg = await convertImageToCompatibleFormat(referenceImages[referenceImages.length - 1]);
         inputs.image = { imageBytes: startImg.data, mimeType: startImg.mimeType };
         config.lastFrame = { imageBytes: endImg.data, mimeType: endImg.mimeType };
     } 
-    // 2. Handle standard Image-to-Video
+    // 3. Handle standard Image-to-Video
     else if (inputImageBase64) {
         try {
             const compat = await convertImageToCompatibleFormat(inputImageBase64);
@@ -349,73 +391,85 @@ export const generateVideo = async (
         }
     }
 
-    if (videoInput) {
-        inputs.video = videoInput;
-    }
-
     const count = options.count || 1;
-    
-    try {
-        const operations = [];
-        for (let i = 0; i < count; i++) {
-             operations.push(retryWithBackoff(async () => {
-                 // Re-init AI within loop to ensure key freshness if needed
-                 const innerAi = new GoogleGenAI({ apiKey: process.env.API_KEY });
-                 let op = await innerAi.models.generateVideos({
-                     model: model,
-                     ...inputs,
-                     config: config
-                 });
-                 
-                 while (!op.done) {
-                     await wait(10000); 
-                     op = await innerAi.operations.getVideosOperation({ operation: op });
-                 }
-                 return op;
-             }));
-        }
+    // Every variant is submitted at once; Veo queues them server-side
+    const outcome = await runBatch(count, count, () => retryWithBackoff(async () => {
+        // FRESH CLIENT FOR VEO KEY REQUIREMENTS
+        const op = await createClient().models.generateVideos({
+            model: model,
+            ...inputs,
+            config: config
+        });
+        if (!op.name) throw new Error("Video operation has no name.");
+        return op.name;
+    }));
+    const operations = requireResults(outcome, "Video generation failed.");
+    // Booked at submission: the seconds are known up front and the job may finish in a later session
+    recordUsage({ provider: 'gemini', model, modality: 'video', resolution, videoSeconds: (videoInput ? EXTENSION_SECONDS : options.duration || DEFAULT_VIDEO_SECONDS) * operations.length, usage: options.usage });
+    return { operations, errors: outcome.errors };
+};
 
-        const results = await Promise.allSettled(operations);
-        const validUris: string[] = [];
-        let primaryMetadata = null;
-
-        for (const res of results) {
-            if (res.status === 'fulfilled') {
-                const vid = res.value.response?.generatedVideos?.[0]?.video;
-                if (vid?.uri) {
-                    const fullUri = `${vid.uri}&key=${process.env.API_KEY}`;
-                    validUris.push(fullUri);
-                    if (!primaryMetadata) primaryMetadata = vid;
-                }
-            }
-        }
+// Checks a Veo operation once. Throws if the operation finished without a video.
+export const pollVideoOperation = async (name: string): Promise<{ done: boolean, uri?: string, videoMetadata?: any }> => {
+    const operation = new GenerateVideosOperation();
+    operation.name = name;
+    const op = await retryWithBackoff(() => createClient().operations.getVideosOperation({ operation }));
+    if (!op.done) return { done: false };
+    if (op.error) throw new Error(getErrorMessage(op.error));
+    const vid = op.response?.generatedVideos?.[0]?.video;
+    if (!vid?.uri) throw new Error("Video generation failed: no video returned (safety filter?)");
+    return { done: true, uri: `${vid.uri}&key=${process.env.API_KEY}`, videoMetadata: vid };
+};
 
-        if (validUris.length === 0) {
-            const firstError = results.find(r => r.status === 'rejected') as PromiseRejectedResult;
-            throw firstError?.reason || new Error("Video generation failed.");
-        }
+// Still frame used when Veo is unavailable for the key (region restrictions)
+export const generateFallbackStill = async (prompt: string, aspectRatio?: string, usage?: UsageTag): Promise<string> => {
+    const imgs = await generateImageFromText("Cinematic movie still, " + prompt + VIDEO_QUALITY_SUFFIX, 'gemini-2.5-flash-image', [], { aspectRatio, usage });
+    return imgs[0];
+};
+
+export const generateVideo = async (
+    prompt: string, 
+    model: string, 
+    options: VideoOptions = {}, 
+    inputImageBase64?: string | null,
+    videoInput?: any,
+    referenceImages?: string[]
+): Promise<{ uri: string, isFallbackImage?: boolean, videoMetadata?: any, uris?: string[], errors?: VariantError[] }> => {
+    try {
+        const count = options.count || 1;
+        const submitted = await startVideoOperations(prompt, model, options, inputImageBase64, videoInput, referenceImages);
+        const slots = successSlots(count, submitted.errors);
+        const polled = await runBatch(submitted.operations.length, submitted.operations.length, async k => {
+            while (true) {
+                await wait(VIDEO_POLL_INTERVAL_MS);
+                const res = await pollVideoOperation(submitted.operations[k]);
+                if (res.done) return res;
+            }
+        });
+        const done = requireResults(polled, "Video generation failed.");
+        const errors = [...submitted.errors, ...polled.errors.map(e => ({ ...e, index: slots[e.index] }))].sort((a, b) => a.index - b.index);
 
         return { 
-            uri: validUris[0], 
-            uris: validUris, 
-            videoMetadata: primaryMetadata,
-            isFallbackImage: false 
+            uri: done[0].uri!, 
+            uris: done.map(d => d.uri!), 
+            videoMetadata: done[0].videoMetadata,
+            isFallbackImage: false,
+            errors
         };
 
     } catch (e: any) {
         console.warn("Veo Generation Failed. Falling back to Image.", e);
         try {
-            const fallbackPrompt = "Cinematic movie still, " + enhancedPrompt;
-            const imgs = await generateImageFromText(fallbackPrompt, 'gemini-2.5-flash-image', [], { aspectRatio: options.aspectRatio });
-            return { uri: imgs[0], isFallbackImage: true };
+            return { uri: await generateFallbackStill(prompt, options.aspectRatio, options.usage), isFallbackImage: true };
         } catch (imgErr) {
             throw new Error("Video generation failed: " + getErrorMessage(e));
         }
     }
 };
 
-export const analyzeVideo = async (videoBase64OrUrl: string, prompt: string, model: string): Promise<string> => {
+export const analyzeVideo = async (videoBase64OrUrl: string, prompt: string, model: string, usage?: UsageTag): Promise<string> => {
     const ai = getClient();
+    videoBase64OrUrl = await resolveMediaSrc(videoBase64OrUrl);
     let inlineData: any = null;
 
     if (videoBase64OrUrl.startsWith('data:')) {
@@ -436,6 +490,7 @@ export const analyzeVideo = async (videoBase64OrUrl: string, prompt: string, mod
         }
     });
 
+    recordUsage({ provider: 'gemini', model, modality: 'analysis', ...tokenUsage(response), usage });
     return response.text || "Analysis failed";
 };
 
@@ -444,7 +499,18 @@ export const editImageWithText = async (imageBase64: string, prompt: string, mod
      return imgs[0];
 };
 
-export const planStoryboard = async (prompt: string, context: string): Promise<string[]> => {
+export const generateText = async (prompt: string, model: string, systemInstruction?: string, usage?: UsageTag): Promise<string> => {
+    const ai = getClient();
+    const response = await ai.models.generateContent({
+        model,
+        config: systemInstruction ? { systemInstruction } : undefined,
+        contents: { parts: [{ text: prompt }] }
+    });
+    recordUsage({ provider: 'gemini', model, modality: 'text', ...tokenUsage(response), usage });
+    return response.text || "";
+};
+
+export const planStoryboard = async (prompt: string, context: string, usage?: UsageTag): Promise<string[]> => {
     const ai = getClient();
     const response = await ai.models.generateContent({
         model: 'gemini-3-flash-preview',
@@ -454,6 +520,7 @@ export const planStoryboard = async (prompt: string, context: string): Promise<s
         },
         contents: { parts: [{ text: `Context: ${context}\n\nUser Idea: ${prompt}` }] }
     });
+    recordUsage({ provider: 'gemini', model: 'gemini-3-flash-preview', modality: 'text', ...tokenUsage(response), usage });
     
     try {
         return JSON.parse(response.text || "[]");
@@ -462,8 +529,9 @@ export const planStoryboard = async (prompt: string, context: string): Promise<s
     }
 };
 
-export const orchestrateVideoPrompt = async (images: string[], userPrompt: string): Promise<string> => {
+export const orchestrateVideoPrompt = async (images: string[], userPrompt: string, usage?: UsageTag): Promise<string> => {
      const ai = getClient();
+     images = await Promise.all(images.map(resolveMediaSrc));
      const parts: Part[] = images.map(img => ({ inlineData: { data: img.replace(/^data:.*;base64,/, ""), mimeType: "image/png" } }));
      parts.push({ text: `Create a single video prompt that transitions between these images. User Intent: ${userPrompt}` });
      
@@ -472,18 +540,15 @@ export const orchestrateVideoPrompt = async (images: string[], userPrompt: strin
         config: { systemInstruction: VIDEO_ORCHESTRATOR_INSTRUCTION },
         contents: { parts }
      });
+     recordUsage({ provider: 'gemini', model: 'gemini-3-flash-preview', modality: 'text', ...tokenUsage(response), usage });
      
      return response.text || userPrompt;
 };
 
-export const compileMultiFramePrompt = (frames: any[]) => {
-    return "A sequence showing: " + frames.map(f => f.transition?.prompt || "scene").join(" transitioning to ");
-};
-
 export const generateAudio = async (
     prompt: string, 
     referenceAudio?: string, 
-    options?: { persona?: any, emotion?: any }
+    options?: { persona?: any, emotion?: any, usage?: UsageTag }
 ): Promise<string> => {
     const ai = getClient();
     const parts: Part[] = [{ text: prompt }];
@@ -502,6 +567,7 @@ export const generateAudio = async (
         }
     });
     
+    recordUsage({ provider: 'gemini', model: 'gemini-2.5-flash-preview-tts', modality: 'audio', ...tokenUsage(response), usage: options?.usage });
     const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
     if (!audioData) throw new Error("Audio generation failed");
     
@@ -510,6 +576,7 @@ export const generateAudio = async (
 
 export const transcribeAudio = async (audioBase64: string): Promise<string> => {
     const ai = getClient();
+    audioBase64 = await resolveMediaSrc(audioBase64);
     const mime = audioBase64.match(/^data:(audio\/\w+);base64,/)?.[1] || 'audio/wav';
     const data = audioBase64.replace(/^data:audio\/\w+;base64,/, "");
     
@@ -522,10 +589,12 @@ export const transcribeAudio = async (audioBase64: string): Promise<string> => {
             ]
         }
     });
+    recordUsage({ provider: 'gemini', model: 'gemini-3-flash-preview', modality: 'text', ...tokenUsage(response) });
     
     return response.text || "";
 };
 
+// Live sessions stream audio both ways and report no per-call usage, so they are not in the ledger
 export const connectLiveSession = async (
     onAudioData: (base64: string) => void,
     onClose: () => void
@@ -552,4 +621,67 @@ export const connectLiveSession = async (
         }
     });
     return sessionPromise;
-};
\ No newline at end of file
+};
+
+// --- Provider ---
+
+const IMAGE_ASPECT_RATIOS = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+const VEO_ASPECT_RATIOS = ['16:9', '9:16'];
+
+const REGION_NOTICE = "Region restricted: Generated preview image instead.";
+
+const GEMINI_MODELS: ModelInfo[] = [
+    { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5', provider: 'gemini', capability: 'image', aspectRatios: IMAGE_ASPECT_RATIOS, resolutions: ['1k', '2k', '4k'], maxCount: 4 },
+    { id: 'gemini-3-pro-image-preview', label: 'Gemini 3 Pro', provider: 'gemini', capability: 'image', aspectRatios: IMAGE_ASPECT_RATIOS, resolutions: ['1k', '2k', '4k'], maxCount: 4 },
+    { id: 'veo-3.1-fast-generate-preview', label: 'Veo 极速版 (Fast)', provider: 'gemini', capability: 'video', aspectRatios: VEO_ASPECT_RATIOS, resolutions: ['720p', '1080p'], durations: [4, 6, 8], maxCount: 4, extendsVideo: true },
+    { id: 'veo-3.1-generate-preview', label: 'Veo 专业版 (Pro)', provider: 'gemini', capability: 'video', aspectRatios: VEO_ASPECT_RATIOS, resolutions: ['720p', '1080p'], durations: [4, 6, 8], maxCount: 4, extendsVideo: true },
+    { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', provider: 'gemini', capability: 'analysis' },
+    { id: 'gemini-3-pro-preview', label: 'Gemini 3 Pro', provider: 'gemini', capability: 'analysis' },
+    { id: 'gemini-2.5-flash-preview-tts', label: 'Voice Factory (Gemini 2.0)', provider: 'gemini', capability: 'audio' },
+    { id: 'gemini-3-flash-preview', label: 'Gemini 3 Flash', provider: 'gemini', capability: 'text' },
+    { id: 'gemini-3-pro-preview', label: 'Gemini 3 Pro', provider: 'gemini', capability: 'text' },
+];
+
+export const geminiProvider: GenerationProvider = {
+    id: 'gemini',
+    label: 'Google Gemini',
+    models: GEMINI_MODELS,
+    isConfigured: () => !!process.env.API_KEY,
+    maxConcurrentJobs: 2,
+    pollIntervalMs: VIDEO_POLL_INTERVAL_MS,
+    generateImage: async (req) => {
+        const outcome = await generateImageBatch(req.prompt, req.model, req.inputImages, { aspectRatio: req.aspectRatio, resolution: req.resolution, count: req.count, usage: req.usage, onProgress: req.onProgress });
+        return { images: requireResults(outcome, "No images generated."), errors: outcome.errors };
+    },
+    generateVideo: async (req) => {
+        const res = await generateVideo(
+            req.prompt,
+            req.model,
+            { aspectRatio: req.aspectRatio, count: req.count, generationMode: req.generationMode, resolution: req.resolution, duration: req.duration, usage: req.usage },
+            req.inputImage,
+            req.videoInput,
+            req.referenceImages
+        );
+        return res.isFallbackImage ? { ...res, notice: REGION_NOTICE } : res;
+    },
+    startVideo: async (req) => {
+        try {
+            return await startVideoOperations(
+                req.prompt,
+                req.model,
+                { aspectRatio: req.aspectRatio, count: req.count, generationMode: req.generationMode, resolution: req.resolution, duration: req.duration, usage: req.usage },
+                req.inputImage,
+                req.videoInput,
+                req.referenceImages
+            );
+        } catch (e) {
+            console.warn("Veo Generation Failed. Falling back to Image.", e);
+            const uri = await generateFallbackStill(req.prompt, req.aspectRatio, req.usage).catch(() => { throw new Error("Video generation failed: " + getErrorMessage(e)); });
+            return { result: { uri, isFallbackImage: true, notice: REGION_NOTICE } };
+        }
+    },
+    pollVideo: pollVideoOperation,
+    generateAudio: (req) => generateAudio(req.prompt, req.referenceAudio, { persona: req.persona, emotion: req.emotion, usage: req.usage }),
+    generateText: (req) => generateText(req.prompt, req.model, req.systemInstruction, req.usage),
+    analyzeVideo: (req) => analyzeVideo(req.video, req.prompt, req.model, req.usage),
+};
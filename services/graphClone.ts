@@ -0,0 +1,53 @@
+import { AppNode, Connection, Group, NodeStatus } from '../types';
+
+export interface GraphSnapshot {
+    nodes: AppNode[];
+    connections: Connection[];
+    groups: Group[];
+}
+
+interface CloneOptions {
+    offsetX?: number;
+    offsetY?: number;
+    resetStatus?: boolean; // Pasted/dropped copies start IDLE; duplicates keep their results
+}
+
+// Copies a graph with fresh node and group ids. Inputs, the stored input order, timeline items and connections are
+// remapped to the new ids; edges (and timeline items) pointing outside the copied set are dropped.
+export const cloneGraph = (graph: GraphSnapshot, options: CloneOptions = {}): GraphSnapshot => {
+    const { offsetX = 0, offsetY = 0, resetStatus = true } = options;
+    const idMap = new Map<string, string>();
+    graph.nodes.forEach(n => idMap.set(n.id, `n-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`));
+
+    const remap = (ids: string[]) => ids.map(oldId => idMap.get(oldId)).filter(Boolean) as string[];
+    const remapItems = <T extends { sourceId: string }>(items: T[]) =>
+        items.flatMap(item => idMap.has(item.sourceId) ? [{ ...item, sourceId: idMap.get(item.sourceId)! }] : []);
+    const remapData = (data: AppNode['data']): AppNode['data'] => ({
+        ...data,
+        ...(data.sortedInputIds && { sortedInputIds: remap(data.sortedInputIds) }),
+        ...(data.timeline && { timeline: { clips: remapItems(data.timeline.clips), audio: remapItems(data.timeline.audio) } }),
+    });
+
+    const nodes = graph.nodes.map(n => ({
+        ...n,
+        id: idMap.get(n.id)!,
+        x: n.x + offsetX,
+        y: n.y + offsetY,
+        status: resetStatus || n.status === NodeStatus.WORKING ? NodeStatus.IDLE : n.status,
+        inputs: remap(n.inputs),
+        data: n.data.sortedInputIds || n.data.timeline ? remapData(n.data) : n.data,
+    }));
+    const connections = graph.connections.map(c => ({ from: idMap.get(c.from)!, to: idMap.get(c.to)! })).filter(c => c.from && c.to);
+    const groups = graph.groups.map(g => ({ ...g, id: `g-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, x: g.x + offsetX, y: g.y + offsetY }));
+
+    return { nodes, connections, groups };
+};
+
+// Offset that centres the graph's bounding box on (x, y), used when dropping a saved workflow onto the canvas
+export const offsetToCenter = (nodes: AppNode[], x: number, y: number) => {
+    const minX = Math.min(...nodes.map(n => n.x));
+    const minY = Math.min(...nodes.map(n => n.y));
+    const width = Math.max(...nodes.map(n => n.x + (n.width || 420))) - minX;
+    const height = Math.max(...nodes.map(n => n.y + 320)) - minY;
+    return { offsetX: x - (minX + width / 2), offsetY: y - (minY + height / 2) };
+};
@@ -0,0 +1,113 @@
+import { AppNode, Connection } from '../types';
+
+export interface GraphRunResult {
+    succeeded: string[];
+    failed: string[];
+    skipped: string[]; // Not run because an upstream node failed
+    cyclic: string[]; // Part of (or downstream of) a dependency cycle, never run
+}
+
+// --- Graph Helpers ---
+
+// Upstream edges come from both AppNode.inputs and the Connection list, which can drift apart
+export const buildUpstreamMap = (nodes: AppNode[], connections: Connection[]): Map<string, string[]> => {
+    const ids = new Set(nodes.map(n => n.id));
+    const upstream = new Map<string, string[]>();
+    nodes.forEach(n => upstream.set(n.id, n.inputs.filter(i => ids.has(i) && i !== n.id)));
+    connections.forEach(c => {
+        if (!ids.has(c.from) || !ids.has(c.to) || c.from === c.to) return;
+        const list = upstream.get(c.to)!;
+        if (!list.includes(c.from)) list.push(c.from);
+    });
+    return upstream;
+};
+
+export const buildDownstreamMap = (nodes: AppNode[], connections: Connection[]): Map<string, string[]> => {
+    const downstream = new Map<string, string[]>();
+    nodes.forEach(n => downstream.set(n.id, []));
+    buildUpstreamMap(nodes, connections).forEach((froms, to) => {
+        froms.forEach(from => downstream.get(from)!.push(to));
+    });
+    return downstream;
+};
+
+// Returns the start node plus every node reachable from it
+export const collectDownstream = (startId: string, nodes: AppNode[], connections: Connection[]): string[] => {
+    const downstream = buildDownstreamMap(nodes, connections);
+    if (!downstream.has(startId)) return [];
+    const visited = new Set<string>([startId]);
+    const queue = [startId];
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        (downstream.get(current) || []).forEach(next => {
+            if (!visited.has(next)) { visited.add(next); queue.push(next); }
+        });
+    }
+    return Array.from(visited);
+};
+
+// Kahn's algorithm. Nodes left over once no zero in-degree node remains sit on (or behind) a cycle.
+export const topologicalSort = (nodeIds: string[], upstream: Map<string, string[]>): { order: string[], cyclic: string[] } => {
+    const scope = new Set(nodeIds);
+    const inDegree = new Map<string, number>();
+    const dependents = new Map<string, string[]>();
+    nodeIds.forEach(id => { inDegree.set(id, 0); dependents.set(id, []); });
+
+    nodeIds.forEach(id => {
+        (upstream.get(id) || []).filter(u => scope.has(u)).forEach(u => {
+            inDegree.set(id, inDegree.get(id)! + 1);
+            dependents.get(u)!.push(id);
+        });
+    });
+
+    const queue = nodeIds.filter(id => inDegree.get(id) === 0);
+    const order: string[] = [];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        order.push(id);
+        dependents.get(id)!.forEach(d => {
+            const remaining = inDegree.get(d)! - 1;
+            inDegree.set(d, remaining);
+            if (remaining === 0) queue.push(d);
+        });
+    }
+
+    const ordered = new Set(order);
+    return { order, cyclic: nodeIds.filter(id => !ordered.has(id)) };
+};
+
+// --- Executor ---
+
+// Runs the given nodes in dependency order. Each node waits for its in-scope upstream nodes;
+// independent branches run in parallel. Upstream nodes outside the scope are treated as already done.
+export const executeGraph = async (
+    nodes: AppNode[],
+    connections: Connection[],
+    targetIds: string[],
+    runNode: (id: string) => Promise<boolean>
+): Promise<GraphRunResult> => {
+    const upstream = buildUpstreamMap(nodes, connections);
+    const scopeIds = targetIds.filter(id => upstream.has(id));
+    const { order, cyclic } = topologicalSort(scopeIds, upstream);
+    const scope = new Set(order);
+
+    const result: GraphRunResult = { succeeded: [], failed: [], skipped: [], cyclic };
+    const runs = new Map<string, Promise<boolean>>();
+
+    order.forEach(id => {
+        const deps = (upstream.get(id) || []).filter(u => scope.has(u)).map(u => runs.get(u)!);
+        runs.set(id, Promise.all(deps).then(async depResults => {
+            if (depResults.some(ok => !ok)) {
+                result.skipped.push(id);
+                return false;
+            }
+            let ok = false;
+            try { ok = await runNode(id); } catch (e) { console.warn(`Graph run: node ${id} threw`, e); }
+            (ok ? result.succeeded : result.failed).push(id);
+            return ok;
+        }));
+    });
+
+    await Promise.all(runs.values());
+    return result;
+};
@@ -0,0 +1,239 @@
+import { AppNode, Connection, Group } from '../types';
+
+// --- Command-based undo/redo ---
+// Each history entry stores a field-level patch (what changed, before and after) rather than a
+// snapshot of the whole canvas. Undoing an entry only touches the fields it changed, so results
+// that landed on other nodes in the meantime (e.g. a finished generation) are left alone.
+
+export interface CanvasState {
+    nodes: AppNode[];
+    connections: Connection[];
+    groups: Group[];
+}
+
+export type HistoryCommandType =
+    'add' | 'delete' | 'move' | 'resize' | 'connect' | 'disconnect' |
+    'update-data' | 'generate' | 'group' | 'ungroup' | 'paste' | 'load-workflow';
+
+type NodeFields = Partial<Omit<AppNode, 'data'>> & { data?: Partial<AppNode['data']> };
+
+// before/after are null when the entity does not exist on that side (added / removed).
+// For added/removed entities the other side holds the full record; for edits both sides are partial.
+interface EntityChange<T> {
+    id: string;
+    index?: number; // Position in the array, so a removed entity is restored where it was
+    before: T | null;
+    after: T | null;
+}
+
+export interface CanvasPatch {
+    nodes: EntityChange<NodeFields>[];
+    groups: EntityChange<Partial<Group>>[];
+    connections: { added: Connection[], removed: Connection[] };
+}
+
+export interface HistoryCommand {
+    id: string;
+    type: HistoryCommandType;
+    label: string;
+    timestamp: number;
+    patch: CanvasPatch;
+    coalesceKey?: string; // Consecutive commands with the same key merge into one entry
+}
+
+export interface HistoryStack {
+    commands: HistoryCommand[];
+    index: number; // Number of applied commands; commands[index..] can be redone
+}
+
+export type PatchDirection = 'undo' | 'redo';
+
+export const EMPTY_HISTORY: HistoryStack = { commands: [], index: 0 };
+const HISTORY_LIMIT = 100;
+const COALESCE_WINDOW_MS = 1500;
+
+// Status, errors and progress text are run state, not edits; they never enter the history
+const TRANSIENT_NODE_FIELDS = ['status'];
+const TRANSIENT_DATA_FIELDS = ['error', 'progress', 'variantErrors'];
+const MEDIA_DATA_FIELDS = ['image', 'images', 'videoUri', 'videoUris', 'audioUri'];
+
+// --- Helpers ---
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+const connectionKey = (c: Connection) => `${c.from}->${c.to}`;
+
+const diffFields = (before: Record<string, any>, after: Record<string, any>, skip: string[] = []) => {
+    const b: Record<string, any> = {}; const a: Record<string, any> = {};
+    new Set([...Object.keys(before), ...Object.keys(after)]).forEach(k => {
+        if (skip.includes(k) || sameValue(before[k], after[k])) return;
+        b[k] = before[k]; a[k] = after[k];
+    });
+    return { before: b, after: a, changed: Object.keys(a).length > 0 };
+};
+
+const diffEntities = <T extends { id: string }>(before: T[], after: T[], diffOne: (b: T, a: T) => { before: any, after: any } | null) => {
+    const changes: EntityChange<any>[] = [];
+    const afterById = new Map(after.map(e => [e.id, e]));
+    const beforeById = new Map(before.map(e => [e.id, e]));
+    before.forEach((b, index) => {
+        const a = afterById.get(b.id);
+        if (!a) { changes.push({ id: b.id, index, before: b, after: null }); return; }
+        if (a === b) return;
+        const d = diffOne(b, a);
+        if (d) changes.push({ id: b.id, before: d.before, after: d.after });
+    });
+    after.forEach((a, index) => { if (!beforeById.has(a.id)) changes.push({ id: a.id, index, before: null, after: a }); });
+    return changes;
+};
+
+const diffNode = (b: AppNode, a: AppNode) => {
+    const { data: bData, ...bRest } = b; const { data: aData, ...aRest } = a;
+    const top = diffFields(bRest, aRest);
+    const data = diffFields(bData || {}, aData || {});
+    if (!top.changed && !data.changed) return null;
+    const before: NodeFields = { ...top.before }; const after: NodeFields = { ...top.after };
+    if (data.changed) { before.data = data.before; after.data = data.after; }
+    return { before, after };
+};
+
+const diffGroup = (b: Group, a: Group) => {
+    const d = diffFields(b, a);
+    return d.changed ? { before: d.before, after: d.after } : null;
+};
+
+const mergeFields = (base: any, fields: any) => {
+    const merged = { ...base };
+    Object.entries(fields).forEach(([k, v]) => { if (v === undefined) delete merged[k]; else merged[k] = v; });
+    return merged;
+};
+
+const applyNodeFields = (node: AppNode, fields: NodeFields): AppNode => {
+    const { data, ...rest } = fields;
+    const updated = mergeFields(node, rest);
+    if (data) updated.data = mergeFields(node.data, data);
+    return updated;
+};
+
+const applyEntityChanges = <T extends { id: string }>(list: T[], changes: EntityChange<any>[], direction: PatchDirection, applyFields: (e: T, f: any) => T): T[] => {
+    let result = [...list];
+    // Undo walks the changes backwards so removals and insertions unwind in order
+    const ordered = direction === 'undo' ? [...changes].reverse() : changes;
+    ordered.forEach(change => {
+        const target = direction === 'undo' ? change.before : change.after;
+        const source = direction === 'undo' ? change.after : change.before;
+        const existing = result.findIndex(e => e.id === change.id);
+        if (target === null) {
+            if (existing >= 0) result.splice(existing, 1);
+        } else if (source === null) {
+            if (existing >= 0) return;
+            const at = change.index !== undefined ? Math.min(change.index, result.length) : result.length;
+            result.splice(at, 0, target as T);
+        } else if (existing >= 0) {
+            result[existing] = applyFields(result[existing], target);
+        }
+    });
+    return result;
+};
+
+// --- Patches ---
+
+export const diffCanvas = (before: CanvasState, after: CanvasState): CanvasPatch => {
+    const beforeKeys = new Set(before.connections.map(connectionKey));
+    const afterKeys = new Set(after.connections.map(connectionKey));
+    return {
+        nodes: diffEntities(before.nodes, after.nodes, diffNode),
+        groups: diffEntities(before.groups, after.groups, diffGroup),
+        connections: {
+            added: after.connections.filter(c => !beforeKeys.has(connectionKey(c))),
+            removed: before.connections.filter(c => !afterKeys.has(connectionKey(c))),
+        },
+    };
+};
+
+export const isPatchEmpty = (patch: CanvasPatch) =>
+    patch.nodes.length === 0 && patch.groups.length === 0 && patch.connections.added.length === 0 && patch.connections.removed.length === 0;
+
+// Drops run-state fields from edits so history entries only describe what the user (or a generation) produced
+export const stripTransient = (patch: CanvasPatch): CanvasPatch => ({
+    ...patch,
+    nodes: patch.nodes.map(change => {
+        if (!change.before || !change.after) return change;
+        const strip = (f: NodeFields) => {
+            const out: any = { ...f };
+            TRANSIENT_NODE_FIELDS.forEach(k => delete out[k]);
+            if (out.data) {
+                out.data = { ...out.data };
+                TRANSIENT_DATA_FIELDS.forEach(k => delete out.data[k]);
+                if (Object.keys(out.data).length === 0) delete out.data;
+            }
+            return out as NodeFields;
+        };
+        return { ...change, before: strip(change.before), after: strip(change.after) };
+    }).filter(change => !change.before || !change.after || Object.keys(change.after).length > 0),
+});
+
+export const applyNodePatch = (nodes: AppNode[], patch: CanvasPatch, direction: PatchDirection) =>
+    applyEntityChanges(nodes, patch.nodes, direction, applyNodeFields);
+
+export const applyGroupPatch = (groups: Group[], patch: CanvasPatch, direction: PatchDirection) =>
+    applyEntityChanges(groups, patch.groups, direction, (g, f) => mergeFields(g, f));
+
+export const applyConnectionPatch = (connections: Connection[], patch: CanvasPatch, direction: PatchDirection) => {
+    const add = direction === 'undo' ? patch.connections.removed : patch.connections.added;
+    const remove = new Set((direction === 'undo' ? patch.connections.added : patch.connections.removed).map(connectionKey));
+    const kept = connections.filter(c => !remove.has(connectionKey(c)));
+    const keptKeys = new Set(kept.map(connectionKey));
+    return [...kept, ...add.filter(c => !keptKeys.has(connectionKey(c)))];
+};
+
+// Whether applying the patch in the given direction would throw away generated media
+// (a node holding media disappears, or a media field loses its value)
+export const patchDiscardsMedia = (patch: CanvasPatch, direction: PatchDirection) => patch.nodes.some(change => {
+    const lost = direction === 'undo' ? change.after : change.before;
+    const kept = direction === 'undo' ? change.before : change.after;
+    if (!lost) return false;
+    const lostData: any = lost.data || {};
+    const hasMedia = (k: string) => lostData[k] && (!Array.isArray(lostData[k]) || lostData[k].length > 0);
+    if (kept === null) return MEDIA_DATA_FIELDS.some(hasMedia);
+    const keptData: any = kept.data || {};
+    return MEDIA_DATA_FIELDS.some(k => hasMedia(k) && !sameValue(lostData[k], keptData[k]));
+});
+
+// Folds a newer patch into an older one (used when coalescing drags and typing)
+const mergePatches = (older: CanvasPatch, newer: CanvasPatch): CanvasPatch => {
+    const nodes = [...older.nodes];
+    newer.nodes.forEach(change => {
+        const i = nodes.findIndex(c => c.id === change.id);
+        if (i < 0) { nodes.push(change); return; }
+        const prev = nodes[i];
+        const merge = (keepFirst: any, overlay: any) => keepFirst === null || overlay === null ? overlay
+            : { ...keepFirst, ...overlay, ...(keepFirst.data || overlay.data ? { data: { ...keepFirst.data, ...overlay.data } } : {}) };
+        nodes[i] = {
+            ...prev,
+            // The oldest "before" wins for every field; the newest "after" wins
+            before: prev.before === null ? null : merge(change.before, prev.before),
+            after: merge(prev.after, change.after),
+        };
+    });
+    return {
+        nodes,
+        groups: [...older.groups, ...newer.groups],
+        connections: {
+            added: [...older.connections.added, ...newer.connections.added],
+            removed: [...older.connections.removed, ...newer.connections.removed],
+        },
+    };
+};
+
+// --- Stack ---
+
+export const pushCommand = (stack: HistoryStack, command: HistoryCommand): HistoryStack => {
+    const applied = stack.commands.slice(0, stack.index);
+    const top = applied[applied.length - 1];
+    if (top && command.coalesceKey && top.coalesceKey === command.coalesceKey && command.timestamp - top.timestamp < COALESCE_WINDOW_MS) {
+        applied[applied.length - 1] = { ...top, timestamp: command.timestamp, patch: mergePatches(top.patch, command.patch) };
+        return { commands: applied, index: applied.length };
+    }
+    const commands = [...applied, command].slice(-HISTORY_LIMIT);
+    return { commands, index: commands.length };
+};
@@ -0,0 +1,297 @@
+import { deleteJobs, internMedia, internRemoteMedia, loadJobs, saveJob } from './storage';
+import { generateVideo, getProviderForModel, ProviderId, VideoPoll, VideoRequest, VideoResult } from './providers';
+import { formatProgress, runBatch, successSlots } from './batch';
+import { VariantError } from '../types';
+import type { RunParams } from './runHistory';
+
+// --- Generation job queue ---
+// Video generations run as persisted jobs. A job records the provider operation names as soon as they
+// are known, so polling picks up where it left off after a reload. Each provider caps how many of its
+// jobs run at once; the rest wait in the queue.
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface GenerationJob {
+    id: string;
+    projectId: string;
+    nodeId: string;
+    label: string; // Node title at enqueue time, for the jobs panel
+    provider: ProviderId;
+    model: string;
+    params: VideoRequest; // Media inputs are stored as media:// refs
+    operations: string[]; // Provider operation ids; empty until the job has been submitted
+    submitErrors?: VariantError[]; // Variants whose submission failed; they have no operation
+    progress?: string; // Settled variants out of the requested count, e.g. "1/2"
+    status: JobStatus;
+    attempts: number;
+    error?: string;
+    result?: VideoResult;
+    runHash?: string; // Input hash of the node when the job was enqueued
+    runParams?: RunParams; // Node settings when the job was enqueued, for the node's run history
+    tabId?: string; // Tab that runs the job; other tabs leave it alone while that tab is open
+    source?: 'smart-sequence'; // Jobs started outside the canvas have no node to write back to
+    createdAt: number;
+    updatedAt: number;
+}
+
+export type JobOutcomeHandler = (job: GenerationJob) => void | Promise<void>;
+
+const FINISHED_JOB_LIMIT = 50;
+const MAX_POLL_ERRORS = 3; // Consecutive failed status checks before an operation is given up
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+const jobs = new Map<string, GenerationJob>();
+const listeners = new Set<(jobs: GenerationJob[]) => void>();
+const waiters = new Map<string, { resolve: (job: GenerationJob) => void, reject: (error: Error) => void }[]>();
+const running = new Set<string>();
+let outcomeHandler: JobOutcomeHandler | undefined;
+let session = 0; // Bumped by resumeJobs; executions from an older session stop touching state
+
+// --- Helpers ---
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const isActiveJob = (job: GenerationJob) => job.status === 'queued' || job.status === 'running';
+
+export const listJobs = () => Array.from(jobs.values()).sort((a, b) => a.createdAt - b.createdAt);
+
+const notify = () => {
+    const snapshot = listJobs();
+    listeners.forEach(listener => listener(snapshot));
+};
+
+const update = async (id: string, patch: Partial<GenerationJob>) => {
+    const current = jobs.get(id);
+    if (!current) return undefined;
+    const job = { ...current, ...patch, updatedAt: Date.now() };
+    jobs.set(id, job);
+    notify();
+    await saveJob(job);
+    return job;
+};
+
+// Drops the oldest finished jobs beyond the limit
+const prune = async () => {
+    const finished = listJobs().filter(job => !isActiveJob(job));
+    const stale = finished.slice(0, Math.max(0, finished.length - FINISHED_JOB_LIMIT)).map(job => job.id);
+    if (stale.length === 0) return;
+    stale.forEach(id => jobs.delete(id));
+    notify();
+    await deleteJobs(stale);
+};
+
+const settle = async (job: GenerationJob) => {
+    try {
+        await outcomeHandler?.(job);
+    } catch (e) {
+        console.warn("Job outcome handler failed", e);
+    }
+    const pending = waiters.get(job.id) || [];
+    waiters.delete(job.id);
+    pending.forEach(w => job.status === 'succeeded' ? w.resolve(job) : w.reject(new Error(job.error || '任务未完成')));
+    await prune();
+};
+
+const finish = async (id: string, patch: Partial<GenerationJob>) => {
+    const job = await update(id, patch);
+    if (job) await settle(job);
+};
+
+const isCurrent = (id: string, token: number) => token === session && jobs.get(id)?.status === 'running';
+
+// Progress changes often and is recomputed after a reload, so it is kept in memory only
+const setProgress = (id: string, progress: string) => {
+    const job = jobs.get(id);
+    if (!job) return;
+    jobs.set(id, { ...job, progress });
+    notify();
+};
+
+// Polls every operation to completion. Operations that keep failing are dropped and reported
+// per variant; the job only fails when none of them produced a video.
+const pollOperations = async (id: string, token: number, operations: string[], submitErrors: VariantError[], pollVideo: (operation: string) => Promise<VideoPoll>, intervalMs: number): Promise<VideoResult | undefined> => {
+    const total = operations.length + submitErrors.length;
+    const slots = successSlots(total, submitErrors);
+    const polled = await runBatch(operations.length, operations.length, async k => {
+        let errors = 0;
+        while (true) {
+            await wait(intervalMs);
+            if (!isCurrent(id, token)) return undefined;
+            try {
+                const res = await pollVideo(operations[k]);
+                if (res.done) return res;
+                errors = 0;
+            } catch (e) {
+                // A failed operation throws on every check, so this also ends operations the provider rejected
+                if (++errors >= MAX_POLL_ERRORS) throw e;
+            }
+        }
+    }, done => { if (isCurrent(id, token)) setProgress(id, formatProgress(submitErrors.length + done, total)); });
+    if (!isCurrent(id, token)) return undefined;
+
+    const done = polled.results.filter((r): r is VideoPoll => !!r?.uri);
+    if (done.length === 0) throw new Error(polled.errors[0]?.message || "Video generation failed.");
+    const errors = [...submitErrors, ...polled.errors.map(e => ({ ...e, index: slots[e.index] }))].sort((a, b) => a.index - b.index);
+    return { uri: done[0].uri!, uris: done.map(r => r.uri!), videoMetadata: done[0].videoMetadata, errors };
+};
+
+// Finished videos go into the media store before the job is saved, so no download link (or its key) is persisted.
+// The video object describes the first variant; it is tagged with that variant's ref so an extension can tell
+// whether the node still shows it.
+const storeResult = async (result: VideoResult): Promise<VideoResult> => {
+    if (result.isFallbackImage) return { ...result, uri: await internMedia(result.uri) };
+    const uris = await Promise.all((result.uris || [result.uri]).map(uri => internRemoteMedia(uri, 'video/mp4')));
+    return { ...result, uri: uris[0], uris, videoMetadata: result.videoMetadata && { ...result.videoMetadata, mediaRef: uris[0] } };
+};
+
+const execute = async (id: string) => {
+    const token = session;
+    const job = await update(id, { status: 'running', attempts: (jobs.get(id)?.attempts || 0) + 1, error: undefined });
+    if (!job) return;
+    const provider = getProviderForModel(job.model);
+
+    try {
+        let result: VideoResult | undefined;
+        if (provider.startVideo && provider.pollVideo) {
+            let operations = job.operations;
+            let submitErrors = job.submitErrors || [];
+            if (operations.length === 0) {
+                const started = await provider.startVideo(job.params);
+                if (!isCurrent(id, token)) return;
+                if ('result' in started) {
+                    result = started.result;
+                } else {
+                    operations = started.operations;
+                    submitErrors = started.errors || [];
+                    await update(id, { operations, submitErrors, progress: formatProgress(submitErrors.length, operations.length + submitErrors.length) });
+                }
+            }
+            if (!result) result = await pollOperations(id, token, operations, submitErrors, provider.pollVideo, provider.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+        } else {
+            result = await generateVideo(job.params);
+        }
+        if (!result || !isCurrent(id, token)) return;
+        const stored = await storeResult(result);
+        if (!isCurrent(id, token)) return;
+        await finish(id, { status: 'succeeded', result: stored });
+    } catch (e: any) {
+        if (!isCurrent(id, token)) return;
+        await finish(id, { status: 'failed', error: e?.message || String(e) });
+    }
+};
+
+// Starts queued jobs, oldest first, while their provider has free slots
+const pump = () => {
+    const active = new Map<ProviderId, number>();
+    listJobs().filter(job => job.status === 'running').forEach(job => active.set(job.provider, (active.get(job.provider) || 0) + 1));
+
+    listJobs().filter(job => job.status === 'queued' && !running.has(job.id)).forEach(job => {
+        const provider = getProviderForModel(job.model);
+        const count = active.get(provider.id) || 0;
+        if (count >= provider.maxConcurrentJobs) return;
+        active.set(provider.id, count + 1);
+        running.add(job.id);
+        // Mark as running right away so the next pump sees the slot as taken
+        jobs.set(job.id, { ...job, status: 'running' });
+        const token = session;
+        execute(job.id).finally(() => {
+            if (token !== session) return;
+            running.delete(job.id);
+            pump();
+        });
+    });
+};
+
+// --- API ---
+
+export const subscribeJobs = (listener: (jobs: GenerationJob[]) => void) => {
+    listeners.add(listener);
+    listener(listJobs());
+    return () => { listeners.delete(listener); };
+};
+
+// Called once for every job that finishes (succeeded, failed or cancelled), including jobs resumed after a reload
+export const setJobOutcomeHandler = (handler: JobOutcomeHandler | undefined) => {
+    outcomeHandler = handler;
+};
+
+export const enqueueVideoJob = async (input: { projectId: string, nodeId: string, label: string, params: VideoRequest, runHash?: string, runParams?: RunParams, tabId?: string, source?: GenerationJob['source'] }): Promise<GenerationJob> => {
+    const provider = getProviderForModel(input.params.model);
+    if (!provider.generateVideo) throw new Error(`${provider.label} 不支持视频生成`);
+    if (!provider.isConfigured()) throw new Error(`${provider.label} 未配置 API Key，请在设置中填写`);
+
+    // Jobs are persisted, so inline media goes to the media store rather than into the job record
+    const params: VideoRequest = {
+        ...input.params,
+        inputImage: input.params.inputImage ? await internMedia(input.params.inputImage) : input.params.inputImage,
+        referenceImages: input.params.referenceImages ? await Promise.all(input.params.referenceImages.map(internMedia)) : undefined,
+    };
+    const now = Date.now();
+    const job: GenerationJob = {
+        id: `job-${now}-${Math.random().toString(36).slice(2, 8)}`,
+        projectId: input.projectId, nodeId: input.nodeId, label: input.label,
+        provider: provider.id, model: params.model, params,
+        operations: [], status: 'queued', attempts: 0, runHash: input.runHash, runParams: input.runParams, tabId: input.tabId, source: input.source,
+        createdAt: now, updatedAt: now,
+    };
+    jobs.set(job.id, job);
+    notify();
+    await saveJob(job);
+    pump();
+    return job;
+};
+
+// Resolves with the finished job on success, rejects when it failed or was cancelled
+export const waitForJob = (id: string) => new Promise<GenerationJob>((resolve, reject) => {
+    const job = jobs.get(id);
+    if (!job) return reject(new Error('任务不存在'));
+    if (job.status === 'succeeded') return resolve(job);
+    if (!isActiveJob(job)) return reject(new Error(job.error || '任务未完成'));
+    waiters.set(id, [...(waiters.get(id) || []), { resolve, reject }]);
+});
+
+export const cancelJob = async (id: string) => {
+    const job = jobs.get(id);
+    if (!job || !isActiveJob(job)) return;
+    await finish(id, { status: 'cancelled', error: '已取消' });
+    pump();
+};
+
+// Submits the job again from scratch; operations from the failed attempt are not reused
+export const retryJob = async (id: string) => {
+    const job = jobs.get(id);
+    if (!job || isActiveJob(job)) return;
+    await update(id, { status: 'queued', operations: [], submitErrors: undefined, progress: undefined, error: undefined, result: undefined });
+    pump();
+};
+
+export const clearFinishedJobs = async () => {
+    const finished = listJobs().filter(job => !isActiveJob(job)).map(job => job.id);
+    finished.forEach(id => jobs.delete(id));
+    notify();
+    await deleteJobs(finished);
+};
+
+// Takes over the persisted jobs no open tab is running: jobs of `liveTabs` stay with their tab and jobs this tab
+// already knows keep going, so nothing is polled twice or submitted again. Unfinished jobs that already have
+// operation ids continue polling them instead of submitting again.
+export const adoptJobs = async (tabId?: string, liveTabs: string[] = []) => {
+    const live = new Set(liveTabs);
+    const stored = await loadJobs();
+    const adopted = stored
+        .filter(job => !jobs.has(job.id) && !(job.tabId && live.has(job.tabId)))
+        .map(job => isActiveJob(job) ? { ...job, status: 'queued' as JobStatus, tabId } : job);
+    adopted.forEach(job => jobs.set(job.id, job));
+    await Promise.all(adopted.filter(job => job.status === 'queued').map(saveJob));
+    notify();
+    pump();
+    return listJobs();
+};
+
+// Starts over from what is persisted, as after a reload
+export const resumeJobs = async (tabId?: string, liveTabs: string[] = []) => {
+    session++;
+    jobs.clear();
+    running.clear();
+    return adoptJobs(tabId, liveTabs);
+};
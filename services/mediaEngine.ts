@@ -0,0 +1,110 @@
+import { AudioLayer, PcmAudio, parseWav } from './mediaPipeline';
+import { loadMediaBytes } from './mediaResolver';
+import { isWebCodecsSupported } from './webCodecs';
+import type { RenderReply, RenderRequest } from './mediaEngine.worker';
+
+// --- Media engine ---
+// Client-side video rendering: concatenates clips and stills, trims them to in/out points, adds gaps and
+// crossfades, normalises size and frame rate and muxes in audio, all in the browser. `mergeAudio` only lays audio under
+// an existing video, copying its picture as is. Sources are loaded and audio is decoded here (the worker has
+// no AudioContext); the render itself runs in a worker on WebCodecs.
+
+export interface RenderClip {
+    src: string; // Media ref, data URI or URL of an MP4, or of an image when `still` is set
+    still?: number; // Seconds to hold the image for
+    in?: number;
+    out?: number;
+    gap?: number; // Seconds of black before the clip
+    crossfade?: number; // Seconds of overlap with the previous clip
+}
+
+export interface RenderAudio {
+    src: string;
+    start?: number; // Seconds on the output timeline
+    in?: number;
+    out?: number;
+    volume?: number;
+    fadeIn?: number; // Seconds
+    fadeOut?: number;
+    loop?: boolean; // Repeat until the video ends
+}
+
+export interface RenderOptions {
+    clips: RenderClip[];
+    audio?: RenderAudio[];
+    width?: number;
+    height?: number;
+    frameRate?: number;
+    onProgress?: (fraction: number) => void;
+}
+
+export interface MergeOptions {
+    video: string; // Media ref, data URI or URL of an MP4
+    audio: RenderAudio[];
+}
+
+export const isMediaEngineSupported = () => typeof Worker !== 'undefined' && isWebCodecsSupported();
+
+let worker: Worker | undefined;
+let nextId = 0;
+const pending = new Map<number, { resolve: (bytes: Uint8Array) => void, reject: (error: Error) => void, onProgress?: (fraction: number) => void }>();
+
+const getWorker = () => {
+    if (worker) return worker;
+    worker = new Worker(new URL('./mediaEngine.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = ({ data }: MessageEvent<RenderReply>) => {
+        const job = pending.get(data.id);
+        if (!job) return;
+        if (data.type === 'progress') { job.onProgress?.(data.fraction); return; }
+        pending.delete(data.id);
+        if (data.type === 'done') job.resolve(data.bytes);
+        else job.reject(new Error(data.message));
+    };
+    worker.onerror = e => {
+        // A crashed worker takes every render with it; the next call starts a fresh one
+        pending.forEach(job => job.reject(new Error(e.message || '渲染进程异常退出')));
+        pending.clear();
+        worker?.terminate();
+        worker = undefined;
+    };
+    return worker;
+};
+
+// WAV (the TTS output) is read directly; anything else goes through the browser's decoders
+export const decodeAudio = async (bytes: Uint8Array): Promise<PcmAudio> => {
+    try {
+        return parseWav(bytes);
+    } catch {
+        const context = new OfflineAudioContext(2, 1, 48000);
+        const buffer = await context.decodeAudioData(bytes.slice().buffer);
+        return { sampleRate: buffer.sampleRate, channels: Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice()) };
+    }
+};
+
+const loadAudioLayers = (audio: RenderAudio[]) =>
+    Promise.all(audio.map(async ({ src, ...placement }): Promise<AudioLayer> => ({ audio: await decodeAudio(await loadMediaBytes(src)), ...placement })));
+
+// Hands a request to the worker, moving (not copying) the source bytes and PCM over
+const runInWorker = async (request: RenderRequest, transfer: ArrayBufferLike[], onProgress?: (fraction: number) => void): Promise<Blob> => {
+    const bytes = await new Promise<Uint8Array>((resolve, reject) => {
+        pending.set(request.id, { resolve, reject, onProgress });
+        getWorker().postMessage(request, [...new Set(transfer)]);
+    });
+    return new Blob([bytes], { type: 'video/mp4' });
+};
+
+const pcmBuffers = (layers: AudioLayer[]) => layers.flatMap(l => l.audio.channels.map(c => c.buffer));
+
+export const renderVideo = async ({ clips, audio = [], onProgress, ...size }: RenderOptions): Promise<Blob> => {
+    if (!isMediaEngineSupported()) throw new Error('当前浏览器不支持本地视频渲染（需要 WebCodecs）');
+    const [clipBytes, layers] = await Promise.all([Promise.all(clips.map(c => loadMediaBytes(c.src))), loadAudioLayers(audio)]);
+
+    const request: RenderRequest = { id: nextId++, type: 'edit', clips: clips.map(({ src, ...edit }, i) => ({ bytes: clipBytes[i], ...edit })), settings: { ...size, audio: layers } };
+    return runInWorker(request, [...clipBytes.map(b => b.buffer), ...pcmBuffers(layers)], onProgress);
+};
+
+export const mergeAudio = async ({ video, audio }: MergeOptions): Promise<Blob> => {
+    if (!isMediaEngineSupported()) throw new Error('当前浏览器不支持本地音画合成（需要 WebCodecs）');
+    const [videoBytes, layers] = await Promise.all([loadMediaBytes(video), loadAudioLayers(audio)]);
+    return runInWorker({ id: nextId++, type: 'mux', video: videoBytes, audio: layers }, [videoBytes.buffer, ...pcmBuffers(layers)]);
+};
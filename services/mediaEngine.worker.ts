@@ -0,0 +1,33 @@
+import { AudioLayer, EditClip, RenderSettings, muxAudio, renderEdit } from './mediaPipeline';
+import { createWebCodecs } from './webCodecs';
+
+// --- Media engine worker ---
+// Renders one edit, or muxes audio under one video, per request off the main thread. Progress is throttled to whole percents.
+
+export type RenderRequest =
+    | { id: number, type: 'edit', clips: EditClip[], settings: Omit<RenderSettings, 'onProgress'> }
+    | { id: number, type: 'mux', video: Uint8Array, audio: AudioLayer[] };
+
+export type RenderReply =
+    | { id: number, type: 'progress', fraction: number }
+    | { id: number, type: 'done', bytes: Uint8Array }
+    | { id: number, type: 'error', message: string };
+
+const reply = (message: RenderReply, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = async ({ data }: MessageEvent<RenderRequest>) => {
+    const { id } = data;
+    let reported = -1;
+    const onProgress = (fraction: number) => {
+        const percent = Math.floor(fraction * 100);
+        if (percent !== reported) { reported = percent; reply({ id, type: 'progress', fraction }); }
+    };
+    try {
+        const bytes = data.type === 'mux'
+            ? await muxAudio(data.video, data.audio, createWebCodecs())
+            : await renderEdit(data.clips, { ...data.settings, onProgress }, createWebCodecs());
+        reply({ id, type: 'done', bytes }, [bytes.buffer]);
+    } catch (e: any) {
+        reply({ id, type: 'error', message: e?.message || String(e) });
+    }
+};
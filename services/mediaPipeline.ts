@@ -0,0 +1,371 @@
+import { Mp4Sample, Mp4Track, TrackInput, readMp4, trackDuration, writeMp4 } from './mp4';
+
+// --- Media pipeline ---
+// Turns an edit (clips with in/out points, stills, gaps and crossfades, plus audio layers) into one MP4:
+// every clip is decoded from the keyframe before its in point, resampled onto a fixed output frame grid
+// (frames are repeated or skipped to hit the frame rate), letterboxed to the output size, blended where
+// clips overlap and re-encoded; audio layers are mixed into one PCM track and encoded alongside. Decoding and encoding go through `MediaCodecs`, so the same pipeline
+// runs on WebCodecs in the browser and on synthetic codecs in tests.
+
+export interface PcmAudio {
+    sampleRate: number;
+    channels: Float32Array[]; // Planar, -1..1
+}
+
+export interface EditClip {
+    bytes: Uint8Array; // MP4, or an encoded image when `still` is set
+    still?: number; // Seconds to hold the image for
+    in?: number; // Seconds into the clip; defaults to its start
+    out?: number; // Defaults to its end
+    gap?: number; // Seconds of black before the clip
+    crossfade?: number; // Seconds the clip fades in over the previous one; ignored after a gap
+}
+
+export interface AudioLayer {
+    audio: PcmAudio;
+    start?: number; // Seconds on the output timeline; negative skips into the audio
+    in?: number; // Seconds into the audio; defaults to its start
+    out?: number; // Defaults to its end
+    volume?: number; // Linear gain
+    fadeIn?: number; // Seconds, from where the layer starts on the output
+    fadeOut?: number; // Seconds, up to where it stops (its end, or the end of the output when looping)
+    loop?: boolean; // Repeats the in..out section until the output ends
+}
+
+export interface RenderSettings {
+    width?: number; // Output size; defaults to the first clip's
+    height?: number;
+    frameRate?: number; // Defaults to the first clip's
+    audio?: AudioLayer[];
+    onProgress?: (fraction: number) => void;
+}
+
+// --- Codecs ---
+
+export interface DecodedFrame<F> {
+    timestamp: number; // Seconds, presentation time within the clip
+    frame: F;
+}
+
+export interface EncodedSample {
+    data: Uint8Array;
+    isSync: boolean;
+    duration?: number; // Seconds; video samples get theirs from the frame grid
+}
+
+export interface EncodedTrack {
+    samples: EncodedSample[];
+    sampleEntry: Uint8Array; // stsd entry describing the encoded stream
+    timescale?: number; // Audio: the sample rate the encoder ran at
+}
+
+export interface FrameEncoder<F> {
+    encode: (frame: F, keyFrame: boolean) => Promise<void>;
+    finish: () => Promise<EncodedTrack>;
+}
+
+export interface FrameLayer<F> {
+    frame: F;
+    opacity: number; // 0..1, drawn over the layers before it
+}
+
+export interface MediaCodecs<F> {
+    // Yields frames in presentation order, decoding from sample `from` (a sync sample) and stopping
+    // once samples start after `until` seconds. Returning early releases the decoder.
+    decodeVideo: (track: Mp4Track, bytes: Uint8Array, from: number, until: number) => AsyncGenerator<DecodedFrame<F>>;
+    decodeImage: (bytes: Uint8Array) => Promise<F>;
+    // A new frame of exactly width x height: black with each layer letterboxed on top, stamped at `timestamp` seconds
+    compose: (layers: FrameLayer<F>[], width: number, height: number, timestamp: number) => F;
+    release: (frame: F) => void;
+    createVideoEncoder: (options: { width: number, height: number, frameRate: number }) => FrameEncoder<F>;
+    encodeAudio: (audio: PcmAudio) => Promise<EncodedTrack>;
+}
+
+// --- Audio ---
+
+export const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_CHANNELS = 2;
+
+// Reads PCM WAV (8/16/24/32-bit integer or 32-bit float), the format the TTS node produces
+export const parseWav = (bytes: Uint8Array): PcmAudio => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const tag = (at: number) => String.fromCharCode(...bytes.subarray(at, at + 4));
+    if (bytes.length < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') throw new Error('Not a WAV file');
+
+    let format: { code: number, channels: number, sampleRate: number, bits: number } | undefined;
+    for (let at = 12; at + 8 <= bytes.length; at += 8 + view.getUint32(at + 4, true) + (view.getUint32(at + 4, true) & 1)) {
+        const size = view.getUint32(at + 4, true);
+        if (tag(at) === 'fmt ') {
+            format = { code: view.getUint16(at + 8, true), channels: view.getUint16(at + 10, true), sampleRate: view.getUint32(at + 12, true), bits: view.getUint16(at + 22, true) };
+            if (format.code === 0xfffe) format.code = view.getUint16(at + 32, true); // WAVE_FORMAT_EXTENSIBLE: sub-format GUID starts with the code
+        } else if (tag(at) === 'data' && format) {
+            const { code, channels, sampleRate, bits } = format;
+            const width = bits / 8;
+            const frames = Math.floor(Math.min(size, bytes.length - at - 8) / (width * channels));
+            const read = code === 3 && bits === 32 ? (o: number) => view.getFloat32(o, true)
+                : bits === 8 ? (o: number) => (view.getUint8(o) - 128) / 128
+                : bits === 16 ? (o: number) => view.getInt16(o, true) / 0x8000
+                : bits === 24 ? (o: number) => ((view.getUint8(o + 2) << 24 | view.getUint8(o + 1) << 16 | view.getUint8(o) << 8) >> 8) / 0x800000
+                : bits === 32 && code === 1 ? (o: number) => view.getInt32(o, true) / 0x80000000
+                : undefined;
+            if (!read) throw new Error(`Unsupported WAV encoding (format ${code}, ${bits}-bit)`);
+            const planes = Array.from({ length: channels }, () => new Float32Array(frames));
+            for (let i = 0; i < frames; i++) {
+                for (let c = 0; c < channels; c++) planes[c][i] = read(at + 8 + (i * channels + c) * width);
+            }
+            return { sampleRate, channels: planes };
+        }
+    }
+    throw new Error('WAV file has no audio data');
+};
+
+// Mixes layers onto a silent stereo track of `duration` seconds, resampling linearly where rates differ
+export const mixAudio = (layers: AudioLayer[], duration: number, sampleRate = AUDIO_SAMPLE_RATE): PcmAudio => {
+    const length = Math.round(duration * sampleRate);
+    const out = Array.from({ length: AUDIO_CHANNELS }, () => new Float32Array(length));
+    layers.forEach(({ audio, start = 0, in: from = 0, out: until = Infinity, volume = 1, fadeIn = 0, fadeOut = 0, loop = false }) => {
+        const source = audio.channels;
+        const sourceLength = Math.min(source[0]?.length || 0, Math.round(until * audio.sampleRate));
+        const step = audio.sampleRate / sampleRate;
+        const skip = Math.max(0, from) * audio.sampleRate;
+        const section = sourceLength - skip; // Source samples played per pass
+        if (section <= 0) return;
+        const first = Math.max(0, Math.ceil(start * sampleRate));
+        // Output sample where the layer falls silent, for the fade-out
+        const end = loop ? length : Math.min(length, start * sampleRate + section / step);
+        for (let i = first; i < end; i++) {
+            const played = (i - start * sampleRate) * step;
+            const position = (loop ? played % section : played) + skip;
+            const index = Math.floor(position);
+            if (index >= sourceLength) break;
+            const fraction = position - index;
+            const seconds = (i - start * sampleRate) / sampleRate;
+            const gain = volume * Math.min(1, fadeIn > 0 ? seconds / fadeIn : 1, fadeOut > 0 ? (end - i) / sampleRate / fadeOut : 1);
+            out.forEach((plane, c) => {
+                const channel = source[c % source.length];
+                const next = index + 1 < sourceLength ? channel[index + 1] : channel[index];
+                plane[i] += (channel[index] + (next - channel[index]) * fraction) * gain;
+            });
+        }
+    });
+    out.forEach(plane => { for (let i = 0; i < plane.length; i++) plane[i] = Math.max(-1, Math.min(1, plane[i])); });
+    return { sampleRate, channels: out };
+};
+
+// --- Layout ---
+
+const FRAME_EPSILON = 1e-6; // Frames stamped a hair after a grid point still count for it
+
+export interface ClipTiming {
+    length: number; // Seconds the clip lasts once trimmed
+    gap?: number;
+    crossfade?: number;
+}
+
+export interface ClipPlacement {
+    start: number; // Seconds on the output timeline
+    end: number;
+    fade: number; // Seconds of crossfade actually applied
+}
+
+export interface ActiveLayer {
+    index: number; // Clip index
+    offset: number; // Seconds into the (trimmed) clip
+    opacity: number;
+}
+
+// Places clips one after another. A crossfade pulls a clip back over the end of the previous one (never
+// further than either clip lasts); a gap pushes it forward and cancels the crossfade.
+export const layoutClips = (clips: ClipTiming[]): ClipPlacement[] => {
+    let cursor = 0;
+    let previousLength = 0;
+    return clips.map((clip, i) => {
+        const gap = Math.max(0, clip.gap || 0);
+        const fade = i === 0 || gap > 0 ? 0 : Math.min(Math.max(0, clip.crossfade || 0), clip.length, previousLength);
+        const start = cursor + gap - fade;
+        cursor = start + clip.length;
+        previousLength = clip.length;
+        return { start, end: cursor, fade };
+    });
+};
+
+export const layoutDuration = (placements: ClipPlacement[]) => placements.reduce((n, p) => Math.max(n, p.end), 0);
+
+// Clips visible at `time`, bottom first: a clip fading in is drawn over the one it replaces
+export const activeLayers = (placements: ClipPlacement[], time: number): ActiveLayer[] =>
+    placements.flatMap((p, index) => time >= p.start - FRAME_EPSILON && time < p.end - FRAME_EPSILON
+        ? [{ index, offset: Math.max(0, time - p.start), opacity: p.fade > 0 ? Math.min(1, Math.max(0, (time - p.start) / p.fade)) : 1 }]
+        : []);
+
+// --- Video ---
+
+const VIDEO_TIMESCALE = 90000;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const DEFAULT_SIZE = { width: 1280, height: 720 };
+const DEFAULT_FRAME_RATE = 30;
+
+const even = (n: number) => Math.max(2, Math.round(n / 2) * 2); // H.264 needs even dimensions
+
+// Presentation time of every sample, in seconds
+const presentationTimes = (track: Mp4Track) => {
+    let decodeTime = 0;
+    return track.samples.map(s => {
+        const time = (decodeTime + s.compositionOffset) / track.timescale;
+        decodeTime += s.duration;
+        return time;
+    });
+};
+
+// Decoding has to start at the last sync sample shown at or before the in point
+const decodeStart = (track: Mp4Track, from: number) => {
+    const times = presentationTimes(track);
+    let start = 0;
+    track.samples.forEach((s, i) => { if (s.isSync && times[i] <= from + FRAME_EPSILON) start = i; });
+    return start;
+};
+
+interface PreparedClip {
+    bytes: Uint8Array;
+    video?: Mp4Track; // Absent for stills
+    start: number;
+    end: number;
+    gap?: number;
+    crossfade?: number;
+}
+
+const prepareClips = (clips: EditClip[]): PreparedClip[] => clips.map((clip, i) => {
+    const { bytes, gap, crossfade } = clip;
+    if (clip.still !== undefined) {
+        if (!(clip.still > FRAME_EPSILON)) throw new Error(`片段 ${i + 1} 的静帧时长必须大于 0`);
+        return { bytes, start: 0, end: clip.still, gap, crossfade };
+    }
+    const video = readMp4(bytes).tracks.find(t => t.kind === 'video');
+    if (!video || video.samples.length === 0) throw new Error(`片段 ${i + 1} 没有视频轨道`);
+    const length = trackDuration(video);
+    const start = Math.min(Math.max(clip.in ?? 0, 0), length);
+    const end = Math.min(Math.max(clip.out ?? length, start), length);
+    if (end - start <= FRAME_EPSILON) throw new Error(`片段 ${i + 1} 的入点和出点之间没有内容`);
+    return { bytes, video, start, end, gap, crossfade };
+});
+
+// A clip being drawn: a still, or a decoder positioned somewhere in the clip
+interface ClipSource<F> {
+    still?: F;
+    frames?: AsyncGenerator<DecodedFrame<F>>;
+    current?: DecodedFrame<F>;
+    next?: IteratorResult<DecodedFrame<F>>;
+}
+
+const openSource = async <F>(clip: PreparedClip, codecs: MediaCodecs<F>): Promise<ClipSource<F>> => {
+    if (!clip.video) return { still: await codecs.decodeImage(clip.bytes) };
+    const frames = codecs.decodeVideo(clip.video, clip.bytes, decodeStart(clip.video, clip.start), clip.end);
+    return { frames, next: await frames.next() };
+};
+
+// The newest decoded frame at or before `time` seconds into the source; a clip whose first frame comes late shows that frame
+const frameAt = async <F>(source: ClipSource<F>, time: number, codecs: MediaCodecs<F>): Promise<F> => {
+    if (source.still !== undefined) return source.still;
+    while (source.frames && source.next && !source.next.done && (!source.current || source.next.value.timestamp <= time + FRAME_EPSILON)) {
+        if (source.current) codecs.release(source.current.frame);
+        source.current = source.next.value;
+        source.next = await source.frames.next();
+    }
+    if (!source.current) throw new Error('片段解码后没有画面');
+    return source.current.frame;
+};
+
+const closeSource = async <F>(source: ClipSource<F>, codecs: MediaCodecs<F>) => {
+    if (source.still !== undefined) codecs.release(source.still);
+    if (source.current) codecs.release(source.current.frame);
+    if (source.next && !source.next.done) codecs.release(source.next.value.frame);
+    await source.frames?.return(undefined);
+};
+
+// Walks the output frame grid. At each grid point every visible clip contributes its current frame; clips
+// are opened when they first appear and released as soon as they end, so at most two decode at once.
+const renderVideoTrack = async <F>(clips: PreparedClip[], codecs: MediaCodecs<F>, output: { width: number, height: number, frameRate: number }, onProgress?: (fraction: number) => void) => {
+    const { frameRate } = output;
+    const placements = layoutClips(clips.map(c => ({ length: c.end - c.start, gap: c.gap, crossfade: c.crossfade })));
+    const total = layoutDuration(placements);
+    const totalFrames = Math.max(1, Math.round(total * frameRate));
+    const keyInterval = Math.max(1, Math.round(KEYFRAME_INTERVAL_SECONDS * frameRate));
+    const encoder = codecs.createVideoEncoder(output);
+    const sources = new Map<number, ClipSource<F>>();
+
+    try {
+        for (let index = 0; index < totalFrames; index++) {
+            const time = index / frameRate;
+            const active = activeLayers(placements, time);
+            for (const [i, source] of sources) {
+                if (!active.some(layer => layer.index === i)) { sources.delete(i); await closeSource(source, codecs); }
+            }
+            const layers: FrameLayer<F>[] = [];
+            for (const { index: i, offset, opacity } of active) {
+                if (!sources.has(i)) sources.set(i, await openSource(clips[i], codecs));
+                layers.push({ frame: await frameAt(sources.get(i)!, clips[i].start + offset, codecs), opacity });
+            }
+            const frame = codecs.compose(layers, output.width, output.height, time);
+            try {
+                await encoder.encode(frame, index % keyInterval === 0);
+            } finally {
+                codecs.release(frame);
+            }
+            onProgress?.((index + 1) / totalFrames);
+        }
+    } finally {
+        for (const source of sources.values()) await closeSource(source, codecs);
+    }
+
+    const encoded = await encoder.finish();
+    // Durations come from the grid, accumulated so rounding never drifts
+    const samples: Mp4Sample[] = encoded.samples.map((s, i) => ({
+        offset: 0, size: s.data.length, compositionOffset: 0, isSync: s.isSync, entry: 0,
+        duration: Math.round((i + 1) * VIDEO_TIMESCALE / frameRate) - Math.round(i * VIDEO_TIMESCALE / frameRate),
+    }));
+    const track: TrackInput = { kind: 'video', timescale: VIDEO_TIMESCALE, width: output.width, height: output.height, sampleEntries: [encoded.sampleEntry], samples, data: encoded.samples.map(s => s.data) };
+    return { track, duration: total };
+};
+
+const toAudioTrack = (encoded: EncodedTrack): TrackInput => {
+    const timescale = encoded.timescale || AUDIO_SAMPLE_RATE;
+    let elapsed = 0;
+    const samples: Mp4Sample[] = encoded.samples.map(s => {
+        const start = Math.round(elapsed * timescale);
+        elapsed += s.duration || 0;
+        return { offset: 0, size: s.data.length, compositionOffset: 0, isSync: true, entry: 0, duration: Math.round(elapsed * timescale) - start };
+    });
+    return { kind: 'audio', timescale, width: 0, height: 0, sampleEntries: [encoded.sampleEntry], samples, data: encoded.samples.map(s => s.data) };
+};
+
+// --- Render ---
+
+export const renderEdit = async <F>(clips: EditClip[], settings: RenderSettings, codecs: MediaCodecs<F>): Promise<Uint8Array> => {
+    if (clips.length === 0) throw new Error('没有可渲染的片段');
+    const prepared = prepareClips(clips);
+    // Size and frame rate follow the first video clip unless set; stills alone fall back to 720p30
+    const first = prepared.find(c => c.video)?.video;
+    const width = even(settings.width || first?.width || DEFAULT_SIZE.width);
+    const height = even(settings.height || first?.height || DEFAULT_SIZE.height);
+    const frameRate = settings.frameRate || (first && Math.round(first.samples.length / trackDuration(first))) || DEFAULT_FRAME_RATE;
+
+    const video = await renderVideoTrack(prepared, codecs, { width, height, frameRate }, settings.onProgress);
+    const tracks = [video.track];
+    if (settings.audio?.length) tracks.push(toAudioTrack(await codecs.encodeAudio(mixAudio(settings.audio, video.duration))));
+    return writeMp4(tracks);
+};
+
+// Puts a mixed audio track under an existing video without re-encoding the picture. The video keeps its
+// length; audio beyond it is cut and any sound the video had is replaced.
+export const muxAudio = async (video: Uint8Array, layers: AudioLayer[], codecs: Pick<MediaCodecs<unknown>, 'encodeAudio'>): Promise<Uint8Array> => {
+    if (layers.length === 0) throw new Error('没有可合成的音频');
+    const file = readMp4(video);
+    const track = file.tracks.find(t => t.kind === 'video');
+    // Container-only videos (the mock backend's) still get their audio, over their stated length
+    const duration = track ? trackDuration(track) : file.duration;
+    if (!(duration > 0)) throw new Error('视频时长为 0，无法合成音频');
+
+    const tracks: TrackInput[] = [];
+    if (track) tracks.push({ ...track, data: track.samples.map(s => video.subarray(s.offset, s.offset + s.size)) });
+    tracks.push(toAudioTrack(await codecs.encodeAudio(mixAudio(layers, duration))));
+    return writeMp4(tracks);
+};
@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import { getMediaRecord, isMediaRef } from './storage';
+
+// One object URL per stored blob for the lifetime of the page
+const objectUrlCache = new Map<string, string>();
+const pendingLoads = new Map<string, Promise<string>>();
+
+export const getMediaObjectUrl = async (ref: string): Promise<string> => {
+    const cached = objectUrlCache.get(ref);
+    if (cached) return cached;
+    if (!pendingLoads.has(ref)) {
+        pendingLoads.set(ref, getMediaRecord(ref).then(record => {
+            if (!record) throw new Error(`Media not found: ${ref}`);
+            const url = URL.createObjectURL(record.blob);
+            objectUrlCache.set(ref, url);
+            return url;
+        }).finally(() => pendingLoads.delete(ref)));
+    }
+    return pendingLoads.get(ref)!;
+};
+
+export const revokeMediaObjectUrl = (ref: string) => {
+    const url = objectUrlCache.get(ref);
+    if (url) { URL.revokeObjectURL(url); objectUrlCache.delete(ref); }
+};
+
+// Converts a media ref back into a data URI for APIs that need inline bytes; other sources pass through
+export const resolveMediaSrc = async (src: string): Promise<string> => {
+    if (!isMediaRef(src)) return src;
+    const record = await getMediaRecord(src);
+    if (!record) throw new Error(`Media not found: ${src}`);
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = reject;
+        reader.readAsDataURL(record.blob);
+    });
+};
+
+// Raw bytes of a media ref, data URI or remote URL, for code that parses the media itself
+export const loadMediaBytes = async (src: string): Promise<Uint8Array> => {
+    if (isMediaRef(src)) {
+        const record = await getMediaRecord(src);
+        if (!record) throw new Error(`Media not found: ${src}`);
+        return new Uint8Array(await record.blob.arrayBuffer());
+    }
+    const response = await fetch(src);
+    if (!response.ok) throw new Error(`媒体下载失败（${response.status}）`);
+    return new Uint8Array(await response.arrayBuffer());
+};
+
+// Resolves media refs to object URLs for rendering. Plain URLs/data URIs are returned unchanged.
+export const useMediaUrl = (src?: string | null): string | undefined => {
+    const [resolved, setResolved] = useState<{ ref: string, url: string } | null>(null);
+
+    useEffect(() => {
+        if (!isMediaRef(src) || objectUrlCache.has(src)) return;
+        let active = true;
+        getMediaObjectUrl(src)
+            .then(url => { if (active) setResolved({ ref: src, url }); })
+            .catch(err => console.warn("Media resolve failed", err));
+        return () => { active = false; };
+    }, [src]);
+
+    if (!src) return undefined;
+    if (!isMediaRef(src)) return src;
+    return objectUrlCache.get(src) || (resolved?.ref === src ? resolved.url : undefined);
+};
+
+// True for a media ref this browser has no blob for, e.g. media a collaborator generated on their own device
+export const useMediaMissing = (src?: string | null): boolean => {
+    const [missing, setMissing] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isMediaRef(src) || objectUrlCache.has(src)) return;
+        let active = true;
+        getMediaRecord(src)
+            .then(record => { if (active && !record) setMissing(src); })
+            .catch(() => {});
+        return () => { active = false; };
+    }, [src]);
+
+    return !!src && missing === src;
+};
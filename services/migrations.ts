@@ -0,0 +1,97 @@
+import { NodeType, NodeStatus } from '../types';
+
+// Every persisted record carries the schema version it was written with.
+// Records written before versioning existed (the old `app_data` blobs) count as version 1.
+export const CURRENT_SCHEMA_VERSION = 3;
+
+export type RecordStore = 'projects' | 'nodes' | 'assets' | 'workflows';
+
+type Migration = (record: any) => any;
+
+// --- Migration Registry ---
+// MIGRATIONS[store][v] upgrades a record from version v to v + 1.
+// Add a new entry (and bump CURRENT_SCHEMA_VERSION) whenever a persisted shape changes.
+
+const migrateNodeV1 = (node: any) => ({
+    ...node,
+    inputs: Array.isArray(node.inputs) ? node.inputs : [],
+    data: {
+        ...node.data,
+        // App.tsx always wrote 'DEFAULT' but Node.tsx used to fall back to 'CONTINUE' for unset modes
+        generationMode: node.type === NodeType.VIDEO_GENERATOR ? (node.data?.generationMode || 'DEFAULT') : node.data?.generationMode,
+    },
+    // A node saved mid-generation can never finish; reset it instead of showing a spinner forever
+    status: node.status === NodeStatus.WORKING ? NodeStatus.IDLE : node.status,
+});
+
+const MIGRATIONS: Record<RecordStore, Record<number, Migration>> = {
+    projects: {
+        1: (p) => ({ ...p, connections: p.connections || [], groups: p.groups || [] }),
+        2: (p) => ({ ...p, viewport: p.viewport || { x: 0, y: 0, scale: 1 }, lastOpenedAt: p.lastOpenedAt || p.updatedAt || Date.now() }),
+    },
+    nodes: {
+        1: migrateNodeV1,
+    },
+    assets: {
+        1: (a) => ({ ...a, timestamp: a.timestamp || Date.now(), title: a.title || 'Untitled' }),
+        // Asset history became per-project; everything older belonged to the single global canvas
+        2: (a) => ({ ...a, projectId: a.projectId || 'default' }),
+    },
+    workflows: {
+        1: (w) => ({ ...w, nodes: (w.nodes || []).map(migrateNodeV1), connections: w.connections || [], groups: w.groups || [], thumbnail: w.thumbnail || '' }),
+    },
+};
+
+// Returns the upgraded record and whether anything changed (so callers know to write it back)
+export const migrateRecord = (store: RecordStore, record: any): { record: any, migrated: boolean } => {
+    let version = record?.schemaVersion || 1;
+    if (version >= CURRENT_SCHEMA_VERSION) return { record, migrated: false };
+    let current = record;
+    while (version < CURRENT_SCHEMA_VERSION) {
+        const step = MIGRATIONS[store][version];
+        if (step) current = step(current);
+        version++;
+    }
+    return { record: { ...current, schemaVersion: CURRENT_SCHEMA_VERSION }, migrated: true };
+};
+
+// --- Validation ---
+// Returns a reason string when the record is unusable, or null when it is fine.
+
+const NODE_TYPES = Object.values(NodeType) as string[];
+const isObject = (v: unknown): v is Record<string, any> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isFiniteNumber = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+
+const validateNodeShape = (n: any): string | null => {
+    if (!isObject(n)) return 'not an object';
+    if (typeof n.id !== 'string' || !n.id) return 'missing id';
+    if (!NODE_TYPES.includes(n.type)) return `unknown node type "${n.type}"`;
+    if (!isFiniteNumber(n.x) || !isFiniteNumber(n.y)) return 'invalid position';
+    if (!isObject(n.data)) return 'missing data';
+    if (!Array.isArray(n.inputs) || n.inputs.some((i: unknown) => typeof i !== 'string')) return 'invalid inputs';
+    return null;
+};
+
+const VALIDATORS: Record<RecordStore, (record: any) => string | null> = {
+    projects: (p) => {
+        if (!isObject(p) || typeof p.id !== 'string') return 'missing id';
+        if (!Array.isArray(p.connections) || !Array.isArray(p.groups)) return 'invalid connections/groups';
+        if (!isObject(p.viewport) || !isFiniteNumber(p.viewport.x) || !isFiniteNumber(p.viewport.y) || !isFiniteNumber(p.viewport.scale)) return 'invalid viewport';
+        return null;
+    },
+    nodes: validateNodeShape,
+    assets: (a) => {
+        if (!isObject(a) || typeof a.id !== 'string') return 'missing id';
+        if (!['image', 'video', 'audio'].includes(a.type)) return `unknown asset type "${a.type}"`;
+        if (typeof a.src !== 'string' || !a.src) return 'missing src';
+        return null;
+    },
+    workflows: (w) => {
+        if (!isObject(w) || typeof w.id !== 'string') return 'missing id';
+        if (!Array.isArray(w.nodes)) return 'missing nodes';
+        const badNode = w.nodes.map(validateNodeShape).find((r: string | null) => r);
+        return badNode ? `invalid node: ${badNode}` : null;
+    },
+};
+
+export const validateRecord = (store: RecordStore, record: any): string | null => VALIDATORS[store](record);
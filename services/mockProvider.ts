@@ -0,0 +1,113 @@
+import { hashContent } from "./nodeHash";
+import type { AnalysisRequest, AudioRequest, GenerationProvider, ImageRequest, ImageResult, ModelInfo, TextRequest, VideoRequest, VideoResult } from "./providers";
+
+// --- Offline mock provider ---
+// Returns placeholder media derived only from the request, so the same prompt and options always produce
+// the same output. Needs no key and no network; used for offline work and for exercising the pipeline.
+
+const MOCK_LATENCY_MS = 600;
+const ASPECT_RATIOS = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+const MOCK_MODELS: ModelInfo[] = [
+    { id: 'mock-image', label: 'Mock Image', provider: 'mock', capability: 'image', aspectRatios: ASPECT_RATIOS, resolutions: ['1k'], maxCount: 4 },
+    { id: 'mock-video', label: 'Mock Video', provider: 'mock', capability: 'video', aspectRatios: ASPECT_RATIOS, resolutions: ['720p'], durations: [4, 8], maxCount: 4 },
+    { id: 'mock-audio', label: 'Mock Audio', provider: 'mock', capability: 'audio' },
+    { id: 'mock-text', label: 'Mock Text', provider: 'mock', capability: 'text' },
+    { id: 'mock-analysis', label: 'Mock Analysis', provider: 'mock', capability: 'analysis' },
+];
+
+// --- Helpers ---
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Stable 32-bit seed for a request
+const seedOf = (...parts: unknown[]) => parseInt(hashContent(JSON.stringify(parts)).slice(0, 6), 36);
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+    return btoa(binary);
+};
+
+const escapeXml = (s: string) => s.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+const placeholderImage = (label: string, prompt: string, aspectRatio: string = '16:9', seed: number) => {
+    const [rw, rh] = aspectRatio.split(':').map(Number);
+    const width = 1024;
+    const height = Math.round(width * (rh || 9) / (rw || 16));
+    const hue = seed % 360;
+    const caption = escapeXml(prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt);
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+        + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hue},70%,45%)"/><stop offset="1" stop-color="hsl(${(hue + 140) % 360},70%,25%)"/></linearGradient></defs>`
+        + `<rect width="100%" height="100%" fill="url(#g)"/>`
+        + `<text x="50%" y="45%" text-anchor="middle" font-family="sans-serif" font-size="48" font-weight="bold" fill="rgba(255,255,255,0.85)">${escapeXml(label)}</text>`
+        + `<text x="50%" y="58%" text-anchor="middle" font-family="sans-serif" font-size="24" fill="rgba(255,255,255,0.6)">${caption}</text>`
+        + `</svg>`;
+    return `data:image/svg+xml;base64,${bytesToBase64(new TextEncoder().encode(svg))}`;
+};
+
+// 16-bit mono PCM sine tone wrapped in a WAV header
+const toneWav = (frequency: number, seconds: number, sampleRate: number = 8000) => {
+    const samples = Math.floor(seconds * sampleRate);
+    const buffer = new ArrayBuffer(44 + samples * 2);
+    const view = new DataView(buffer);
+    const writeString = (offset: number, s: string) => { for (let i = 0; i < s.length; i++) view.setUint8(offset + i, s.charCodeAt(i)); };
+    writeString(0, 'RIFF'); view.setUint32(4, 36 + samples * 2, true); writeString(8, 'WAVE');
+    writeString(12, 'fmt '); view.setUint32(16, 16, true); view.setUint16(20, 1, true); view.setUint16(22, 1, true);
+    view.setUint32(24, sampleRate, true); view.setUint32(28, sampleRate * 2, true); view.setUint16(32, 2, true); view.setUint16(34, 16, true);
+    writeString(36, 'data'); view.setUint32(40, samples * 2, true);
+    for (let i = 0; i < samples; i++) {
+        view.setInt16(44 + i * 2, Math.round(Math.sin(2 * Math.PI * frequency * i / sampleRate) * 0.3 * 0x7fff), true);
+    }
+    return `data:audio/wav;base64,${bytesToBase64(new Uint8Array(buffer))}`;
+};
+
+// --- Provider ---
+
+const generateImage = async (req: ImageRequest): Promise<ImageResult> => {
+    await wait(MOCK_LATENCY_MS);
+    const count = req.count || 1;
+    const images: string[] = [];
+    for (let i = 0; i < count; i++) {
+        images.push(placeholderImage(count > 1 ? `MOCK ${i + 1}/${count}` : 'MOCK', req.prompt, req.aspectRatio, seedOf(req.prompt, req.aspectRatio, req.inputImages?.length || 0, i)));
+        req.onProgress?.(i + 1, count);
+    }
+    return { images, errors: [] };
+};
+
+// There is no video encoder to call offline, so the mock answers with a still frame the same way a region-restricted Veo call does
+const generateVideo = async (req: VideoRequest): Promise<VideoResult> => {
+    await wait(MOCK_LATENCY_MS);
+    const count = req.count || 1;
+    const uris = Array.from({ length: count }, (_, i) =>
+        placeholderImage(count > 1 ? `MOCK VIDEO ${i + 1}/${count}` : `MOCK VIDEO ${req.duration || 4}s`, req.prompt, req.aspectRatio, seedOf(req.prompt, req.aspectRatio, req.generationMode, i)));
+    return { uri: uris[0], uris, isFallbackImage: true, notice: '离线模拟：视频以占位图代替' };
+};
+
+const generateAudio = async (req: AudioRequest): Promise<string> => {
+    await wait(MOCK_LATENCY_MS);
+    return toneWav(220 + seedOf(req.prompt) % 660, 1.5);
+};
+
+const generateText = async (req: TextRequest): Promise<string> => {
+    await wait(MOCK_LATENCY_MS);
+    return `[Mock ${seedOf(req.prompt, req.systemInstruction).toString(16)}] ${req.prompt}`;
+};
+
+const analyzeVideo = async (req: AnalysisRequest): Promise<string> => {
+    await wait(MOCK_LATENCY_MS);
+    return `[Mock analysis ${seedOf(req.prompt, req.video.length).toString(16)}] ${req.prompt}`;
+};
+
+export const mockProvider: GenerationProvider = {
+    id: 'mock',
+    label: '离线模拟',
+    models: MOCK_MODELS,
+    isConfigured: () => true,
+    maxConcurrentJobs: 4,
+    generateImage,
+    generateVideo,
+    generateAudio,
+    generateText,
+    analyzeVideo,
+};
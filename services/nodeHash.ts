@@ -0,0 +1,94 @@
+import { AppNode, Connection, NodeType } from '../types';
+import { buildUpstreamMap } from './graphExecutor';
+
+type NodeData = AppNode['data'];
+
+// --- Hashing ---
+
+// cyrb53: fast non-cryptographic 53-bit string hash, good enough for change detection
+const cyrb53 = (str: string, seed: number = 0): string => {
+    let h1 = 0xdeadbeef ^ seed, h2 = 0x41c6ce57 ^ seed;
+    for (let i = 0; i < str.length; i++) {
+        const ch = str.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+export const hashContent = (content: string): string => cyrb53(content);
+
+// --- Node Hashes ---
+
+// Inline media payloads are multi-megabyte base64 strings. Node data is replaced, never mutated, on every edit,
+// so hashes are cached per data object and drop out together with it; recomputing on every render stays cheap.
+const outputHashCache = new WeakMap<NodeData, string>();
+const paramsCache = new WeakMap<NodeData, unknown[]>();
+
+const cached = <T>(cache: WeakMap<NodeData, T>, data: NodeData, compute: () => T): T => {
+    if (!cache.has(data)) cache.set(data, compute());
+    return cache.get(data)!;
+};
+
+export const hasNodeOutput = (node: AppNode): boolean => {
+    if (node.type === NodeType.PROMPT_INPUT) return !!node.data.prompt;
+    return !!(node.data.image || node.data.videoUri || node.data.audioUri || node.data.analysis);
+};
+
+// Hash of what a node hands to its dependents
+export const getOutputHash = (node: AppNode): string => {
+    const d = node.data;
+    if (node.type === NodeType.PROMPT_INPUT) return hashContent(d.prompt || '');
+    return cached(outputHashCache, d, () => hashContent([d.image, d.videoUri, d.audioUri, d.analysis, d.croppedFrame].map(v => v ? hashContent(v) : '').join('|')));
+};
+
+const getParams = (node: AppNode): unknown[] => cached(paramsCache, node.data, () => {
+    const d = node.data;
+    const params: unknown[] = [d.prompt, d.model, d.aspectRatio, d.resolution, d.generationMode, d.imageCount, d.videoCount, d.croppedFrame ? hashContent(d.croppedFrame) : ''];
+    // Per-type settings only join when present, so the hashes of other nodes stay as they were
+    if (d.timeline) params.push(hashContent(JSON.stringify(d.timeline)));
+    if (d.audioMerge) params.push(hashContent(JSON.stringify(d.audioMerge)));
+    if (d.sortedInputIds) params.push(d.sortedInputIds.join(','));
+    return params;
+});
+
+// Hash of everything that determines a node's result: its own params plus the outputs of its inputs, in input order.
+// An input that is stale itself contributes its pending hash instead of its output, since re-running it will change
+// that output; staleness thus reaches every node downstream, not just the direct dependents.
+export const computeNodeHashes = (nodes: AppNode[], connections: Connection[]): Map<string, string> => {
+    const upstream = buildUpstreamMap(nodes, connections);
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const hashes = new Map<string, string>();
+    const visiting = new Set<string>();
+
+    const hashOf = (node: AppNode): string => {
+        const known = hashes.get(node.id);
+        if (known !== undefined) return known;
+        visiting.add(node.id);
+        const upstreamOutputs = (upstream.get(node.id) || []).map(id => {
+            const input = byId.get(id)!;
+            if (visiting.has(id)) return getOutputHash(input); // A cycle; never runs anyway
+            const inputHash = hashOf(input);
+            return isNodeStale(input, inputHash) ? `pending:${inputHash}` : getOutputHash(input);
+        });
+        visiting.delete(node.id);
+        const h = hashContent(JSON.stringify([[node.type, ...getParams(node)], upstreamOutputs]));
+        hashes.set(node.id, h);
+        return h;
+    };
+
+    nodes.forEach(hashOf);
+    return hashes;
+};
+
+// A node is stale when it produced output before but its current inputs no longer match the run that produced it
+export const isNodeStale = (node: AppNode, currentHash: string | undefined): boolean => {
+    if (node.type === NodeType.PROMPT_INPUT || !node.data.runHash || !currentHash) return false;
+    return hasNodeOutput(node) && node.data.runHash !== currentHash;
+};
+
+export const isNodeUpToDate = (node: AppNode, currentHash: string | undefined): boolean => {
+    return !!currentHash && node.data.runHash === currentHash && hasNodeOutput(node);
+};
@@ -0,0 +1,120 @@
+import { resolveMediaSrc } from "./mediaResolver";
+import { recordUsage } from "./usage";
+import { requireResults, runBatch, successSlots } from "./batch";
+import type { VariantError } from "../types";
+import type { GenerationProvider, ModelInfo, VideoPoll, VideoRequest, VideoResult } from "./providers";
+
+// --- Pollo.ai (Wan video models) ---
+// Generation is asynchronous: a task is created, then its status is polled until the clip is ready.
+
+const POLLO_API_BASE = 'https://pollo.ai/api/platform';
+const POLL_INTERVAL_MS = 5000;
+const POLL_TIMEOUT_MS = 10 * 60 * 1000;
+
+const POLLO_ASPECT_RATIOS = ['16:9', '9:16', '1:1'];
+
+const POLLO_MODELS: ModelInfo[] = [
+    { id: 'wan-2.1-t2v-14b', label: 'Wan 2.1 (Animate)', provider: 'pollo', capability: 'video', aspectRatios: POLLO_ASPECT_RATIOS, resolutions: ['480p', '720p'], durations: [5], maxCount: 4 },
+    { id: 'wan-2.5-preview', label: 'Wan 2.5', provider: 'pollo', capability: 'video', aspectRatios: POLLO_ASPECT_RATIOS, resolutions: ['480p', '720p', '1080p'], durations: [5, 10], maxCount: 4 },
+];
+
+// Model id -> generation endpoint path
+const MODEL_ENDPOINTS: Record<string, string> = {
+    'wan-2.1-t2v-14b': 'wanx/wan-v2-1',
+    'wan-2.5-preview': 'wanx/wan-v2-5-preview',
+};
+
+interface PolloGeneration {
+    id: string;
+    status: 'waiting' | 'processing' | 'succeed' | 'failed';
+    url?: string;
+    failMsg?: string;
+}
+
+// --- Helpers ---
+
+const getPolloKey = () => localStorage.getItem('pollo_api_key');
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const polloFetch = async (path: string, init: RequestInit = {}) => {
+    const key = getPolloKey();
+    if (!key) throw new Error("Pollo API Key is missing. Please add it in Settings.");
+    const res = await fetch(`${POLLO_API_BASE}${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', 'x-api-key': key, ...(init.headers || {}) },
+    });
+    const body = await res.json().catch(() => null);
+    if (!res.ok || (body && body.code && body.code !== 'SUCCESS')) {
+        throw new Error(`Pollo: ${body?.message || res.statusText || res.status}`);
+    }
+    return body?.data;
+};
+
+const createTask = async (req: VideoRequest): Promise<string> => {
+    const endpoint = MODEL_ENDPOINTS[req.model];
+    if (!endpoint) throw new Error(`Pollo does not support model "${req.model}"`);
+
+    const input: Record<string, any> = {
+        prompt: req.prompt,
+        resolution: req.resolution || '720p',
+        length: req.duration || 5,
+        aspectRatio: req.aspectRatio || '16:9',
+    };
+    const image = req.inputImage || req.referenceImages?.[0];
+    if (image) input.image = await resolveMediaSrc(image);
+
+    const data = await polloFetch(`/generation/${endpoint}`, { method: 'POST', body: JSON.stringify({ input }) });
+    if (!data?.taskId) throw new Error("Pollo did not return a task id");
+    return data.taskId;
+};
+
+// One status check; throws when the task failed
+const checkTask = async (taskId: string): Promise<VideoPoll> => {
+    const data = await polloFetch(`/generation/${taskId}/status`);
+    const generation: PolloGeneration | undefined = data?.generations?.[0];
+    if (generation?.status === 'failed') throw new Error(`Pollo generation failed: ${generation.failMsg || 'unknown reason'}`);
+    if (generation?.status === 'succeed' && generation.url) return { done: true, uri: generation.url };
+    return { done: false };
+};
+
+const pollTask = async (taskId: string): Promise<string> => {
+    const deadline = Date.now() + POLL_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+        await wait(POLL_INTERVAL_MS);
+        const res = await checkTask(taskId);
+        if (res.done) return res.uri!;
+    }
+    throw new Error("Pollo generation timed out");
+};
+
+// --- Provider ---
+
+const startTasks = async (req: VideoRequest): Promise<{ operations: string[], errors: VariantError[] }> => {
+    const count = req.count || 1;
+    const outcome = await runBatch(count, count, () => createTask(req));
+    const operations = requireResults(outcome, "Video generation failed.");
+    recordUsage({ provider: 'pollo', model: req.model, modality: 'video', resolution: req.resolution || '720p', videoSeconds: (req.duration || 5) * operations.length, usage: req.usage });
+    return { operations, errors: outcome.errors };
+};
+
+const generateVideo = async (req: VideoRequest): Promise<VideoResult> => {
+    const started = await startTasks(req);
+    const slots = successSlots(req.count || 1, started.errors);
+    const polled = await runBatch(started.operations.length, started.operations.length, k => pollTask(started.operations[k]));
+    const uris = requireResults(polled, "Video generation failed.");
+    const errors = [...started.errors, ...polled.errors.map(e => ({ ...e, index: slots[e.index] }))].sort((a, b) => a.index - b.index);
+    return { uri: uris[0], uris, errors };
+};
+
+export const polloProvider: GenerationProvider = {
+    id: 'pollo',
+    label: 'Pollo.ai',
+    models: POLLO_MODELS,
+    isConfigured: () => !!getPolloKey(),
+    maxConcurrentJobs: 2,
+    pollIntervalMs: POLL_INTERVAL_MS,
+    generateVideo,
+    startVideo: startTasks,
+    pollVideo: checkTask,
+};
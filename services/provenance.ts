@@ -0,0 +1,313 @@
+import { zip, strToU8, Zippable } from 'fflate';
+import { Asset, AssetProvenance } from '../types';
+import { getProviderForModel } from './providers';
+import { RunParams } from './runHistory';
+import { dataUriToBlob, getMediaRecord, isDataUri, isMediaRef } from './storage';
+
+// --- Asset provenance ---
+// Every generated asset records the model, prompts, settings and input media that produced it. Exported
+// files carry the record twice: embedded in the file (PNG tEXt chunk, MP4 moov/udta box) and as a sidecar JSON.
+
+const SOFTWARE = 'SUNSTUDIO';
+export const LOCAL_PROVIDER = 'local'; // Rendered in the browser from other assets, not by a generation service
+const PNG_KEYWORD = 'Provenance';
+
+interface ProvenanceSource {
+    params: RunParams; // Node settings of the run
+    provider?: string; // Defaults to the provider of params.model
+    edit?: AssetProvenance['edit'];
+    sentPrompt?: string;
+    generationMode?: AssetProvenance['generationMode']; // Mode the video strategy actually used
+    inputs?: (string | null | undefined)[];
+    nodeId?: string;
+    projectId?: string;
+}
+
+// Only refs and URLs identify an input; inline data URIs would bloat every asset record
+const isTraceable = (src: string | null | undefined): src is string => isMediaRef(src) || /^https?:\/\//.test(src || '');
+
+export const buildProvenance = ({ params, provider, edit, sentPrompt, generationMode, inputs = [], nodeId, projectId }: ProvenanceSource): AssetProvenance => ({
+    provider: provider || getProviderForModel(params.model).id,
+    model: params.model,
+    prompt: params.prompt,
+    sentPrompt,
+    params: { aspectRatio: params.aspectRatio, resolution: params.resolution, duration: params.duration, count: params.imageCount || params.videoCount },
+    generationMode: generationMode || params.generationMode,
+    inputs: [...new Set(inputs.filter(isTraceable))],
+    edit,
+    nodeId,
+    projectId,
+    createdAt: Date.now(),
+});
+
+// JSON with every non-ASCII character escaped, so it fits Latin-1 tEXt chunks and QuickTime text atoms
+const serialize = (provenance: AssetProvenance) =>
+    JSON.stringify(provenance).replace(/[\u007f-\uffff]/g, c => `\\u${c.charCodeAt(0).toString(16).padStart(4, '0')}`);
+
+// --- Bytes ---
+
+const ascii = (s: string) => Uint8Array.from(s, c => c.charCodeAt(0));
+
+const latin1 = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+const concat = (parts: Uint8Array[]) => {
+    const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let offset = 0;
+    parts.forEach(p => { out.set(p, offset); offset += p.length; });
+    return out;
+};
+
+const u32 = (n: number) => { const b = new Uint8Array(4); new DataView(b.buffer).setUint32(0, n); return b; };
+
+const viewOf = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+// --- PNG ---
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+    let c = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+    return (c ^ 0xffffffff) >>> 0;
+};
+
+export const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+
+interface PngChunk { type: string; start: number; end: number; data: Uint8Array }
+
+const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+    const view = viewOf(bytes);
+    const chunks: PngChunk[] = [];
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 12 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const end = offset + 12 + length;
+        if (end > bytes.length) throw new Error('Malformed PNG chunk');
+        chunks.push({ type: latin1(bytes.subarray(offset + 4, offset + 8)), start: offset, end, data: bytes.subarray(offset + 8, offset + 8 + length) });
+        offset = end;
+    }
+    return chunks;
+};
+
+const textChunk = (keyword: string, text: string) => {
+    const typeAndData = concat([ascii('tEXt'), ascii(keyword), new Uint8Array(1), ascii(text)]);
+    return concat([u32(typeAndData.length - 4), typeAndData, u32(crc32(typeAndData))]);
+};
+
+const isOwnTextChunk = (chunk: PngChunk) => {
+    if (chunk.type !== 'tEXt') return false;
+    const keyword = latin1(chunk.data.subarray(0, chunk.data.indexOf(0)));
+    return keyword === PNG_KEYWORD || keyword === 'Software';
+};
+
+// Adds Software + Provenance tEXt chunks before IEND, replacing the ones of an earlier export
+export const embedPngProvenance = (bytes: Uint8Array, provenance: AssetProvenance): Uint8Array => {
+    if (!isPng(bytes)) throw new Error('Not a PNG file');
+    const chunks = readPngChunks(bytes);
+    const iend = chunks.find(c => c.type === 'IEND');
+    if (!iend) throw new Error('PNG has no IEND chunk');
+    return concat([
+        bytes.subarray(0, PNG_SIGNATURE.length),
+        ...chunks.filter(c => c !== iend && !isOwnTextChunk(c)).map(c => bytes.subarray(c.start, c.end)),
+        textChunk('Software', SOFTWARE),
+        textChunk(PNG_KEYWORD, serialize(provenance)),
+        bytes.subarray(iend.start, iend.end),
+    ]);
+};
+
+// --- MP4 ---
+
+interface Mp4Box { type: string; start: number; headerSize: number; end: number }
+
+const readBoxes = (bytes: Uint8Array, start: number, end: number): Mp4Box[] => {
+    const view = viewOf(bytes);
+    const boxes: Mp4Box[] = [];
+    let offset = start;
+    while (offset + 8 <= end) {
+        let size = view.getUint32(offset);
+        let headerSize = 8;
+        if (size === 1) { size = view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12); headerSize = 16; }
+        else if (size === 0) size = end - offset; // Box runs to the end of the file
+        if (size < headerSize || offset + size > end) throw new Error('Malformed MP4 box');
+        boxes.push({ type: latin1(bytes.subarray(offset + 4, offset + 8)), start: offset, headerSize, end: offset + size });
+        offset += size;
+    }
+    return boxes;
+};
+
+const box = (type: string, ...payload: Uint8Array[]) => {
+    const body = concat(payload);
+    return concat([u32(body.length + 8), ascii(type), body]);
+};
+
+// QuickTime user data text atom: 16-bit length, 16-bit language code (0 = English), text
+const textAtom = (type: string, text: string) => {
+    if (text.length > 0xffff) throw new Error('Provenance too large for an MP4 text atom');
+    const header = new Uint8Array(4);
+    viewOf(header).setUint16(0, text.length);
+    return box(type, header, ascii(text));
+};
+
+const OWN_ATOMS = ['©too', '©cmt'];
+const CHUNK_OFFSET_PATH = ['trak', 'mdia', 'minf', 'stbl'];
+
+// Sample tables address media by absolute file offset, so growing a moov that precedes mdat moves every chunk
+const shiftChunkOffsets = (moov: Uint8Array, delta: number) => {
+    const view = viewOf(moov);
+    const visit = (start: number, end: number, depth: number) => readBoxes(moov, start, end).forEach(b => {
+        if (depth < CHUNK_OFFSET_PATH.length) {
+            if (b.type === CHUNK_OFFSET_PATH[depth]) visit(b.start + b.headerSize, b.end, depth + 1);
+            return;
+        }
+        const table = b.start + b.headerSize + 8; // After version/flags and entry count
+        const count = b.type === 'stco' || b.type === 'co64' ? view.getUint32(table - 4) : 0;
+        for (let i = 0; i < count; i++) {
+            if (b.type === 'stco') {
+                view.setUint32(table + i * 4, view.getUint32(table + i * 4) + delta);
+            } else {
+                const at = table + i * 8;
+                const value = view.getUint32(at) * 2 ** 32 + view.getUint32(at + 4) + delta;
+                view.setUint32(at, Math.floor(value / 2 ** 32));
+                view.setUint32(at + 4, value >>> 0);
+            }
+        }
+    });
+    visit(8, moov.length, 0);
+};
+
+export const isMp4 = (bytes: Uint8Array) => bytes.length >= 8 && latin1(bytes.subarray(4, 8)) === 'ftyp';
+
+// Writes ©too/©cmt text atoms into moov/udta (created if missing) and fixes up sizes and chunk offsets
+export const embedMp4Provenance = (bytes: Uint8Array, provenance: AssetProvenance): Uint8Array => {
+    if (!isMp4(bytes)) throw new Error('Not an MP4 file');
+    const top = readBoxes(bytes, 0, bytes.length);
+    const moov = top.find(b => b.type === 'moov');
+    if (!moov) throw new Error('MP4 has no moov box');
+
+    const children = readBoxes(bytes, moov.start + moov.headerSize, moov.end);
+    const udta = children.find(b => b.type === 'udta');
+    const kept = udta ? readBoxes(bytes, udta.start + udta.headerSize, udta.end).filter(b => !OWN_ATOMS.includes(b.type)) : [];
+    const newUdta = box('udta',
+        ...kept.map(b => bytes.subarray(b.start, b.end)),
+        textAtom('©too', SOFTWARE),
+        textAtom('©cmt', serialize(provenance)),
+    );
+    const newMoov = box('moov', ...children.filter(b => b !== udta).map(b => bytes.subarray(b.start, b.end)), newUdta);
+
+    const delta = newMoov.length - (moov.end - moov.start);
+    const firstMdat = top.find(b => b.type === 'mdat');
+    if (delta !== 0 && firstMdat && firstMdat.start > moov.start) shiftChunkOffsets(newMoov, delta);
+    return concat([bytes.subarray(0, moov.start), newMoov, bytes.subarray(moov.end)]);
+};
+
+// --- Reading back ---
+
+const parseProvenance = (json: string): AssetProvenance | undefined => {
+    try { return JSON.parse(json); } catch { return undefined; }
+};
+
+export const readEmbeddedProvenance = (bytes: Uint8Array): AssetProvenance | undefined => {
+    if (isPng(bytes)) {
+        const chunk = readPngChunks(bytes).find(c => c.type === 'tEXt' && isOwnTextChunk(c) && latin1(c.data.subarray(0, PNG_KEYWORD.length)) === PNG_KEYWORD);
+        return chunk && parseProvenance(latin1(chunk.data.subarray(PNG_KEYWORD.length + 1)));
+    }
+    if (isMp4(bytes)) {
+        const moov = readBoxes(bytes, 0, bytes.length).find(b => b.type === 'moov');
+        const udta = moov && readBoxes(bytes, moov.start + moov.headerSize, moov.end).find(b => b.type === 'udta');
+        const comment = udta && readBoxes(bytes, udta.start + udta.headerSize, udta.end).find(b => b.type === '©cmt');
+        if (!comment) return undefined;
+        const length = viewOf(bytes).getUint16(comment.start + comment.headerSize);
+        const text = comment.start + comment.headerSize + 4;
+        return parseProvenance(latin1(bytes.subarray(text, text + length)));
+    }
+    return undefined;
+};
+
+// --- Export ---
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/svg+xml': 'svg',
+    'video/mp4': 'mp4', 'video/webm': 'webm', 'audio/wav': 'wav', 'audio/mpeg': 'mp3',
+};
+
+const loadAssetBlob = async (src: string): Promise<Blob> => {
+    if (isMediaRef(src)) {
+        const record = await getMediaRecord(src);
+        if (!record) throw new Error(`Media not found: ${src}`);
+        return record.blob;
+    }
+    if (isDataUri(src)) return dataUriToBlob(src);
+    const res = await fetch(src);
+    if (!res.ok) throw new Error(`素材下载失败 (${res.status})`);
+    return res.blob();
+};
+
+const safeFilename = (title: string) => title.replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 60) || 'asset';
+
+export interface ProvenanceExport {
+    file: Blob;
+    filename: string;
+    sidecar: Blob;
+    sidecarFilename: string;
+}
+
+// The asset file with provenance embedded where the format allows it, plus `<name>.json` next to it.
+// Files that cannot be rewritten are exported unchanged; the sidecar still carries the record.
+export const exportAssetWithProvenance = async (asset: Asset, basename: string = safeFilename(asset.title)): Promise<ProvenanceExport> => {
+    const blob = await loadAssetBlob(asset.src);
+    let bytes = new Uint8Array(await blob.arrayBuffer());
+    const type = isPng(bytes) ? 'image/png' : isMp4(bytes) ? 'video/mp4' : blob.type;
+    if (asset.provenance) {
+        try {
+            if (type === 'image/png') bytes = embedPngProvenance(bytes, asset.provenance);
+            else if (type === 'video/mp4') bytes = embedMp4Provenance(bytes, asset.provenance);
+        } catch (e) {
+            console.warn("Embedding provenance failed, exporting the file unchanged", e);
+        }
+    }
+    const filename = `${basename}.${EXTENSIONS[type] || asset.type}`;
+    const sidecar = {
+        software: SOFTWARE,
+        file: filename,
+        asset: { id: asset.id, type: asset.type, title: asset.title, timestamp: asset.timestamp },
+        provenance: asset.provenance || null,
+    };
+    return {
+        file: new Blob([bytes], { type }),
+        filename,
+        sidecar: new Blob([JSON.stringify(sidecar, null, 2)], { type: 'application/json' }),
+        sidecarFilename: `${filename}.json`,
+    };
+};
+
+const zipAsync = (files: Zippable) => new Promise<Uint8Array>((resolve, reject) => {
+    zip(files, (err, data) => err ? reject(err) : resolve(data));
+});
+
+// Several assets as one zip of files and sidecars. Assets that cannot be loaded are skipped.
+export const exportAssetBundle = async (assets: Asset[]): Promise<{ blob: Blob, failed: number }> => {
+    const files: Zippable = {};
+    const used = new Set<string>();
+    let failed = 0;
+    for (const asset of assets) {
+        let basename = safeFilename(asset.title);
+        for (let i = 2; used.has(basename); i++) basename = `${safeFilename(asset.title)}-${i}`;
+        try {
+            const { file, filename, sidecar, sidecarFilename } = await exportAssetWithProvenance(asset, basename);
+            files[filename] = [new Uint8Array(await file.arrayBuffer()), { level: 0 }];
+            files[sidecarFilename] = strToU8(await sidecar.text());
+            used.add(basename);
+        } catch (e) {
+            console.warn("Asset export failed", asset.id, e);
+            failed++;
+        }
+    }
+    if (used.size === 0) throw new Error('没有可导出的素材');
+    return { blob: new Blob([await zipAsync(files)], { type: 'application/zip' }), failed };
+};
@@ -0,0 +1,165 @@
+import type { VariantError, VideoGenerationMode } from '../types';
+import { geminiProvider } from './geminiService';
+import { polloProvider } from './polloService';
+import { mockProvider } from './mockProvider';
+import type { UsageTag } from './usage';
+import type { BatchProgress } from './batch';
+
+// --- Generation providers ---
+// Every backend (Gemini, Pollo, the offline mock) exposes the same shape. Nodes only store a model id;
+// the registry finds the provider that owns it and checks it can serve the requested capability.
+
+export type ProviderId = 'gemini' | 'pollo' | 'mock';
+export type ProviderCapability = 'image' | 'video' | 'audio' | 'text' | 'analysis';
+
+export interface ModelInfo {
+    id: string;
+    label: string;
+    provider: ProviderId;
+    capability: ProviderCapability;
+    aspectRatios?: string[];
+    resolutions?: string[];
+    durations?: number[]; // Seconds; only for video/audio models with selectable length
+    maxCount?: number;
+    extendsVideo?: boolean; // Can continue a clip it generated earlier (VideoRequest.videoInput)
+}
+
+export interface ImageRequest {
+    prompt: string;
+    model: string;
+    inputImages?: string[];
+    aspectRatio?: string;
+    resolution?: string;
+    count?: number;
+    usage?: UsageTag; // Where the call is booked in the usage ledger
+    onProgress?: BatchProgress; // Called as each of the `count` variants settles
+}
+
+// Variants that failed are listed in `errors`; the call only throws when none succeeded
+export interface ImageResult {
+    images: string[];
+    errors: VariantError[];
+}
+
+export interface VideoRequest {
+    prompt: string;
+    model: string;
+    aspectRatio?: string;
+    resolution?: string;
+    duration?: number;
+    count?: number;
+    generationMode?: VideoGenerationMode;
+    inputImage?: string | null;
+    videoInput?: any; // Provider's own video object (VideoResult.videoMetadata) to extend
+    referenceImages?: string[];
+    usage?: UsageTag;
+}
+
+export interface VideoResult {
+    uri: string;
+    uris?: string[];
+    videoMetadata?: any; // Provider's video object of the first variant; once stored, `mediaRef` names that variant's media
+    isFallbackImage?: boolean; // The provider returned a still image instead of a video
+    notice?: string; // Shown on the node when the result is not what was asked for
+    errors?: VariantError[]; // Variants that failed while others succeeded
+}
+
+// Long-running video: providers that hand out operation ids can be polled again after a reload
+// `errors` are the slots whose submission failed; operations[k] belongs to the k-th remaining slot
+export type VideoStart = { operations: string[], errors?: VariantError[] } | { result: VideoResult };
+
+export interface VideoPoll {
+    done: boolean;
+    uri?: string;
+    videoMetadata?: any;
+}
+
+export interface AudioRequest {
+    prompt: string;
+    model?: string;
+    referenceAudio?: string;
+    persona?: any;
+    emotion?: any;
+    usage?: UsageTag;
+}
+
+export interface TextRequest {
+    prompt: string;
+    model: string;
+    systemInstruction?: string;
+    usage?: UsageTag;
+}
+
+export interface AnalysisRequest {
+    video: string;
+    prompt: string;
+    model: string;
+    usage?: UsageTag;
+}
+
+export interface GenerationProvider {
+    id: ProviderId;
+    label: string;
+    models: ModelInfo[];
+    isConfigured: () => boolean; // Whether the credentials this provider needs are present
+    maxConcurrentJobs: number; // Queued jobs beyond this wait (see jobQueue)
+    pollIntervalMs?: number;
+    generateImage?: (req: ImageRequest) => Promise<ImageResult>;
+    generateVideo?: (req: VideoRequest) => Promise<VideoResult>;
+    generateAudio?: (req: AudioRequest) => Promise<string>;
+    generateText?: (req: TextRequest) => Promise<string>;
+    analyzeVideo?: (req: AnalysisRequest) => Promise<string>;
+    startVideo?: (req: VideoRequest) => Promise<VideoStart>;
+    pollVideo?: (operation: string) => Promise<VideoPoll>; // Throws when the operation failed
+}
+
+const PROVIDERS: GenerationProvider[] = [geminiProvider, polloProvider, mockProvider];
+
+const CAPABILITY_METHODS: Record<ProviderCapability, keyof GenerationProvider> = {
+    image: 'generateImage',
+    video: 'generateVideo',
+    audio: 'generateAudio',
+    text: 'generateText',
+    analysis: 'analyzeVideo',
+};
+
+const CAPABILITY_LABELS: Record<ProviderCapability, string> = {
+    image: '图像生成', video: '视频生成', audio: '音频生成', text: '文本生成', analysis: '视频分析',
+};
+
+// --- Registry ---
+
+export const listProviders = () => PROVIDERS;
+
+export const getProvider = (id: ProviderId) => PROVIDERS.find(p => p.id === id);
+
+export const getModelInfo = (modelId?: string): ModelInfo | undefined =>
+    modelId ? PROVIDERS.flatMap(p => p.models).find(m => m.id === modelId) : undefined;
+
+export const getModelsFor = (capability: ProviderCapability): ModelInfo[] =>
+    PROVIDERS.flatMap(p => p.models.filter(m => m.capability === capability));
+
+// Unknown ids (older saved nodes, internal model names) stay with Gemini, which was the only backend before
+export const getProviderForModel = (modelId?: string): GenerationProvider => {
+    const info = getModelInfo(modelId);
+    return (info && getProvider(info.provider)) || geminiProvider;
+};
+
+const resolveProvider = (modelId: string | undefined, capability: ProviderCapability) => {
+    const provider = getProviderForModel(modelId);
+    if (!provider[CAPABILITY_METHODS[capability]]) throw new Error(`${provider.label} 不支持${CAPABILITY_LABELS[capability]}`);
+    if (!provider.isConfigured()) throw new Error(`${provider.label} 未配置 API Key，请在设置中填写`);
+    return provider;
+};
+
+// --- Dispatch ---
+
+export const generateImage = async (req: ImageRequest) => resolveProvider(req.model, 'image').generateImage!(req);
+
+export const generateVideo = async (req: VideoRequest) => resolveProvider(req.model, 'video').generateVideo!(req);
+
+export const generateAudio = async (req: AudioRequest) => resolveProvider(req.model, 'audio').generateAudio!(req);
+
+export const generateText = async (req: TextRequest) => resolveProvider(req.model, 'text').generateText!(req);
+
+export const analyzeVideo = async (req: AnalysisRequest) => resolveProvider(req.model, 'analysis').analyzeVideo!(req);
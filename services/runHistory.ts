@@ -0,0 +1,98 @@
+import { AppNode } from '../types';
+import { appendRun, deleteRuns, internMedia, loadRuns } from './storage';
+
+// --- Node run history ---
+// Each run of a generation node is kept with the settings it used, the prompt that was actually sent
+// (after upstream text and video strategies were applied) and what it produced. Older outputs can be
+// restored onto the node and older settings run again.
+
+type NodeData = AppNode['data'];
+
+export interface RunParams {
+    prompt?: string;
+    model?: string;
+    aspectRatio?: string;
+    resolution?: string;
+    imageCount?: number;
+    videoCount?: number;
+    duration?: number;
+    generationMode?: NodeData['generationMode'];
+}
+
+export interface RunOutputs {
+    images?: string[];
+    videoUris?: string[];
+    audioUri?: string;
+    analysis?: string;
+}
+
+export interface NodeRun {
+    id: string;
+    projectId: string;
+    nodeId: string;
+    params: RunParams;
+    sentPrompt?: string;
+    outputs?: RunOutputs; // Media are stored as media:// refs
+    status: 'succeeded' | 'failed';
+    error?: string;
+    runHash?: string; // Input hash the outputs were produced from
+    startedAt: number;
+    durationMs: number;
+}
+
+const RUN_HISTORY_LIMIT = 30; // Runs kept per node; older ones are dropped
+const RUN_PARAM_FIELDS = ['prompt', 'model', 'aspectRatio', 'resolution', 'imageCount', 'videoCount', 'duration', 'generationMode'] as const;
+
+export const snapshotRunParams = (data: NodeData): RunParams => {
+    const params: any = {};
+    RUN_PARAM_FIELDS.forEach(f => { if (data[f] !== undefined) params[f] = data[f]; });
+    return params;
+};
+
+const internOutputs = async (outputs: RunOutputs): Promise<RunOutputs> => ({
+    ...outputs,
+    images: outputs.images && await Promise.all(outputs.images.map(internMedia)),
+    videoUris: outputs.videoUris && await Promise.all(outputs.videoUris.map(internMedia)),
+    audioUri: outputs.audioUri && await internMedia(outputs.audioUri),
+});
+
+// Never throws: losing a history entry must not turn a finished generation into a failure
+export const recordRun = async (entry: Omit<NodeRun, 'id'>): Promise<NodeRun | undefined> => {
+    try {
+        const run: NodeRun = {
+            ...entry,
+            id: `run-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+            outputs: entry.outputs && await internOutputs(entry.outputs),
+        };
+        await appendRun(run);
+        const stale = (await loadRuns(run.nodeId)).sort((a, b) => b.startedAt - a.startedAt).slice(RUN_HISTORY_LIMIT);
+        if (stale.length > 0) await deleteRuns(stale.map(r => r.id));
+        return run;
+    } catch (e) {
+        console.warn("Run history write failed", e);
+        return undefined;
+    }
+};
+
+// Newest first
+export const loadNodeRuns = async (nodeId: string) => (await loadRuns(nodeId)).sort((a, b) => b.startedAt - a.startedAt);
+
+export const hasRunOutputs = (run: NodeRun) => {
+    const o = run.outputs;
+    return !!(o && (o.images?.length || o.videoUris?.length || o.audioUri || o.analysis));
+};
+
+// Node data that puts a run's outputs back as the node's current result. Video nodes can hold either
+// kind (a still comes back when Veo is unavailable), so the other kind is cleared.
+export const restoreRunPatch = (run: NodeRun): Partial<NodeData> => {
+    const o = run.outputs || {};
+    if (o.videoUris?.length) return { videoUri: o.videoUris[0], videoUris: o.videoUris, image: undefined, images: undefined, runHash: run.runHash };
+    if (o.images?.length) return { image: o.images[0], images: o.images, videoUri: undefined, videoUris: undefined, runHash: run.runHash };
+    if (o.audioUri) return { audioUri: o.audioUri, runHash: run.runHash };
+    if (o.analysis !== undefined) return { analysis: o.analysis, runHash: run.runHash };
+    return {};
+};
+
+// Node settings of a past run; fields the run did not set are cleared so the node matches it exactly
+export const runParamsPatch = (run: NodeRun): Partial<NodeData> =>
+    Object.fromEntries(RUN_PARAM_FIELDS.map(f => [f, run.params[f]]));
@@ -0,0 +1,52 @@
+import { SmartSequenceItem } from '../types';
+import { hashContent } from './nodeHash';
+import { concatMp4 } from './mp4';
+import { loadMediaBytes } from './mediaResolver';
+
+// --- Smart Sequence ---
+// Every pair of neighbouring frames becomes its own first/last-frame segment, rendered with the prompt and
+// duration of the transition between them, and the finished segments are joined into one video. A segment
+// is keyed by everything that shapes it, so reordering or editing frames only re-renders the pairs it touched.
+
+export type SegmentStatus = 'pending' | 'generating' | 'done' | 'failed';
+
+export interface SequenceSegment {
+    key: string;
+    fromId: string;
+    toId: string;
+    prompt: string; // As sent to the model
+    duration: number; // Seconds the transition should last in the final video
+    status: SegmentStatus;
+    uri?: string;
+    error?: string;
+}
+
+const DEFAULT_TRANSITION_PROMPT = 'Smooth cinematic transition from the first shot to the last shot';
+
+export const segmentPrompt = (from: SmartSequenceItem) => from.transition.prompt.trim() || DEFAULT_TRANSITION_PROMPT;
+
+const segmentKey = (from: SmartSequenceItem, to: SmartSequenceItem) =>
+    hashContent(JSON.stringify([from.src, to.src, segmentPrompt(from), from.transition.duration]));
+
+// One segment per consecutive frame pair. Segments of an earlier plan that still match keep their result.
+export const planSegments = (frames: SmartSequenceItem[], previous: SequenceSegment[] = []): SequenceSegment[] =>
+    frames.slice(0, -1).map((from, i) => {
+        const to = frames[i + 1];
+        const key = segmentKey(from, to);
+        const kept = previous.find(s => s.key === key && s.status === 'done');
+        return kept ? { ...kept, fromId: from.id, toId: to.id } : { key, fromId: from.id, toId: to.id, prompt: segmentPrompt(from), duration: from.transition.duration, status: 'pending' };
+    });
+
+// Models only render a few fixed lengths: ask for the shortest one that covers the transition, the rest is retimed
+export const pickClipDuration = (seconds: number, supported: number[] = []) => {
+    const sorted = [...supported].sort((a, b) => a - b);
+    return sorted.find(d => d >= seconds) ?? sorted[sorted.length - 1];
+};
+
+// Joins the finished segments in order, each retimed to its transition's duration
+export const stitchSegments = async (segments: SequenceSegment[]): Promise<Blob> => {
+    const missing = segments.findIndex(s => s.status !== 'done' || !s.uri);
+    if (missing >= 0) throw new Error(`片段 ${missing + 1} 尚未生成`);
+    const clips = await Promise.all(segments.map(async s => ({ bytes: await loadMediaBytes(s.uri!), seconds: s.duration })));
+    return new Blob([concatMp4(clips)], { type: 'video/mp4' });
+};
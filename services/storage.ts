@@ -1,20 +1,140 @@
+import { AppNode, Asset, Project, Workflow } from '../types';
+import { CURRENT_SCHEMA_VERSION, RecordStore, migrateRecord, validateRecord } from './migrations';
+import { cloneGraph } from './graphClone';
+import type { GenerationJob } from './jobQueue';
+import type { UsageRecord } from './usage';
+import type { NodeRun } from './runHistory';
+
 const DB_NAME = 'sunstudio_db';
-const DB_VERSION = 1;
-const STORE_NAME = 'app_data';
+const DB_VERSION = 7;
+const LEGACY_STORE_NAME = 'app_data'; // v1-v2: single untyped key/value store
+const MEDIA_STORE_NAME = 'media';
+const SETTINGS_STORE_NAME = 'settings';
+const QUARANTINE_STORE_NAME = 'quarantine';
+const JOBS_STORE_NAME = 'jobs';
+const USAGE_STORE_NAME = 'usage';
+const RUNS_STORE_NAME = 'runs';
+
+export const DEFAULT_PROJECT_ID = 'default';
+export const MEDIA_REF_PREFIX = 'media://';
+
+export interface MediaRecord {
+  hash: string; // SHA-256 hex of the blob bytes
+  blob: Blob;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+}
+
+export interface QuarantinedRecord {
+  id?: number;
+  store: RecordStore;
+  key: string;
+  record: any;
+  reason: string;
+  quarantinedAt: number;
+}
+
+type StoredNode = AppNode & { projectId: string, schemaVersion: number };
+type StoredAsset = Asset & { projectId: string, schemaVersion: number };
+
+// --- Schema ---
+
+// Copies the old key/value blobs into the typed stores. Records keep no schemaVersion,
+// so the record migrations upgrade them on first load.
+const migrateLegacyStore = (db: IDBDatabase, tx: IDBTransaction) => {
+  const legacy = tx.objectStore(LEGACY_STORE_NAME);
+  const legacyData: Record<string, any> = {};
+  const cursorRequest = legacy.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (cursor) { legacyData[cursor.key as string] = cursor.value; cursor.continue(); return; }
+
+    const now = Date.now();
+    tx.objectStore('projects').put({ id: DEFAULT_PROJECT_ID, title: '我的项目', createdAt: now, updatedAt: now, lastOpenedAt: now, viewport: { x: 0, y: 0, scale: 1 }, connections: legacyData.connections || [], groups: legacyData.groups || [] });
+    (legacyData.nodes || []).forEach((n: any) => { if (n?.id) tx.objectStore('nodes').put({ ...n, projectId: DEFAULT_PROJECT_ID }); });
+    (legacyData.assets || []).forEach((a: any) => { if (a?.id) tx.objectStore('assets').put({ ...a, projectId: DEFAULT_PROJECT_ID }); });
+    (legacyData.workflows || []).forEach((w: any) => { if (w?.id) tx.objectStore('workflows').put(w); });
+    db.deleteObjectStore(LEGACY_STORE_NAME);
+  };
+};
+
+// One connection per page. It steps aside as soon as a tab with a newer schema wants to upgrade; the next access
+// reopens it, which fails with a VersionError if this page is the outdated one. An upgrade held up by a page that
+// does not step aside (one still running older code) fails instead of waiting for that page to close.
+let connection: Promise<IDBDatabase> | undefined;
+let current: IDBDatabase | undefined;
 
 const getDB = (): Promise<IDBDatabase> => {
+  connection ??= openDB().catch(e => { connection = undefined; throw e; });
+  return connection;
+};
+
+const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let blocked = false;
 
     request.onupgradeneeded = (event: any) => {
-      const db = event.target.result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME);
+      const db: IDBDatabase = event.target.result;
+      const tx: IDBTransaction = event.target.transaction;
+      if (!db.objectStoreNames.contains(MEDIA_STORE_NAME)) {
+        db.createObjectStore(MEDIA_STORE_NAME, { keyPath: 'hash' });
+      }
+      if (event.oldVersion < 3) {
+        db.createObjectStore('projects', { keyPath: 'id' });
+        const nodes = db.createObjectStore('nodes', { keyPath: 'id' });
+        nodes.createIndex('projectId', 'projectId', { unique: false });
+        db.createObjectStore('assets', { keyPath: 'id' });
+        db.createObjectStore('workflows', { keyPath: 'id' });
+        db.createObjectStore(SETTINGS_STORE_NAME);
+        db.createObjectStore(QUARANTINE_STORE_NAME, { keyPath: 'id', autoIncrement: true });
+        if (db.objectStoreNames.contains(LEGACY_STORE_NAME)) migrateLegacyStore(db, tx);
+      }
+      if (event.oldVersion < 4) {
+        // v4: asset history is scoped per project. Backfill the index key here so existing
+        // assets show up in index queries; the record migration fills in the rest on load.
+        const assets = tx.objectStore('assets');
+        assets.createIndex('projectId', 'projectId', { unique: false });
+        const cursorRequest = assets.openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          if (!cursor.value.projectId) cursor.update({ ...cursor.value, projectId: DEFAULT_PROJECT_ID });
+          cursor.continue();
+        };
+      }
+      if (event.oldVersion < 5) {
+        // v5: generation jobs outlive the page so running operations can be resumed
+        db.createObjectStore(JOBS_STORE_NAME, { keyPath: 'id' });
+      }
+      if (event.oldVersion < 6) {
+        // v6: append-only usage ledger, queried per project for the spend dashboard
+        const usage = db.createObjectStore(USAGE_STORE_NAME, { keyPath: 'id' });
+        usage.createIndex('projectId', 'projectId', { unique: false });
+      }
+      if (event.oldVersion < 7) {
+        // v7: per-node run history, read by node for the history drawer and dropped with the project
+        const runs = db.createObjectStore(RUNS_STORE_NAME, { keyPath: 'id' });
+        runs.createIndex('nodeId', 'nodeId', { unique: false });
+        runs.createIndex('projectId', 'projectId', { unique: false });
       }
     };
 
+    request.onblocked = () => {
+      blocked = true;
+      reject(new Error('数据库需要升级，但另一个标签页仍在使用旧版本，请关闭或刷新其他标签页后重试'));
+    };
+
     request.onsuccess = (event: any) => {
-      resolve(event.target.result);
+      const db: IDBDatabase = event.target.result;
+      // The other tab closed after all; the upgrade went through, and the next access opens a fresh connection
+      if (blocked) { db.close(); return; }
+      const forget = () => { if (current === db) { current = undefined; connection = undefined; } };
+      db.onversionchange = () => { db.close(); forget(); };
+      db.onclose = forget;
+      current = db;
+      resolve(db);
     };
 
     request.onerror = (event: any) => {
@@ -23,31 +143,459 @@ const getDB = (): Promise<IDBDatabase> => {
   });
 };
 
-export const saveToStorage = async (key: string, data: any) => {
+// --- Typed Records ---
+
+// Loads records from a typed store, upgrading outdated ones through the migration registry.
+// Records that still fail validation are moved to the quarantine store rather than dropped,
+// so one corrupt node does not take the whole canvas down with it.
+const loadRecords = async <T>(store: RecordStore, query?: { index: string, value: string }): Promise<{ records: T[], quarantined: number }> => {
+    const db = await getDB();
+    const raw = await new Promise<any[]>((resolve, reject) => {
+      const tx = db.transaction(store, 'readonly');
+      const source = query ? tx.objectStore(store).index(query.index) : tx.objectStore(store);
+      const request = query ? source.getAll(query.value) : source.getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    const records: T[] = [];
+    const upgraded: any[] = [];
+    const rejected: QuarantinedRecord[] = [];
+    raw.forEach(original => {
+      let result: { record: any, migrated: boolean };
+      try {
+        result = migrateRecord(store, original);
+      } catch (e: any) {
+        rejected.push({ store, key: String(original?.id), record: original, reason: `migration failed: ${e?.message || e}`, quarantinedAt: Date.now() });
+        return;
+      }
+      const reason = validateRecord(store, result.record);
+      if (reason) {
+        rejected.push({ store, key: String(original?.id), record: original, reason, quarantinedAt: Date.now() });
+        return;
+      }
+      if (result.migrated) upgraded.push(result.record);
+      records.push(result.record);
+    });
+
+    if (upgraded.length > 0 || rejected.length > 0) {
+      await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction([store, QUARANTINE_STORE_NAME], 'readwrite');
+        upgraded.forEach(r => tx.objectStore(store).put(r));
+        rejected.forEach(q => {
+          tx.objectStore(QUARANTINE_STORE_NAME).add(q);
+          if (q.record?.id !== undefined) tx.objectStore(store).delete(q.record.id);
+        });
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      });
+      rejected.forEach(q => console.warn(`Storage: quarantined ${q.store} record ${q.key}: ${q.reason}`));
+    }
+
+    return { records, quarantined: rejected.length };
+};
+
+// Replaces the full contents of a store (or of one project's slice of it) with the given records
+const replaceRecords = async (store: RecordStore, records: any[], scope?: { index: string, value: string }) => {
     const db = await getDB();
     return new Promise<void>((resolve, reject) => {
-      const tx = db.transaction(STORE_NAME, 'readwrite');
-      const store = tx.objectStore(STORE_NAME);
-      const request = store.put(data, key);
+      const tx = db.transaction(store, 'readwrite');
+      const objectStore = tx.objectStore(store);
+      const keep = new Set(records.map(r => r.id));
+      const keysRequest = scope ? objectStore.index(scope.index).getAllKeys(scope.value) : objectStore.getAllKeys();
+      keysRequest.onsuccess = () => {
+        (keysRequest.result as string[]).forEach(key => { if (!keep.has(key)) objectStore.delete(key); });
+        records.forEach(r => objectStore.put({ ...r, schemaVersion: CURRENT_SCHEMA_VERSION }));
+      };
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+};
 
+// Writes only the given records and deletes the given keys, leaving the rest of the store untouched
+const applyRecordChanges = async (store: RecordStore, changed: any[], removed: string[]) => {
+    const db = await getDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(store, 'readwrite');
+      const objectStore = tx.objectStore(store);
+      removed.forEach(key => objectStore.delete(key));
+      changed.forEach(r => objectStore.put({ ...r, schemaVersion: CURRENT_SCHEMA_VERSION }));
       tx.oncomplete = () => resolve();
       tx.onerror = () => reject(tx.error);
     });
 };
 
-export const loadFromStorage = async <T>(key: string): Promise<T | undefined> => {
+const stripStorageFields = <T>({ projectId: _p, schemaVersion: _v, ...rest }: any) => rest as T;
+
+export const listProjects = () => loadRecords<Project>('projects');
+
+export const loadProject = async (projectId: string): Promise<{ project: Project | undefined, nodes: AppNode[], quarantined: number }> => {
+    const projects = await listProjects();
+    const nodes = await loadRecords<StoredNode>('nodes', { index: 'projectId', value: projectId });
+    const project = projects.records.find(p => p.id === projectId);
+    return { project: project && stripStorageFields<Project>(project), nodes: nodes.records.map(n => stripStorageFields<AppNode>(n)), quarantined: projects.quarantined + nodes.quarantined };
+};
+
+export const saveProject = async (project: Project) => {
+    const db = await getDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction('projects', 'readwrite');
+      tx.objectStore('projects').put({ ...project, schemaVersion: CURRENT_SCHEMA_VERSION });
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+};
+
+// Removes the project record together with its canvas nodes and asset history
+export const deleteProject = async (projectId: string) => {
+    const db = await getDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(['projects', 'nodes', 'assets', RUNS_STORE_NAME], 'readwrite');
+      tx.objectStore('projects').delete(projectId);
+      (['nodes', 'assets', RUNS_STORE_NAME] as const).forEach(store => {
+          const keysRequest = tx.objectStore(store).index('projectId').getAllKeys(projectId);
+          keysRequest.onsuccess = () => (keysRequest.result as string[]).forEach(key => tx.objectStore(store).delete(key));
+      });
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+};
+
+// Copies a project under a new id. Node and asset ids are global keys, so they are re-issued
+// and the canvas edges are remapped to match.
+export const duplicateProject = async (sourceId: string, title: string): Promise<Project> => {
+    const { project, nodes } = await loadProject(sourceId);
+    if (!project) throw new Error(`Project ${sourceId} not found`);
+    const assets = await loadAssets(sourceId);
+
+    const now = Date.now();
+    const graph = cloneGraph({ nodes, connections: project.connections, groups: project.groups }, { resetStatus: false });
+    const copy: Project = {
+        ...project, id: `p-${now}-${Math.random().toString(36).substr(2, 9)}`, title, createdAt: now, updatedAt: now, lastOpenedAt: now,
+        connections: graph.connections, groups: graph.groups,
+    };
+    await saveProject(copy);
+    await saveNodes(copy.id, graph.nodes);
+    await saveAssets(copy.id, assets.records.map(a => ({ ...a, id: `a-${now}-${Math.random().toString(36).substr(2, 9)}` })));
+    return copy;
+};
+
+export const saveNodes = (projectId: string, nodes: AppNode[]) =>
+    replaceRecords('nodes', nodes.map(n => ({ ...n, projectId })), { index: 'projectId', value: projectId });
+export const saveNodeChanges = (projectId: string, changed: AppNode[], removed: string[]) =>
+    applyRecordChanges('nodes', changed.map(n => ({ ...n, projectId })), removed);
+
+// Nodes of every project (used for media GC roots)
+export const loadAllNodes = async () => {
+    const result = await loadRecords<StoredNode>('nodes');
+    return { records: result.records.map(n => stripStorageFields<AppNode>(n)), quarantined: result.quarantined };
+};
+
+// Without a projectId this returns the asset history of every project (used for media GC roots)
+export const loadAssets = async (projectId?: string) => {
+    const result = await loadRecords<StoredAsset>('assets', projectId ? { index: 'projectId', value: projectId } : undefined);
+    return { records: result.records.map(a => stripStorageFields<Asset>(a)), quarantined: result.quarantined };
+};
+export const saveAssets = (projectId: string, assets: Asset[]) =>
+    replaceRecords('assets', assets.map(a => ({ ...a, projectId })), { index: 'projectId', value: projectId });
+export const saveAssetChanges = (projectId: string, changed: Asset[], removed: string[]) =>
+    applyRecordChanges('assets', changed.map(a => ({ ...a, projectId })), removed);
+
+export const loadWorkflows = () => loadRecords<Workflow>('workflows');
+export const saveWorkflows = (workflows: Workflow[]) => replaceRecords('workflows', workflows);
+export const saveWorkflowChanges = (changed: Workflow[], removed: string[]) => applyRecordChanges('workflows', changed, removed);
+
+// --- Settings (untyped key/value) ---
+
+export const saveSetting = async (key: string, value: any) => {
+    const db = await getDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(SETTINGS_STORE_NAME, 'readwrite');
+      tx.objectStore(SETTINGS_STORE_NAME).put(value, key);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+};
+
+export const loadSetting = async <T>(key: string): Promise<T | undefined> => {
     const db = await getDB();
     return new Promise<T | undefined>((resolve, reject) => {
-      const tx = db.transaction(STORE_NAME, 'readonly');
-      const store = tx.objectStore(STORE_NAME);
-      const request = store.get(key);
+      const tx = db.transaction(SETTINGS_STORE_NAME, 'readonly');
+      const request = tx.objectStore(SETTINGS_STORE_NAME).get(key);
+      // request.result is undefined if the key does not exist, which is what we want to return
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+};
+
+// --- Quarantine ---
+
+export const loadQuarantine = async (): Promise<QuarantinedRecord[]> => {
+    const db = await getDB();
+    return new Promise<QuarantinedRecord[]>((resolve, reject) => {
+      const tx = db.transaction(QUARANTINE_STORE_NAME, 'readonly');
+      const request = tx.objectStore(QUARANTINE_STORE_NAME).getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+};
 
+// --- Generation Jobs ---
+
+export const loadJobs = async (): Promise<GenerationJob[]> => {
+    const db = await getDB();
+    return new Promise<GenerationJob[]>((resolve, reject) => {
+      const tx = db.transaction(JOBS_STORE_NAME, 'readonly');
+      const request = tx.objectStore(JOBS_STORE_NAME).getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+};
+
+export const saveJob = async (job: GenerationJob) => {
+    const db = await getDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(JOBS_STORE_NAME, 'readwrite');
+      tx.objectStore(JOBS_STORE_NAME).put(job);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+};
+
+export const deleteJobs = async (ids: string[]) => {
+    const db = await getDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(JOBS_STORE_NAME, 'readwrite');
+      ids.forEach(id => tx.objectStore(JOBS_STORE_NAME).delete(id));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+};
+
+// --- Usage Ledger ---
+
+export const appendUsage = async (record: UsageRecord) => {
+    const db = await getDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(USAGE_STORE_NAME, 'readwrite');
+      tx.objectStore(USAGE_STORE_NAME).add(record);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+};
+
+export const loadUsage = async (projectId?: string): Promise<UsageRecord[]> => {
+    const db = await getDB();
+    return new Promise<UsageRecord[]>((resolve, reject) => {
+      const store = db.transaction(USAGE_STORE_NAME, 'readonly').objectStore(USAGE_STORE_NAME);
+      const request = projectId ? store.index('projectId').getAll(projectId) : store.getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+};
+
+// --- Node Run History ---
+
+export const appendRun = async (run: NodeRun) => {
+    const db = await getDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(RUNS_STORE_NAME, 'readwrite');
+      tx.objectStore(RUNS_STORE_NAME).add(run);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+};
+
+// Runs of one node, or of every node when no id is given (media GC roots)
+export const loadRuns = async (nodeId?: string): Promise<NodeRun[]> => {
+    const db = await getDB();
+    return new Promise<NodeRun[]>((resolve, reject) => {
+      const store = db.transaction(RUNS_STORE_NAME, 'readonly').objectStore(RUNS_STORE_NAME);
+      const request = nodeId ? store.index('nodeId').getAll(nodeId) : store.getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+};
+
+export const deleteRuns = async (ids: string[]) => {
+    const db = await getDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(RUNS_STORE_NAME, 'readwrite');
+      ids.forEach(id => tx.objectStore(RUNS_STORE_NAME).delete(id));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+};
+
+// --- Media Store (content-addressed blobs) ---
+
+export const isMediaRef = (src: unknown): src is string => typeof src === 'string' && src.startsWith(MEDIA_REF_PREFIX);
+
+export const isDataUri = (src: unknown): src is string => typeof src === 'string' && src.startsWith('data:');
+
+export const dataUriToBlob = (dataUri: string): Blob => {
+    const [header, payload] = dataUri.split(',', 2);
+    const mimeType = header.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+    if (!header.includes(';base64')) return new Blob([decodeURIComponent(payload)], { type: mimeType });
+    const binary = atob(payload);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: mimeType });
+};
+
+export const isRemoteUrl = (src: unknown): src is string => typeof src === 'string' && /^https?:\/\//.test(src);
+
+// Provider download links carry the API key as a `key` query parameter (Veo); it is never stored or shared
+const CREDENTIAL_PARAM = /([?&])key=[^&#]*&?/g;
+
+export const stripUrlCredentials = (url: string) => isRemoteUrl(url) ? url.replace(CREDENTIAL_PARAM, '$1').replace(/[?&]$/, '') : url;
+
+// Fetches a remote result. Download endpoints often answer without a media type, so MP4 bytes are recognised here.
+export const fetchMediaBlob = async (url: string, fallbackType = 'application/octet-stream'): Promise<Blob> => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`媒体下载失败（${response.status}）`);
+    const blob = await response.blob();
+    if (/^(image|video|audio)\//.test(blob.type)) return blob;
+    const head = new Uint8Array(await blob.slice(4, 8).arrayBuffer());
+    const type = String.fromCharCode(...head) === 'ftyp' ? 'video/mp4' : fallbackType;
+    return new Blob([blob], { type });
+};
+
+const sha256Hex = async (blob: Blob): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Stores the blob once under its hash and returns a `media://<hash>` reference
+export const putMedia = async (input: Blob | string): Promise<string> => {
+    const blob = typeof input === 'string' ? dataUriToBlob(input) : input;
+    const hash = await sha256Hex(blob);
+    const db = await getDB();
+    return new Promise<string>((resolve, reject) => {
+      const tx = db.transaction(MEDIA_STORE_NAME, 'readwrite');
+      const store = tx.objectStore(MEDIA_STORE_NAME);
+      const existing = store.getKey(hash);
+      existing.onsuccess = () => {
+        if (existing.result === undefined) {
+          const record: MediaRecord = { hash, blob, mimeType: blob.type, size: blob.size, createdAt: Date.now() };
+          store.put(record);
+        }
+      };
+      tx.oncomplete = () => resolve(`${MEDIA_REF_PREFIX}${hash}`);
+      tx.onerror = () => reject(tx.error);
+    });
+};
+
+export const getMediaRecord = async (ref: string): Promise<MediaRecord | undefined> => {
+    const hash = ref.slice(MEDIA_REF_PREFIX.length);
+    const db = await getDB();
+    return new Promise<MediaRecord | undefined>((resolve, reject) => {
+      const tx = db.transaction(MEDIA_STORE_NAME, 'readonly');
+      const request = tx.objectStore(MEDIA_STORE_NAME).get(hash);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+};
+
+// Size and type of every stored blob, without reading the blobs themselves
+export const loadMediaIndex = async (): Promise<Omit<MediaRecord, 'blob'>[]> => {
+    const db = await getDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(MEDIA_STORE_NAME, 'readonly');
+      const entries: Omit<MediaRecord, 'blob'>[] = [];
+      const request = tx.objectStore(MEDIA_STORE_NAME).openCursor();
       request.onsuccess = () => {
-        // request.result is undefined if the key does not exist, which is what we want to return
-        resolve(request.result);
+        const cursor = request.result;
+        if (!cursor) return;
+        const { blob: _blob, ...entry } = cursor.value as MediaRecord;
+        entries.push(entry);
+        cursor.continue();
       };
-      request.onerror = () => {
-        reject(request.error);
+      tx.oncomplete = () => resolve(entries);
+      tx.onerror = () => reject(tx.error);
+    });
+};
+
+// Data URIs are interned into the media store; anything else (remote URLs, refs, text) passes through
+export const internMedia = async (src: string): Promise<string> => {
+    return isDataUri(src) ? putMedia(src) : src;
+};
+
+// Provider links expire and may carry the API key, so remote results are downloaded into the media store. A link
+// that cannot be fetched is kept without its key, which must not outlive the request that used it.
+export const internRemoteMedia = async (src: string, fallbackType?: string): Promise<string> => {
+    if (!isRemoteUrl(src)) return internMedia(src);
+    try {
+        return await putMedia(await fetchMediaBlob(src, fallbackType));
+    } catch (e) {
+        console.warn("Media download failed", e);
+        return stripUrlCredentials(src);
+    }
+};
+
+const NODE_MEDIA_FIELDS = ['image', 'videoUri', 'audioUri', 'selectedFrame', 'croppedFrame'] as const;
+const NODE_MEDIA_LIST_FIELDS = ['images', 'videoUris', 'pinnedVariants'] as const;
+
+export const hasInlineMedia = (data: Partial<AppNode['data']>): boolean => {
+    return NODE_MEDIA_FIELDS.some(f => isDataUri(data[f])) || NODE_MEDIA_LIST_FIELDS.some(f => data[f]?.some(isDataUri));
+};
+
+// Replaces inline data URIs in a (partial) node data object with media refs
+export const internNodeMedia = async <T extends Partial<AppNode['data']>>(data: T): Promise<T> => {
+    if (!hasInlineMedia(data)) return data;
+    const next: any = { ...data };
+    for (const f of NODE_MEDIA_FIELDS) {
+        if (isDataUri(next[f])) next[f] = await putMedia(next[f]);
+    }
+    for (const f of NODE_MEDIA_LIST_FIELDS) {
+        if (next[f]) next[f] = await Promise.all((next[f] as string[]).map(internMedia));
+    }
+    return next;
+};
+
+// --- Media Garbage Collection ---
+
+// Walks any JSON-like value and counts how often each media ref appears
+export const countMediaRefs = (roots: unknown[]): Map<string, number> => {
+    const counts = new Map<string, number>();
+    const visit = (value: unknown) => {
+        if (isMediaRef(value)) { counts.set(value, (counts.get(value) || 0) + 1); return; }
+        if (Array.isArray(value)) { value.forEach(visit); return; }
+        if (value && typeof value === 'object') Object.values(value).forEach(visit);
+    };
+    roots.forEach(visit);
+    return counts;
+};
+
+export const deleteMedia = async (refs: string[]) => {
+    const db = await getDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(MEDIA_STORE_NAME, 'readwrite');
+      const store = tx.objectStore(MEDIA_STORE_NAME);
+      refs.filter(isMediaRef).forEach(ref => store.delete(ref.slice(MEDIA_REF_PREFIX.length)));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+};
+
+// Deletes every stored blob that none of the roots (nodes, assets, workflows, ...) references.
+// Returns the hashes that were removed.
+export const garbageCollectMedia = async (roots: unknown[]): Promise<string[]> => {
+    const live = countMediaRefs(roots);
+    const db = await getDB();
+    return new Promise<string[]>((resolve, reject) => {
+      const tx = db.transaction(MEDIA_STORE_NAME, 'readwrite');
+      const store = tx.objectStore(MEDIA_STORE_NAME);
+      const removed: string[] = [];
+      const request = store.openKeyCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const hash = cursor.primaryKey as string;
+        if (!live.has(`${MEDIA_REF_PREFIX}${hash}`)) { store.delete(hash); removed.push(hash); }
+        cursor.continue();
       };
+      tx.oncomplete = () => resolve(removed);
+      tx.onerror = () => reject(tx.error);
     });
-};
\ No newline at end of file
+};
@@ -0,0 +1,192 @@
+import { Asset } from '../types';
+import {
+    MEDIA_REF_PREFIX, countMediaRefs, deleteMedia, listProjects, loadAssets, loadJobs, loadMediaIndex,
+    loadProject, loadQuarantine, loadRuns, loadSetting, loadWorkflows, saveAssets, saveSetting,
+} from './storage';
+
+// --- Storage manager ---
+// Media blobs dominate the database. The manager reports how much of the browser quota is used and by what,
+// and frees space by dropping the oldest asset history entries. A dropped asset's blobs are deleted only when
+// no node, run, workflow or other asset still uses them.
+
+export interface StorageEstimate {
+    usage: number;
+    quota: number;
+    persisted: boolean;
+}
+
+export const estimateStorage = async (): Promise<StorageEstimate | undefined> => {
+    if (!navigator.storage?.estimate) return undefined;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+    return { usage, quota, persisted };
+};
+
+// Persistent storage is only cleared by the user, never by the browser under storage pressure. Browsers may decline.
+export const requestPersistentStorage = async (): Promise<boolean> => !!(navigator.storage?.persist && await navigator.storage.persist());
+
+export const isQuotaError = (e: unknown) => (e as { name?: string } | null)?.name === 'QuotaExceededError';
+
+export const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB', 'TB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) { value /= 1024; unit++; }
+    return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+// --- Breakdown ---
+
+export type MediaKind = 'image' | 'video' | 'audio' | 'other';
+
+export interface ProjectStorage {
+    projectId: string;
+    title: string;
+    bytes: number; // Media the project references; blobs shared between projects count for each of them
+}
+
+export interface StorageBreakdown {
+    mediaBytes: number;
+    byKind: Record<MediaKind, number>;
+    byProject: ProjectStorage[];
+    unreferenced: number; // Blobs only the undo history or nothing at all still points to; freed by the next GC
+}
+
+interface StoredProject {
+    id: string;
+    title: string;
+    assets: Asset[];
+    roots: unknown[]; // Everything else of the project that can reference media
+}
+
+const mediaKind = (mimeType: string): MediaKind => {
+    const kind = mimeType.split('/')[0];
+    return kind === 'image' || kind === 'video' || kind === 'audio' ? kind : 'other';
+};
+
+const loadStoredRoots = async (): Promise<{ projects: StoredProject[], shared: unknown[] }> => {
+    const [{ records: projects }, runs, { records: workflows }, jobs, quarantine] = await Promise.all([listProjects(), loadRuns(), loadWorkflows(), loadJobs(), loadQuarantine()]);
+    const stored = await Promise.all(projects.map(async (p): Promise<StoredProject> => {
+        const [{ nodes }, { records: assets }] = await Promise.all([loadProject(p.id), loadAssets(p.id)]);
+        return { id: p.id, title: p.title, assets, roots: [nodes, runs.filter(r => r.projectId === p.id).map(r => r.outputs)] };
+    }));
+    // Quarantined records may still be repaired, so their media stays
+    return { projects: stored, shared: [workflows, jobs.map(j => j.params), quarantine.map(q => q.record)] };
+};
+
+const loadMediaSizes = async () => {
+    const index = await loadMediaIndex();
+    return { index, sizes: new Map(index.map(m => [`${MEDIA_REF_PREFIX}${m.hash}`, m.size])) };
+};
+
+export const computeStorageBreakdown = async (): Promise<StorageBreakdown> => {
+    const [{ index, sizes }, { projects, shared }] = await Promise.all([loadMediaSizes(), loadStoredRoots()]);
+    const bytesOf = (roots: unknown[]) => [...countMediaRefs(roots).keys()].reduce((n, ref) => n + (sizes.get(ref) || 0), 0);
+
+    const byKind: Record<MediaKind, number> = { image: 0, video: 0, audio: 0, other: 0 };
+    index.forEach(m => { byKind[mediaKind(m.mimeType)] += m.size; });
+    const live = countMediaRefs([...projects.flatMap(p => [p.assets, ...p.roots]), ...shared]);
+
+    return {
+        mediaBytes: index.reduce((n, m) => n + m.size, 0),
+        byKind,
+        byProject: projects.map(p => ({ projectId: p.id, title: p.title, bytes: bytesOf([p.assets, ...p.roots]) })).sort((a, b) => b.bytes - a.bytes),
+        unreferenced: index.filter(m => !live.has(`${MEDIA_REF_PREFIX}${m.hash}`)).reduce((n, m) => n + m.size, 0),
+    };
+};
+
+// --- Eviction ---
+
+export interface EvictionPolicy {
+    targetRatio: number; // Evict until usage is below this share of the quota
+    keepRecentDays: number; // Assets younger than this are never evicted
+    autoEvict: boolean; // Evict on its own when a save fails for lack of space
+}
+
+export const DEFAULT_EVICTION_POLICY: EvictionPolicy = { targetRatio: 0.8, keepRecentDays: 7, autoEvict: false };
+
+const EVICTION_SETTING = 'evictionPolicy';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const QUOTA_ERROR_MIN_FREE = 50 * 1024 * 1024; // The estimate can look fine while a write still fails
+
+export const loadEvictionPolicy = async (): Promise<EvictionPolicy> => ({ ...DEFAULT_EVICTION_POLICY, ...(await loadSetting<EvictionPolicy>(EVICTION_SETTING)) });
+
+export const saveEvictionPolicy = (policy: EvictionPolicy) => saveSetting(EVICTION_SETTING, policy);
+
+export const bytesOverTarget = (estimate: StorageEstimate | undefined, policy: EvictionPolicy, afterQuotaError = false) => {
+    const over = estimate ? Math.max(0, estimate.usage - estimate.quota * policy.targetRatio) : 0;
+    return afterQuotaError ? Math.max(over, QUOTA_ERROR_MIN_FREE) : over;
+};
+
+export interface EvictionCandidate {
+    projectId: string;
+    asset: Asset;
+    freedRefs: string[]; // Blobs nothing else references once this asset and the ones before it are gone
+    freedBytes: number;
+}
+
+// Oldest non-favorite assets outside the protection window first, until `bytesToFree` is reached.
+// `roots` must include every asset as well as everything else that references media.
+export const planEviction = (
+    projects: { id: string, assets: Asset[] }[], roots: unknown[], sizes: Map<string, number>,
+    bytesToFree: number, policy: EvictionPolicy, now: number = Date.now(),
+): EvictionCandidate[] => {
+    const counts = countMediaRefs(roots);
+    const cutoff = now - policy.keepRecentDays * DAY_MS;
+    const candidates = projects
+        .flatMap(p => p.assets.filter(a => !a.favorite && a.timestamp < cutoff).map(asset => ({ projectId: p.id, asset })))
+        .sort((a, b) => a.asset.timestamp - b.asset.timestamp);
+
+    const plan: EvictionCandidate[] = [];
+    let freed = 0;
+    for (const candidate of candidates) {
+        if (freed >= bytesToFree) break;
+        const freedRefs: string[] = [];
+        countMediaRefs([candidate.asset]).forEach((n, ref) => {
+            const left = (counts.get(ref) || 0) - n;
+            counts.set(ref, left);
+            if (left <= 0) freedRefs.push(ref);
+        });
+        const freedBytes = freedRefs.reduce((sum, ref) => sum + (sizes.get(ref) || 0), 0);
+        freed += freedBytes;
+        plan.push({ ...candidate, freedRefs, freedBytes });
+    }
+    return plan;
+};
+
+// What the open project holds in memory; its assets may be newer than the stored ones
+export interface LiveProject {
+    projectId?: string;
+    assets: Asset[];
+    roots: unknown[]; // Nodes, undo history and anything else that must keep its media
+}
+
+export interface EvictionResult {
+    evicted: EvictionCandidate[];
+    liveAssets: Asset[]; // Remaining assets of the open project, for the caller to put back into state
+    removedRefs: string[];
+}
+
+// Stored projects are rewritten here; the open project's assets are returned so the caller's save picks them up.
+// Only blobs freed by the evicted assets are deleted, so media that is still being written is never touched.
+// Projects another tab has open keep all their assets: that tab holds them in memory and would save them back.
+export const evictAssets = async (live: LiveProject, bytesToFree: number, policy: EvictionPolicy, lockedProjectIds: string[] = []): Promise<EvictionResult> => {
+    const [{ sizes }, { projects, shared }] = await Promise.all([loadMediaSizes(), loadStoredRoots()]);
+    const liveId = live.projectId || '';
+    const stored = projects.find(p => p.id === liveId);
+    // The open project may not have been saved yet
+    const current = [...projects.filter(p => p !== stored), { id: liveId, title: '', assets: live.assets, roots: stored?.roots || [] }];
+    const roots = [...current.flatMap(p => [p.assets, ...p.roots]), ...shared, live.roots];
+
+    const locked = new Set(lockedProjectIds);
+    const evicted = planEviction(current.filter(p => !locked.has(p.id)), roots, sizes, bytesToFree, policy);
+    const evictedIds = new Set(evicted.map(c => c.asset.id));
+    await Promise.all(current
+        .filter(p => p.id !== liveId && evicted.some(c => c.projectId === p.id))
+        .map(p => saveAssets(p.id, p.assets.filter(a => !evictedIds.has(a.id)))));
+
+    const removedRefs = evicted.flatMap(c => c.freedRefs);
+    if (removedRefs.length > 0) await deleteMedia(removedRefs);
+    return { evicted, liveAssets: live.assets.filter(a => !evictedIds.has(a.id)), removedRefs };
+};
@@ -0,0 +1,51 @@
+import { AppNode, Connection, Group, NodeStatus, NodeType } from '../types';
+
+// --- Storyboard expansion ---
+// An image node whose prompt asks for shots is planned into several prompts; each becomes its own
+// image node laid out in a grid to the right of the source, wired to it and wrapped in a group.
+
+const COLUMNS = 3;
+const GAP_X = 40;
+const GAP_Y = 40;
+const GROUP_PADDING = 30;
+const SOURCE_GAP = 150;
+const DEFAULT_NODE_WIDTH = 420;
+
+export const isStoryboardPrompt = (prompt: string) => /分镜|storyboard|sequence|shots|frames|json/i.test(prompt);
+
+export const expandStoryboard = (node: AppNode, shots: string[]): { nodes: AppNode[], connections: Connection[], group: Group } => {
+    const nodes: AppNode[] = [];
+    const connections: Connection[] = [];
+    const childWidth = node.width || DEFAULT_NODE_WIDTH;
+    const ratio = node.data.aspectRatio || '16:9';
+    const [rw, rh] = ratio.split(':').map(Number);
+    const childHeight = (childWidth * rh / rw);
+    const startX = node.x + childWidth + SOURCE_GAP;
+    const startY = node.y;
+    const totalRows = Math.ceil(shots.length / COLUMNS);
+
+    shots.forEach((shotPrompt, index) => {
+        const col = index % COLUMNS;
+        const row = Math.floor(index / COLUMNS);
+        const id = `n-${Date.now()}-${index}`;
+        nodes.push({
+            id, type: NodeType.IMAGE_GENERATOR,
+            x: startX + col * (childWidth + GAP_X), y: startY + row * (childHeight + GAP_Y),
+            width: childWidth, height: childHeight,
+            title: `分镜 ${index + 1}`, status: NodeStatus.WORKING,
+            data: { ...node.data, aspectRatio: ratio, prompt: shotPrompt, image: undefined, images: undefined, imageCount: 1 },
+            inputs: [node.id]
+        });
+        connections.push({ from: node.id, to: id });
+    });
+
+    const columns = Math.min(shots.length, COLUMNS);
+    const group: Group = {
+        id: `g-${Date.now()}`, title: '分镜生成组',
+        x: startX - GROUP_PADDING, y: startY - GROUP_PADDING,
+        width: (columns * childWidth) + ((columns - 1) * GAP_X) + (GROUP_PADDING * 2),
+        height: (totalRows * childHeight) + ((totalRows - 1) * GAP_Y) + (GROUP_PADDING * 2),
+    };
+
+    return { nodes, connections, group };
+};
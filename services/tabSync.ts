@@ -0,0 +1,235 @@
+// --- Cross-tab coordination ---
+// Every tab writes the open project straight to IndexedDB, so two tabs editing the same project would overwrite
+// each other. Tabs agree on a single editor per project over a BroadcastChannel: a tab that opens a project
+// first asks whether another tab holds it and opens it read-only if one answers. Holding needs no heartbeat,
+// since a closed or crashed tab simply stops answering.
+// The same claim decides which tab does the app-wide upkeep (resuming video jobs, collecting unused media),
+// and the lock passes to the next tab when that one closes.
+
+export type ProjectAccess = 'editor' | 'readonly';
+
+export type ProjectChangeScope = 'nodes' | 'assets' | 'project';
+
+type TabMessage =
+    | { type: 'claim', projectId: string, tabId: string }
+    | { type: 'held', projectId: string, tabId: string }
+    | { type: 'takeover', projectId: string, tabId: string }
+    | { type: 'released', projectId: string, tabId: string }
+    | { type: 'changed', projectId: string, tabId: string, scopes: ProjectChangeScope[] }
+    | { type: 'workflows', tabId: string }
+    | { type: 'ping', tabId: string }
+    | { type: 'pong', tabId: string, to: string, held: string[] }
+    | { type: 'closed', tabId: string };
+
+// Another open tab and the locks it holds (project ids, plus LEADER_LOCK on one of them)
+export interface TabInfo {
+    tabId: string;
+    held: string[];
+}
+
+export interface TabSyncHandlers {
+    onTakenOver?: (projectId: string) => void | Promise<void>; // Runs before the other tab is told it may write
+    onReleased?: (projectId: string) => void; // The editor of a project closed it or handed it over
+    onChanged?: (projectId: string, scopes: ProjectChangeScope[]) => void; // Another tab wrote part of the project
+    onWorkflowsChanged?: () => void; // Another tab wrote the saved workflows
+    onTabClosed?: (tabId: string) => void; // Another tab was closed for good
+}
+
+export interface TabSync {
+    tabId: string;
+    acquire: (projectId: string) => Promise<ProjectAccess>;
+    release: (projectId: string) => void;
+    takeOver: (projectId: string) => Promise<void>;
+    holds: (projectId: string) => boolean; // Whether this tab is the project's editor right now
+    notifyChanged: (projectId: string, scopes: ProjectChangeScope[]) => void;
+    notifyWorkflowsChanged: () => void;
+    subscribe: (handlers: TabSyncHandlers) => () => void;
+    // Runs `task` whenever this tab becomes the one doing the upkeep: right away if no other tab holds the lock,
+    // otherwise once the holder lets go of it
+    whenLeader: (task: () => void | Promise<void>) => () => void;
+    isLeader: () => boolean;
+    listTabs: () => Promise<TabInfo[]>;
+    suspend: () => void; // Lets go of every lock while the page sits in the back/forward cache
+    resume: () => void; // The page came back: reconnects and claims the upkeep lock again if it is free
+    close: () => void;
+}
+
+export const TAB_CHANNEL_NAME = 'sunstudio-tabs';
+export const LEADER_LOCK = '~leader';
+const CLAIM_WINDOW_MS = 250; // How long a claim (or a roll call) waits for other tabs to answer
+const TAKEOVER_TIMEOUT_MS = 3000; // The holder may be gone without having released
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createTabSync = (channelName = TAB_CHANNEL_NAME, tabId = `tab-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`): TabSync => {
+    const supported = typeof BroadcastChannel !== 'undefined';
+    let channel: BroadcastChannel | undefined;
+    const held = new Set<string>();
+    const claims = new Map<string, { lost: boolean }>();
+    const releaseWaiters = new Map<string, (() => void)[]>();
+    const rollCalls = new Set<(tab: TabInfo) => void>();
+    const handlers = new Set<TabSyncHandlers>();
+    const leaderTasks = new Set<() => void | Promise<void>>();
+
+    let closed = false;
+    const post = (message: TabMessage) => { if (!closed) channel?.postMessage(message); };
+
+    const resolveRelease = (projectId: string) => {
+        releaseWaiters.get(projectId)?.forEach(resolve => resolve());
+        releaseWaiters.delete(projectId);
+    };
+
+    const handle = async (message: TabMessage) => {
+        if (message.tabId === tabId) return;
+        switch (message.type) {
+            case 'claim': {
+                // Overlapping claims: the lower tab id wins, and a claim that is still winning answers like a holder
+                const claim = claims.get(message.projectId);
+                if (claim && message.tabId < tabId) claim.lost = true;
+                if (held.has(message.projectId) || (claim && !claim.lost)) post({ type: 'held', projectId: message.projectId, tabId });
+                break;
+            }
+            case 'held': {
+                const claim = claims.get(message.projectId);
+                if (claim) claim.lost = true;
+                break;
+            }
+            case 'takeover': {
+                const { projectId } = message;
+                if (!held.has(projectId)) break;
+                // Still held while saving, so a third tab opening the project meanwhile goes read-only
+                for (const h of handlers) await h.onTakenOver?.(projectId);
+                held.delete(projectId);
+                post({ type: 'released', projectId, tabId });
+                break;
+            }
+            case 'released':
+                if (message.projectId === LEADER_LOCK) claimLeadership();
+                else if (releaseWaiters.has(message.projectId)) resolveRelease(message.projectId); // Our own takeover; no need to reclaim
+                else handlers.forEach(h => h.onReleased?.(message.projectId));
+                break;
+            case 'changed':
+                handlers.forEach(h => h.onChanged?.(message.projectId, message.scopes));
+                break;
+            case 'workflows':
+                handlers.forEach(h => h.onWorkflowsChanged?.());
+                break;
+            case 'ping':
+                post({ type: 'pong', tabId, to: message.tabId, held: [...held] });
+                break;
+            case 'pong':
+                if (message.to === tabId) rollCalls.forEach(collect => collect({ tabId: message.tabId, held: message.held }));
+                break;
+            case 'closed':
+                handlers.forEach(h => h.onTabClosed?.(message.tabId));
+                break;
+        }
+    };
+
+    const open = () => {
+        if (!supported || channel) return;
+        channel = new BroadcastChannel(channelName);
+        channel.onmessage = (event: MessageEvent<TabMessage>) => { handle(event.data); };
+    };
+    open();
+
+    const acquire = async (projectId: string): Promise<ProjectAccess> => {
+        if (!channel || held.has(projectId)) {
+            held.add(projectId);
+            return 'editor';
+        }
+        const claim = { lost: false };
+        claims.set(projectId, claim);
+        post({ type: 'claim', projectId, tabId });
+        await wait(CLAIM_WINDOW_MS);
+        claims.delete(projectId);
+        if (claim.lost || closed) return 'readonly';
+        held.add(projectId);
+        return 'editor';
+    };
+
+    const release = (projectId: string) => {
+        if (held.delete(projectId)) post({ type: 'released', projectId, tabId });
+    };
+
+    // Resolves once the holder has saved and stepped back, or after a timeout when no tab answers
+    const takeOver = async (projectId: string) => {
+        const released = new Promise<void>(resolve => releaseWaiters.set(projectId, [...(releaseWaiters.get(projectId) || []), resolve]));
+        post({ type: 'takeover', projectId, tabId });
+        await Promise.race([released, wait(TAKEOVER_TIMEOUT_MS)]);
+        releaseWaiters.delete(projectId);
+        held.add(projectId);
+    };
+
+    const notifyChanged = (projectId: string, scopes: ProjectChangeScope[]) => {
+        if (scopes.length > 0) post({ type: 'changed', projectId, tabId, scopes });
+    };
+
+    const notifyWorkflowsChanged = () => post({ type: 'workflows', tabId });
+
+    const subscribe = (h: TabSyncHandlers) => {
+        handlers.add(h);
+        return () => { handlers.delete(h); };
+    };
+
+    // Several tabs may see the lock released at once; the claim settles on one of them
+    let claiming: Promise<void> | undefined;
+    const claimLeadership = () => {
+        if (claiming || held.has(LEADER_LOCK) || leaderTasks.size === 0) return claiming;
+        claiming = (async () => {
+            try {
+                if (await acquire(LEADER_LOCK) !== 'editor') return;
+                for (const task of leaderTasks) await task();
+            } finally {
+                claiming = undefined;
+            }
+        })();
+        return claiming;
+    };
+
+    const whenLeader = (task: () => void | Promise<void>) => {
+        leaderTasks.add(task);
+        if (held.has(LEADER_LOCK)) Promise.resolve(task());
+        else claimLeadership();
+        return () => { leaderTasks.delete(task); };
+    };
+
+    // Every other open tab, as far as it answers within the claim window
+    const listTabs = async (): Promise<TabInfo[]> => {
+        if (!channel) return [];
+        const tabs = new Map<string, TabInfo>();
+        const collect = (tab: TabInfo) => { tabs.set(tab.tabId, tab); };
+        rollCalls.add(collect);
+        post({ type: 'ping', tabId });
+        await wait(CLAIM_WINDOW_MS);
+        rollCalls.delete(collect);
+        return [...tabs.values()];
+    };
+
+    const releaseAll = () => {
+        held.forEach(projectId => post({ type: 'released', projectId, tabId }));
+        held.clear();
+    };
+
+    const suspend = () => {
+        releaseAll();
+        channel?.close();
+        channel = undefined;
+    };
+
+    const resume = () => {
+        if (closed) return;
+        open();
+        claimLeadership();
+    };
+
+    const close = () => {
+        releaseAll();
+        post({ type: 'closed', tabId });
+        closed = true;
+        channel?.close();
+        channel = undefined;
+    };
+
+    return { tabId, acquire, release, takeOver, holds: projectId => held.has(projectId), notifyChanged, notifyWorkflowsChanged, subscribe, whenLeader, isLeader: () => held.has(LEADER_LOCK), listTabs, suspend, resume, close };
+};
@@ -0,0 +1,115 @@
+import { AppNode, TimelineAudioClip, TimelineClip, TimelineData } from '../types';
+import { ClipPlacement, layoutClips, layoutDuration } from './mediaPipeline';
+import { RenderOptions, decodeAudio } from './mediaEngine';
+import { loadMediaBytes } from './mediaResolver';
+import { readMp4 } from './mp4';
+
+// --- Timeline ---
+// A TIMELINE node cuts its upstream media into one film. Every connected node contributes one item: videos
+// and images go onto the video track in input order, audio onto the narration track one after another.
+// Items keep their trims and placement while the upstream output stays the same.
+
+export const DEFAULT_STILL_SECONDS = 3;
+
+export const EMPTY_TIMELINE: TimelineData = { clips: [], audio: [] };
+
+type TimelineSource = { kind: 'video' | 'image' | 'audio', src: string };
+
+// What a node hands to a timeline, if anything
+export const timelineSource = (node: AppNode): TimelineSource | undefined => {
+    if (node.data.videoUri) return { kind: 'video', src: node.data.videoUri };
+    if (node.data.image) return { kind: 'image', src: node.data.image };
+    if (node.data.audioUri) return { kind: 'audio', src: node.data.audioUri };
+    return undefined;
+};
+
+export const clipLength = (clip: TimelineClip) => clip.kind === 'image'
+    ? clip.still ?? DEFAULT_STILL_SECONDS
+    : Math.max(0, (clip.out ?? clip.length ?? 0) - (clip.in ?? 0));
+
+export const audioLength = (audio: TimelineAudioClip) => Math.max(0, (audio.out ?? audio.length ?? 0) - (audio.in ?? 0));
+
+export const layoutTimeline = (timeline: TimelineData): ClipPlacement[] =>
+    layoutClips(timeline.clips.map(c => ({ length: clipLength(c), gap: c.gap, crossfade: c.crossfade })));
+
+// The video track sets the length of the cut; audio running past it is cut off
+export const timelineDuration = (timeline: TimelineData) => layoutDuration(layoutTimeline(timeline));
+
+// Brings the timeline in line with the node's inputs: disconnected items drop out, new inputs are appended
+// and items whose upstream output changed start over untrimmed. `lengths` (seconds by src) lets new
+// narration queue up behind the audio before it.
+export const syncTimeline = (timeline: TimelineData = EMPTY_TIMELINE, inputs: AppNode[], lengths: Map<string, number> = new Map()): TimelineData => {
+    const sources = new Map(inputs.flatMap(n => { const source = timelineSource(n); return source ? [[n.id, source] as const] : []; }));
+    const visual = (id: string) => { const s = sources.get(id); return s && s.kind !== 'audio' ? s : undefined; };
+
+    const clips = timeline.clips.flatMap((clip): TimelineClip[] => {
+        const source = visual(clip.sourceId);
+        if (!source) return [];
+        if (source.src === clip.src && source.kind === clip.kind) return [clip];
+        return [{ sourceId: clip.sourceId, kind: source.kind as TimelineClip['kind'], src: source.src, gap: clip.gap, crossfade: clip.crossfade }];
+    });
+    const audio = timeline.audio.flatMap((item): TimelineAudioClip[] => {
+        const source = sources.get(item.sourceId);
+        if (source?.kind !== 'audio') return [];
+        return [source.src === item.src ? item : { sourceId: item.sourceId, track: item.track, src: source.src, start: item.start, volume: item.volume }];
+    });
+
+    const placed = new Set([...clips, ...audio].map(i => i.sourceId));
+    let narrationEnd = audio.filter(a => a.track === 'narration').reduce((n, a) => Math.max(n, a.start + audioLength(a)), 0);
+    inputs.forEach(node => {
+        const source = sources.get(node.id);
+        if (!source || placed.has(node.id)) return;
+        const length = lengths.get(source.src);
+        if (source.kind === 'audio') {
+            audio.push({ sourceId: node.id, track: 'narration', src: source.src, length, start: narrationEnd });
+            narrationEnd += length || 0;
+        } else {
+            clips.push({ sourceId: node.id, kind: source.kind, src: source.src, length: source.kind === 'video' ? length : undefined });
+        }
+    });
+    return { clips, audio };
+};
+
+// Source length in seconds. Sources that cannot be read have none (and so no duration on the timeline)
+// rather than failing the whole timeline.
+const probeLength = async (kind: 'video' | 'audio', src: string): Promise<number | undefined> => {
+    try {
+        const bytes = await loadMediaBytes(src);
+        if (kind === 'video') return readMp4(bytes).duration;
+        const pcm = await decodeAudio(bytes);
+        return (pcm.channels[0]?.length || 0) / pcm.sampleRate;
+    } catch (e) {
+        console.warn('Timeline probe failed', e);
+        return undefined;
+    }
+};
+
+// Fills in the source length of videos and audio that have not been measured yet
+export const probeTimeline = async (timeline: TimelineData): Promise<TimelineData> => {
+    const measure = async <T extends { src: string, length?: number }>(item: T, kind: 'video' | 'audio'): Promise<T> =>
+        item.length !== undefined ? item : { ...item, length: await probeLength(kind, item.src) };
+    const [clips, audio] = await Promise.all([
+        Promise.all(timeline.clips.map(c => c.kind === 'video' ? measure(c, 'video') : c)),
+        Promise.all(timeline.audio.map(a => measure(a, 'audio'))),
+    ]);
+    return { clips, audio };
+};
+
+// syncTimeline with every source measured, so new items land where their length says
+export const refreshTimeline = async (timeline: TimelineData | undefined, inputs: AppNode[]): Promise<TimelineData> => {
+    const known = new Set([...(timeline?.clips || []), ...(timeline?.audio || [])].map(i => i.src));
+    const fresh = inputs.flatMap(n => { const source = timelineSource(n); return source && source.kind !== 'image' && !known.has(source.src) ? [source] : []; });
+    const lengths = new Map<string, number>();
+    await Promise.all(fresh.map(async ({ kind, src }) => {
+        const length = await probeLength(kind as 'video' | 'audio', src);
+        if (length !== undefined) lengths.set(src, length);
+    }));
+    return probeTimeline(syncTimeline(timeline, inputs, lengths));
+};
+
+export const toRenderOptions = (timeline: TimelineData): Omit<RenderOptions, 'onProgress'> => ({
+    clips: timeline.clips.map(c => c.kind === 'image'
+        ? { src: c.src, still: clipLength(c), gap: c.gap, crossfade: c.crossfade }
+        : { src: c.src, in: c.in, out: c.out, gap: c.gap, crossfade: c.crossfade }),
+    audio: timeline.audio.map(a => ({ src: a.src, start: a.start, in: a.in, out: a.out, volume: a.volume })),
+});
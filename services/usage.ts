@@ -0,0 +1,192 @@
+import { AppNode, NodeType } from '../types';
+import { appendUsage, DEFAULT_PROJECT_ID, loadSetting, loadUsage, saveSetting } from './storage';
+import type { ProviderCapability, ProviderId } from './providers';
+
+// --- Usage ledger ---
+// Every billable call is recorded with what it is billed on (images, seconds of video, tokens).
+// Providers do not report spend, so costs come from the price table below and are estimates in USD.
+
+export interface UsageTag {
+    projectId?: string;
+    nodeId?: string;
+}
+
+export interface UsageRecord {
+    id: string;
+    projectId: string;
+    nodeId?: string;
+    provider: ProviderId;
+    model: string;
+    modality: ProviderCapability;
+    resolution?: string;
+    images?: number;
+    videoSeconds?: number;
+    inputTokens?: number;
+    outputTokens?: number;
+    cost: number;
+    timestamp: number;
+}
+
+export type UsageEntry = Omit<UsageRecord, 'id' | 'projectId' | 'nodeId' | 'cost' | 'timestamp'> & { usage?: UsageTag };
+
+export interface Budgets {
+    perRun?: number; // USD one run (a node, or every node of a graph run) may cost
+    perProject?: number; // USD a project may spend in total
+    mode: 'warn' | 'block';
+}
+
+export interface UsageSummary {
+    total: number;
+    calls: number;
+    byProvider: Record<string, number>;
+    byModel: Record<string, { cost: number, calls: number }>;
+    byNode: Record<string, number>;
+}
+
+interface ModelPricing {
+    perImage?: number | Record<string, number>; // Keyed by resolution when the price depends on it
+    perVideoSecond?: number | Record<string, number>;
+    inputPerMillion?: number;
+    outputPerMillion?: number;
+    defaultVideoSeconds?: number; // Clip length when the node leaves duration unset
+}
+
+// List prices as of the last update; revisit when providers change them
+const MODEL_PRICING: Record<string, ModelPricing> = {
+    'gemini-2.5-flash-image': { perImage: 0.039, inputPerMillion: 0.3 },
+    'gemini-3-pro-image-preview': { perImage: { '1k': 0.134, '2k': 0.134, '4k': 0.24 }, inputPerMillion: 2 },
+    'imagen-4.0-generate-001': { perImage: 0.04 },
+    'veo-3.1-fast-generate-preview': { perVideoSecond: 0.15, defaultVideoSeconds: 8 },
+    'veo-3.1-generate-preview': { perVideoSecond: 0.4, defaultVideoSeconds: 8 },
+    'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+    'gemini-3-flash-preview': { inputPerMillion: 0.5, outputPerMillion: 3 },
+    'gemini-3-pro-preview': { inputPerMillion: 2, outputPerMillion: 12 },
+    'gemini-2.5-flash-preview-tts': { inputPerMillion: 0.5, outputPerMillion: 10 },
+    'wan-2.1-t2v-14b': { perVideoSecond: { '480p': 0.04, '720p': 0.08 }, defaultVideoSeconds: 5 },
+    'wan-2.5-preview': { perVideoSecond: { '480p': 0.05, '720p': 0.1, '1080p': 0.15 }, defaultVideoSeconds: 5 },
+};
+
+// Rough sizes for calls whose token counts are only known afterwards
+const CHARS_PER_TOKEN = 4;
+const ESTIMATED_OUTPUT_TOKENS: Partial<Record<ProviderCapability, number>> = { text: 500, analysis: 500, audio: 1500 };
+const ESTIMATED_VIDEO_INPUT_TOKENS = 2500; // ~8s of video at the default sampling rate
+
+const BUDGETS_SETTING = 'budgets';
+export const DEFAULT_BUDGETS: Budgets = { mode: 'warn' };
+
+let activeProjectId: string | undefined;
+let pendingWrites: Promise<void> = Promise.resolve();
+const listeners = new Set<(record: UsageRecord) => void>();
+
+// --- Helpers ---
+
+const priceFor = (price: number | Record<string, number> | undefined, resolution?: string) => {
+    if (price === undefined) return 0;
+    if (typeof price === 'number') return price;
+    return (resolution && price[resolution.toLowerCase()]) ?? Math.min(...Object.values(price));
+};
+
+export const costOf = (entry: Pick<UsageRecord, 'model' | 'resolution' | 'images' | 'videoSeconds' | 'inputTokens' | 'outputTokens'>) => {
+    const pricing = MODEL_PRICING[entry.model];
+    if (!pricing) return 0;
+    return (entry.images || 0) * priceFor(pricing.perImage, entry.resolution)
+        + (entry.videoSeconds || 0) * priceFor(pricing.perVideoSecond, entry.resolution)
+        + (entry.inputTokens || 0) / 1e6 * (pricing.inputPerMillion || 0)
+        + (entry.outputTokens || 0) / 1e6 * (pricing.outputPerMillion || 0);
+};
+
+export const formatCost = (usd: number) => usd === 0 ? '$0' : usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+
+// --- Recording ---
+
+// Calls without an explicit project (chat, audio studio) are booked to the open project
+export const setUsageProject = (projectId: string | undefined) => {
+    activeProjectId = projectId;
+};
+
+export const subscribeUsage = (listener: (record: UsageRecord) => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+// Never throws: a failed ledger write must not fail the generation that was already paid for
+export const recordUsage = ({ usage, ...entry }: UsageEntry) => {
+    const record: UsageRecord = {
+        ...entry,
+        id: `u-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        projectId: usage?.projectId || activeProjectId || DEFAULT_PROJECT_ID,
+        nodeId: usage?.nodeId,
+        cost: costOf(entry),
+        timestamp: Date.now(),
+    };
+    listeners.forEach(listener => listener(record));
+    pendingWrites = pendingWrites.then(() => appendUsage(record)).catch(e => console.warn("Usage ledger write failed", e));
+    return record;
+};
+
+// Resolves once every recorded entry has reached storage
+export const flushUsage = () => pendingWrites;
+
+export const loadProjectUsage = async (projectId: string) => {
+    await flushUsage();
+    return loadUsage(projectId);
+};
+
+export const summarizeUsage = (records: UsageRecord[]): UsageSummary => {
+    const summary: UsageSummary = { total: 0, calls: records.length, byProvider: {}, byModel: {}, byNode: {} };
+    records.forEach(r => {
+        summary.total += r.cost;
+        summary.byProvider[r.provider] = (summary.byProvider[r.provider] || 0) + r.cost;
+        const model = summary.byModel[r.model] || (summary.byModel[r.model] = { cost: 0, calls: 0 });
+        model.cost += r.cost;
+        model.calls++;
+        if (r.nodeId) summary.byNode[r.nodeId] = (summary.byNode[r.nodeId] || 0) + r.cost;
+    });
+    return summary;
+};
+
+// --- Estimates ---
+
+// What running this node once is expected to cost. Helper calls made by video strategies
+// (prompt orchestration, style analysis) are small and left out.
+export const estimateNodeCost = (node: AppNode): number => {
+    const model = node.data.model || '';
+    const pricing = MODEL_PRICING[model];
+    if (!pricing) return 0;
+    const promptTokens = Math.ceil((node.data.prompt || '').length / CHARS_PER_TOKEN);
+
+    switch (node.type) {
+        case NodeType.IMAGE_GENERATOR:
+            return costOf({ model, resolution: node.data.resolution || '1k', images: node.data.imageCount || 1, inputTokens: promptTokens });
+        case NodeType.IMAGE_EDITOR:
+            return costOf({ model, resolution: node.data.resolution || '1k', images: 1, inputTokens: promptTokens });
+        case NodeType.VIDEO_GENERATOR:
+            return costOf({ model, resolution: node.data.resolution || '720p', videoSeconds: (node.data.duration || pricing.defaultVideoSeconds || 8) * (node.data.videoCount || 1) });
+        case NodeType.AUDIO_GENERATOR:
+            return costOf({ model, inputTokens: promptTokens, outputTokens: ESTIMATED_OUTPUT_TOKENS.audio });
+        case NodeType.VIDEO_ANALYZER:
+            return costOf({ model, inputTokens: promptTokens + ESTIMATED_VIDEO_INPUT_TOKENS, outputTokens: ESTIMATED_OUTPUT_TOKENS.analysis });
+        default:
+            return 0;
+    }
+};
+
+export const estimateRunCost = (nodes: AppNode[]) => nodes.reduce((sum, node) => sum + estimateNodeCost(node), 0);
+
+// --- Budgets ---
+
+export const loadBudgets = async (): Promise<Budgets> => ({ ...DEFAULT_BUDGETS, ...(await loadSetting<Budgets>(BUDGETS_SETTING)) });
+
+export const saveBudgets = (budgets: Budgets) => saveSetting(BUDGETS_SETTING, budgets);
+
+// Returns one message per budget the run would exceed; empty when it fits
+export const checkBudget = (estimate: number, spent: number, budgets: Budgets): string[] => {
+    const problems: string[] = [];
+    if (budgets.perRun !== undefined && estimate > budgets.perRun) {
+        problems.push(`本次运行预计 ${formatCost(estimate)}，超过单次预算 ${formatCost(budgets.perRun)}`);
+    }
+    if (budgets.perProject !== undefined && spent + estimate > budgets.perProject) {
+        problems.push(`项目已花费 ${formatCost(spent)}，本次运行后将超过项目预算 ${formatCost(budgets.perProject)}`);
+    }
+    return problems;
+};
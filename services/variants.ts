@@ -0,0 +1,51 @@
+import { AppNode } from '../types';
+
+// --- Output variants ---
+// A multi-output node keeps every variant in `images` / `videoUris`; only the primary one (`image` / `videoUri`)
+// flows downstream. Pinned variants are kept when the node is generated again.
+
+type NodeData = AppNode['data'];
+
+export type VariantKind = 'image' | 'video';
+
+// Video nodes that fell back to a still image hold images, so the kind follows the data rather than the node type
+export const variantKind = (data: NodeData): VariantKind => data.videoUri ? 'video' : 'image';
+
+export const listVariants = (data: NodeData): string[] => {
+    if (variantKind(data) === 'video') return data.videoUris?.length ? data.videoUris : [data.videoUri!];
+    return data.images?.length ? data.images : data.image ? [data.image] : [];
+};
+
+export const primaryVariant = (data: NodeData) => variantKind(data) === 'video' ? data.videoUri : data.image;
+
+export const isPinned = (data: NodeData, variant: string) => !!data.pinnedVariants?.includes(variant);
+
+export const selectVariant = (data: NodeData, variant: string): Partial<NodeData> =>
+    variantKind(data) === 'video' ? { videoUri: variant } : { image: variant };
+
+export const togglePinVariant = (data: NodeData, variant: string): Partial<NodeData> => {
+    const pinned = data.pinnedVariants || [];
+    const next = pinned.includes(variant) ? pinned.filter(v => v !== variant) : [...pinned, variant];
+    return { pinnedVariants: next.length > 0 ? next : undefined };
+};
+
+// Removes a variant; when it was the primary one, the next remaining variant takes its place
+export const deleteVariant = (data: NodeData, variant: string): Partial<NodeData> => {
+    const variants = listVariants(data);
+    const index = variants.indexOf(variant);
+    if (index < 0) return {};
+    const remaining = variants.filter(v => v !== variant);
+    const current = primaryVariant(data);
+    const primary = current === variant ? remaining[Math.min(index, remaining.length - 1)] : current;
+    const pinned = data.pinnedVariants?.filter(v => v !== variant);
+    const pinnedVariants = pinned && pinned.length > 0 ? pinned : undefined;
+    return variantKind(data) === 'video'
+        ? { videoUris: remaining, videoUri: primary, pinnedVariants }
+        : { images: remaining, image: primary, pinnedVariants };
+};
+
+// Variant list after a new run: pinned variants of the previous run stay in front of the fresh ones
+export const keepPinnedVariants = (data: NodeData, fresh: string[]): string[] => {
+    const pinned = (data.pinnedVariants || []).filter(v => listVariants(data).includes(v) && !fresh.includes(v));
+    return [...pinned, ...fresh];
+};
@@ -1,5 +1,6 @@
 import { AppNode, VideoGenerationMode } from '../types';
 import { extractLastFrame, urlToBase64, analyzeVideo, orchestrateVideoPrompt, generateImageFromText } from './geminiService';
+import { getModelInfo } from './providers';
 
 export interface StrategyResult {
     finalPrompt: string;
@@ -31,6 +32,8 @@ export const processDefaultVideoGen = async (
 };
 
 // --- Module: StoryContinuator (剧情延展) ---
+// Extends the upstream clip itself when the model can and the node still shows the variant the video object
+// belongs to (other variants have no video object of their own). Otherwise starts a new clip from its last frame.
 export const processStoryContinuator = async (
     node: AppNode, 
     inputs: AppNode[], 
@@ -38,6 +41,19 @@ export const processStoryContinuator = async (
 ): Promise<StrategyResult> => {
     let inputImages: string[] = [];
     const videoNode = inputs.find(n => n.data.videoUri || n.data.videoMetadata);
+    const { mediaRef, ...source } = videoNode?.data.videoMetadata || {};
+    const canExtend = !!source.uri && !!getModelInfo(node.data.model)?.extendsVideo
+        && (!videoNode!.data.videoUri || videoNode!.data.videoUri === mediaRef);
+
+    if (canExtend) {
+        return {
+            finalPrompt: prompt,
+            videoInput: source,
+            inputImageForGeneration: null,
+            referenceImages: undefined,
+            generationMode: 'CONTINUE'
+        };
+    }
     
     if (videoNode && videoNode.data.videoUri) {
          try {
@@ -81,7 +97,7 @@ export const processFrameWeaver = async (
     // Use AI to bridge the first and last images if prompt is minimal
     if (inputImages.length >= 2) {
         try { 
-            finalPrompt = await orchestrateVideoPrompt([inputImages[0], inputImages[inputImages.length - 1]], prompt); 
+            finalPrompt = await orchestrateVideoPrompt([inputImages[0], inputImages[inputImages.length - 1]], prompt, { nodeId: node.id }); 
         } catch (e) {
             console.warn("FrameWeaver: Orchestration failed", e);
         }
@@ -110,7 +126,7 @@ export const processSceneDirector = async (
         try {
             let vidData = videoInputNode.data.videoUri;
             if (vidData.startsWith('http')) vidData = await urlToBase64(vidData);
-            upstreamContextStyle = await analyzeVideo(vidData, "Analyze the visual style briefly.", "gemini-3-flash-preview");
+            upstreamContextStyle = await analyzeVideo(vidData, "Analyze the visual style briefly.", "gemini-3-flash-preview", { nodeId: node.id });
         } catch (e) { }
     }
 
@@ -127,7 +143,7 @@ export const processSceneDirector = async (
     if (inputImageForGeneration) {
         try {
             const restorationPrompt = `Sharpen and upscale this crop to 4K cinematic quality. Preserve composition exactly. Description: ${prompt}.`;
-            const restoredImages = await generateImageFromText(restorationPrompt, 'gemini-2.5-flash-image', [inputImageForGeneration], { aspectRatio: node.data.aspectRatio || '16:9', count: 1 });
+            const restoredImages = await generateImageFromText(restorationPrompt, 'gemini-2.5-flash-image', [inputImageForGeneration], { aspectRatio: node.data.aspectRatio || '16:9', count: 1, usage: { nodeId: node.id } });
             if (restoredImages && restoredImages.length > 0) inputImageForGeneration = restoredImages[0];
         } catch (e) { }
     }
@@ -155,7 +171,7 @@ export const processCharacterRef = async (
         try {
             let vidData = videoSource.data.videoUri;
             if (vidData.startsWith('http')) vidData = await urlToBase64(vidData);
-            motionDescription = await analyzeVideo(vidData, "Describe only the motion and camera movement.", "gemini-3-flash-preview");
+            motionDescription = await analyzeVideo(vidData, "Describe only the motion and camera movement.", "gemini-3-flash-preview", { nodeId: node.id });
         } catch (e) { }
     }
 
@@ -0,0 +1,222 @@
+import { Mp4Track, aacSampleEntry, avcSampleEntry, opusSampleEntry, sampleEntryConfig } from './mp4';
+import { DecodedFrame, EncodedSample, EncodedTrack, MediaCodecs, PcmAudio } from './mediaPipeline';
+
+// --- WebCodecs ---
+// Browser codecs for the media pipeline. Runs in a worker as well as on the main thread: frames are
+// composited on an OffscreenCanvas, video is encoded as H.264, audio as AAC where the browser can encode
+// it and Opus otherwise.
+
+const MICROSECONDS = 1e6;
+const MAX_QUEUE = 8; // Chunks handed to a codec before waiting for it to catch up
+const AUDIO_FRAME = 1024; // PCM frames per AudioData handed to the encoder
+const AUDIO_BITRATE = 128000;
+const OPUS_PRE_SKIP = 312; // libopus lookahead at 48 kHz, when the encoder does not report it
+
+const hex = (n: number) => n.toString(16).padStart(2, '0');
+
+const toBytes = (source: AllowSharedBufferSource) => source instanceof ArrayBuffer
+    ? new Uint8Array(source)
+    : new Uint8Array(source.buffer, source.byteOffset, source.byteLength).slice();
+
+const drained = (codec: VideoDecoder | VideoEncoder | AudioEncoder, size: () => number) =>
+    size() <= MAX_QUEUE ? Promise.resolve() : new Promise<void>(resolve => codec.addEventListener('dequeue', () => resolve(), { once: true }));
+
+// Decoder configuration for one of the track's sample descriptions
+const decoderConfig = (track: Mp4Track, entry: number): VideoDecoderConfig => {
+    const sampleEntry = track.sampleEntries[entry];
+    const avcC = sampleEntryConfig(sampleEntry, 'avcC');
+    if ((track.codec !== 'avc1' && track.codec !== 'avc3') || !avcC) throw new Error(`不支持的视频编码：${track.codec}`);
+    return { codec: `avc1.${hex(avcC[1])}${hex(avcC[2])}${hex(avcC[3])}`, description: avcC, optimizeForLatency: true };
+};
+
+async function* decodeVideo(track: Mp4Track, bytes: Uint8Array, from: number, until: number): AsyncGenerator<DecodedFrame<VideoFrame>> {
+    const ready: VideoFrame[] = [];
+    let failure: Error | undefined;
+    const decoder = new VideoDecoder({
+        output: frame => { ready.push(frame); },
+        error: e => { failure = e; },
+    });
+
+    let decodeTime = track.samples.slice(0, from).reduce((n, s) => n + s.duration, 0);
+    let entry = -1;
+    let index = from;
+    let flushed = false;
+    try {
+        while (true) {
+            if (failure) throw failure;
+            const frame = ready.shift();
+            if (frame) {
+                yield { timestamp: frame.timestamp / MICROSECONDS, frame };
+                continue;
+            }
+            const sample = track.samples[index];
+            if (sample && decodeTime / track.timescale <= until) {
+                if (sample.entry !== entry) {
+                    // A new sample description (clips joined by stream copy) needs a reconfigured decoder
+                    if (entry >= 0) await decoder.flush();
+                    decoder.configure(decoderConfig(track, sample.entry));
+                    entry = sample.entry;
+                }
+                decoder.decode(new EncodedVideoChunk({
+                    type: sample.isSync ? 'key' : 'delta',
+                    timestamp: Math.round((decodeTime + sample.compositionOffset) / track.timescale * MICROSECONDS),
+                    duration: Math.round(sample.duration / track.timescale * MICROSECONDS),
+                    data: bytes.subarray(sample.offset, sample.offset + sample.size),
+                }));
+                decodeTime += sample.duration;
+                index++;
+                await drained(decoder, () => decoder.decodeQueueSize);
+                continue;
+            }
+            if (flushed) return;
+            if (entry >= 0) await decoder.flush();
+            flushed = true;
+        }
+    } finally {
+        ready.forEach(f => f.close());
+        if (decoder.state !== 'closed') decoder.close();
+    }
+}
+
+// Lowest H.264 level that fits the frame size: 3.1 (720p), 4.0 (1080p), 5.1 (4K)
+const avcLevel = (width: number, height: number) => width * height <= 921600 ? 0x1f : width * height <= 2097152 ? 0x28 : 0x33;
+
+const pickVideoConfig = async (width: number, height: number, frameRate: number): Promise<VideoEncoderConfig> => {
+    const level = hex(avcLevel(width, height));
+    // High, Main, then Constrained Baseline for encoders that only do the basics
+    for (const profile of ['6400', '4d00', '42e0']) {
+        const config: VideoEncoderConfig = { codec: `avc1.${profile}${level}`, width, height, framerate: frameRate, bitrate: Math.round(width * height * frameRate * 0.1), avc: { format: 'avc' } };
+        if ((await VideoEncoder.isConfigSupported(config)).supported) return config;
+    }
+    throw new Error('浏览器不支持 H.264 视频编码');
+};
+
+const createVideoEncoder = ({ width, height, frameRate }: { width: number, height: number, frameRate: number }) => {
+    const samples: EncodedSample[] = [];
+    let description: Uint8Array | undefined;
+    let failure: Error | undefined;
+    const encoder = new VideoEncoder({
+        output: (chunk, metadata) => {
+            const data = new Uint8Array(chunk.byteLength);
+            chunk.copyTo(data);
+            samples.push({ data, isSync: chunk.type === 'key' });
+            if (metadata?.decoderConfig?.description) description = toBytes(metadata.decoderConfig.description);
+        },
+        error: e => { failure = e; },
+    });
+    const configured = pickVideoConfig(width, height, frameRate).then(config => encoder.configure(config));
+
+    return {
+        encode: async (frame: VideoFrame, keyFrame: boolean) => {
+            await configured;
+            if (failure) throw failure;
+            encoder.encode(frame, { keyFrame });
+            await drained(encoder, () => encoder.encodeQueueSize);
+        },
+        finish: async (): Promise<EncodedTrack> => {
+            await configured;
+            await encoder.flush();
+            encoder.close();
+            if (failure) throw failure;
+            if (!description) throw new Error('视频编码器没有返回 avcC 配置');
+            return { samples, sampleEntry: avcSampleEntry(width, height, description) };
+        },
+    };
+};
+
+// AudioSpecificConfig for AAC-LC, for encoders that leave the description out
+const aacConfig = (sampleRate: number, channels: number) => {
+    const frequencyIndex = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000].indexOf(sampleRate);
+    const value = (2 << 11) | (Math.max(frequencyIndex, 0) << 7) | (channels << 3);
+    return Uint8Array.of(value >> 8, value & 0xff);
+};
+
+const encodeAudio = async ({ sampleRate, channels }: PcmAudio): Promise<EncodedTrack> => {
+    const numberOfChannels = channels.length;
+    const candidates: AudioEncoderConfig[] = [
+        { codec: 'mp4a.40.2', sampleRate, numberOfChannels, bitrate: AUDIO_BITRATE },
+        { codec: 'opus', sampleRate, numberOfChannels, bitrate: AUDIO_BITRATE },
+    ];
+    let config: AudioEncoderConfig | undefined;
+    for (const candidate of candidates) {
+        if ((await AudioEncoder.isConfigSupported(candidate)).supported) { config = candidate; break; }
+    }
+    if (!config) throw new Error('浏览器不支持 AAC 或 Opus 音频编码');
+
+    const samples: EncodedSample[] = [];
+    let description: Uint8Array | undefined;
+    let failure: Error | undefined;
+    const encoder = new AudioEncoder({
+        output: (chunk, metadata) => {
+            const data = new Uint8Array(chunk.byteLength);
+            chunk.copyTo(data);
+            samples.push({ data, isSync: true, duration: (chunk.duration || 0) / MICROSECONDS });
+            if (metadata?.decoderConfig?.description) description = toBytes(metadata.decoderConfig.description);
+        },
+        error: e => { failure = e; },
+    });
+    encoder.configure(config);
+
+    const length = channels[0]?.length || 0;
+    for (let start = 0; start < length; start += AUDIO_FRAME) {
+        if (failure) break;
+        const frames = Math.min(AUDIO_FRAME, length - start);
+        const planar = new Float32Array(frames * numberOfChannels);
+        channels.forEach((plane, c) => planar.set(plane.subarray(start, start + frames), c * frames));
+        const data = new AudioData({ format: 'f32-planar', sampleRate, numberOfFrames: frames, numberOfChannels, timestamp: Math.round(start / sampleRate * MICROSECONDS), data: planar });
+        encoder.encode(data);
+        data.close();
+        await drained(encoder, () => encoder.encodeQueueSize);
+    }
+    await encoder.flush();
+    encoder.close();
+    if (failure) throw failure;
+
+    if (config.codec === 'opus') {
+        // OpusHead stores the pre-skip little-endian at byte 10
+        const preSkip = description && description.length >= 12 ? description[10] | description[11] << 8 : OPUS_PRE_SKIP;
+        return { samples, sampleEntry: opusSampleEntry(numberOfChannels, sampleRate, preSkip), timescale: 48000 };
+    }
+    return { samples, sampleEntry: aacSampleEntry(numberOfChannels, sampleRate, description || aacConfig(sampleRate, numberOfChannels), AUDIO_BITRATE), timescale: sampleRate };
+};
+
+export const isWebCodecsSupported = () =>
+    typeof VideoDecoder !== 'undefined' && typeof VideoEncoder !== 'undefined' && typeof AudioEncoder !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+export const createWebCodecs = (): MediaCodecs<VideoFrame> => {
+    let canvas: OffscreenCanvas | undefined;
+    let context: OffscreenCanvasRenderingContext2D | null = null;
+
+    return {
+        decodeVideo,
+        decodeImage: async bytes => {
+            const bitmap = await createImageBitmap(new Blob([bytes]));
+            try {
+                return new VideoFrame(bitmap, { timestamp: 0 });
+            } finally {
+                bitmap.close();
+            }
+        },
+        compose: (layers, width, height, timestamp) => {
+            if (!canvas || canvas.width !== width || canvas.height !== height) {
+                canvas = new OffscreenCanvas(width, height);
+                context = canvas.getContext('2d');
+            }
+            if (!context) throw new Error('OffscreenCanvas 2D 不可用');
+            context.globalAlpha = 1;
+            context.fillStyle = '#000';
+            context.fillRect(0, 0, width, height);
+            layers.forEach(({ frame, opacity }) => {
+                const scale = Math.min(width / frame.displayWidth, height / frame.displayHeight);
+                const w = frame.displayWidth * scale;
+                const h = frame.displayHeight * scale;
+                context!.globalAlpha = opacity;
+                context!.drawImage(frame, (width - w) / 2, (height - h) / 2, w, h);
+            });
+            return new VideoFrame(canvas, { timestamp: Math.round(timestamp * MICROSECONDS) });
+        },
+        release: frame => frame.close(),
+        createVideoEncoder,
+        encodeAudio,
+    };
+};
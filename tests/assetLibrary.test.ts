@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { UNFILED_FOLDER, applyAssetPatch, listFolders, listTags, parseTags, queryAssets } from '../services/assetLibrary';
+import { Asset, AssetProvenance } from '../types';
+
+const provenance = (model: string, prompt: string): AssetProvenance => ({ provider: 'gemini', model, prompt, params: {}, inputs: [], createdAt: 0 });
+
+const assets: Asset[] = [
+    { id: 'a1', type: 'image', src: 'media://1', title: '海报', timestamp: 3, tags: ['夜景', 'city'], folder: '客户A', provenance: provenance('gemini-2.5-flash-image', 'neon city at night') },
+    { id: 'a2', type: 'video', src: 'media://2', title: 'Teaser', timestamp: 1, favorite: true, tags: ['city'], provenance: provenance('veo-3.1-generate-preview', 'drone shot') },
+    { id: 'a3', type: 'audio', src: 'media://3', title: '配乐', timestamp: 2 },
+];
+
+const ids = (list: Asset[]) => list.map(a => a.id);
+
+describe('asset library', () => {
+    it('searches titles, prompts and tags with every term', () => {
+        expect(ids(queryAssets(assets, { text: 'NEON night' }))).toEqual(['a1']);
+        expect(ids(queryAssets(assets, { text: 'city' }))).toEqual(['a1', 'a2']);
+        expect(ids(queryAssets(assets, { text: 'city drone' }))).toEqual(['a2']);
+    });
+
+    it('filters by type, folder, tag and favorites', () => {
+        expect(ids(queryAssets(assets, { type: 'audio' }))).toEqual(['a3']);
+        expect(ids(queryAssets(assets, { folder: UNFILED_FOLDER }))).toEqual(['a3', 'a2']);
+        expect(ids(queryAssets(assets, { tag: '夜景' }))).toEqual(['a1']);
+        expect(ids(queryAssets(assets, { favoritesOnly: true }))).toEqual(['a2']);
+    });
+
+    it('sorts by type and by model with uploads last', () => {
+        expect(ids(queryAssets(assets, { sort: 'type' }))).toEqual(['a1', 'a2', 'a3']);
+        expect(ids(queryAssets(assets, { sort: 'model' })).pop()).toBe('a3');
+    });
+
+    it('collects folders and tags and normalizes edits', () => {
+        expect(listFolders(assets)).toEqual(['客户A']);
+        expect(listTags(assets)).toEqual(['city', '夜景']);
+        expect(parseTags('人物, #夜景  city，人物')).toEqual(['人物', '夜景', 'city']);
+        expect(applyAssetPatch(assets[0], { tags: [], folder: '', favorite: false })).not.toHaveProperty('folder');
+        expect(applyAssetPatch(assets[2], { favorite: true })).toMatchObject({ favorite: true });
+    });
+});
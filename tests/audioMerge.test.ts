@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { makeNode } from './helpers';
+import { toMergeOptions } from '../services/audioMerge';
+import { NodeType } from '../types';
+
+const video = makeNode({ id: 'v', type: NodeType.VIDEO_GENERATOR, data: { videoUri: 'media://v' } });
+const narration = makeNode({ id: 'a', type: NodeType.AUDIO_GENERATOR, data: { audioUri: 'media://a' } });
+
+describe('audio merge', () => {
+    it('lays the first connected audio under the first connected video', () => {
+        const other = makeNode({ id: 'b', type: NodeType.AUDIO_GENERATOR, data: { audioUri: 'media://b' } });
+        expect(toMergeOptions([narration, makeNode({ id: 'p' }), video, other])).toEqual({
+            video: 'media://v',
+            audio: [{ src: 'media://a', start: 0, volume: 1, fadeIn: 0, fadeOut: 0, loop: false }],
+        });
+        expect(toMergeOptions([video, narration], { offset: -1.5, volume: 0.6, fadeOut: 2, fit: 'loop' }).audio).toEqual([
+            { src: 'media://a', start: -1.5, volume: 0.6, fadeIn: 0, fadeOut: 2, loop: true },
+        ]);
+    });
+
+    it('needs both a video and an audio input', () => {
+        expect(() => toMergeOptions([narration])).toThrow('请连接一个已生成视频的节点');
+        expect(() => toMergeOptions([video, makeNode({ id: 'a', type: NodeType.AUDIO_GENERATOR })])).toThrow('请连接一个已生成音频的节点');
+    });
+});
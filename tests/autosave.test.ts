@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { SaveStatus, createAutosave, projectChanged } from '../services/autosave';
+import { loadProject, loadWorkflows, saveNodes, saveProject } from '../services/storage';
+import { AppNode, Project, Workflow } from '../types';
+import { makeNode } from './helpers';
+
+const project = (id: string): Project => ({
+    id, title: id, createdAt: 1, updatedAt: 1, lastOpenedAt: 1, viewport: { x: 0, y: 0, scale: 1 }, connections: [], groups: [],
+});
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const titles = async (projectId: string) => Object.fromEntries((await loadProject(projectId)).nodes.map(n => [n.id, n.title]));
+
+describe('autosave', () => {
+    it('writes only changed and removed records, and keeps edits of a project that is no longer open', async () => {
+        const record = project('as1');
+        const [a, b, c] = ['as1-a', 'as1-b', 'as1-c'].map(id => makeNode({ id, title: 'stored' }));
+        await saveProject(record);
+        await saveNodes('as1', [a, b, c]);
+
+        const autosave = createAutosave({ delayMs: 10 });
+        // The in-memory copy of b differs from storage; it is untouched, so storage must keep its own version
+        const memoryB: AppNode = { ...b, title: 'memory' };
+        autosave.markSaved({ project: { record, nodes: [a, memoryB, c], assets: [] } });
+
+        autosave.schedule({ project: { record, nodes: [{ ...a, title: 'moved' }, memoryB], assets: [] } });
+        autosave.schedule({ workflows: [] }); // Another snapshot without the project, e.g. after it was closed
+        await autosave.flush();
+
+        expect(await titles('as1')).toEqual({ 'as1-a': 'moved', 'as1-b': 'stored' });
+    });
+
+    it('coalesces bursts into one write and compares the project record by value', async () => {
+        const statuses: SaveStatus[] = [];
+        const autosave = createAutosave({ delayMs: 20, onStatus: s => statuses.push(s) });
+        const record = project('as2');
+        autosave.markSaved({ project: { record, nodes: [], assets: [] } });
+
+        for (let x = 1; x <= 5; x++) autosave.schedule({ project: { record, nodes: [makeNode({ id: 'as2-a', x })], assets: [] } });
+        await wait(100);
+        expect(statuses).toEqual(['saving', 'saved']);
+        expect((await loadProject('as2')).nodes.map(n => n.x)).toEqual([5]);
+
+        expect(projectChanged(record, { ...record, updatedAt: 2, viewport: { x: 0, y: 0, scale: 1 } })).toBe(false);
+        expect(projectChanged(record, { ...record, viewport: { x: 4, y: 0, scale: 1 } })).toBe(true);
+        expect(projectChanged(record, { ...record, connections: [{ from: 'a', to: 'b' }] })).toBe(true);
+    });
+
+    it('writes nothing before the stored state is known and retries failed records with the next change', async () => {
+        const errors: unknown[] = [];
+        const statuses: SaveStatus[] = [];
+        const autosave = createAutosave({ onStatus: s => statuses.push(s), onError: e => errors.push(e) });
+        const workflow = (id: string, extra: object = {}) => ({ id, title: id, thumbnail: '', nodes: [], connections: [], groups: [], ...extra }) as Workflow;
+
+        autosave.schedule({ workflows: [workflow('wf-early')] });
+        await autosave.flush();
+        expect((await loadWorkflows()).records).toEqual([]);
+
+        autosave.markSaved({ workflows: [] });
+        autosave.schedule({ workflows: [workflow('wf-bad', { onClick: () => {} })] }); // Functions cannot be stored
+        await autosave.flush();
+        expect(statuses.at(-1)).toBe('failed');
+        expect(errors).toHaveLength(1);
+
+        autosave.schedule({ workflows: [workflow('wf-good')] });
+        await autosave.flush();
+        expect(statuses.at(-1)).toBe('saved');
+        expect((await loadWorkflows()).records.map(w => w.id)).toEqual(['wf-good']);
+    });
+});
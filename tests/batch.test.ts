@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from 'vitest';
+import { describeVariantErrors, requireResults, runBatch, successSlots } from '../services/batch';
+import { generateImageBatch, generateVideo } from '../services/geminiService';
+import { createMockFetch } from '../mock/genaiMock';
+import { useGenAIMock, withFakeTimers } from './helpers';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Lets every call through except the `nth` (1-based) one matching `path`, which answers with a 400
+const failNthCall = (mockFetch: ReturnType<typeof createMockFetch>, path: string, nth: number) => {
+    let seen = 0;
+    return async (input: RequestInfo | URL, init?: RequestInit) => {
+        if (String(input).includes(path) && ++seen === nth) {
+            return new Response(JSON.stringify({ error: { code: 400, message: 'Blocked by safety filter', status: 'INVALID_ARGUMENT' } }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+        }
+        return mockFetch(input, init);
+    };
+};
+
+describe('runBatch', () => {
+    it('keeps results in slot order and reports failures by slot', async () => {
+        const progress: string[] = [];
+        const outcome = await runBatch(4, 2, async i => {
+            await new Promise(resolve => setTimeout(resolve, (4 - i) * 5));
+            if (i === 2) throw new Error('boom');
+            return `r${i}`;
+        }, (done, total) => progress.push(`${done}/${total}`));
+
+        expect(outcome.results).toEqual(['r0', 'r1', 'r3']);
+        expect(outcome.errors).toEqual([{ index: 2, message: 'boom' }]);
+        expect(progress).toEqual(['1/4', '2/4', '3/4', '4/4']);
+    });
+
+    it('never runs more tasks than the concurrency limit', async () => {
+        let inFlight = 0;
+        let peak = 0;
+        await runBatch(5, 2, async () => {
+            peak = Math.max(peak, ++inFlight);
+            await tick();
+            inFlight--;
+        });
+        expect(peak).toBe(2);
+    });
+
+    it('only throws when every variant failed', () => {
+        expect(requireResults({ results: ['a'], errors: [{ index: 1, message: 'x' }] }, 'none')).toEqual(['a']);
+        expect(() => requireResults({ results: [], errors: [{ index: 0, message: 'first' }] }, 'none')).toThrow('first');
+        expect(() => requireResults({ results: [], errors: [] }, 'none')).toThrow('none');
+    });
+
+    it('maps surviving operations back to their slots', () => {
+        expect(successSlots(4, [{ index: 1, message: 'x' }, { index: 3, message: 'y' }])).toEqual([0, 2]);
+        expect(describeVariantErrors([{ index: 1, message: 'x' }], 4)).toBe('1/4 个结果生成失败：#2 x');
+    });
+});
+
+describe('batch generation against the mock API', () => {
+    const api = useGenAIMock();
+
+    it('sends one request per image and keeps the images that succeeded', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.stubGlobal('fetch', failNthCall(createMockFetch(api.current()), ':generateContent', 2));
+        const progress: number[] = [];
+
+        const outcome = await generateImageBatch('a red fox', 'gemini-2.5-flash-image', [], { count: 4, onProgress: done => progress.push(done) });
+
+        expect(api.current().calls.filter(c => c.path.endsWith(':generateContent'))).toHaveLength(3);
+        expect(outcome.results).toHaveLength(3);
+        expect(outcome.errors).toHaveLength(1);
+        expect(outcome.errors[0].message).toContain('Blocked by safety filter');
+        expect(progress).toEqual([1, 2, 3, 4]);
+    });
+
+    it('returns the videos that were submitted when one submission fails', async () => {
+        vi.stubGlobal('fetch', failNthCall(createMockFetch(api.current()), ':predictLongRunning', 2));
+
+        const res = await withFakeTimers(() => generateVideo('waves', 'veo-3.1-fast-generate-preview', { count: 3 }));
+
+        expect(res.isFallbackImage).toBe(false);
+        expect(res.uris).toHaveLength(2);
+        expect(res.errors?.map(e => e.index)).toEqual([1]);
+    });
+});
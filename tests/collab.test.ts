@@ -0,0 +1,143 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import * as Y from 'yjs';
+import { WebSocket as NodeWebSocket } from 'ws';
+import { CollabConnection, applyRemotePatch, bindCanvas, connectCollab, listPeers, readCanvas, wouldReplaceCanvas } from '../services/collab';
+import { CanvasState } from '../services/history';
+import { RelayServer, startRelayServer } from '../relay/server';
+import { makeNode } from './helpers';
+
+const canvas = (overrides: Partial<CanvasState> = {}): CanvasState => ({ nodes: [], connections: [], groups: [], ...overrides });
+
+// Two documents that exchange every update directly, like two peers behind a relay
+const linkedDocs = () => {
+    const a = new Y.Doc();
+    const b = new Y.Doc();
+    a.on('update', (update: Uint8Array, origin: unknown) => { if (origin !== 'peer') Y.applyUpdate(b, update, 'peer'); });
+    b.on('update', (update: Uint8Array, origin: unknown) => { if (origin !== 'peer') Y.applyUpdate(a, update, 'peer'); });
+    return { a, b };
+};
+
+// A peer's React state, kept current the way the app does it
+const peer = (doc: Y.Doc, initial: CanvasState) => {
+    const view = { state: initial };
+    const binding = bindCanvas(doc, initial, patch => { view.state = applyRemotePatch(view.state, patch); });
+    const edit = (change: (state: CanvasState) => CanvasState) => { view.state = change(view.state); binding.pushLocal(view.state); };
+    return { view, edit };
+};
+
+const until = async (check: () => boolean, timeoutMs = 3000) => {
+    const start = Date.now();
+    while (!check()) {
+        if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for peers to converge');
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+};
+
+describe('canvas document', () => {
+    it('shares the first canvas and replaces the canvas of a peer joining later', () => {
+        const { a, b } = linkedDocs();
+        const node = makeNode({ id: 'shared', data: { prompt: 'sunset' } });
+        const first = peer(a, canvas({ nodes: [node], connections: [{ from: 'shared', to: 'x' }] }));
+        const second = peer(b, canvas({ nodes: [makeNode({ id: 'mine' })] }));
+
+        expect(first.view.state.nodes).toEqual([node]);
+        expect(second.view.state.nodes).toEqual([node]);
+        expect(second.view.state.connections).toEqual([{ from: 'shared', to: 'x' }]);
+    });
+
+    it('merges concurrent edits to different fields of the same node', () => {
+        const a = new Y.Doc();
+        const b = new Y.Doc();
+        const node = makeNode({ id: 'n', x: 0, data: { prompt: 'a cat', model: 'm1' } });
+        const one = peer(a, canvas({ nodes: [node] }));
+        Y.applyUpdate(b, Y.encodeStateAsUpdate(a));
+        const two = peer(b, canvas());
+
+        // Both edit while disconnected, then exchange their updates
+        one.edit(s => ({ ...s, nodes: s.nodes.map(n => ({ ...n, x: 40, data: { ...n.data, prompt: 'a dog' } })) }));
+        two.edit(s => ({ ...s, nodes: s.nodes.map(n => ({ ...n, data: { ...n.data, model: 'm2' } })) }));
+        Y.applyUpdate(b, Y.encodeStateAsUpdate(a));
+        Y.applyUpdate(a, Y.encodeStateAsUpdate(b));
+
+        for (const view of [one.view, two.view]) {
+            expect(view.state.nodes[0]).toMatchObject({ x: 40, data: { prompt: 'a dog', model: 'm2' } });
+        }
+        expect(readCanvas(a)).toEqual(readCanvas(b));
+    });
+
+    it('applies remote changes on top of local ones that were not pushed yet', () => {
+        const { a, b } = linkedDocs();
+        const one = peer(a, canvas({ nodes: [makeNode({ id: 'p' }), makeNode({ id: 'q' })] }));
+        const two = peer(b, canvas());
+
+        two.view.state = { ...two.view.state, nodes: two.view.state.nodes.map(n => n.id === 'q' ? { ...n, title: 'local' } : n) };
+        one.edit(s => ({ ...s, nodes: s.nodes.filter(n => n.id !== 'p') }));
+
+        expect(two.view.state.nodes.map(n => [n.id, n.title])).toEqual([['q', 'local']]);
+    });
+
+    it('keeps API keys out of the shared document', () => {
+        const { a, b } = linkedDocs();
+        const uri = 'https://generativelanguage.googleapis.com/v1beta/files/v1:download?alt=media&key=SECRET';
+        const node = makeNode({ id: 'v', data: { videoUri: uri, videoUris: [uri] } });
+        const one = peer(a, canvas({ nodes: [node] }));
+        const two = peer(b, canvas());
+
+        expect(JSON.stringify(readCanvas(a))).not.toContain('SECRET');
+        expect(two.view.state.nodes[0].data.videoUri).toBe('https://generativelanguage.googleapis.com/v1beta/files/v1:download?alt=media');
+
+        // The sender keeps its own link, and later edits do not bring the stripped one back as a change
+        one.edit(s => ({ ...s, nodes: s.nodes.map(n => ({ ...n, x: 10 })) }));
+        expect(one.view.state.nodes[0].data.videoUri).toBe(uri);
+        expect(two.view.state.nodes[0].x).toBe(10);
+    });
+
+    it('tells when joining would replace a different local canvas', () => {
+        const doc = new Y.Doc();
+        const room = canvas({ nodes: [makeNode({ id: 'shared' })] });
+        expect(wouldReplaceCanvas(doc, canvas({ nodes: [makeNode({ id: 'mine' })] }))).toBe(false);
+        bindCanvas(doc, room, () => {});
+        expect(wouldReplaceCanvas(doc, canvas())).toBe(false);
+        expect(wouldReplaceCanvas(doc, room)).toBe(false);
+        expect(wouldReplaceCanvas(doc, canvas({ nodes: [makeNode({ id: 'mine' })] }))).toBe(true);
+    });
+});
+
+describe('collaboration relay', () => {
+    let relay: RelayServer;
+    const connections: CollabConnection[] = [];
+    const join = (name: string) => {
+        const connection = connectCollab({ relayUrl: relay.url, room: 'review', user: { name, color: '#fff' }, WebSocketImpl: NodeWebSocket as unknown as typeof WebSocket });
+        connections.push(connection);
+        return connection;
+    };
+
+    beforeAll(async () => { relay = await startRelayServer(0); });
+    afterAll(async () => {
+        connections.forEach(c => c.disconnect());
+        await relay.close();
+    });
+
+    it('syncs two peers through the relay with presence', async () => {
+        const alice = join('Alice');
+        await alice.synced;
+        const aliceView = peer(alice.doc, canvas({ nodes: [makeNode({ id: 'shot', data: { prompt: 'opening' } })] }));
+
+        const bob = join('Bob');
+        await bob.synced;
+        const bobView = peer(bob.doc, canvas());
+        expect(bobView.view.state.nodes.map(n => n.id)).toEqual(['shot']);
+
+        bobView.edit(s => ({ ...s, nodes: s.nodes.map(n => ({ ...n, data: { ...n.data, prompt: 'closing' } })) }));
+        await until(() => aliceView.view.state.nodes[0].data.prompt === 'closing');
+
+        bob.setCursor({ x: 120, y: 80 });
+        bob.setSelection(['shot']);
+        await until(() => listPeers(alice.awareness).some(p => p.user.name === 'Bob' && p.selection.length === 1));
+        expect(listPeers(alice.awareness)).toEqual([expect.objectContaining({ user: { name: 'Bob', color: '#fff' }, cursor: { x: 120, y: 80 }, selection: ['shot'] })]);
+
+        bob.disconnect();
+        await until(() => listPeers(alice.awareness).length === 0);
+        expect(relay.roomCount()).toBe(1);
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from 'vitest';
+import { generateImageFromText, generateVideo, generateAudio, analyzeVideo, planStoryboard } from '../services/geminiService';
+import { PNG_SIGNATURE, useGenAIMock, withFakeTimers } from './helpers';
+
+describe('geminiService against the mock API', () => {
+    const api = useGenAIMock();
+
+    it('returns PNG data URIs for image generation', async () => {
+        const images = await generateImageFromText('a red fox', 'gemini-2.5-flash-image', [], { aspectRatio: '16:9' });
+        expect(images).toHaveLength(1);
+        expect(images[0]).toMatch(new RegExp(`^data:image/png;base64,${PNG_SIGNATURE}`));
+        expect(api.current().calls[0].body.generationConfig.imageConfig.aspectRatio).toBe('16:9');
+    });
+
+    it('is deterministic for the same prompt', async () => {
+        const [a] = await generateImageFromText('a red fox', 'gemini-2.5-flash-image');
+        const [b] = await generateImageFromText('a red fox', 'gemini-2.5-flash-image');
+        const [c] = await generateImageFromText('a blue fox', 'gemini-2.5-flash-image');
+        expect(a).toBe(b);
+        expect(a).not.toBe(c);
+    });
+
+    it('polls the long-running video operation until it is done', async () => {
+        const res = await withFakeTimers(() => generateVideo('waves', 'veo-3.1-fast-generate-preview', { aspectRatio: '16:9', duration: 6 }));
+        expect(res.isFallbackImage).toBe(false);
+        expect(res.uri).toContain('/files/video-1:download');
+        expect(res.uri).toContain('&key=test-key');
+
+        const polls = api.current().calls.filter(c => c.path.includes('/operations/'));
+        expect(polls).toHaveLength(2);
+        expect(api.current().calls[0].body.parameters.durationSeconds).toBe(6);
+    });
+
+    it('generates one operation per requested video', async () => {
+        const res = await withFakeTimers(() => generateVideo('waves', 'veo-3.1-fast-generate-preview', { count: 3 }));
+        expect(res.uris).toHaveLength(3);
+        expect(new Set(res.uris).size).toBe(3);
+    });
+
+    it('extends a previous clip at 720p and returns it joined with the new seconds', async () => {
+        const first = await withFakeTimers(() => generateVideo('waves', 'veo-3.1-generate-preview', { duration: 8 }));
+        const res = await withFakeTimers(() => generateVideo('the wave breaks', 'veo-3.1-generate-preview', { resolution: '1080p', duration: 4 }, null, first.videoMetadata));
+
+        const submit = api.current().calls.filter(c => c.path.endsWith(':predictLongRunning'))[1];
+        expect(submit.body.instances[0].video.uri).toBe(first.videoMetadata.uri);
+        expect(submit.body.instances[0].image).toBeUndefined();
+        expect(submit.body.parameters).toMatchObject({ resolution: '720p' });
+        expect(submit.body.parameters.durationSeconds).toBeUndefined();
+        expect(res.uri).toContain('duration=15');
+    });
+
+    it('serves a playable-container MP4 at the returned uri', async () => {
+        const res = await withFakeTimers(() => generateVideo('waves', 'veo-3.1-fast-generate-preview'));
+        const bytes = new Uint8Array(await (await fetch(res.uri)).arrayBuffer());
+        expect(new TextDecoder().decode(bytes.slice(4, 8))).toBe('ftyp');
+    });
+
+    it('wraps TTS PCM in a WAV container', async () => {
+        const wav = await generateAudio('hello there');
+        expect(wav.startsWith('data:audio/wav;base64,')).toBe(true);
+        const header = atob(wav.split(',')[1]).slice(0, 12);
+        expect(header.slice(0, 4)).toBe('RIFF');
+        expect(header.slice(8, 12)).toBe('WAVE');
+    });
+
+    it('analyzes inline video data', async () => {
+        const text = await analyzeVideo('data:video/mp4;base64,AAAA', 'describe the motion', 'gemini-2.5-flash');
+        expect(text).toBe('Mock analysis: describe the motion');
+    });
+
+    it('parses the storyboard JSON plan', async () => {
+        const shots = await planStoryboard('three shots of a city', 'night');
+        expect(shots).toHaveLength(3);
+        expect(shots[0]).toMatch(/^Shot 1:/);
+    });
+});
+
+describe('geminiService when video is unavailable', () => {
+    useGenAIMock({ rejectVideo: true });
+
+    it('falls back to a still image', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const res = await withFakeTimers(() => generateVideo('waves', 'veo-3.1-fast-generate-preview'));
+        expect(res.isFallbackImage).toBe(true);
+        expect(res.uri).toMatch(/^data:image\/png;base64,/);
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { cloneGraph, offsetToCenter } from '../services/graphClone';
+import { syncTimeline } from '../services/timeline';
+import { NodeStatus, NodeType } from '../types';
+import { makeNode } from './helpers';
+
+const workflow = () => {
+    const a = makeNode({ id: 'a', x: 0, y: 0, status: NodeStatus.SUCCESS, data: { image: 'media://a' } });
+    const b = makeNode({ id: 'b', x: 600, y: 100, inputs: ['a', 'outside'], data: { sortedInputIds: ['outside', 'a'] } });
+    return {
+        nodes: [a, b],
+        connections: [{ from: 'a', to: 'b' }, { from: 'outside', to: 'b' }],
+        groups: [{ id: 'g1', title: 'G', x: -20, y: -20, width: 1100, height: 500 }],
+    };
+};
+
+describe('workflow drop', () => {
+    it('centres the workflow bounding box on the drop point', () => {
+        // Bounds: x 0..1020 (600 + default width 420), y 0..420 (100 + assumed height 320)
+        expect(offsetToCenter(workflow().nodes, 1000, 1000)).toEqual({ offsetX: 1000 - 510, offsetY: 1000 - 210 });
+    });
+
+    it('re-issues node and group ids and remaps inputs and connections', () => {
+        const wf = workflow();
+        const { nodes, connections, groups } = cloneGraph(wf, { offsetX: 10, offsetY: 20 });
+        const [a, b] = nodes;
+
+        expect(a.id).not.toBe('a');
+        expect(b.id).not.toBe('b');
+        expect(b.inputs).toEqual([a.id]);
+        expect(b.data.sortedInputIds).toEqual([a.id]);
+        expect(connections).toEqual([{ from: a.id, to: b.id }]);
+        expect(groups[0].id).not.toBe('g1');
+        expect([a.x, a.y, b.x, b.y, groups[0].x, groups[0].y]).toEqual([10, 20, 610, 120, -10, 0]);
+        // The source workflow is untouched
+        expect(wf.nodes[1].inputs).toEqual(['a', 'outside']);
+        expect(wf.nodes[1].data.sortedInputIds).toEqual(['outside', 'a']);
+    });
+
+    it('keeps the edit of a timeline node on its copied inputs', () => {
+        const clip = makeNode({ id: 'clip', data: { videoUri: 'media://clip' } });
+        const music = makeNode({ id: 'music', type: NodeType.AUDIO_GENERATOR, data: { audioUri: 'media://music' } });
+        const timeline = makeNode({
+            id: 'cut', type: NodeType.TIMELINE, inputs: ['clip', 'music', 'outside'],
+            data: { timeline: {
+                clips: [{ sourceId: 'clip', kind: 'video', src: 'media://clip', in: 1, out: 3, gap: 0.5 }, { sourceId: 'outside', kind: 'image', src: 'media://still' }],
+                audio: [{ sourceId: 'music', track: 'music', src: 'media://music', start: 2, volume: 0.4 }],
+            } },
+        });
+        const { nodes } = cloneGraph({ nodes: [clip, music, timeline], connections: [], groups: [] });
+        const [newClip, newMusic, newCut] = nodes;
+
+        expect(newCut.data.timeline).toEqual({
+            clips: [{ sourceId: newClip.id, kind: 'video', src: 'media://clip', in: 1, out: 3, gap: 0.5 }],
+            audio: [{ sourceId: newMusic.id, track: 'music', src: 'media://music', start: 2, volume: 0.4 }],
+        });
+        // The copy lines up with its inputs, so syncing keeps the trims instead of starting over
+        expect(syncTimeline(newCut.data.timeline, [newClip, newMusic])).toEqual(newCut.data.timeline);
+        expect(timeline.data.timeline!.clips[0].sourceId).toBe('clip');
+    });
+
+    it('resets status on drop but keeps it for duplicates', () => {
+        expect(cloneGraph(workflow()).nodes[0].status).toBe(NodeStatus.IDLE);
+        expect(cloneGraph(workflow(), { resetStatus: false }).nodes[0].status).toBe(NodeStatus.SUCCESS);
+    });
+
+    it('never carries a WORKING status over', () => {
+        const wf = workflow();
+        wf.nodes[0].status = NodeStatus.WORKING;
+        expect(cloneGraph(wf, { resetStatus: false }).nodes[0].status).toBe(NodeStatus.IDLE);
+    });
+});
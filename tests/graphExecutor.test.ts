@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildUpstreamMap, collectDownstream, executeGraph, topologicalSort } from '../services/graphExecutor';
+import { makeNode } from './helpers';
+
+// a → b → d, a → c → d, plus an unrelated e
+const diamond = () => ({
+    nodes: [
+        makeNode({ id: 'a' }),
+        makeNode({ id: 'b', inputs: ['a'] }),
+        makeNode({ id: 'c' }),
+        makeNode({ id: 'd', inputs: ['b', 'c'] }),
+        makeNode({ id: 'e' }),
+    ],
+    // c's edge exists only as a connection, the way the two lists drift apart
+    connections: [{ from: 'a', to: 'b' }, { from: 'a', to: 'c' }, { from: 'b', to: 'd' }, { from: 'c', to: 'd' }],
+});
+
+describe('graph helpers', () => {
+    it('merges node inputs and connections and drops dangling or self edges', () => {
+        const nodes = [makeNode({ id: 'a', inputs: ['a', 'gone'] }), makeNode({ id: 'b', inputs: ['a'] })];
+        const upstream = buildUpstreamMap(nodes, [{ from: 'a', to: 'b' }, { from: 'gone', to: 'b' }, { from: 'b', to: 'a' }]);
+        expect(upstream.get('a')).toEqual(['b']);
+        expect(upstream.get('b')).toEqual(['a']);
+    });
+
+    it('sorts upstream nodes first', () => {
+        const { nodes, connections } = diamond();
+        const { order, cyclic } = topologicalSort(nodes.map(n => n.id), buildUpstreamMap(nodes, connections));
+        expect(cyclic).toEqual([]);
+        expect(order.indexOf('a')).toBeLessThan(order.indexOf('b'));
+        expect(order.indexOf('a')).toBeLessThan(order.indexOf('c'));
+        expect(order.indexOf('d')).toBe(order.length - 1);
+    });
+
+    it('reports nodes on or behind a cycle', () => {
+        const nodes = [makeNode({ id: 'a' }), makeNode({ id: 'b', inputs: ['a', 'c'] }), makeNode({ id: 'c', inputs: ['b'] }), makeNode({ id: 'd', inputs: ['c'] })];
+        const { order, cyclic } = topologicalSort(nodes.map(n => n.id), buildUpstreamMap(nodes, []));
+        expect(order).toEqual(['a']);
+        expect(cyclic).toEqual(['b', 'c', 'd']);
+    });
+
+    it('collects the start node and everything reachable from it', () => {
+        const { nodes, connections } = diamond();
+        expect(collectDownstream('c', nodes, connections).sort()).toEqual(['c', 'd']);
+        expect(collectDownstream('a', nodes, connections).sort()).toEqual(['a', 'b', 'c', 'd']);
+        expect(collectDownstream('missing', nodes, connections)).toEqual([]);
+    });
+});
+
+describe('graph execution', () => {
+    it('runs each node after its upstream nodes', async () => {
+        const { nodes, connections } = diamond();
+        const ran: string[] = [];
+        const result = await executeGraph(nodes, connections, ['a', 'b', 'c', 'd'], async id => { ran.push(id); return true; });
+        expect(result).toEqual({ succeeded: ran, failed: [], skipped: [], cyclic: [] });
+        expect(ran.indexOf('d')).toBe(3);
+    });
+
+    it('skips everything downstream of a failure but keeps independent branches', async () => {
+        const { nodes, connections } = diamond();
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const result = await executeGraph(nodes, connections, ['a', 'b', 'c', 'd', 'e'], async id => {
+            if (id === 'b') throw new Error('boom');
+            return true;
+        });
+        expect(result.failed).toEqual(['b']);
+        expect(result.skipped).toEqual(['d']);
+        expect(result.succeeded.sort()).toEqual(['a', 'c', 'e']);
+    });
+
+    it('treats upstream nodes outside the scope as done and never runs cyclic ones', async () => {
+        const nodes = [makeNode({ id: 'a' }), makeNode({ id: 'b', inputs: ['a', 'c'] }), makeNode({ id: 'c', inputs: ['b'] }), makeNode({ id: 'd', inputs: ['a'] })];
+        const ran: string[] = [];
+        const result = await executeGraph(nodes, [], ['b', 'c', 'd'], async id => { ran.push(id); return true; });
+        expect(ran).toEqual(['d']);
+        expect(result.cyclic).toEqual(['b', 'c']);
+    });
+});
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, vi } from 'vitest';
+import { createGenAIMock, createMockFetch, GenAIMock, GenAIMockOptions } from '../mock/genaiMock';
+import { AppNode, NodeStatus, NodeType } from '../types';
+
+export const MOCK_BASE_URL = 'http://genai.mock';
+
+// Routes the SDK to a fresh in-process mock for every test; `current()` returns the active instance
+export const useGenAIMock = (options: Omit<GenAIMockOptions, 'baseUrl'> = {}) => {
+    let mock: GenAIMock;
+    beforeEach(() => {
+        mock = createGenAIMock({ ...options, baseUrl: MOCK_BASE_URL });
+        vi.stubEnv('API_KEY', 'test-key');
+        vi.stubEnv('GEMINI_BASE_URL', MOCK_BASE_URL);
+        vi.stubGlobal('fetch', createMockFetch(mock));
+    });
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        vi.unstubAllGlobals();
+        vi.useRealTimers();
+    });
+    return { current: () => mock };
+};
+
+// Runs `fn` with fake timers so Veo polling delays elapse instantly
+export const withFakeTimers = async <T>(fn: () => Promise<T>): Promise<T> => {
+    vi.useFakeTimers();
+    const promise = fn();
+    await vi.runAllTimersAsync();
+    return promise;
+};
+
+export const makeNode = (overrides: Partial<AppNode> & { data?: AppNode['data'] } = {}): AppNode => ({
+    id: `n-${Math.random().toString(36).slice(2, 8)}`,
+    type: NodeType.IMAGE_GENERATOR,
+    x: 0, y: 0, width: 420,
+    title: 'Node',
+    status: NodeStatus.IDLE,
+    inputs: [],
+    ...overrides,
+    data: { ...overrides.data },
+});
+
+export const PNG_SIGNATURE = 'iVBORw0KGgo';
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import {
+    CanvasState, EMPTY_HISTORY, HistoryCommand, HistoryStack, applyConnectionPatch, applyGroupPatch, applyNodePatch,
+    diffCanvas, isPatchEmpty, patchDiscardsMedia, pushCommand, stripTransient,
+} from '../services/history';
+import { NodeStatus } from '../types';
+import { makeNode } from './helpers';
+
+const canvas = (): CanvasState => ({
+    nodes: [
+        makeNode({ id: 'a', x: 0, data: { prompt: 'sunrise' } }),
+        makeNode({ id: 'b', x: 500, inputs: ['a'], data: { image: 'media://b' } }),
+    ],
+    connections: [{ from: 'a', to: 'b' }],
+    groups: [{ id: 'g', title: 'G', x: 0, y: 0, width: 100, height: 100 }],
+});
+
+const apply = (state: CanvasState, patch: ReturnType<typeof diffCanvas>, direction: 'undo' | 'redo'): CanvasState => ({
+    nodes: applyNodePatch(state.nodes, patch, direction),
+    connections: applyConnectionPatch(state.connections, patch, direction),
+    groups: applyGroupPatch(state.groups, patch, direction),
+});
+
+const command = (before: CanvasState, after: CanvasState, timestamp: number, coalesceKey?: string): HistoryCommand =>
+    ({ id: `c-${timestamp}`, type: 'update-data', label: 'edit', timestamp, patch: diffCanvas(before, after), coalesceKey });
+
+const undoAll = (state: CanvasState, stack: HistoryStack) =>
+    stack.commands.slice(0, stack.index).reduceRight((s, c) => apply(s, c.patch, 'undo'), state);
+
+describe('canvas patches', () => {
+    it('records only the fields that changed', () => {
+        const before = canvas();
+        const after = { ...before, nodes: before.nodes.map(n => n.id === 'a' ? { ...n, x: 40, data: { ...n.data, prompt: 'sunset' } } : n) };
+        const patch = diffCanvas(before, after);
+        expect(patch.nodes).toEqual([{ id: 'a', before: { x: 0, data: { prompt: 'sunrise' } }, after: { x: 40, data: { prompt: 'sunset' } } }]);
+        expect(isPatchEmpty(diffCanvas(before, canvas()))).toBe(true);
+    });
+
+    it('undoes and redoes additions, removals and connections in place', () => {
+        const before = canvas();
+        const c = makeNode({ id: 'c' });
+        const after: CanvasState = {
+            nodes: [c, before.nodes[1]],
+            connections: [{ from: 'c', to: 'b' }],
+            groups: [],
+        };
+        const patch = diffCanvas(before, after);
+        expect(apply(after, patch, 'undo')).toEqual(before);
+        expect(apply(before, patch, 'redo')).toEqual(after);
+    });
+
+    it('leaves changes made to other nodes in the meantime alone', () => {
+        const before = canvas();
+        const after = { ...before, nodes: before.nodes.map(n => n.id === 'a' ? { ...n, x: 40 } : n) };
+        const patch = diffCanvas(before, after);
+        // A generation lands on b after the move
+        const later = { ...after, nodes: after.nodes.map(n => n.id === 'b' ? { ...n, data: { ...n.data, image: 'media://new' } } : n) };
+        const undone = apply(later, patch, 'undo');
+        expect(undone.nodes.map(n => [n.x, n.data.image])).toEqual([[0, undefined], [500, 'media://new']]);
+    });
+
+    it('keeps run state out of the history', () => {
+        const before = canvas();
+        const after = { ...before, nodes: before.nodes.map(n => n.id === 'b' ? { ...n, status: NodeStatus.WORKING, data: { ...n.data, progress: '40%' } } : n) };
+        expect(isPatchEmpty(stripTransient(diffCanvas(before, after)))).toBe(true);
+    });
+});
+
+describe('media protection', () => {
+    const withImage = (image: string | undefined) => {
+        const state = canvas();
+        return { ...state, nodes: state.nodes.map(n => n.id === 'b' ? { ...n, data: { ...n.data, image } } : n) };
+    };
+
+    it('flags undoing a generation and redoing a deletion', () => {
+        const generated = diffCanvas(withImage(undefined), withImage('media://b2'));
+        expect(patchDiscardsMedia(generated, 'undo')).toBe(true);
+        expect(patchDiscardsMedia(generated, 'redo')).toBe(false);
+
+        const before = canvas();
+        const deleted = diffCanvas(before, { ...before, nodes: [before.nodes[0]] });
+        expect(patchDiscardsMedia(deleted, 'redo')).toBe(true);
+        expect(patchDiscardsMedia(deleted, 'undo')).toBe(false);
+    });
+
+    it('ignores nodes without media and edits that keep it', () => {
+        const before = canvas();
+        const removeA = diffCanvas(before, { ...before, nodes: [before.nodes[1]] });
+        expect(patchDiscardsMedia(removeA, 'redo')).toBe(false);
+        const moved = diffCanvas(before, { ...before, nodes: before.nodes.map(n => ({ ...n, x: n.x + 10 })) });
+        expect(patchDiscardsMedia(moved, 'undo')).toBe(false);
+        const emptyVariants = diffCanvas(withImage(undefined), { ...withImage(undefined), nodes: withImage(undefined).nodes.map(n => n.id === 'b' ? { ...n, data: { ...n.data, images: [] } } : n) });
+        expect(patchDiscardsMedia(emptyVariants, 'undo')).toBe(false);
+    });
+});
+
+describe('history stack', () => {
+    const typed = (text: string) => {
+        const state = canvas();
+        return { ...state, nodes: state.nodes.map(n => n.id === 'a' ? { ...n, data: { ...n.data, prompt: text } } : n) };
+    };
+
+    it('coalesces consecutive edits with the same key into one entry', () => {
+        let stack = pushCommand(EMPTY_HISTORY, command(typed('sunrise'), typed('sunris'), 1000, 'update:a:prompt'));
+        stack = pushCommand(stack, command(typed('sunris'), typed('sunri'), 1500, 'update:a:prompt'));
+        stack = pushCommand(stack, command(typed('sunri'), typed('sunset'), 2000, 'update:a:prompt'));
+        expect(stack.index).toBe(1);
+        // The oldest before and the newest after survive the merge
+        expect(stack.commands[0].patch.nodes).toEqual([{ id: 'a', before: { data: { prompt: 'sunrise' } }, after: { data: { prompt: 'sunset' } } }]);
+        expect(undoAll(typed('sunset'), stack)).toEqual(typed('sunrise'));
+    });
+
+    it('starts a new entry for another key or after a pause', () => {
+        let stack = pushCommand(EMPTY_HISTORY, command(typed('sunrise'), typed('sunris'), 1000, 'update:a:prompt'));
+        stack = pushCommand(stack, command(typed('sunris'), typed('sunri'), 5000, 'update:a:prompt'));
+        stack = pushCommand(stack, command(typed('sunri'), typed('sun'), 5100, 'update:b:prompt'));
+        stack = pushCommand(stack, command(typed('sun'), typed('su'), 5200));
+        expect(stack.index).toBe(4);
+    });
+
+    it('merges fields that only some of the coalesced edits touched', () => {
+        const start = canvas();
+        const moved = { ...start, nodes: start.nodes.map(n => n.id === 'a' ? { ...n, x: 10 } : n) };
+        const movedAndResized = { ...moved, nodes: moved.nodes.map(n => n.id === 'a' ? { ...n, width: 600 } : n) };
+        let stack = pushCommand(EMPTY_HISTORY, command(start, moved, 1000, 'gesture:a'));
+        stack = pushCommand(stack, command(moved, movedAndResized, 1100, 'gesture:a'));
+        expect(stack.commands[0].patch.nodes).toEqual([{ id: 'a', before: { x: 0, width: 420 }, after: { x: 10, width: 600 } }]);
+        expect(undoAll(movedAndResized, stack)).toEqual(start);
+    });
+
+    it('undoes a node that was added and then edited in one step', () => {
+        const start = canvas();
+        const c = makeNode({ id: 'c', data: { prompt: 'fog' } });
+        const added = { ...start, nodes: [...start.nodes, c] };
+        const edited = { ...added, nodes: added.nodes.map(n => n.id === 'c' ? { ...n, data: { prompt: 'fog at dawn' } } : n) };
+        let stack = pushCommand(EMPTY_HISTORY, command(start, added, 1000, 'paste'));
+        stack = pushCommand(stack, command(added, edited, 1100, 'paste'));
+        expect(stack.commands[0].patch.nodes[0].before).toBeNull();
+        expect(stack.commands[0].patch.nodes[0].after?.data?.prompt).toBe('fog at dawn');
+        expect(undoAll(edited, stack)).toEqual(start);
+    });
+
+    it('drops redo entries when a new command is pushed', () => {
+        let stack = pushCommand(EMPTY_HISTORY, command(typed('sunrise'), typed('a'), 1000));
+        stack = pushCommand(stack, command(typed('a'), typed('b'), 2000));
+        stack = pushCommand({ ...stack, index: 1 }, command(typed('a'), typed('c'), 3000));
+        expect(stack.commands.map(c => c.timestamp)).toEqual([1000, 3000]);
+    });
+});
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    GenerationJob, enqueueVideoJob, waitForJob, cancelJob, retryJob, resumeJobs, adoptJobs, listJobs, setJobOutcomeHandler,
+} from '../services/jobQueue';
+import { deleteJobs, loadJobs } from '../services/storage';
+import { useGenAIMock } from './helpers';
+
+const VEO = 'veo-3.1-fast-generate-preview';
+
+const enqueue = (prompt: string, count = 1) =>
+    enqueueVideoJob({ projectId: 'p1', nodeId: `node-${prompt}`, label: prompt, params: { prompt, model: VEO, count } });
+
+const statusOf = (id: string) => listJobs().find(j => j.id === id)?.status;
+
+// IndexedDB callbacks run on real setImmediate while polling delays run on the fake clock
+const advanceUntil = async (predicate: () => boolean) => {
+    for (let i = 0; i < 200 && !predicate(); i++) {
+        await vi.advanceTimersByTimeAsync(1000);
+        await new Promise(resolve => setImmediate(resolve));
+    }
+    expect(predicate()).toBe(true);
+};
+
+describe('generation job queue', () => {
+    const api = useGenAIMock();
+    let outcomes: GenerationJob[];
+
+    beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+        outcomes = [];
+        setJobOutcomeHandler(job => { outcomes.push(job); });
+        await deleteJobs((await loadJobs()).map(j => j.id));
+        await resumeJobs();
+    });
+
+    it('persists operation names and finishes with every video', async () => {
+        const job = await enqueue('sunrise', 2);
+        const done = waitForJob(job.id);
+
+        await advanceUntil(() => listJobs()[0].operations.length === 2);
+        const stored = (await loadJobs()).find(j => j.id === job.id);
+        expect(stored?.operations).toEqual(Array.from(api.current().operations.keys()));
+
+        await advanceUntil(() => outcomes.length === 1);
+        const finished = await done;
+        expect(finished.result?.uris).toHaveLength(2);
+        // Videos are downloaded into the media store; neither the links nor the key they carry are kept
+        expect(finished.result?.uris?.every(uri => uri.startsWith('media://'))).toBe(true);
+        expect(JSON.stringify(await loadJobs())).not.toContain('key=');
+        // The video object Veo extends from names the stored copy of the clip it describes
+        expect(finished.result?.videoMetadata?.mediaRef).toBe(finished.result?.uri);
+        expect(finished.attempts).toBe(1);
+        expect(outcomes.map(j => j.status)).toEqual(['succeeded']);
+    });
+
+    it('resumes polling after a reload without submitting again', async () => {
+        const job = await enqueue('harbor');
+        await advanceUntil(() => listJobs()[0].operations.length === 1);
+
+        // Simulate a page reload: in-memory state is rebuilt from IndexedDB and the job restarts right away
+        const resumed = await resumeJobs();
+        expect(resumed.find(j => j.id === job.id)).toMatchObject({ status: 'running', operations: listJobs()[0].operations });
+
+        await advanceUntil(() => outcomes.length === 1);
+        const submits = api.current().calls.filter(c => c.path.endsWith(':predictLongRunning'));
+        expect(submits).toHaveLength(1);
+        expect(outcomes).toHaveLength(1);
+        expect(outcomes[0].result?.uri).toMatch(/^media:\/\//);
+    });
+
+    it('leaves jobs of other open tabs alone until their tab goes away', async () => {
+        const mine = await enqueueVideoJob({ projectId: 'p1', nodeId: 'n1', label: 'mine', params: { prompt: 'mine', model: VEO }, tabId: 'tab-a' });
+        const theirs = await enqueueVideoJob({ projectId: 'p1', nodeId: 'n2', label: 'theirs', params: { prompt: 'theirs', model: VEO }, tabId: 'tab-b' });
+        await advanceUntil(() => listJobs().every(j => j.operations.length === 1));
+
+        // Tab a reloads while tab b is still open
+        const resumed = await resumeJobs('tab-a', ['tab-b']);
+        expect(resumed.map(j => j.id)).toEqual([mine.id]);
+
+        // Tab b closes; its job continues here without being submitted again
+        await adoptJobs('tab-a', []);
+        expect(listJobs().find(j => j.id === theirs.id)).toMatchObject({ status: 'running', tabId: 'tab-a' });
+        await advanceUntil(() => outcomes.length === 2);
+        expect(api.current().calls.filter(c => c.path.endsWith(':predictLongRunning'))).toHaveLength(2);
+    });
+
+    it('caps running jobs per provider', async () => {
+        const jobs = [await enqueue('a'), await enqueue('b'), await enqueue('c')];
+        expect(jobs.map(j => statusOf(j.id))).toEqual(['running', 'running', 'queued']);
+
+        await advanceUntil(() => statusOf(jobs[0].id) === 'succeeded' && statusOf(jobs[1].id) === 'succeeded');
+        expect(statusOf(jobs[2].id)).not.toBe('queued');
+        await advanceUntil(() => outcomes.length === 3);
+        expect(outcomes.every(j => j.status === 'succeeded')).toBe(true);
+    });
+
+    it('cancels a job and hands its slot to the next one', async () => {
+        const [first, second, third] = [await enqueue('a'), await enqueue('b'), await enqueue('c')];
+        const waiting = waitForJob(first.id);
+        await cancelJob(first.id);
+
+        await expect(waiting).rejects.toThrow('已取消');
+        expect(statusOf(first.id)).toBe('cancelled');
+        expect(statusOf(third.id)).toBe('running');
+        expect(outcomes.map(j => j.status)).toEqual(['cancelled']);
+
+        await advanceUntil(() => outcomes.length === 3);
+        expect(statusOf(first.id)).toBe('cancelled');
+    });
+
+    it('fails after repeated poll errors and can be retried', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const job = await enqueue('storm');
+        await advanceUntil(() => listJobs()[0].operations.length === 1);
+        api.current().operations.clear(); // Every status check now answers 404
+
+        await advanceUntil(() => outcomes.length === 1);
+        expect(statusOf(job.id)).toBe('failed');
+        expect(listJobs()[0].error).toBeTruthy();
+
+        await retryJob(job.id);
+        await advanceUntil(() => outcomes.length === 2);
+        expect(listJobs()[0].attempts).toBe(2);
+        expect(outcomes.map(j => j.status)).toEqual(['failed', 'succeeded']);
+    });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { createWav } from '../mock/syntheticMedia';
+import { EncodedSample, MediaCodecs, layoutClips, mixAudio, muxAudio, parseWav, renderEdit } from '../services/mediaPipeline';
+import { Mp4Sample, readMp4, trackDuration, writeMp4 } from '../services/mp4';
+
+const SAMPLE_ENTRY = Uint8Array.of(0, 0, 0, 12, 0x61, 0x76, 0x63, 0x31, 0, 0, 0, 1); // A stand-in avc1 box
+
+// A 30 fps clip whose sample payloads are [clip, index], with a keyframe every `gop` frames
+const clip = (id: number, frames: number, { gop = 10, width = 1280, height = 720 } = {}) => {
+    const samples: Mp4Sample[] = Array.from({ length: frames }, (_, i) => ({ offset: 0, size: 2, duration: 1, compositionOffset: 0, isSync: i % gop === 0, entry: 0 }));
+    return writeMp4([{ kind: 'video', timescale: 30, width, height, sampleEntries: [SAMPLE_ENTRY], samples, data: samples.map((_, i) => Uint8Array.of(id, i)) }]);
+};
+
+interface FakeFrame { source: number[], layers?: { source: number[], opacity: number }[] }
+
+// Codecs that pass payloads through untouched, so every output sample names the source frame it shows
+const syntheticCodecs = () => {
+    const log = { decodeFrom: [] as number[], live: 0, encoded: [] as FakeFrame[] };
+    const codecs: MediaCodecs<FakeFrame> = {
+        decodeVideo: async function* (track, bytes, from, until) {
+            log.decodeFrom.push(from);
+            let time = track.samples.slice(0, from).reduce((n, s) => n + s.duration, 0);
+            for (const s of track.samples.slice(from)) {
+                if (time / track.timescale > until) break;
+                log.live++;
+                yield { timestamp: time / track.timescale, frame: { source: Array.from(bytes.subarray(s.offset, s.offset + s.size)) } };
+                time += s.duration;
+            }
+        },
+        decodeImage: async bytes => { log.live++; return { source: Array.from(bytes) }; },
+        // The composite keeps the top layer's payload, plus every layer for crossfade checks
+        compose: layers => { log.live++; return { source: layers[layers.length - 1]?.frame.source || [0, 0], layers: layers.map(l => ({ source: l.frame.source, opacity: l.opacity })) }; },
+        release: () => { log.live--; },
+        createVideoEncoder: () => {
+            const samples: EncodedSample[] = [];
+            return {
+                encode: async (frame, keyFrame) => { log.encoded.push(frame); samples.push({ data: Uint8Array.from(frame.source), isSync: keyFrame }); },
+                finish: async () => ({ samples, sampleEntry: SAMPLE_ENTRY }),
+            };
+        },
+        encodeAudio: async ({ sampleRate, channels }) => ({
+            samples: Array.from({ length: Math.ceil(channels[0].length / 1024) }, () => ({ data: Uint8Array.of(0), isSync: true, duration: 1024 / sampleRate })),
+            sampleEntry: Uint8Array.of(0, 0, 0, 8, 0x6d, 0x70, 0x34, 0x61),
+            timescale: sampleRate,
+        }),
+    };
+    return { codecs, log };
+};
+
+const payloads = (bytes: Uint8Array) => {
+    const track = readMp4(bytes).tracks.find(t => t.kind === 'video')!;
+    return track.samples.map(s => Array.from(bytes.subarray(s.offset, s.offset + s.size)));
+};
+
+describe('media pipeline', () => {
+    it('joins trimmed clips, decoding each from the keyframe before its in point', async () => {
+        const { codecs, log } = syntheticCodecs();
+        const out = await renderEdit([{ bytes: clip(1, 30), in: 0.5, out: 0.8 }, { bytes: clip(2, 30), out: 0.2 }], {}, codecs);
+
+        expect(payloads(out)).toEqual([15, 16, 17, 18, 19, 20, 21, 22, 23].map(i => [1, i]).concat([0, 1, 2, 3, 4, 5].map(i => [2, i])));
+        expect(log.decodeFrom).toEqual([10, 0]);
+        expect(log.live).toBe(0);
+        const [video] = readMp4(out).tracks;
+        expect(trackDuration(video)).toBeCloseTo(0.5);
+        expect(video.samples.flatMap((s, i) => s.isSync ? [i] : [])).toEqual([0]);
+    });
+
+    it('normalises frame rate and size', async () => {
+        const { codecs } = syntheticCodecs();
+        const half = await renderEdit([{ bytes: clip(1, 30) }], { frameRate: 15, width: 641, height: 360 }, codecs);
+        expect(payloads(half)).toEqual(Array.from({ length: 15 }, (_, i) => [1, i * 2]));
+        expect(readMp4(half).tracks[0]).toMatchObject({ width: 642, height: 360 });
+
+        const double = await renderEdit([{ bytes: clip(1, 30) }, { bytes: clip(2, 30, { width: 640, height: 480 }) }], { frameRate: 60 }, codecs);
+        const frames = payloads(double);
+        expect(frames).toHaveLength(120);
+        expect(frames.slice(0, 4)).toEqual([[1, 0], [1, 0], [1, 1], [1, 1]]);
+        expect(frames[60]).toEqual([2, 0]);
+        expect(readMp4(double).tracks[0]).toMatchObject({ width: 1280, height: 720 });
+        // One keyframe every two seconds of output
+        expect(readMp4(double).tracks[0].samples.flatMap((s, i) => s.isSync ? [i] : [])).toEqual([0]);
+    });
+
+    it('holds stills, leaves gaps black and blends crossfades', async () => {
+        const { codecs, log } = syntheticCodecs();
+        await renderEdit([
+            { bytes: clip(1, 30) },
+            { bytes: Uint8Array.of(9, 9), still: 0.5, crossfade: 0.2 },
+            { bytes: clip(2, 30), out: 0.2, gap: 0.2, crossfade: 1 },
+        ], { frameRate: 10 }, codecs);
+
+        const frames = log.encoded.map(f => f.layers!.map(l => [l.source[1], Number(l.opacity.toFixed(2))]));
+        expect(frames).toEqual([
+            ...[0, 3, 6, 9, 12, 15, 18, 21].map(i => [[i, 1]]),
+            [[24, 1], [9, 0]], [[27, 1], [9, 0.5]], // Crossfade into the still
+            [[9, 1]], [[9, 1]], [[9, 1]],
+            [], [], // Gap
+            [[0, 1]], [[3, 1]],
+        ]);
+        expect(log.live).toBe(0);
+        expect(layoutClips([{ length: 1 }, { length: 2, crossfade: 3 }, { length: 1, gap: 1, crossfade: 1 }])).toEqual([
+            { start: 0, end: 1, fade: 0 }, { start: 0, end: 2, fade: 1 }, { start: 3, end: 4, fade: 0 },
+        ]);
+    });
+
+    it('reads WAV and mixes layers at their offsets and volume', () => {
+        const wav = parseWav(createWav(0.5, 440, 24000));
+        expect(wav.sampleRate).toBe(24000);
+        expect(wav.channels).toHaveLength(1);
+        expect(wav.channels[0]).toHaveLength(12000);
+        expect(() => parseWav(Uint8Array.of(1, 2, 3))).toThrow('Not a WAV file');
+
+        const tone = { sampleRate: 1000, channels: [new Float32Array(1000).fill(0.5)] };
+        const mix = mixAudio([{ audio: tone, start: 0.5, volume: 0.5 }, { audio: tone, start: -0.75, volume: 3 }, { audio: tone, start: 1.5, in: 0.2, out: 0.4 }], 2, 1000);
+        expect(mix.channels).toHaveLength(2);
+        expect(mix.channels[1]).toHaveLength(2000);
+        expect([100, 300, 600, 1600, 1699, 1700].map(i => mix.channels[0][i])).toEqual([1, 0, 0.25, 0.5, 0.5, 0]);
+    });
+
+    it('fades layers in and out and loops them to the end', () => {
+        const ramp = { sampleRate: 1000, channels: [Float32Array.from({ length: 400 }, (_, i) => i / 1000)] };
+        const looped = mixAudio([{ audio: ramp, in: 0.1, out: 0.3, loop: true }], 1, 1000).channels[0];
+        expect([0, 199, 200, 450, 999].map(i => Number(looped[i].toFixed(3)))).toEqual([0.1, 0.299, 0.1, 0.15, 0.299]);
+
+        const flat = { sampleRate: 1000, channels: [new Float32Array(500).fill(0.8)] };
+        const faded = mixAudio([{ audio: flat, start: 0.2, fadeIn: 0.1, fadeOut: 0.2 }], 1, 1000).channels[0];
+        expect([199, 200, 250, 300, 500, 600, 650, 699, 700].map(i => Number(faded[i].toFixed(2)))).toEqual([0, 0, 0.4, 0.8, 0.8, 0.4, 0.2, 0, 0]);
+        // Looping fades out at the end of the output rather than the end of the audio
+        const fadedLoop = mixAudio([{ audio: flat, loop: true, fadeOut: 0.5 }], 1, 1000).channels[0];
+        expect([400, 500, 750].map(i => Number(fadedLoop[i].toFixed(2)))).toEqual([0.8, 0.8, 0.4]);
+    });
+
+    it('muxes a mixed audio track next to the video', async () => {
+        const { codecs } = syntheticCodecs();
+        const narration = parseWav(createWav(3, 440));
+        const out = readMp4(await renderEdit([{ bytes: clip(1, 30) }], { audio: [{ audio: narration, start: 0.25 }] }, codecs));
+
+        expect(out.tracks.map(t => t.kind)).toEqual(['video', 'audio']);
+        expect(out.tracks[1].timescale).toBe(48000);
+        // The mix is cut to the video's length
+        expect(trackDuration(out.tracks[1])).toBeCloseTo(1, 1);
+    });
+
+    it('lays audio under a video without re-encoding the picture', async () => {
+        const { codecs, log } = syntheticCodecs();
+        const source = clip(1, 30, { gop: 5 });
+        const out = readMp4(await muxAudio(source, [{ audio: parseWav(createWav(0.5, 440)), loop: true }], codecs));
+
+        expect(log.live).toBe(0);
+        expect(out.tracks.map(t => t.kind)).toEqual(['video', 'audio']);
+        expect(out.tracks[0].samples).toEqual(readMp4(source).tracks[0].samples.map((s, i) => ({ ...s, offset: out.tracks[0].samples[i].offset })));
+        expect(payloads(out.bytes)).toEqual(payloads(source));
+        expect(trackDuration(out.tracks[1])).toBeCloseTo(1, 1);
+        await expect(muxAudio(source, [], codecs)).rejects.toThrow('没有可合成的音频');
+    });
+});
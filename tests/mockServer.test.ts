@@ -0,0 +1,27 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { startMockServer, MockServer } from '../mock/server';
+import { generateImageFromText, sendChatMessage } from '../services/geminiService';
+
+describe('mock HTTP server', () => {
+    let server: MockServer;
+    beforeAll(async () => { server = await startMockServer(0); });
+    afterAll(() => server.close());
+
+    it('serves the SDK over a real socket', async () => {
+        vi.stubEnv('API_KEY', 'test-key');
+        vi.stubEnv('GEMINI_BASE_URL', server.url);
+        try {
+            expect(await sendChatMessage([], 'ping')).toBe('Mock response: ping');
+            const [image] = await generateImageFromText('a lighthouse', 'gemini-2.5-flash-image');
+            expect(image).toMatch(/^data:image\/png;base64,/);
+            expect(server.mock.calls.map(c => c.model)).toEqual(['gemini-3-flash-preview', 'gemini-2.5-flash-image']);
+        } finally {
+            vi.unstubAllEnvs();
+        }
+    });
+
+    it('rejects requests without an API key', async () => {
+        const res = await fetch(`${server.url}/v1beta/models/gemini-3-flash-preview:generateContent`, { method: 'POST', body: '{}' });
+        expect(res.status).toBe(403);
+    });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { createMp4 } from '../mock/syntheticMedia';
+import { Mp4Sample, concatMp4, readMp4, trackDuration, writeMp4 } from '../services/mp4';
+
+const entry = (tag: number) => Uint8Array.of(0, 0, 0, 12, 0x61, 0x76, 0x63, 0x31, 0, 0, 0, tag); // A stand-in avc1 box
+
+// A video-only clip whose sample payloads are [clip, index], so the output can be traced back to its source
+const clip = (id: number, frames: number, { timescale = 30, sampleEntry = entry(1), reordered = false } = {}) => {
+    const samples: Mp4Sample[] = Array.from({ length: frames }, (_, i) => ({
+        offset: 0, size: 2, duration: timescale / 30, compositionOffset: reordered ? timescale / 30 : 0, isSync: i % 4 === 0, entry: 0,
+    }));
+    return writeMp4([{
+        kind: 'video', timescale, width: 1280, height: 720, sampleEntries: [sampleEntry], samples,
+        data: samples.map((_, i) => Uint8Array.of(id, i)),
+    }]);
+};
+
+// A clip with a video and a sound track of the same length
+const withSound = (id: number, seconds: number) => {
+    const video: Mp4Sample[] = Array.from({ length: seconds * 30 }, (_, i) => ({ offset: 0, size: 2, duration: 1, compositionOffset: 0, isSync: i === 0, entry: 0 }));
+    const audio: Mp4Sample[] = Array.from({ length: seconds * 10 }, () => ({ offset: 0, size: 1, duration: 4800, compositionOffset: 0, isSync: true, entry: 0 }));
+    return writeMp4([
+        { kind: 'video', timescale: 30, width: 1280, height: 720, sampleEntries: [entry(1)], samples: video, data: video.map((_, i) => Uint8Array.of(id, i)) },
+        { kind: 'audio', timescale: 48000, width: 0, height: 0, sampleEntries: [Uint8Array.of(0, 0, 0, 8, 0x6d, 0x70, 0x34, 0x61)], samples: audio, data: audio.map(() => Uint8Array.of(id)) },
+    ]);
+};
+
+const payloads = (bytes: Uint8Array) => readMp4(bytes).tracks[0].samples.map(s => Array.from(bytes.subarray(s.offset, s.offset + s.size)));
+
+describe('mp4 sample tables', () => {
+    it('reads back what it writes', () => {
+        const file = readMp4(clip(1, 6, { reordered: true }));
+        expect(file.duration).toBeCloseTo(0.2);
+        expect(file.tracks).toHaveLength(1);
+        const [track] = file.tracks;
+        expect(track).toMatchObject({ kind: 'video', codec: 'avc1', timescale: 30, width: 1280, height: 720 });
+        expect(track.samples.map(s => s.isSync)).toEqual([true, false, false, false, true, false]);
+        expect(track.samples.every(s => s.compositionOffset === 1)).toBe(true);
+        expect(payloads(clip(1, 6))).toEqual([[1, 0], [1, 1], [1, 2], [1, 3], [1, 4], [1, 5]]);
+    });
+
+    it('joins clips in order, in the first clip\'s timescale', () => {
+        const out = concatMp4([{ bytes: clip(1, 3) }, { bytes: clip(2, 2, { timescale: 90 }) }]);
+        const [track] = readMp4(out).tracks;
+        expect(payloads(out)).toEqual([[1, 0], [1, 1], [1, 2], [2, 0], [2, 1]]);
+        expect(track.timescale).toBe(30);
+        expect(track.samples.map(s => s.duration)).toEqual([1, 1, 1, 1, 1]);
+        expect(track.samples.map(s => s.isSync)).toEqual([true, false, false, true, false]);
+    });
+
+    it('retimes each clip to its requested length', () => {
+        const out = concatMp4([{ bytes: clip(1, 30, { timescale: 600 }), seconds: 3 }, { bytes: clip(2, 30, { timescale: 600 }), seconds: 0.5 }]);
+        const [track] = readMp4(out).tracks;
+        expect(trackDuration(track)).toBeCloseTo(3.5);
+        expect(track.samples.slice(0, 30).reduce((n, s) => n + s.duration, 0)).toBe(1800);
+        expect(readMp4(out).duration).toBeCloseTo(3.5);
+    });
+
+    it('keeps differing parameter sets as separate sample descriptions', () => {
+        const out = concatMp4([{ bytes: clip(1, 2) }, { bytes: clip(2, 2, { sampleEntry: entry(2) }) }, { bytes: clip(3, 2) }]);
+        const [track] = readMp4(out).tracks;
+        expect(track.sampleEntries).toHaveLength(2);
+        expect(track.samples.map(s => s.entry)).toEqual([0, 0, 1, 1, 0, 0]);
+        expect(() => concatMp4([{ bytes: clip(1, 2) }, { bytes: clip(2, 2, { sampleEntry: Uint8Array.of(0, 0, 0, 8, 0x68, 0x76, 0x63, 0x31) }) }])).toThrow(/hvc1/);
+    });
+
+    it('carries sound over unless a clip has to be retimed', () => {
+        const kept = readMp4(concatMp4([{ bytes: withSound(1, 2), seconds: 2 }, { bytes: withSound(2, 1) }]));
+        const sound = kept.tracks.find(t => t.kind === 'audio')!;
+        expect(sound.samples).toHaveLength(30);
+        expect(trackDuration(sound)).toBeCloseTo(3);
+        expect(Array.from(new Set(sound.samples.map(s => kept.bytes[s.offset])))).toEqual([1, 2]);
+
+        const retimed = readMp4(concatMp4([{ bytes: withSound(1, 2), seconds: 1 }, { bytes: withSound(2, 1) }]));
+        expect(retimed.tracks.map(t => t.kind)).toEqual(['video']);
+        expect(readMp4(concatMp4([{ bytes: withSound(1, 1) }, { bytes: clip(2, 30) }])).tracks.map(t => t.kind)).toEqual(['video']);
+    });
+
+    it('adds up clips without tracks', () => {
+        const out = concatMp4([{ bytes: createMp4(8) }, { bytes: createMp4(8), seconds: 3 }]);
+        expect(readMp4(out)).toMatchObject({ duration: 11, tracks: [] });
+        expect(() => concatMp4([{ bytes: createMp4(8) }, { bytes: clip(1, 2) }])).toThrow('片段 1 没有视频轨道');
+    });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { computeNodeHashes, isNodeStale, isNodeUpToDate } from '../services/nodeHash';
+import { AppNode, NodeType } from '../types';
+import { makeNode } from './helpers';
+
+// prompt → image → video, every node run with the inputs it has now
+const chain = () => {
+    const nodes = [
+        makeNode({ id: 'prompt', type: NodeType.PROMPT_INPUT, data: { prompt: 'a lighthouse' } }),
+        makeNode({ id: 'image', inputs: ['prompt'], data: { model: 'imagen', image: 'media://image' } }),
+        makeNode({ id: 'video', type: NodeType.VIDEO_GENERATOR, inputs: ['image'], data: { videoUri: 'media://video' } }),
+    ];
+    const hashes = computeNodeHashes(nodes, []);
+    return nodes.map(n => ({ ...n, data: { ...n.data, runHash: hashes.get(n.id) } }));
+};
+
+const edit = (nodes: AppNode[], id: string, data: Partial<AppNode['data']>) =>
+    nodes.map(n => n.id === id ? { ...n, data: { ...n.data, ...data } } : n);
+
+const staleIds = (nodes: AppNode[]) => {
+    const hashes = computeNodeHashes(nodes, []);
+    return nodes.filter(n => isNodeStale(n, hashes.get(n.id))).map(n => n.id);
+};
+
+describe('node hashes', () => {
+    it('is stable for unchanged graphs and ignores results and positions', () => {
+        const nodes = chain();
+        const moved = nodes.map(n => ({ ...n, x: n.x + 100, data: { ...n.data } }));
+        expect(computeNodeHashes(moved, [])).toEqual(computeNodeHashes(nodes, []));
+        expect(staleIds(nodes)).toEqual([]);
+        expect(nodes.every(n => n.type === NodeType.PROMPT_INPUT || isNodeUpToDate(n, computeNodeHashes(nodes, []).get(n.id)))).toBe(true);
+    });
+
+    it('changes with the node settings, including the order of composed inputs', () => {
+        const nodes = chain();
+        const before = computeNodeHashes(nodes, []).get('image');
+        expect(computeNodeHashes(edit(nodes, 'image', { aspectRatio: '9:16' }), []).get('image')).not.toBe(before);
+        const reordered = computeNodeHashes(edit(nodes, 'image', { sortedInputIds: ['prompt'] }), []).get('image');
+        expect(reordered).not.toBe(before);
+        expect(computeNodeHashes(edit(nodes, 'image', { sortedInputIds: ['prompt', 'other'] }), []).get('image')).not.toBe(reordered);
+    });
+
+    it('follows edges that exist only as connections', () => {
+        const nodes = chain().map(n => ({ ...n, inputs: [] }));
+        const connected = computeNodeHashes(nodes, [{ from: 'prompt', to: 'image' }]);
+        expect(connected.get('image')).not.toBe(computeNodeHashes(nodes, []).get('image'));
+    });
+
+    it('does not mark nodes that never ran', () => {
+        const nodes = edit(chain(), 'video', { runHash: undefined });
+        expect(staleIds(edit(nodes, 'video', { prompt: 'slow pan' }))).toEqual([]);
+    });
+});
+
+describe('dirty tracking', () => {
+    it('marks an edited node stale', () => {
+        expect(staleIds(edit(chain(), 'image', { model: 'other-model' }))).toEqual(['image', 'video']);
+    });
+
+    it('carries staleness past nodes whose output has not changed yet', () => {
+        // The prompt's text is the image's input; the video only sees the image, which still shows the old picture
+        expect(staleIds(edit(chain(), 'prompt', { prompt: 'a lighthouse at night' }))).toEqual(['image', 'video']);
+    });
+
+    it('keeps downstream nodes stale until they are re-run', () => {
+        let nodes = edit(chain(), 'prompt', { prompt: 'a lighthouse at night' });
+        nodes = edit(nodes, 'image', { image: 'media://night', runHash: computeNodeHashes(nodes, []).get('image') });
+        expect(staleIds(nodes)).toEqual(['video']);
+        nodes = edit(nodes, 'video', { videoUri: 'media://night-video', runHash: computeNodeHashes(nodes, []).get('video') });
+        expect(staleIds(nodes)).toEqual([]);
+    });
+
+    it('clears when an edit is undone', () => {
+        const nodes = chain();
+        const edited = edit(nodes, 'prompt', { prompt: 'something else' });
+        expect(staleIds(edit(edited, 'prompt', { prompt: 'a lighthouse' }))).toEqual([]);
+    });
+});
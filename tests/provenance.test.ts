@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { createMp4, createPng } from '../mock/syntheticMedia';
+import { LOCAL_PROVIDER, buildProvenance, embedMp4Provenance, embedPngProvenance, readEmbeddedProvenance } from '../services/provenance';
+
+const provenance = buildProvenance({
+    params: { model: 'veo-3.1-generate-preview', prompt: '日落 over the sea', aspectRatio: '16:9', videoCount: 2 },
+    sentPrompt: '日落 over the sea, cinematic',
+    generationMode: 'CONTINUE',
+    inputs: ['media://abc', 'data:image/png;base64,AAAA', 'media://abc', 'https://example.com/ref.png'],
+    nodeId: 'n1',
+    projectId: 'p1',
+});
+
+const concat = (...parts: Uint8Array[]) => {
+    const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let offset = 0;
+    parts.forEach(p => { out.set(p, offset); offset += p.length; });
+    return out;
+};
+
+const u32s = (...values: number[]) => {
+    const out = new Uint8Array(values.length * 4);
+    values.forEach((v, i) => new DataView(out.buffer).setUint32(i * 4, v));
+    return out;
+};
+
+const box = (type: string, ...payload: Uint8Array[]) => {
+    const body = concat(...payload);
+    return concat(u32s(body.length + 8), Uint8Array.from(type, c => c.charCodeAt(0)), body);
+};
+
+describe('asset provenance', () => {
+    it('keeps only traceable, distinct inputs', () => {
+        expect(provenance).toMatchObject({
+            provider: 'gemini', model: 'veo-3.1-generate-preview', generationMode: 'CONTINUE',
+            params: { aspectRatio: '16:9', count: 2 }, inputs: ['media://abc', 'https://example.com/ref.png'],
+        });
+    });
+
+    it('records local renders with their edit settings instead of a service', () => {
+        const timeline = { clips: [{ sourceId: 'a', kind: 'video' as const, src: 'media://clip', in: 1, out: 3 }], audio: [] };
+        const local = buildProvenance({ params: {}, provider: LOCAL_PROVIDER, edit: { timeline }, inputs: ['media://clip'], nodeId: 't1' });
+        expect(local).toMatchObject({ provider: 'local', edit: { timeline }, inputs: ['media://clip'] });
+        expect(readEmbeddedProvenance(embedMp4Provenance(createMp4(2), local))).toEqual(local);
+    });
+
+    it('embeds a tEXt chunk before IEND and replaces it on re-export', () => {
+        const png = createPng(4, 4, [255, 0, 0]);
+        const once = embedPngProvenance(png, provenance);
+        const twice = embedPngProvenance(once, { ...provenance, prompt: 'second' });
+
+        expect(readEmbeddedProvenance(once)).toEqual(provenance);
+        expect(readEmbeddedProvenance(twice)?.prompt).toBe('second');
+        expect(String.fromCharCode(...twice).split('tEXtProvenance').length).toBe(2);
+        expect(new TextDecoder().decode(twice.subarray(twice.length - 8, twice.length - 4))).toBe('IEND');
+    });
+
+    it('round-trips through a moov/udta box', () => {
+        const mp4 = createMp4(8);
+        const out = embedMp4Provenance(mp4, provenance);
+        expect(readEmbeddedProvenance(out)).toEqual(provenance);
+        expect(readEmbeddedProvenance(mp4)).toBeUndefined();
+    });
+
+    it('shifts chunk offsets when moov precedes mdat', () => {
+        const media = Uint8Array.from([1, 2, 3, 4]);
+        const build = (chunkOffset: number) => {
+            const stbl = box('stbl', box('stco', u32s(0, 1, chunkOffset)));
+            return concat(box('ftyp', u32s(0, 0)), box('moov', box('trak', box('mdia', box('minf', stbl)))), box('mdat', media));
+        };
+        const probe = build(0);
+        const mp4 = build(probe.length - media.length); // Offset of the media bytes inside mdat
+
+        const out = embedMp4Provenance(mp4, provenance);
+        const view = new DataView(out.buffer, out.byteOffset);
+        const stcoEntry = 16 + 8 * 5 + 8 + 8; // ftyp, moov/trak/mdia/minf/stbl headers, stco header, version + count
+        const offset = view.getUint32(stcoEntry);
+        expect(Array.from(out.subarray(offset, offset + 4))).toEqual([1, 2, 3, 4]);
+    });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest';
+import { generateImage, generateVideo, getModelsFor, getProviderForModel } from '../services/providers';
+
+describe('provider registry', () => {
+    it('routes models to their provider', () => {
+        expect(getProviderForModel('veo-3.1-generate-preview').id).toBe('gemini');
+        expect(getProviderForModel('wan-2.5-preview').id).toBe('pollo');
+        expect(getProviderForModel('mock-image').id).toBe('mock');
+        // Unknown and missing ids stay on Gemini
+        expect(getProviderForModel('imagen-4.0-generate-001').id).toBe('gemini');
+        expect(getProviderForModel(undefined).id).toBe('gemini');
+    });
+
+    it('lists models per capability across providers', () => {
+        const video = getModelsFor('video').map(m => m.provider);
+        expect(new Set(video)).toEqual(new Set(['gemini', 'pollo', 'mock']));
+        expect(getModelsFor('analysis').every(m => m.capability === 'analysis')).toBe(true);
+    });
+
+    it('refuses capabilities a provider does not have', async () => {
+        vi.stubGlobal('localStorage', { getItem: () => 'key' });
+        await expect(generateImage({ prompt: 'x', model: 'wan-2.5-preview' })).rejects.toThrow('Pollo.ai 不支持图像生成');
+        vi.unstubAllGlobals();
+    });
+
+    it('refuses unconfigured providers', async () => {
+        vi.stubGlobal('localStorage', { getItem: () => null });
+        await expect(generateVideo({ prompt: 'x', model: 'wan-2.5-preview' })).rejects.toThrow('未配置 API Key');
+        vi.unstubAllGlobals();
+    });
+});
+
+describe('mock provider', () => {
+    it('produces the same placeholder for the same request', async () => {
+        vi.useFakeTimers();
+        const run = (prompt: string) => { const p = generateImage({ prompt, model: 'mock-image', count: 2 }).then(res => res.images); vi.runAllTimers(); return p; };
+        const a = await run('forest');
+        const b = await run('forest');
+        const c = await run('desert');
+        vi.useRealTimers();
+        expect(a).toHaveLength(2);
+        expect(a).toEqual(b);
+        expect(a[0]).not.toBe(a[1]);
+        expect(a[0]).not.toBe(c[0]);
+    });
+
+    it('marks video output as a still-image fallback', async () => {
+        vi.useFakeTimers();
+        const p = generateVideo({ prompt: 'x', model: 'mock-video' });
+        await vi.runAllTimersAsync();
+        const res = await p;
+        vi.useRealTimers();
+        expect(res.isFallbackImage).toBe(true);
+        expect(res.notice).toBeTruthy();
+    });
+});
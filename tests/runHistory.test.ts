@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { NodeRun, loadNodeRuns, recordRun, restoreRunPatch, runParamsPatch, snapshotRunParams } from '../services/runHistory';
+import { deleteProject, isMediaRef } from '../services/storage';
+
+const PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+const run = (overrides: Partial<NodeRun> = {}): Omit<NodeRun, 'id'> => ({
+    projectId: 'p-runs', nodeId: 'n-runs', params: { prompt: 'a cat', model: 'gemini-2.5-flash-image', imageCount: 2 },
+    status: 'succeeded', startedAt: 1000, durationMs: 500, ...overrides,
+});
+
+describe('node run history', () => {
+    it('stores outputs as media refs and lists runs newest first', async () => {
+        await recordRun(run({ nodeId: 'n-order', startedAt: 1, outputs: { images: [PIXEL] } }));
+        await recordRun(run({ nodeId: 'n-order', startedAt: 2, status: 'failed', error: 'quota' }));
+
+        const [latest, first] = await loadNodeRuns('n-order');
+        expect(latest).toMatchObject({ status: 'failed', error: 'quota' });
+        expect(isMediaRef(first.outputs?.images?.[0])).toBe(true);
+    });
+
+    it('keeps only the most recent runs of a node', async () => {
+        for (let i = 0; i < 32; i++) await recordRun(run({ nodeId: 'n-limit', startedAt: i }));
+        const runs = await loadNodeRuns('n-limit');
+        expect(runs).toHaveLength(30);
+        expect(runs[runs.length - 1].startedAt).toBe(2);
+    });
+
+    it('restores outputs and settings onto a node', () => {
+        const video = { ...run({ runHash: 'h1', outputs: { videoUris: ['v1', 'v2'] } }), id: 'r1' };
+        expect(restoreRunPatch(video)).toEqual({ videoUri: 'v1', videoUris: ['v1', 'v2'], image: undefined, images: undefined, runHash: 'h1' });
+
+        const params = runParamsPatch({ ...run(), id: 'r2' });
+        expect(params).toMatchObject({ prompt: 'a cat', imageCount: 2, aspectRatio: undefined });
+        expect(snapshotRunParams({ prompt: 'x', model: 'm', image: 'media://ignored' })).toEqual({ prompt: 'x', model: 'm' });
+    });
+
+    it('drops the runs of a deleted project', async () => {
+        await recordRun(run({ projectId: 'p-gone', nodeId: 'n-gone' }));
+        await deleteProject('p-gone');
+        expect(await loadNodeRuns('n-gone')).toEqual([]);
+    });
+});
@@ -0,0 +1 @@
+import 'fake-indexeddb/auto';
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { createMp4 } from '../mock/syntheticMedia';
+import { readMp4 } from '../services/mp4';
+import { pickClipDuration, planSegments, stitchSegments } from '../services/smartSequence';
+import { putMedia } from '../services/storage';
+import { SmartSequenceItem } from '../types';
+
+const frame = (id: string, prompt = '', duration = 3): SmartSequenceItem => ({ id, src: `data:image/png;base64,${id}`, transition: { prompt, duration } });
+
+describe('smart sequence', () => {
+    it('plans one segment per transition with its own prompt and duration', () => {
+        const plan = planSegments([frame('a', 'pan left', 2), frame('b', '', 5), frame('c', 'ignored', 6)]);
+        expect(plan.map(s => [s.fromId, s.toId, s.duration, s.status])).toEqual([['a', 'b', 2, 'pending'], ['b', 'c', 5, 'pending']]);
+        expect(plan[0].prompt).toBe('pan left');
+        expect(plan[1].prompt).toMatch(/transition/);
+    });
+
+    it('only re-plans the transitions an edit touched', () => {
+        const frames = [frame('a', 'one'), frame('b', 'two'), frame('c')];
+        const done = planSegments(frames).map(s => ({ ...s, status: 'done' as const, uri: `clip-${s.fromId}` }));
+
+        const edited = planSegments([frames[0], { ...frames[1], transition: { prompt: 'two', duration: 4 } }, frames[2]], done);
+        expect(edited.map(s => s.status)).toEqual(['done', 'pending']);
+
+        const reordered = planSegments([frames[1], frames[0], frames[2]], done);
+        expect(reordered.map(s => s.status)).toEqual(['pending', 'pending']);
+    });
+
+    it('asks the model for the shortest clip that covers the transition', () => {
+        expect(pickClipDuration(3, [8, 4, 6])).toBe(4);
+        expect(pickClipDuration(4.5, [4, 6, 8])).toBe(6);
+        expect(pickClipDuration(10, [4, 6, 8])).toBe(8);
+        expect(pickClipDuration(3)).toBeUndefined();
+    });
+
+    it('stitches stored segments into one video of the planned length', async () => {
+        const src = await putMedia(new Blob([createMp4(8)], { type: 'video/mp4' }));
+        const plan = planSegments([frame('a', '', 2), frame('b', '', 3.5), frame('c')]).map(s => ({ ...s, status: 'done' as const, uri: src }));
+
+        const video = await stitchSegments(plan);
+        expect(video.type).toBe('video/mp4');
+        expect(readMp4(new Uint8Array(await video.arrayBuffer())).duration).toBe(5.5);
+        await expect(stitchSegments([plan[0], { ...plan[1], status: 'failed' }])).rejects.toThrow('片段 2 尚未生成');
+    });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+    saveProject, loadProject, listProjects, saveNodes, deleteProject, duplicateProject,
+    saveAssets, loadAssets, saveWorkflows, loadWorkflows, saveSetting, loadSetting,
+    putMedia, getMediaRecord, internNodeMedia, garbageCollectMedia, isMediaRef, loadQuarantine, MEDIA_REF_PREFIX,
+} from '../services/storage';
+import { Project } from '../types';
+import { makeNode } from './helpers';
+
+const project = (id: string, title = 'P'): Project => ({
+    id, title, createdAt: 1, updatedAt: 1, lastOpenedAt: 1,
+    viewport: { x: 0, y: 0, scale: 1 }, connections: [], groups: [],
+});
+
+describe('storage round-trips', () => {
+    it('saves and loads a project with its nodes', async () => {
+        const nodes = [makeNode({ id: 'p1-a', data: { prompt: 'hello' } }), makeNode({ id: 'p1-b', inputs: ['p1-a'] })];
+        await saveProject({ ...project('p1'), connections: [{ from: 'p1-a', to: 'p1-b' }] });
+        await saveNodes('p1', nodes);
+
+        const loaded = await loadProject('p1');
+        expect(loaded.project?.connections).toEqual([{ from: 'p1-a', to: 'p1-b' }]);
+        expect(loaded.nodes).toEqual(nodes);
+        expect(loaded.quarantined).toBe(0);
+        expect((await listProjects()).records.some(p => p.id === 'p1')).toBe(true);
+    });
+
+    it('replaces the node set on save', async () => {
+        await saveProject(project('p2'));
+        await saveNodes('p2', [makeNode({ id: 'p2-a' }), makeNode({ id: 'p2-b' })]);
+        await saveNodes('p2', [makeNode({ id: 'p2-b' })]);
+        expect((await loadProject('p2')).nodes.map(n => n.id)).toEqual(['p2-b']);
+    });
+
+    it('deletes a project with its nodes and assets', async () => {
+        await saveProject(project('p3'));
+        await saveNodes('p3', [makeNode({ id: 'p3-a' })]);
+        await saveAssets('p3', [{ id: 'p3-asset', type: 'image', src: 'media://x', title: 'x', timestamp: 1 }]);
+        await deleteProject('p3');
+        expect((await loadProject('p3')).project).toBeUndefined();
+        expect((await loadAssets('p3')).records).toEqual([]);
+    });
+
+    it('duplicates a project with fresh node ids', async () => {
+        await saveProject(project('p4', 'Original'));
+        await saveNodes('p4', [makeNode({ id: 'p4-a' })]);
+        const copy = await duplicateProject('p4', 'Copy');
+        const loaded = await loadProject(copy.id);
+        expect(loaded.project?.title).toBe('Copy');
+        expect(loaded.nodes).toHaveLength(1);
+        expect(loaded.nodes[0].id).not.toBe('p4-a');
+    });
+
+    it('stores workflows and settings', async () => {
+        await saveWorkflows([{ id: 'wf1', title: 'WF', thumbnail: '', nodes: [], connections: [], groups: [] }]);
+        expect((await loadWorkflows()).records.map(w => w.id)).toEqual(['wf1']);
+        await saveSetting('theme', { dark: true });
+        expect(await loadSetting('theme')).toEqual({ dark: true });
+    });
+});
+
+describe('media store', () => {
+    it('deduplicates blobs by content hash', async () => {
+        const a = await putMedia('data:text/plain;base64,aGVsbG8=');
+        const b = await putMedia(new Blob(['hello'], { type: 'text/plain' }));
+        expect(isMediaRef(a)).toBe(true);
+        expect(a).toBe(b);
+        expect(await (await getMediaRecord(a))!.blob.text()).toBe('hello');
+    });
+
+    it('interns inline node media into refs', async () => {
+        const data = await internNodeMedia({ image: 'data:image/png;base64,iVBORw0KGgo=', prompt: 'keep' });
+        expect(isMediaRef(data.image)).toBe(true);
+        expect(data.prompt).toBe('keep');
+    });
+
+    it('collects media no longer referenced by any root', async () => {
+        const kept = await putMedia(new Blob(['kept']));
+        const orphan = await putMedia(new Blob(['orphan']));
+        const removed = await garbageCollectMedia([{ image: kept }]);
+        // GC reports bare hashes
+        expect(removed).toContain(orphan.slice(MEDIA_REF_PREFIX.length));
+        expect(removed).not.toContain(kept.slice(MEDIA_REF_PREFIX.length));
+        expect(await getMediaRecord(kept)).toBeDefined();
+        expect(await getMediaRecord(orphan)).toBeUndefined();
+    });
+});
+
+describe('record validation', () => {
+    it('quarantines nodes that cannot be migrated or validated', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        await saveProject(project('p5'));
+        await saveNodes('p5', [makeNode({ id: 'p5-ok' }), { id: 'p5-bad', projectId: 'p5' } as any]);
+        const loaded = await loadProject('p5');
+        expect(loaded.nodes.map(n => n.id)).toEqual(['p5-ok']);
+        expect(loaded.quarantined).toBe(1);
+        expect((await loadQuarantine()).some(q => q.key === 'p5-bad')).toBe(true);
+    });
+});
+
+describe('connection', () => {
+    const open = (version?: number) => new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open('sunstudio_db', version);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('blocked'));
+    });
+
+    it('steps aside for a newer schema in another tab and reports that it is outdated', async () => {
+        await saveSetting('probe', 1);
+        const probe = await open();
+        const version = probe.version;
+        probe.close();
+        // Storage still holds its connection; the upgrade would block forever if it did not let go
+        const newer = await open(version + 1);
+        expect(newer.version).toBe(version + 1);
+
+        await expect(loadSetting('probe')).rejects.toMatchObject({ name: 'VersionError' });
+        newer.close();
+        await new Promise<void>(resolve => { indexedDB.deleteDatabase('sunstudio_db').onsuccess = () => resolve(); });
+        expect(await loadSetting('probe')).toBeUndefined();
+    });
+});
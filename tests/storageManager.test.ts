@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_EVICTION_POLICY, computeStorageBreakdown, evictAssets, planEviction } from '../services/storageManager';
+import { getMediaRecord, loadAssets, loadProject, putMedia, saveAssets, saveNodes, saveProject } from '../services/storage';
+import { Asset, Project } from '../types';
+import { makeNode } from './helpers';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY;
+
+const asset = (id: string, src: string, ageDays: number, extra: Partial<Asset> = {}): Asset =>
+    ({ id, type: 'image', src, title: id, timestamp: NOW - ageDays * DAY, ...extra });
+
+const project = (id: string): Project => ({
+    id, title: id, createdAt: 1, updatedAt: 1, lastOpenedAt: 1, viewport: { x: 0, y: 0, scale: 1 }, connections: [], groups: [],
+});
+
+const blob = (text: string, type = 'image/png') => new Blob([text], { type });
+
+describe('eviction planning', () => {
+    const sizes = new Map([['media://old', 100], ['media://older', 50], ['media://shared', 400], ['media://new', 10]]);
+    const assets = [
+        asset('old', 'media://old', 30),
+        asset('older', 'media://older', 40),
+        asset('fav', 'media://shared', 60, { favorite: true }),
+        asset('shared', 'media://shared', 50),
+        asset('new', 'media://new', 1),
+    ];
+    const plan = (bytes: number, roots: unknown[] = []) =>
+        planEviction([{ id: 'p', assets }], [assets, ...roots], sizes, bytes, DEFAULT_EVICTION_POLICY, NOW);
+
+    it('takes the oldest non-favorite assets until enough is freed', () => {
+        expect(plan(120).map(c => c.asset.id)).toEqual(['shared', 'older', 'old']);
+        expect(plan(1).map(c => c.asset.id)).toEqual(['shared', 'older']);
+    });
+
+    it('only counts blobs nothing else references and never touches recent assets', () => {
+        const all = plan(Infinity);
+        expect(all.find(c => c.asset.id === 'shared')?.freedBytes).toBe(0); // The favorite still uses it
+        expect(all.map(c => c.asset.id)).not.toContain('new');
+        expect(plan(Infinity, [{ image: 'media://old' }]).find(c => c.asset.id === 'old')?.freedRefs).toEqual([]);
+    });
+});
+
+describe('storage manager', () => {
+    it('evicts stored and live assets and deletes only their unused blobs', async () => {
+        const stale = await putMedia(blob('stale'));
+        const used = await putMedia(blob('used by a node'));
+        const live = await putMedia(blob('live', 'video/mp4'));
+        await saveProject(project('stored'));
+        await saveNodes('stored', [makeNode({ id: 'stored-node', data: { image: used } })]);
+        const daysAgo = (days: number) => ({ timestamp: Date.now() - days * DAY });
+        await saveAssets('stored', [asset('a-stale', stale, 0, daysAgo(30)), asset('a-used', used, 0, daysAgo(20))]);
+
+        const liveAssets = [asset('a-live', live, 0, { type: 'video', ...daysAgo(10) })];
+        const result = await evictAssets({ projectId: 'open', assets: liveAssets, roots: [] }, Infinity, DEFAULT_EVICTION_POLICY);
+
+        expect(result.evicted.map(c => c.asset.id)).toEqual(['a-stale', 'a-used', 'a-live']);
+        expect(result.liveAssets).toEqual([]);
+        expect((await loadAssets('stored')).records).toEqual([]);
+        expect(await getMediaRecord(stale)).toBeUndefined();
+        expect(await getMediaRecord(live)).toBeUndefined();
+        expect(await getMediaRecord(used)).toBeDefined();
+    });
+
+    it('keeps media that quarantined records still reference', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const kept = await putMedia(blob('held by a broken node'));
+        await saveProject(project('broken'));
+        await saveNodes('broken', [{ id: 'broken-node', projectId: 'broken', data: { image: kept } } as any]);
+        expect((await loadProject('broken')).quarantined).toBe(1);
+        await saveAssets('broken', [asset('b-old', kept, 0, { timestamp: Date.now() - 30 * DAY })]);
+
+        const result = await evictAssets({ assets: [], roots: [] }, Infinity, DEFAULT_EVICTION_POLICY);
+        expect(result.evicted.find(c => c.asset.id === 'b-old')?.freedRefs).toEqual([]);
+        expect(await getMediaRecord(kept)).toBeDefined();
+    });
+
+    it('leaves projects that another tab has open alone', async () => {
+        const held = await putMedia(blob('open in another tab'));
+        await saveProject(project('elsewhere'));
+        await saveAssets('elsewhere', [asset('e-old', held, 0, { timestamp: Date.now() - 30 * DAY })]);
+
+        const result = await evictAssets({ assets: [], roots: [] }, Infinity, DEFAULT_EVICTION_POLICY, ['elsewhere']);
+        expect(result.evicted.some(c => c.projectId === 'elsewhere')).toBe(false);
+        expect((await loadAssets('elsewhere')).records.map(a => a.id)).toEqual(['e-old']);
+        expect(await getMediaRecord(held)).toBeDefined();
+    });
+
+    it('breaks stored media down by type and project', async () => {
+        const image = await putMedia(blob('breakdown image'));
+        const audio = await putMedia(blob('breakdown audio!', 'audio/wav'));
+        await saveProject(project('sized'));
+        await saveAssets('sized', [asset('s-image', image, 0), asset('s-audio', audio, 0, { type: 'audio' })]);
+
+        const breakdown = await computeStorageBreakdown();
+        expect(breakdown.byKind.audio).toBeGreaterThanOrEqual(16);
+        expect(breakdown.byProject.find(p => p.projectId === 'sized')?.bytes).toBe(15 + 16);
+        expect(breakdown.mediaBytes).toBe(Object.values(breakdown.byKind).reduce((a, b) => a + b, 0));
+    });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { expandStoryboard, isStoryboardPrompt } from '../services/storyboard';
+import { planStoryboard } from '../services/geminiService';
+import { NodeStatus, NodeType } from '../types';
+import { makeNode, useGenAIMock } from './helpers';
+
+describe('isStoryboardPrompt', () => {
+    it('detects shot-list requests', () => {
+        expect(isStoryboardPrompt('生成 4 个分镜')).toBe(true);
+        expect(isStoryboardPrompt('A storyboard of a chase')).toBe(true);
+        expect(isStoryboardPrompt('a cat on a sofa')).toBe(false);
+    });
+});
+
+describe('expandStoryboard', () => {
+    const source = makeNode({ id: 'src', x: 100, y: 200, width: 400, data: { aspectRatio: '16:9', model: 'gemini-2.5-flash-image', image: 'media://old', imageCount: 4 } });
+
+    it('creates one working image node per shot, wired to the source', () => {
+        const { nodes, connections } = expandStoryboard(source, ['a', 'b', 'c', 'd']);
+        expect(nodes).toHaveLength(4);
+        expect(new Set(nodes.map(n => n.id)).size).toBe(4);
+        nodes.forEach((n, i) => {
+            expect(n.type).toBe(NodeType.IMAGE_GENERATOR);
+            expect(n.status).toBe(NodeStatus.WORKING);
+            expect(n.title).toBe(`分镜 ${i + 1}`);
+            expect(n.inputs).toEqual(['src']);
+            expect(n.data).toMatchObject({ prompt: ['a', 'b', 'c', 'd'][i], model: 'gemini-2.5-flash-image', imageCount: 1, image: undefined });
+        });
+        expect(connections).toEqual(nodes.map(n => ({ from: 'src', to: n.id })));
+    });
+
+    it('lays shots out in a three-column grid to the right of the source', () => {
+        const { nodes } = expandStoryboard(source, ['a', 'b', 'c', 'd']);
+        const height = 400 * 9 / 16;
+        expect(nodes.map(n => [n.x, n.y])).toEqual([
+            [650, 200], [1090, 200], [1530, 200],
+            [650, 200 + height + 40],
+        ]);
+        nodes.forEach(n => { expect(n.width).toBe(400); expect(n.height).toBe(height); });
+    });
+
+    it('wraps the grid in a padded group', () => {
+        const { group } = expandStoryboard(source, ['a', 'b', 'c', 'd']);
+        const height = 400 * 9 / 16;
+        expect(group).toMatchObject({ title: '分镜生成组', x: 620, y: 170, width: 3 * 400 + 2 * 40 + 60, height: 2 * height + 40 + 60 });
+    });
+
+    it('sizes the group to the shots when there are fewer than three', () => {
+        const { group } = expandStoryboard(source, ['a', 'b']);
+        expect(group.width).toBe(2 * 400 + 40 + 60);
+    });
+});
+
+describe('storyboard planning end to end', () => {
+    useGenAIMock({ storyboardShots: 5 });
+
+    it('expands the planned shots into nodes', async () => {
+        const shots = await planStoryboard('storyboard: a heist', '');
+        const { nodes } = expandStoryboard(makeNode({ id: 'src' }), shots);
+        expect(nodes).toHaveLength(5);
+        expect(nodes[4].data.prompt).toMatch(/^Shot 5:/);
+    });
+});
@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { LEADER_LOCK, ProjectChangeScope, TabSync, createTabSync } from '../services/tabSync';
+
+let tabs: TabSync[] = [];
+const openTab = (tabId: string) => {
+    const tab = createTabSync('tab-sync-test', tabId);
+    tabs.push(tab);
+    return tab;
+};
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 300));
+
+afterEach(() => {
+    tabs.forEach(tab => tab.close());
+    tabs = [];
+});
+
+describe('tab sync', () => {
+    it('gives a project one editor and lets the next tab in once it is released', async () => {
+        const a = openTab('tab-a');
+        const b = openTab('tab-b');
+        const released: string[] = [];
+        b.subscribe({ onReleased: projectId => released.push(projectId) });
+
+        expect(await a.acquire('p1')).toBe('editor');
+        expect(await b.acquire('p1')).toBe('readonly');
+        expect(await b.acquire('p2')).toBe('editor');
+
+        a.release('p1');
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(released).toEqual(['p1']);
+        expect(await b.acquire('p1')).toBe('editor');
+    });
+
+    it('settles simultaneous claims on a single editor', async () => {
+        const results = await Promise.all([openTab('tab-2').acquire('p'), openTab('tab-1').acquire('p'), openTab('tab-3').acquire('p')]);
+        expect(results).toEqual(['readonly', 'editor', 'readonly']);
+    });
+
+    it('hands a project over after the holder has saved and forwards change notices', async () => {
+        const a = openTab('tab-a');
+        const b = openTab('tab-b');
+        const events: string[] = [];
+        const changes: ProjectChangeScope[][] = [];
+        a.subscribe({ onTakenOver: async projectId => { await new Promise(resolve => setTimeout(resolve, 20)); events.push(`saved ${projectId}`); } });
+        b.subscribe({ onChanged: (_projectId, scopes) => changes.push(scopes) });
+
+        await a.acquire('p');
+        expect(await b.acquire('p')).toBe('readonly');
+        a.notifyChanged('p', ['assets']);
+
+        await b.takeOver('p');
+        events.push('taken over');
+        expect(events).toEqual(['saved p', 'taken over']);
+        expect(changes).toEqual([['assets']]);
+        expect(await openTab('tab-c').acquire('p')).toBe('readonly');
+    });
+
+    it('follows the new editor after a takeover and gets the project back once it is released', async () => {
+        const a = openTab('tab-a');
+        const b = openTab('tab-b');
+        const events: string[] = [];
+        a.subscribe({
+            onTakenOver: projectId => { events.push(`taken over ${projectId}`); },
+            onChanged: projectId => { if (!a.holds(projectId)) events.push(`mirror ${projectId}`); },
+            onReleased: projectId => { if (!a.holds(projectId)) events.push(`reopen ${projectId}`); },
+        });
+
+        await a.acquire('p');
+        expect(await b.acquire('p')).toBe('readonly');
+        await b.takeOver('p');
+        expect([a.holds('p'), b.holds('p')]).toEqual([false, true]);
+
+        b.notifyChanged('p', ['nodes']);
+        b.release('p');
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(events).toEqual(['taken over p', 'mirror p', 'reopen p']);
+        expect(await a.acquire('p')).toBe('editor');
+        expect(a.holds('p')).toBe(true);
+    });
+
+    it('runs the upkeep in one tab and hands it on when that tab closes', async () => {
+        const a = openTab('tab-a');
+        const b = openTab('tab-b');
+        const runs: string[] = [];
+        a.whenLeader(() => { runs.push('a'); });
+        await settle();
+        b.whenLeader(() => { runs.push('b'); });
+        await settle();
+        expect(runs).toEqual(['a']);
+        expect([a.isLeader(), b.isLeader()]).toEqual([true, false]);
+
+        await a.acquire('p');
+        expect(await b.listTabs()).toEqual([{ tabId: 'tab-a', held: [LEADER_LOCK, 'p'] }]);
+
+        const closed: string[] = [];
+        b.subscribe({ onTabClosed: tabId => closed.push(tabId) });
+        a.close();
+        await settle();
+        expect(runs).toEqual(['a', 'b']);
+        expect(closed).toEqual(['tab-a']);
+        expect(await b.listTabs()).toEqual([]);
+    });
+
+    it('lets go of its locks while suspended and reclaims the upkeep when resumed', async () => {
+        const a = openTab('tab-a');
+        const b = openTab('tab-b');
+        const runs: string[] = [];
+        a.whenLeader(() => { runs.push('a'); });
+        await settle();
+        await a.acquire('p');
+
+        a.suspend();
+        expect(await b.acquire('p')).toBe('editor');
+        expect(await b.listTabs()).toEqual([]);
+
+        a.resume();
+        await settle();
+        expect(runs).toEqual(['a', 'a']);
+        expect(await a.acquire('p')).toBe('readonly');
+    });
+});
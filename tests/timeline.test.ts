@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { makeNode } from './helpers';
+import { createMp4, createWav } from '../mock/syntheticMedia';
+import { putMedia } from '../services/storage';
+import { DEFAULT_STILL_SECONDS, refreshTimeline, syncTimeline, timelineDuration, toRenderOptions } from '../services/timeline';
+import { NodeType, TimelineData } from '../types';
+
+const video = (id: string, videoUri = `media://${id}`) => makeNode({ id, type: NodeType.VIDEO_GENERATOR, data: { videoUri } });
+const image = (id: string) => makeNode({ id, type: NodeType.IMAGE_GENERATOR, data: { image: `media://${id}` } });
+const narration = (id: string) => makeNode({ id, type: NodeType.AUDIO_GENERATOR, data: { audioUri: `media://${id}` } });
+
+describe('timeline', () => {
+    it('lays connected media out on the video and narration tracks in input order', () => {
+        const timeline = syncTimeline(undefined, [video('v1'), narration('a1'), image('i1'), makeNode({ id: 'empty' }), narration('a2')]);
+        expect(timeline.clips.map(c => [c.sourceId, c.kind])).toEqual([['v1', 'video'], ['i1', 'image']]);
+        expect(timeline.audio.map(a => [a.sourceId, a.track, a.start])).toEqual([['a1', 'narration', 0], ['a2', 'narration', 0]]);
+    });
+
+    it('keeps edits while inputs stay and resets items whose output changed', () => {
+        const edited: TimelineData = {
+            clips: [
+                { sourceId: 'i1', kind: 'image', src: 'media://i1', still: 2, crossfade: 0.5 },
+                { sourceId: 'v1', kind: 'video', src: 'media://v1', length: 8, in: 1, out: 4, gap: 1 },
+                { sourceId: 'gone', kind: 'video', src: 'media://gone', length: 8 },
+            ],
+            audio: [{ sourceId: 'a1', track: 'music', src: 'media://a1', length: 6, start: 2, volume: 0.4 }],
+        };
+        const synced = syncTimeline(edited, [video('v1', 'media://v1-new'), image('i1'), narration('a1'), narration('a2')]);
+
+        expect(synced.clips).toEqual([edited.clips[0], { sourceId: 'v1', kind: 'video', src: 'media://v1-new', gap: 1, crossfade: undefined }]);
+        expect(synced.audio).toEqual([edited.audio[0], { sourceId: 'a2', track: 'narration', src: 'media://a2', start: 0 }]);
+        expect(syncTimeline(synced, [video('v1', 'media://v1-new'), image('i1'), narration('a1'), narration('a2')])).toEqual(synced);
+    });
+
+    it('measures sources and turns the cut into render options', async () => {
+        const clip = await putMedia(new Blob([createMp4(8)], { type: 'video/mp4' }));
+        const voice = await putMedia(new Blob([createWav(1.5, 440)], { type: 'audio/wav' }));
+        const timeline = await refreshTimeline(undefined, [
+            makeNode({ id: 'v', type: NodeType.VIDEO_GENERATOR, data: { videoUri: clip } }), image('i'),
+            makeNode({ id: 'a', type: NodeType.AUDIO_GENERATOR, data: { audioUri: voice } }), narration('missing'),
+        ]);
+        expect(timeline.clips.map(c => c.length)).toEqual([8, undefined]);
+        expect(timeline.audio.map(a => a.length)).toEqual([1.5, undefined]);
+
+        timeline.clips[0] = { ...timeline.clips[0], in: 2, out: 5 };
+        timeline.clips[1] = { ...timeline.clips[1], crossfade: 1 };
+        expect(timelineDuration(timeline)).toBe(3 + DEFAULT_STILL_SECONDS - 1);
+        expect(toRenderOptions(timeline)).toEqual({
+            clips: [{ src: clip, in: 2, out: 5, gap: undefined, crossfade: undefined }, { src: 'media://i', still: DEFAULT_STILL_SECONDS, gap: undefined, crossfade: 1 }],
+            audio: [{ src: voice, start: 0, in: undefined, out: undefined, volume: undefined }, { src: 'media://missing', start: 1.5, in: undefined, out: undefined, volume: undefined }],
+        });
+    });
+});
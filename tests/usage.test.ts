@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { generateImageFromText, generateText, startVideoOperations } from '../services/geminiService';
+import { checkBudget, costOf, estimateNodeCost, estimateRunCost, loadProjectUsage, recordUsage, setUsageProject, summarizeUsage } from '../services/usage';
+import { NodeType } from '../types';
+import { makeNode, useGenAIMock } from './helpers';
+
+describe('cost estimates', () => {
+    it('prices images, video seconds and tokens', () => {
+        expect(costOf({ model: 'gemini-2.5-flash-image', images: 2 })).toBeCloseTo(0.078);
+        expect(costOf({ model: 'gemini-3-pro-image-preview', images: 1, resolution: '4k' })).toBeCloseTo(0.24);
+        expect(costOf({ model: 'veo-3.1-generate-preview', videoSeconds: 8 })).toBeCloseTo(3.2);
+        expect(costOf({ model: 'gemini-3-pro-preview', inputTokens: 1e6, outputTokens: 1e6 })).toBeCloseTo(14);
+        expect(costOf({ model: 'mock-image', images: 4 })).toBe(0);
+    });
+
+    it('estimates a node from its model, count, duration and resolution', () => {
+        const video = makeNode({ type: NodeType.VIDEO_GENERATOR, data: { model: 'veo-3.1-fast-generate-preview', videoCount: 2, duration: 4 } });
+        expect(estimateNodeCost(video)).toBeCloseTo(0.15 * 4 * 2);
+
+        const defaultLength = makeNode({ type: NodeType.VIDEO_GENERATOR, data: { model: 'wan-2.5-preview', resolution: '1080p' } });
+        expect(estimateNodeCost(defaultLength)).toBeCloseTo(0.15 * 5);
+
+        const prompt = makeNode({ type: NodeType.PROMPT_INPUT, data: { prompt: 'hello' } });
+        expect(estimateRunCost([video, prompt])).toBeCloseTo(estimateNodeCost(video));
+    });
+
+    it('reports every budget a run would exceed', () => {
+        expect(checkBudget(1, 0, { mode: 'warn' })).toEqual([]);
+        expect(checkBudget(1, 0, { mode: 'warn', perRun: 2, perProject: 5 })).toEqual([]);
+        expect(checkBudget(3, 4, { mode: 'block', perRun: 2, perProject: 5 })).toHaveLength(2);
+        expect(checkBudget(1, 4.5, { mode: 'block', perProject: 5 })).toHaveLength(1);
+    });
+
+    it('summarizes by provider, model and node', () => {
+        const summary = summarizeUsage([
+            { id: '1', projectId: 'p', nodeId: 'a', provider: 'gemini', model: 'm1', modality: 'image', cost: 1, timestamp: 1 },
+            { id: '2', projectId: 'p', nodeId: 'a', provider: 'gemini', model: 'm2', modality: 'text', cost: 0.5, timestamp: 2 },
+            { id: '3', projectId: 'p', provider: 'pollo', model: 'm3', modality: 'video', cost: 2, timestamp: 3 },
+        ]);
+        expect(summary.total).toBeCloseTo(3.5);
+        expect(summary.byProvider).toEqual({ gemini: 1.5, pollo: 2 });
+        expect(summary.byModel.m1).toEqual({ cost: 1, calls: 1 });
+        expect(summary.byNode).toEqual({ a: 1.5 });
+    });
+});
+
+describe('usage ledger', () => {
+    useGenAIMock();
+
+    it('records image calls with the tag they were made for', async () => {
+        await generateImageFromText('a cat', 'gemini-2.5-flash-image', [], { count: 1, resolution: '2k', usage: { projectId: 'ledger-1', nodeId: 'n1' } });
+        const [record] = await loadProjectUsage('ledger-1');
+        expect(record).toMatchObject({ provider: 'gemini', model: 'gemini-2.5-flash-image', modality: 'image', images: 1, resolution: '2k', nodeId: 'n1', inputTokens: 1 });
+        expect(record.cost).toBeGreaterThan(0.039);
+    });
+
+    it('books video seconds at submission', async () => {
+        await startVideoOperations('waves', 'veo-3.1-fast-generate-preview', { count: 2, duration: 6, usage: { projectId: 'ledger-2' } });
+        const [record] = await loadProjectUsage('ledger-2');
+        expect(record).toMatchObject({ modality: 'video', videoSeconds: 12, resolution: '720p' });
+        expect(record.cost).toBeCloseTo(0.15 * 12);
+    });
+
+    it('books untagged calls to the open project', async () => {
+        setUsageProject('ledger-3');
+        try {
+            await generateText('hi', 'gemini-3-flash-preview');
+            recordUsage({ provider: 'pollo', model: 'wan-2.1-t2v-14b', modality: 'video', videoSeconds: 5, resolution: '480p' });
+        } finally {
+            setUsageProject(undefined);
+        }
+        const records = await loadProjectUsage('ledger-3');
+        expect(records.map(r => r.provider).sort()).toEqual(['gemini', 'pollo']);
+        expect(summarizeUsage(records).byProvider.pollo).toBeCloseTo(0.2);
+    });
+});
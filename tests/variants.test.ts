@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { deleteVariant, keepPinnedVariants, listVariants, selectVariant, togglePinVariant, variantKind } from '../services/variants';
+import { NodeType } from '../types';
+import { makeNode } from './helpers';
+
+const imageNode = () => makeNode({ data: { image: 'media://b', images: ['media://a', 'media://b', 'media://c'], pinnedVariants: ['media://b'] } }).data;
+
+describe('output variants', () => {
+    it('treats a video fallback still as an image variant', () => {
+        const still = makeNode({ type: NodeType.VIDEO_GENERATOR, data: { image: 'media://still' } }).data;
+        expect(variantKind(still)).toBe('image');
+        expect(listVariants(still)).toEqual(['media://still']);
+
+        const video = makeNode({ type: NodeType.VIDEO_GENERATOR, data: { videoUri: 'v2', videoUris: ['v1', 'v2'] } }).data;
+        expect(variantKind(video)).toBe('video');
+        expect(selectVariant(video, 'v1')).toEqual({ videoUri: 'v1' });
+    });
+
+    it('promotes the next variant when the primary one is deleted', () => {
+        expect(deleteVariant(imageNode(), 'media://b')).toEqual({ images: ['media://a', 'media://c'], image: 'media://c', pinnedVariants: undefined });
+        expect(deleteVariant(imageNode(), 'media://c')).toMatchObject({ images: ['media://a', 'media://b'], image: 'media://b', pinnedVariants: ['media://b'] });
+        expect(deleteVariant(imageNode(), 'media://missing')).toEqual({});
+    });
+
+    it('toggles pins', () => {
+        expect(togglePinVariant(imageNode(), 'media://a')).toEqual({ pinnedVariants: ['media://b', 'media://a'] });
+        expect(togglePinVariant(imageNode(), 'media://b')).toEqual({ pinnedVariants: undefined });
+    });
+
+    it('keeps pinned variants ahead of a new run', () => {
+        expect(keepPinnedVariants(imageNode(), ['new-1', 'new-2'])).toEqual(['media://b', 'new-1', 'new-2']);
+        // Pins that no longer belong to the node are dropped
+        expect(keepPinnedVariants({ ...imageNode(), pinnedVariants: ['media://gone'] }, ['new-1'])).toEqual(['new-1']);
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getGenerationStrategy } from '../services/videoStrategies';
+import { NodeType } from '../types';
+import { makeNode, PNG_SIGNATURE, useGenAIMock } from './helpers';
+
+const IMG_A = 'data:image/png;base64,AAAA';
+const IMG_B = 'data:image/png;base64,BBBB';
+const CROP = 'data:image/png;base64,CCCC';
+const VIDEO = 'data:video/mp4;base64,VVVV';
+
+const videoNode = (generationMode: any, data = {}) => makeNode({ type: NodeType.VIDEO_GENERATOR, data: { generationMode, ...data } });
+
+describe('getGenerationStrategy', () => {
+    const api = useGenAIMock();
+
+    it('DEFAULT prefers a cropped frame over the full image', async () => {
+        const inputs = [makeNode({ data: { image: IMG_A, croppedFrame: CROP } })];
+        const res = await getGenerationStrategy(videoNode('DEFAULT'), inputs, 'go');
+        expect(res).toEqual({ finalPrompt: 'go', videoInput: null, inputImageForGeneration: CROP, referenceImages: undefined, generationMode: 'DEFAULT' });
+        expect(api.current().calls).toHaveLength(0);
+    });
+
+    it('treats a missing mode as DEFAULT text-to-video', async () => {
+        const res = await getGenerationStrategy(videoNode(undefined), [], 'go');
+        expect(res.generationMode).toBe('DEFAULT');
+        expect(res.inputImageForGeneration).toBeNull();
+    });
+
+    it('FIRST_LAST_FRAME passes every input image and orchestrates a bridging prompt', async () => {
+        const inputs = [makeNode({ data: { image: IMG_A } }), makeNode({ data: { image: IMG_B } })];
+        const res = await getGenerationStrategy(videoNode('FIRST_LAST_FRAME'), inputs, 'morph');
+        expect(res.generationMode).toBe('FIRST_LAST_FRAME');
+        expect(res.referenceImages).toEqual([IMG_A, IMG_B]);
+        expect(res.inputImageForGeneration).toBe(IMG_A);
+        expect(res.finalPrompt).toContain('Mock response:');
+        expect(res.finalPrompt).toContain('morph');
+    });
+
+    it('FIRST_LAST_FRAME with a single image keeps the user prompt', async () => {
+        const res = await getGenerationStrategy(videoNode('FIRST_LAST_FRAME'), [makeNode({ data: { image: IMG_A } })], 'morph');
+        expect(res.finalPrompt).toBe('morph');
+        expect(api.current().calls).toHaveLength(0);
+    });
+
+    it('CUT analyzes upstream style and restores the crop', async () => {
+        const inputs = [makeNode({ type: NodeType.VIDEO_GENERATOR, data: { videoUri: VIDEO, croppedFrame: CROP } })];
+        const res = await getGenerationStrategy(videoNode('CUT', { aspectRatio: '9:16' }), inputs, 'close up');
+        expect(res.generationMode).toBe('CUT');
+        expect(res.finalPrompt).toContain('Style: Mock analysis: Analyze the visual style briefly.');
+        expect(res.inputImageForGeneration).toMatch(new RegExp(`^data:image/png;base64,${PNG_SIGNATURE}`));
+        const restore = api.current().calls.find(c => c.model === 'gemini-2.5-flash-image');
+        expect(restore?.body.generationConfig.imageConfig.aspectRatio).toBe('9:16');
+    });
+
+    it('CHARACTER_REF prefixes the motion description', async () => {
+        const inputs = [makeNode({ data: { videoUri: VIDEO } }), makeNode({ data: { image: IMG_A } })];
+        const res = await getGenerationStrategy(videoNode('CHARACTER_REF'), inputs, 'dance');
+        expect(res.generationMode).toBe('CHARACTER_REF');
+        expect(res.inputImageForGeneration).toBe(IMG_A);
+        expect(res.finalPrompt).toBe('Motion: Mock analysis: Describe only the motion and camera movement.. dance');
+    });
+
+    it('CONTINUE extends the upstream Veo clip instead of grabbing its last frame', async () => {
+        const source = { uri: 'https://veo.test/files/video-1:download?alt=media', mimeType: 'video/mp4' };
+        // As the job queue stores it: the clip is in the media store and the video object names it
+        const upstream = makeNode({ data: { videoUri: 'media://clip-1', videoUris: ['media://clip-1', 'media://clip-2'], videoMetadata: { ...source, mediaRef: 'media://clip-1' } } });
+        const res = await getGenerationStrategy(videoNode('CONTINUE', { model: 'veo-3.1-generate-preview' }), [upstream], 'next');
+        expect(res).toEqual({ finalPrompt: 'next', videoInput: source, inputImageForGeneration: null, referenceImages: undefined, generationMode: 'CONTINUE' });
+    });
+
+    it('CONTINUE falls back to the last frame when the clip cannot be extended', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const source = { uri: 'https://veo.test/files/video-1:download?alt=media', mediaRef: 'media://clip-1' };
+        // A different variant is shown, and a model without extension gets the clip anyway
+        const picked = makeNode({ data: { videoUri: VIDEO, videoMetadata: source } });
+        const shown = makeNode({ data: { videoUri: 'media://clip-1', videoMetadata: source } });
+        expect((await getGenerationStrategy(videoNode('CONTINUE', { model: 'veo-3.1-generate-preview' }), [picked], 'next')).videoInput).toBeNull();
+        expect((await getGenerationStrategy(videoNode('CONTINUE', { model: 'mock-video' }), [shown], 'next')).videoInput).toBeNull();
+    });
+
+    it('CONTINUE survives a failed frame extraction', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const res = await getGenerationStrategy(videoNode('CONTINUE'), [makeNode({ data: { videoUri: VIDEO } })], 'next');
+        expect(res.generationMode).toBe('CONTINUE');
+        expect(res.inputImageForGeneration).toBeNull();
+    });
+});
@@ -6,6 +6,8 @@ export enum NodeType {
   VIDEO_ANALYZER = 'VIDEO_ANALYZER',
   IMAGE_EDITOR = 'IMAGE_EDITOR',
   AUDIO_GENERATOR = 'AUDIO_GENERATOR',
+  TIMELINE = 'TIMELINE',
+  AUDIO_MERGE = 'AUDIO_MERGE',
 }
 
 export enum NodeStatus {
@@ -15,6 +17,12 @@ export enum NodeStatus {
   ERROR = 'ERROR',
 }
 
+// One failed slot of a batch generation (index is the 0-based slot as requested)
+export interface VariantError {
+  index: number;
+  message: string;
+}
+
 export type VideoGenerationMode = 'DEFAULT' | 'CONTINUE' | 'CUT' | 'FIRST_LAST_FRAME' | 'CHARACTER_REF';
 
 export interface AppNode {
@@ -35,11 +43,13 @@ export interface AppNode {
     videoCount?: number; // Number of videos to generate (1-4)
     videoUri?: string; // URL
     videoUris?: string[]; // Array of URLs (for multiple video generations)
+    pinnedVariants?: string[]; // Variants (from images/videoUris) kept when the node is generated again
     videoMetadata?: any; // Stores the raw Video object from Gemini API for extension
     audioUri?: string; // Base64 or Blob URL for Audio Node
     analysis?: string; // Video analysis result
     error?: string;
-    progress?: string;
+    progress?: string; // Batch progress while working, e.g. "2/4"
+    variantErrors?: VariantError[]; // Variants of the last batch that failed while others succeeded
     aspectRatio?: string; // e.g., '16:9', '4:3'
     resolution?: string; // e.g., '1080p', '4k'
     duration?: number; // Duration in seconds (for Audio/Video)
@@ -51,6 +61,15 @@ export interface AppNode {
     
     // Input Management
     sortedInputIds?: string[]; // Order of input nodes for multi-image composition
+
+    // Timeline editing (TIMELINE nodes)
+    timeline?: TimelineData;
+
+    // Audio + video merge (AUDIO_MERGE nodes)
+    audioMerge?: AudioMergeSettings;
+
+    // Dirty Tracking
+    runHash?: string; // Content hash of params + upstream outputs at the last successful run
   };
   inputs: string[]; // IDs of nodes this node connects FROM
 }
@@ -76,6 +95,44 @@ export interface ContextMenuState {
   id?: string;
 }
 
+// What produced a generated asset. Uploaded or hand-edited media have none.
+export interface AssetProvenance {
+  provider: string;
+  model?: string;
+  prompt?: string; // Prompt as written on the node
+  sentPrompt?: string; // Prompt actually sent, after upstream text and video strategies were applied
+  params: { aspectRatio?: string; resolution?: string; duration?: number; count?: number };
+  generationMode?: VideoGenerationMode;
+  inputs: string[]; // Media the asset was generated from, as media:// refs or URLs
+  edit?: { timeline?: TimelineData; audioMerge?: AudioMergeSettings }; // Settings of a local render (provider 'local')
+  nodeId?: string;
+  projectId?: string;
+  createdAt: number;
+}
+
+export interface Asset {
+  id: string;
+  type: 'image' | 'video' | 'audio';
+  src: string; // media:// ref, data URI or remote URL
+  title: string;
+  timestamp: number;
+  provenance?: AssetProvenance;
+  tags?: string[];
+  folder?: string; // Library folder; unfiled when absent
+  favorite?: boolean;
+}
+
+export interface Project {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  lastOpenedAt: number;
+  viewport: { x: number, y: number, scale: number };
+  connections: Connection[];
+  groups: Group[];
+}
+
 export interface Workflow {
   id: string;
   title: string;
@@ -95,6 +152,44 @@ export interface SmartSequenceItem {
     };
 }
 
+// Timeline node: one video track plus narration and music tracks, each item taken from an upstream node
+export interface TimelineClip {
+    sourceId: string; // Upstream node the media comes from
+    kind: 'video' | 'image';
+    src: string;
+    length?: number; // Source duration in seconds, once probed (videos)
+    in?: number;
+    out?: number;
+    still?: number; // Seconds an image is held
+    gap?: number; // Seconds of black before the clip
+    crossfade?: number; // Seconds of overlap with the previous clip
+}
+
+export interface TimelineAudioClip {
+    sourceId: string;
+    track: 'narration' | 'music';
+    src: string;
+    length?: number;
+    start: number; // Seconds on the timeline
+    in?: number;
+    out?: number;
+    volume?: number; // Linear gain, 1 = as recorded
+}
+
+export interface TimelineData {
+    clips: TimelineClip[]; // In playback order
+    audio: TimelineAudioClip[];
+}
+
+// Merge node: how the upstream audio is laid under the upstream video
+export interface AudioMergeSettings {
+    offset?: number; // Seconds into the video the audio starts; negative starts partway into the audio
+    volume?: number; // Linear gain, 1 = as recorded
+    fadeIn?: number; // Seconds
+    fadeOut?: number;
+    fit?: 'trim' | 'loop'; // Audio shorter than the video plays once or repeats; longer audio is cut at the video's end
+}
+
 // Window interface for Google AI Studio key selection
 declare global {
   interface AIStudio {
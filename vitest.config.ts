@@ -0,0 +1,17 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+// Separate from vite.config.ts so the API key `define`s don't bake build-time values into the tests
+export default defineConfig({
+    resolve: {
+        alias: {
+            '@': path.resolve(__dirname, '.'),
+        }
+    },
+    test: {
+        environment: 'node',
+        include: ['tests/**/*.test.ts'],
+        setupFiles: ['tests/setup.ts'],
+        restoreMocks: true,
+    },
+});